@@ -125,7 +125,10 @@ export default defineConfig({
             { label: "Flow Variants", link: "/guides/flow-variants" },
             { label: "Persistence", link: "/guides/persistence" },
             { label: "Callbacks", link: "/guides/callbacks" },
+            { label: "Middleware", link: "/guides/middleware" },
             { label: "Custom Layouts", link: "/guides/custom-layouts" },
+            { label: "Flow Diagrams", link: "/guides/diagrams" },
+            { label: "CLI", link: "/guides/cli" },
             {
               label: "Global Configuration",
               link: "/guides/global-configuration",
@@ -31,10 +31,12 @@ export function FlowVisualizer() {
     const pathStepIds = path.map((entry) => entry.stepId);
     return Object.entries(steps).map(([id, config]) => ({
       id,
-      label: id
-        .split(/(?=[A-Z])/) // Split on capital letters (camelCase)
-        .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
-        .join(" "), // Convert to "Title Case"
+      label:
+        config.meta?.title ??
+        id
+          .split(/(?=[A-Z])/) // Split on capital letters (camelCase)
+          .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+          .join(" "), // Fall back to the step id in "Title Case"
       next: config.next,
       isActive: stepId === id,
       isCompleted: status === "complete" && pathStepIds.includes(id),
@@ -1,5 +1,5 @@
 import { useQuery } from "@tanstack/react-query";
-import { defineFlow, Flow, type FlowDefinition } from "@useflow/react";
+import { defineFlow, Flow, parseFlowDefinition } from "@useflow/react";
 import { useMemo, useState } from "react";
 import { AnimateFlowStep } from "@/components/AnimateFlowStep";
 import { FlowInspector } from "@/components/FlowInspector";
@@ -42,15 +42,27 @@ export function RemoteFlowDemo() {
   // Fetch remote flow config using TanStack Query
   const { data: flowConfig, isLoading: loading } = useQuery({
     queryKey: ["flowConfig", "onboarding-flow", selectedConfig],
-    queryFn: () => fetchFlowConfig("onboarding-flow", selectedConfig),
+    queryFn: async () => {
+      // The payload is untrusted - check it before it reaches defineFlow
+      const result = parseFlowDefinition(
+        await fetchFlowConfig("onboarding-flow", selectedConfig),
+      );
+      if (!result.success) {
+        throw new Error(
+          `Invalid flow configuration:\n${result.issues
+            .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+            .join("\n")}`,
+        );
+      }
+      return result.definition;
+    },
     staleTime: 1000 * 60,
   });
 
-  // Convert remote config to RuntimeFlowDefinition
-  // In production, validate flowConfig schema before casting
+  // Convert the parsed remote config to RuntimeFlowDefinition
   const flowDefinition = useMemo(() => {
     if (!flowConfig) return null;
-    return defineFlow(flowConfig as FlowDefinition);
+    return defineFlow(flowConfig);
   }, [flowConfig]);
 
   return (
@@ -115,7 +127,8 @@ export function RemoteFlowDemo() {
                     Extended Variant
                   </h3>
                   <p className="text-xs lg:text-sm text-muted-foreground">
-                    Comprehensive onboarding. Includes survey and newsletter.
+                    Comprehensive onboarding. Includes newsletter, plus a survey
+                    for business accounts.
                   </p>
                 </div>
               </TabsContent>
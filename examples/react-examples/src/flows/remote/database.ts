@@ -45,7 +45,13 @@ export const extendedFlowConfig = {
     welcome: { next: "account" },
     account: { next: "verification" },
     verification: { next: "profile" },
-    profile: { next: "survey" },
+    // Branching without a client-side resolver - only business users get the survey
+    profile: {
+      next: [
+        { when: { "ctx.userType": { eq: "business" } }, to: "survey" },
+        { to: "newsletter" },
+      ],
+    },
     survey: { next: "newsletter" },
     newsletter: { next: "preferences" },
     preferences: { next: "complete" },
@@ -0,0 +1,156 @@
+import type { FlowDefinition } from "@useflow/core";
+import { describe, expect, it } from "vitest";
+import { generateFlowModule } from "./codegen";
+
+const definition: FlowDefinition = {
+  id: "user-onboarding",
+  version: "v2",
+  start: "welcome",
+  steps: {
+    welcome: { next: "accountType", meta: { title: "Welcome" } },
+    accountType: { next: ["business", "personal"] },
+    business: {
+      next: [
+        { when: { "ctx.seats": { gt: 5 } }, to: "sales-call" },
+        { to: "done" },
+      ],
+    },
+    personal: { next: "done" },
+    "sales-call": { next: "done" },
+    done: {},
+  },
+};
+
+describe("generateFlowModule", () => {
+  it("should emit the definition as const with step name aliases", () => {
+    const source = generateFlowModule(definition, {
+      source: "flows/user-onboarding.json",
+    });
+
+    expect(source).toContain(
+      "// Generated by `useflow codegen` from flows/user-onboarding.json - do not edit.",
+    );
+    expect(source).toContain(
+      [
+        "export const userOnboardingDefinition = {",
+        '  id: "user-onboarding",',
+        '  version: "v2",',
+        '  start: "welcome",',
+        "  steps: {",
+        "    welcome: {",
+        '      next: "accountType",',
+        "      meta: {",
+        '        title: "Welcome",',
+        "      },",
+        "    },",
+        "    accountType: {",
+        '      next: ["business", "personal"],',
+        "    },",
+        "    business: {",
+        "      next: [",
+        "        {",
+        "          when: {",
+        '            "ctx.seats": {',
+        "              gt: 5,",
+        "            },",
+        "          },",
+        '          to: "sales-call",',
+        "        },",
+      ].join("\n"),
+    );
+    expect(source).toContain('    "sales-call": {\n');
+    expect(source).toContain("} as const satisfies FlowDefinition;");
+    expect(source).toContain(
+      "export const userOnboardingFlow = defineFlow(userOnboardingDefinition);",
+    );
+    expect(source).toContain(
+      "export type UserOnboardingStepName = StepNames<typeof userOnboardingDefinition>;",
+    );
+    expect(source).toContain(
+      "export type UserOnboardingNextSteps<TStep extends UserOnboardingStepName> = ValidNextSteps<",
+    );
+  });
+
+  it("should emit typed resolver stubs for steps with several next steps", () => {
+    const source = generateFlowModule(definition);
+
+    expect(source).toContain(
+      [
+        "export type UserOnboardingResolvers<TContext extends FlowContext = FlowContext> = {",
+        '  accountType: ResolveFunction<TContext, UserOnboardingNextSteps<"accountType">>;',
+        "};",
+      ].join("\n"),
+    );
+    expect(source).toContain(
+      [
+        "export const userOnboardingResolvers: UserOnboardingResolvers = {",
+        "  // Next steps: business, personal",
+        '  accountType: () => "business",',
+        "};",
+      ].join("\n"),
+    );
+  });
+
+  it("should only import what the module uses", () => {
+    const linear: FlowDefinition = {
+      id: "checkoutFlow",
+      start: "cart",
+      steps: { cart: { next: "done" }, done: {} },
+    };
+
+    const source = generateFlowModule(linear, { importFrom: "@useflow/vue" });
+
+    expect(source).toContain(
+      [
+        "import {",
+        "  defineFlow,",
+        "  type FlowDefinition,",
+        "  type StepNames,",
+        "  type ValidNextSteps,",
+        '} from "@useflow/vue";',
+      ].join("\n"),
+    );
+    expect(source).toContain("export const checkoutFlow = defineFlow(");
+    expect(source).not.toContain("Resolvers");
+  });
+
+  it("should keep hostile ids out of comments", () => {
+    const source = generateFlowModule(
+      {
+        id: "evil */ export const x = 1;\n/*",
+        start: "pick */\nthrow 1;",
+        steps: {
+          "pick */\nthrow 1;": { next: ["a */ b", "c\nd"] },
+          "a */ b": {},
+          "c\nd": {},
+        },
+      },
+      { source: "flows/\nevil.json" },
+    );
+
+    const comments = source
+      .split("\n")
+      .filter((line) => /^\s*(\/\/|\/\*\*|\*)/.test(line));
+    expect(comments).toContain(
+      " * Resolvers for the steps of evil *\\/ export const x = 1; /* with several next steps",
+    );
+    expect(comments).toContain("  // Next steps: a *\\/ b, c d");
+    expect(comments).toContain(
+      "// Generated by `useflow codegen` from flows/ evil.json - do not edit.",
+    );
+    // Only the block comments' own terminators end a comment
+    expect(comments.filter((line) => line.includes("*/"))).toEqual([
+      " */",
+      " */",
+    ]);
+  });
+
+  it("should leave out $schema", () => {
+    const source = generateFlowModule({
+      $schema: "https://useflow.sh/flow-definition.schema.json",
+      ...definition,
+    } as FlowDefinition);
+
+    expect(source).not.toContain("$schema");
+  });
+});
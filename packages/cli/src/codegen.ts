@@ -0,0 +1,175 @@
+import type { FlowDefinition } from "@useflow/core";
+
+/**
+ * Options for generateFlowModule()
+ */
+export type GenerateFlowModuleOptions = {
+  /** Adapter package the module imports from (defaults to "@useflow/react") */
+  importFrom?: string;
+  /** File the definition was read from, mentioned in the header comment */
+  source?: string;
+};
+
+/**
+ * Generates a TypeScript module for a flow definition (e.g. a remote JSON
+ * config), so the flow gets the same types as one written with defineFlow()
+ *
+ * For a flow with the id "onboarding" the module exports:
+ * - `onboardingDefinition`: the definition `as const`
+ * - `onboardingFlow`: defineFlow(onboardingDefinition), with the typed
+ *   useFlowState({ step }) hook
+ * - `OnboardingStepName` and `OnboardingNextSteps<TStep>`: step name aliases
+ * - `OnboardingResolvers<TContext>` and `onboardingResolvers`: for flows with
+ *   steps whose next is a list of step ids, the resolvers they need and stubs
+ *   that pick the first listed step
+ *
+ * @param definition - Flow definition (assumed valid, e.g. from parseFlowDefinition())
+ * @param options - Adapter package and source file
+ * @returns The module source
+ */
+export function generateFlowModule(
+  definition: FlowDefinition,
+  options?: GenerateFlowModuleOptions,
+): string {
+  const name = getFlowName(definition.id);
+  const typeName = name.charAt(0).toUpperCase() + name.slice(1);
+  const names = {
+    definition: `${name}Definition`,
+    flow: `${name}Flow`,
+    stepName: `${typeName}StepName`,
+    nextSteps: `${typeName}NextSteps`,
+    resolvers: `${typeName}Resolvers`,
+    resolverStubs: `${name}Resolvers`,
+  };
+
+  // Steps with several next step ids need a resolver (or next(target))
+  const choices = Object.entries(definition.steps).flatMap(([stepId, step]) =>
+    Array.isArray(step.next) &&
+    step.next.length > 1 &&
+    step.next.every((target) => typeof target === "string")
+      ? [{ stepId, targets: step.next as readonly string[] }]
+      : [],
+  );
+
+  const imports = [
+    "defineFlow",
+    "type FlowDefinition",
+    "type StepNames",
+    "type ValidNextSteps",
+  ];
+  if (choices.length > 0) {
+    imports.push("type FlowContext", "type ResolveFunction");
+  }
+  imports.sort((a, b) =>
+    a.replace("type ", "").localeCompare(b.replace("type ", "")),
+  );
+
+  // $schema only points editors at the JSON Schema - it isn't a definition property
+  const { $schema: _schema, ...literal } = definition as FlowDefinition & {
+    $schema?: string;
+  };
+
+  const lines = [
+    `// Generated by \`useflow codegen\`${options?.source ? ` from ${toCommentText(options.source)}` : ""} - do not edit.`,
+    "// Run the command again when the definition changes.",
+    "",
+    `import {\n${imports.map((entry) => `  ${entry},\n`).join("")}} from ${JSON.stringify(options?.importFrom ?? "@useflow/react")};`,
+    "",
+    `export const ${names.definition} = ${toLiteral(literal, "")} as const satisfies FlowDefinition;`,
+    "",
+    `export const ${names.flow} = defineFlow(${names.definition});`,
+    "",
+    `export type ${names.stepName} = StepNames<typeof ${names.definition}>;`,
+    "",
+    `export type ${names.nextSteps}<TStep extends ${names.stepName}> = ValidNextSteps<\n  typeof ${names.definition},\n  TStep\n>;`,
+  ];
+
+  if (choices.length > 0) {
+    lines.push(
+      "",
+      "/**",
+      ` * Resolvers for the steps of ${toCommentText(definition.id)} with several next steps`,
+      " */",
+      `export type ${names.resolvers}<TContext extends FlowContext = FlowContext> = {`,
+      ...choices.map(
+        ({ stepId }) =>
+          `  ${toKey(stepId)}: ResolveFunction<TContext, ${names.nextSteps}<${JSON.stringify(stepId)}>>;`,
+      ),
+      "};",
+      "",
+      "/**",
+      " * Resolver stubs that pick the first listed step",
+      ` * Pass your own to ${names.flow}.with() - spread these to keep the stubs for`,
+      " * steps you don't handle yet.",
+      " */",
+      `export const ${names.resolverStubs}: ${names.resolvers} = {`,
+      ...choices.map(
+        ({ stepId, targets }) =>
+          `  // Next steps: ${toCommentText(targets.join(", "))}\n  ${toKey(stepId)}: () => ${JSON.stringify(targets[0])},`,
+      ),
+      "};",
+    );
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * camelCase identifier for a flow id ("user-onboarding" → "userOnboarding")
+ * A trailing "flow" is dropped so the exports don't read "onboardingFlowFlow".
+ */
+function getFlowName(flowId: string): string {
+  const name = flowId
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map(
+      (word, i) =>
+        (i === 0
+          ? word.charAt(0).toLowerCase()
+          : word.charAt(0).toUpperCase()) + word.slice(1),
+    )
+    .join("")
+    .replace(/(?<=.)Flow$/, "");
+  if (name === "") return "flow";
+  return /^[0-9]/.test(name) ? `flow${name}` : name;
+}
+
+/**
+ * Ids and paths are untrusted text - a line break would end a // comment
+ * and "*\/" a block comment
+ */
+function toCommentText(text: string): string {
+  return text.replace(/\*\//g, "*\\/").replace(/[\r\n\u2028\u2029]+/g, " ");
+}
+
+const identifier = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+function toKey(key: string): string {
+  return identifier.test(key) ? key : JSON.stringify(key);
+}
+
+/**
+ * TypeScript object literal for a JSON value, with unquoted keys where possible
+ */
+function toLiteral(value: unknown, indent: string): string {
+  if (Array.isArray(value)) {
+    if (value.every((item) => typeof item !== "object" || item === null)) {
+      return `[${value.map((item) => JSON.stringify(item)).join(", ")}]`;
+    }
+    const inner = `${indent}  `;
+    return `[\n${value.map((item) => `${inner}${toLiteral(item, inner)},\n`).join("")}${indent}]`;
+  }
+  if (typeof value === "object" && value !== null) {
+    const entries = Object.entries(value).filter(
+      ([, item]) => item !== undefined,
+    );
+    if (entries.length === 0) return "{}";
+    const inner = `${indent}  `;
+    return `{\n${entries
+      .map(
+        ([key, item]) => `${inner}${toKey(key)}: ${toLiteral(item, inner)},\n`,
+      )
+      .join("")}${indent}}`;
+  }
+  return JSON.stringify(value);
+}
@@ -0,0 +1,57 @@
+import type { FlowDefinition } from "@useflow/core";
+import { describe, expect, it } from "vitest";
+import { diffFlowDefinitions } from "./diff";
+
+const before: FlowDefinition = {
+  id: "onboarding",
+  version: "v1",
+  start: "welcome",
+  steps: {
+    welcome: { next: "profile" },
+    profile: {
+      next: [
+        { when: { "ctx.plan": { in: ["pro", "team"] } }, to: "billing" },
+        { to: "done" },
+      ],
+      meta: { title: "Profile", weight: 2 },
+    },
+    billing: { next: "done" },
+    done: {},
+  },
+};
+
+describe("diffFlowDefinitions", () => {
+  it("should report no changes for structurally equal definitions", () => {
+    const reordered = JSON.parse(JSON.stringify(before));
+    reordered.steps.profile.meta = { weight: 2, title: "Profile" };
+
+    expect(diffFlowDefinitions(before, reordered)).toEqual([]);
+  });
+
+  it("should report added, removed and changed steps", () => {
+    const after: FlowDefinition = {
+      id: "onboarding",
+      version: "v2",
+      start: "welcome",
+      steps: {
+        welcome: { next: "profile" },
+        profile: { next: "survey", meta: { title: "Profile", weight: 2 } },
+        survey: { next: "done" },
+        done: {},
+      },
+    };
+
+    expect(diffFlowDefinitions(before, after)).toEqual([
+      { type: "changed", property: "version", before: "v1", after: "v2" },
+      { type: "removed", stepId: "billing" },
+      {
+        type: "changed",
+        stepId: "profile",
+        property: "next",
+        before: before.steps.profile?.next,
+        after: "survey",
+      },
+      { type: "added", stepId: "survey" },
+    ]);
+  });
+});
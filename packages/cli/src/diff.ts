@@ -0,0 +1,106 @@
+import type { FlowDefinition } from "@useflow/core";
+
+/**
+ * A structural difference between two versions of a flow definition
+ * - "added"/"removed": a step
+ * - "changed": a flow property (start, version, ...) or a step's property
+ *   (next, loop, meta, ...)
+ */
+export type FlowChange =
+  | { type: "added"; stepId: string }
+  | { type: "removed"; stepId: string }
+  | {
+      type: "changed";
+      /** Step the change belongs to (undefined for flow properties) */
+      stepId?: string;
+      property: string;
+      before: unknown;
+      after: unknown;
+    };
+
+const flowProperties = ["id", "start", "version", "variantId"] as const;
+
+/**
+ * Compares two versions of a flow definition
+ * Values are compared structurally, so formatting and key order don't matter.
+ *
+ * @param before - Previous definition
+ * @param after - New definition
+ * @returns Changes to flow properties first, then steps in definition order
+ */
+export function diffFlowDefinitions(
+  before: FlowDefinition,
+  after: FlowDefinition,
+): FlowChange[] {
+  const changes: FlowChange[] = [];
+
+  for (const property of flowProperties) {
+    if (!isEqual(before[property], after[property])) {
+      changes.push({
+        type: "changed",
+        property,
+        before: before[property],
+        after: after[property],
+      });
+    }
+  }
+
+  for (const stepId of Object.keys(before.steps)) {
+    if (!Object.hasOwn(after.steps, stepId)) {
+      changes.push({ type: "removed", stepId });
+    }
+  }
+
+  for (const [stepId, step] of Object.entries(after.steps)) {
+    const previous = Object.hasOwn(before.steps, stepId)
+      ? before.steps[stepId]
+      : undefined;
+    if (!previous) {
+      changes.push({ type: "added", stepId });
+      continue;
+    }
+
+    const properties = new Set([
+      ...Object.keys(previous),
+      ...Object.keys(step),
+    ]);
+    for (const property of properties) {
+      const was = previous[property as keyof typeof previous];
+      const is = step[property as keyof typeof step];
+      if (!isEqual(was, is)) {
+        changes.push({
+          type: "changed",
+          stepId,
+          property,
+          before: was,
+          after: is,
+        });
+      }
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Deep equality for JSON values (object key order is ignored)
+ */
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== "object" || typeof b !== "object" || !a || !b) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const aKeys = Object.keys(a);
+  const bKeys = Object.keys(b);
+  return (
+    aKeys.length === bKeys.length &&
+    aKeys.every(
+      (key) =>
+        Object.hasOwn(b, key) &&
+        isEqual(
+          (a as Record<string, unknown>)[key],
+          (b as Record<string, unknown>)[key],
+        ),
+    )
+  );
+}
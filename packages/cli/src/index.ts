@@ -0,0 +1,13 @@
+// Command runner (the useflow bin calls run() with Node's file system and streams)
+
+// Typed module generation
+export type { GenerateFlowModuleOptions } from "./codegen";
+export { generateFlowModule } from "./codegen";
+// Structural comparison of flow definitions
+export type { FlowChange } from "./diff";
+export { diffFlowDefinitions } from "./diff";
+// Path enumeration
+export type { EnumeratePathsOptions, FlowPaths } from "./paths";
+export { enumeratePaths } from "./paths";
+export type { CliIO } from "./run";
+export { run } from "./run";
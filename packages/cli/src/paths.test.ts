@@ -0,0 +1,43 @@
+import type { FlowDefinition } from "@useflow/core";
+import { describe, expect, it } from "vitest";
+import { enumeratePaths } from "./paths";
+
+const definition: FlowDefinition = {
+  id: "signup",
+  start: "welcome",
+  steps: {
+    welcome: { next: "account" },
+    account: {
+      next: [
+        { when: { "ctx.accountType": { eq: "business" } }, to: "company" },
+        { to: "done" },
+      ],
+    },
+    company: { next: ["review", "done"] },
+    review: { next: ["company", "done"] },
+    done: {},
+  },
+};
+
+describe("enumeratePaths", () => {
+  it("should list every path from the start step to a terminal step", () => {
+    expect(enumeratePaths(definition)).toEqual({
+      paths: [
+        ["welcome", "account", "company", "review", "done"],
+        ["welcome", "account", "company", "done"],
+        ["welcome", "account", "done"],
+      ],
+      truncated: false,
+    });
+  });
+
+  it("should stop at the limit", () => {
+    expect(enumeratePaths(definition, { limit: 2 })).toEqual({
+      paths: [
+        ["welcome", "account", "company", "review", "done"],
+        ["welcome", "account", "company", "done"],
+      ],
+      truncated: true,
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import { type FlowDefinition, getNextStepIds } from "@useflow/core";
+
+/**
+ * Options for enumeratePaths()
+ */
+export type EnumeratePathsOptions = {
+  /** Maximum number of paths to return (defaults to 1000) */
+  limit?: number;
+};
+
+/**
+ * Paths through a flow
+ */
+export type FlowPaths = {
+  /** Step ids from the start step to a terminal step */
+  paths: string[][];
+  /** Whether more paths exist than the limit allowed */
+  truncated: boolean;
+};
+
+/**
+ * Enumerates every path from the start step to a terminal step
+ * Each step is visited at most once per path, so cycles (e.g. back to an
+ * edit step) don't produce endless paths - a path that would revisit a step
+ * ends there and isn't listed.
+ *
+ * @param definition - Flow definition (assumed valid)
+ * @param options - Limit for flows with many branches
+ * @returns The paths in depth-first order
+ */
+export function enumeratePaths(
+  definition: FlowDefinition,
+  options?: EnumeratePathsOptions,
+): FlowPaths {
+  const limit = options?.limit ?? 1000;
+  const paths: string[][] = [];
+  let truncated = false;
+
+  const visit = (stepId: string, path: string[]) => {
+    if (truncated) return;
+    const step = definition.steps[stepId];
+    if (!step) return;
+
+    const next = getNextStepIds(step.next);
+    if (!next) {
+      if (paths.length === limit) {
+        truncated = true;
+        return;
+      }
+      paths.push([...path, stepId]);
+      return;
+    }
+
+    for (const target of next) {
+      if (target === stepId || path.includes(target)) continue;
+      visit(target, [...path, stepId]);
+    }
+  };
+
+  visit(definition.start, []);
+  return { paths, truncated };
+}
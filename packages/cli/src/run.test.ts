@@ -0,0 +1,259 @@
+import { describe, expect, it } from "vitest";
+import { type CliIO, run } from "./run";
+
+const onboarding = {
+  id: "onboarding",
+  version: "v1",
+  start: "welcome",
+  steps: {
+    welcome: { next: "account" },
+    account: {
+      next: [
+        { when: { "ctx.accountType": { eq: "business" } }, to: "company" },
+        { to: "done" },
+      ],
+    },
+    company: { next: "done" },
+    legacy: { next: "done" },
+    done: {},
+  },
+};
+
+const files: Record<string, string> = {
+  "onboarding.json": JSON.stringify(onboarding),
+  "onboarding-v2.json": JSON.stringify({
+    ...onboarding,
+    steps: { welcome: { next: "done" }, done: {} },
+  }),
+  "broken.json": JSON.stringify({
+    id: "broken",
+    start: "first",
+    steps: { first: { next: "missing" }, done: {} },
+  }),
+  "invalid.json": "{ id: ",
+};
+
+const runCli = (...args: string[]) => {
+  let stdout = "";
+  let stderr = "";
+  const written: Record<string, string> = {};
+  const io: CliIO = {
+    readFile: (path) => {
+      const content = files[path];
+      if (content === undefined) throw new Error(`ENOENT: ${path}`);
+      return content;
+    },
+    writeFile: (path, content) => {
+      written[path] = content;
+    },
+    stdout: (text) => {
+      stdout += text;
+    },
+    stderr: (text) => {
+      stderr += text;
+    },
+  };
+  const code = run(args, io);
+  return { code, stdout, stderr, written };
+};
+
+describe("useflow validate", () => {
+  it("should report errors and warnings for each file", () => {
+    const { code, stdout } = runCli(
+      "validate",
+      "onboarding.json",
+      "broken.json",
+      "invalid.json",
+    );
+
+    expect(code).toBe(1);
+    expect(stdout).toContain(
+      '✔ onboarding.json\n  warning  [unreachable-step] Step "legacy" can\'t be reached from start step "welcome"\n',
+    );
+    expect(stdout).toContain(
+      '✖ broken.json\n  error    steps.first: Step "first" references non-existent step "missing" in next.',
+    );
+    expect(stdout).toContain("✖ invalid.json\n  error    ");
+    expect(stdout).toContain("3 files checked: 2 errors, 1 warning\n");
+  });
+
+  it("should fail on warnings with --strict", () => {
+    expect(runCli("validate", "onboarding.json").code).toBe(0);
+    expect(runCli("validate", "--strict", "onboarding.json").code).toBe(1);
+  });
+
+  it("should print a JSON report", () => {
+    const { stdout } = runCli(
+      "validate",
+      "onboarding.json",
+      "--format",
+      "json",
+    );
+
+    expect(JSON.parse(stdout)).toEqual([
+      {
+        file: "onboarding.json",
+        valid: true,
+        errors: [],
+        warnings: [expect.objectContaining({ code: "unreachable-step" })],
+      },
+    ]);
+  });
+});
+
+describe("useflow graph", () => {
+  it("should print a Mermaid diagram by default", () => {
+    const { code, stdout } = runCli("graph", "onboarding.json");
+
+    expect(code).toBe(0);
+    expect(stdout).toMatch(/^stateDiagram-v2\n/);
+    expect(stdout).toContain(
+      "  account --> company: accountType == #quot;business#quot;\n",
+    );
+  });
+
+  it("should print a DOT digraph", () => {
+    const { stdout } = runCli(
+      "graph",
+      "onboarding.json",
+      "--format",
+      "dot",
+      "--direction",
+      "LR",
+    );
+
+    expect(stdout).toMatch(/^digraph "onboarding" \{\n {2}rankdir=LR;\n/);
+  });
+
+  it("should report invalid definitions", () => {
+    const { code, stderr } = runCli("graph", "broken.json");
+
+    expect(code).toBe(1);
+    expect(stderr).toContain("broken.json is not a valid flow definition:\n");
+  });
+});
+
+describe("useflow paths", () => {
+  it("should list the paths through the flow", () => {
+    const { code, stdout } = runCli("paths", "onboarding.json");
+
+    expect(code).toBe(0);
+    expect(stdout).toBe(
+      "welcome → account → company → done\nwelcome → account → done\n\n2 paths\n",
+    );
+  });
+
+  it("should note when paths were left out", () => {
+    const { stdout } = runCli("paths", "onboarding.json", "--limit", "1");
+
+    expect(stdout).toBe(
+      "welcome → account → company → done\n\nShowing the first 1 path - use --limit to list more\n",
+    );
+  });
+});
+
+describe("useflow diff", () => {
+  it("should print the structural changes", () => {
+    const { code, stdout } = runCli(
+      "diff",
+      "onboarding.json",
+      "onboarding-v2.json",
+    );
+
+    expect(code).toBe(0);
+    expect(stdout).toBe(
+      [
+        "- step account",
+        "- step company",
+        "- step legacy",
+        '~ steps.welcome.next: "account" → "done"',
+        "",
+        "warning: steps were removed but version is unchanged. Bump version and add a migration so persisted flows on removed steps can be restored",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("should exit with 1 for differences with --exit-code", () => {
+    expect(
+      runCli("diff", "onboarding.json", "onboarding.json", "--exit-code"),
+    ).toMatchObject({ code: 0, stdout: "No structural changes\n", stderr: "" });
+    expect(
+      runCli("diff", "onboarding.json", "onboarding-v2.json", "--exit-code")
+        .code,
+    ).toBe(1);
+  });
+});
+
+describe("useflow codegen", () => {
+  it("should write a module for each file to --out-dir", () => {
+    const { code, stdout, written } = runCli(
+      "codegen",
+      "onboarding.json",
+      "onboarding-v2.json",
+      "--out-dir",
+      "src/flows",
+      "--import",
+      "@useflow/vue",
+    );
+
+    expect(code).toBe(0);
+    expect(Object.keys(written)).toEqual([
+      "src/flows/onboarding.ts",
+      "src/flows/onboarding-v2.ts",
+    ]);
+    expect(written["src/flows/onboarding.ts"]).toContain(
+      'from "@useflow/vue";',
+    );
+    expect(stdout).toBe(
+      "Generated src/flows/onboarding.ts\nGenerated src/flows/onboarding-v2.ts\n",
+    );
+  });
+
+  it("should print the module for a single file without --out-dir", () => {
+    const { code, stdout } = runCli("codegen", "onboarding.json");
+
+    expect(code).toBe(0);
+    expect(stdout).toContain(
+      "// Generated by `useflow codegen` from onboarding.json - do not edit.",
+    );
+    expect(stdout).toContain("export const onboardingFlow = defineFlow(");
+  });
+
+  it("should write nothing when a definition is invalid", () => {
+    const { code, stderr, written } = runCli(
+      "codegen",
+      "onboarding.json",
+      "broken.json",
+      "--out-dir",
+      "src/flows",
+    );
+
+    expect(code).toBe(1);
+    expect(written).toEqual({});
+    expect(stderr).toContain("broken.json is not a valid flow definition");
+  });
+});
+
+describe("usage errors", () => {
+  it("should report unknown commands and options", () => {
+    expect(runCli("lint").stderr).toContain('error: Unknown command "lint"');
+    expect(runCli("graph", "onboarding.json", "--bogus").code).toBe(2);
+    expect(runCli("diff", "onboarding.json").stderr).toContain(
+      "diff needs two files",
+    );
+    expect(
+      runCli("codegen", "onboarding.json", "onboarding-v2.json").stderr,
+    ).toContain("codegen needs --out-dir for more than one file");
+    expect(
+      runCli("graph", "onboarding.json", "--format", "svg").stderr,
+    ).toContain('Unknown format "svg". Use mermaid or dot');
+  });
+
+  it("should print help", () => {
+    const { code, stdout } = runCli("--help");
+
+    expect(code).toBe(0);
+    expect(stdout).toContain("Usage: useflow <command> [options]");
+  });
+});
@@ -0,0 +1,398 @@
+import { basename, extname, join } from "node:path";
+import { parseArgs } from "node:util";
+import {
+  type FlowDefinition,
+  type FlowDefinitionIssue,
+  type FlowDiagnostic,
+  getFlowDiagnostics,
+  parseFlowDefinition,
+  toDot,
+  toMermaid,
+} from "@useflow/core";
+import { generateFlowModule } from "./codegen";
+import { diffFlowDefinitions, type FlowChange } from "./diff";
+import { enumeratePaths } from "./paths";
+
+/**
+ * File access and output used by run() - the CLI passes Node's, tests fake them
+ */
+export type CliIO = {
+  readFile: (path: string) => string;
+  /** Writes a file, creating its directory if needed */
+  writeFile: (path: string, content: string) => void;
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+};
+
+/**
+ * Exit codes: 0 success, 1 invalid flows (or differences with --exit-code),
+ * 2 usage errors
+ */
+type ExitCode = 0 | 1 | 2;
+
+const usage = `Usage: useflow <command> [options]
+
+Commands:
+  validate <files...>       Check flow definitions (references, graph, shape)
+    --strict                Fail on warnings too
+    --format <text|json>
+
+  graph <file>              Print a diagram of the flow
+    --format <mermaid|dot>  Defaults to mermaid
+    --direction <TB|LR>
+
+  paths <file>              List every path from the start step to a terminal step
+    --limit <n>             Maximum number of paths (defaults to 1000)
+    --format <text|json>
+
+  diff <before> <after>     Compare two versions of a flow definition
+    --exit-code             Exit with 1 when the flows differ
+    --format <text|json>
+
+  codegen <files...>        Generate typed TypeScript modules from flow definitions
+    --out-dir <dir>         Write <name>.ts files there (prints the module for a single file without it)
+    --import <package>      Adapter package to import from (defaults to @useflow/react)
+
+Options:
+  -h, --help                Show this help
+`;
+
+/**
+ * Runs the useflow CLI
+ * @param args - Command line arguments (without the node and script paths)
+ * @param io - File access and output
+ * @returns The exit code
+ */
+export function run(args: readonly string[], io: CliIO): ExitCode {
+  const [command, ...rest] = args;
+
+  try {
+    switch (command) {
+      case "validate":
+        return validate(rest, io);
+      case "graph":
+        return graph(rest, io);
+      case "paths":
+        return paths(rest, io);
+      case "diff":
+        return diff(rest, io);
+      case "codegen":
+        return codegen(rest, io);
+      case undefined:
+      case "-h":
+      case "--help":
+      case "help":
+        io.stdout(usage);
+        return command === undefined ? 2 : 0;
+      default:
+        throw new UsageError(`Unknown command "${command}"`);
+    }
+  } catch (error) {
+    // parseArgs() throws TypeErrors with a code for unknown or invalid options
+    if (error instanceof UsageError || isParseArgsError(error)) {
+      io.stderr(`error: ${(error as Error).message}\n\n${usage}`);
+      return 2;
+    }
+    throw error;
+  }
+}
+
+class UsageError extends Error {}
+
+function isParseArgsError(error: unknown): boolean {
+  return (
+    error instanceof TypeError &&
+    String((error as { code?: unknown }).code).startsWith("ERR_PARSE_ARGS")
+  );
+}
+
+function getFormat<T extends string>(value: unknown, formats: readonly T[]): T {
+  const format = (value ?? formats[0]) as T;
+  if (!formats.includes(format)) {
+    throw new UsageError(
+      `Unknown format "${format}". Use ${formats.join(" or ")}`,
+    );
+  }
+  return format;
+}
+
+type LoadResult =
+  | { definition: FlowDefinition }
+  | { issues: FlowDefinitionIssue[] };
+
+/**
+ * Reads and parses a flow definition file
+ */
+function load(file: string, io: CliIO): LoadResult {
+  let json: unknown;
+  try {
+    json = JSON.parse(io.readFile(file));
+  } catch (error) {
+    return {
+      issues: [{ path: [], message: (error as Error).message }],
+    };
+  }
+
+  const result = parseFlowDefinition(json);
+  return result.success
+    ? { definition: result.definition }
+    : { issues: result.issues };
+}
+
+function formatIssue(issue: FlowDefinitionIssue): string {
+  return issue.path.length > 0
+    ? `${issue.path.join(".")}: ${issue.message}`
+    : issue.message;
+}
+
+/**
+ * Loads a file for commands that need a valid definition, reporting its issues
+ */
+function loadValid(file: string, io: CliIO): FlowDefinition | undefined {
+  const result = load(file, io);
+  if ("definition" in result) return result.definition;
+
+  io.stderr(
+    `${file} is not a valid flow definition:\n${result.issues
+      .map((issue) => `  ${formatIssue(issue)}\n`)
+      .join("")}`,
+  );
+  return undefined;
+}
+
+type ValidationReport = {
+  file: string;
+  valid: boolean;
+  errors: FlowDefinitionIssue[];
+  warnings: FlowDiagnostic[];
+};
+
+function validate(args: readonly string[], io: CliIO): ExitCode {
+  const { values, positionals } = parseArgs({
+    args: [...args],
+    allowPositionals: true,
+    options: {
+      strict: { type: "boolean" },
+      format: { type: "string" },
+    },
+  });
+  const format = getFormat(values.format, ["text", "json"] as const);
+  if (positionals.length === 0) {
+    throw new UsageError("validate needs at least one file");
+  }
+
+  const reports = positionals.map((file): ValidationReport => {
+    const result = load(file, io);
+    if ("issues" in result) {
+      return { file, valid: false, errors: result.issues, warnings: [] };
+    }
+    // Errors were reported by parseFlowDefinition(), only warnings are left
+    const warnings = getFlowDiagnostics(result.definition);
+    return {
+      file,
+      valid: !values.strict || warnings.length === 0,
+      errors: [],
+      warnings,
+    };
+  });
+
+  if (format === "json") {
+    io.stdout(`${JSON.stringify(reports, null, 2)}\n`);
+  } else {
+    for (const report of reports) {
+      io.stdout(`${report.valid ? "✔" : "✖"} ${report.file}\n`);
+      for (const issue of report.errors) {
+        io.stdout(`  error    ${formatIssue(issue)}\n`);
+      }
+      for (const warning of report.warnings) {
+        io.stdout(`  warning  [${warning.code}] ${warning.message}\n`);
+      }
+    }
+    const errors = reports.reduce((sum, r) => sum + r.errors.length, 0);
+    const warnings = reports.reduce((sum, r) => sum + r.warnings.length, 0);
+    io.stdout(
+      `\n${plural(reports.length, "file")} checked: ${plural(errors, "error")}, ${plural(warnings, "warning")}\n`,
+    );
+  }
+
+  return reports.every((report) => report.valid) ? 0 : 1;
+}
+
+function graph(args: readonly string[], io: CliIO): ExitCode {
+  const { values, positionals } = parseArgs({
+    args: [...args],
+    allowPositionals: true,
+    options: {
+      format: { type: "string" },
+      direction: { type: "string" },
+    },
+  });
+  const format = getFormat(values.format, ["mermaid", "dot"] as const);
+  const direction =
+    values.direction === undefined
+      ? undefined
+      : getFormat(values.direction, ["TB", "LR"] as const);
+  const file = getSingleFile(positionals, "graph");
+
+  const definition = loadValid(file, io);
+  if (!definition) return 1;
+
+  io.stdout(
+    format === "dot"
+      ? toDot(definition, { direction })
+      : toMermaid(definition, { direction }),
+  );
+  return 0;
+}
+
+function paths(args: readonly string[], io: CliIO): ExitCode {
+  const { values, positionals } = parseArgs({
+    args: [...args],
+    allowPositionals: true,
+    options: {
+      limit: { type: "string" },
+      format: { type: "string" },
+    },
+  });
+  const format = getFormat(values.format, ["text", "json"] as const);
+  const limit = values.limit === undefined ? undefined : Number(values.limit);
+  if (limit !== undefined && !(Number.isInteger(limit) && limit > 0)) {
+    throw new UsageError(
+      `--limit must be a positive integer, got "${values.limit}"`,
+    );
+  }
+  const file = getSingleFile(positionals, "paths");
+
+  const definition = loadValid(file, io);
+  if (!definition) return 1;
+
+  const result = enumeratePaths(definition, { limit });
+  if (format === "json") {
+    io.stdout(`${JSON.stringify(result, null, 2)}\n`);
+    return 0;
+  }
+
+  for (const path of result.paths) {
+    io.stdout(`${path.join(" → ")}\n`);
+  }
+  io.stdout(
+    result.truncated
+      ? `\nShowing the first ${plural(result.paths.length, "path")} - use --limit to list more\n`
+      : `\n${plural(result.paths.length, "path")}\n`,
+  );
+  return 0;
+}
+
+function diff(args: readonly string[], io: CliIO): ExitCode {
+  const { values, positionals } = parseArgs({
+    args: [...args],
+    allowPositionals: true,
+    options: {
+      "exit-code": { type: "boolean" },
+      format: { type: "string" },
+    },
+  });
+  const format = getFormat(values.format, ["text", "json"] as const);
+  if (positionals.length !== 2) {
+    throw new UsageError("diff needs two files: <before> <after>");
+  }
+  const [beforeFile = "", afterFile = ""] = positionals;
+
+  const before = loadValid(beforeFile, io);
+  const after = loadValid(afterFile, io);
+  if (!before || !after) return 1;
+
+  const changes = diffFlowDefinitions(before, after);
+  if (format === "json") {
+    io.stdout(`${JSON.stringify(changes, null, 2)}\n`);
+  } else if (changes.length === 0) {
+    io.stdout("No structural changes\n");
+  } else {
+    for (const change of changes) {
+      io.stdout(`${formatChange(change)}\n`);
+    }
+
+    // Persisted state on a removed step can't be restored without a migration
+    const removed = changes.some((change) => change.type === "removed");
+    if (removed && before.version === after.version) {
+      io.stdout(
+        "\nwarning: steps were removed but version is unchanged. " +
+          "Bump version and add a migration so persisted flows on removed steps can be restored\n",
+      );
+    }
+  }
+
+  return values["exit-code"] && changes.length > 0 ? 1 : 0;
+}
+
+function codegen(args: readonly string[], io: CliIO): ExitCode {
+  const { values, positionals } = parseArgs({
+    args: [...args],
+    allowPositionals: true,
+    options: {
+      "out-dir": { type: "string" },
+      import: { type: "string" },
+    },
+  });
+  const outDir = values["out-dir"];
+  if (positionals.length === 0) {
+    throw new UsageError("codegen needs at least one file");
+  }
+  if (positionals.length > 1 && outDir === undefined) {
+    throw new UsageError("codegen needs --out-dir for more than one file");
+  }
+
+  // Write nothing unless every definition is valid
+  const definitions = positionals.map((file) => ({
+    file,
+    definition: loadValid(file, io),
+  }));
+  if (definitions.some(({ definition }) => !definition)) return 1;
+
+  for (const { file, definition } of definitions) {
+    if (!definition) continue;
+    const source = generateFlowModule(definition, {
+      importFrom: values.import,
+      source: file,
+    });
+    if (outDir === undefined) {
+      io.stdout(source);
+      continue;
+    }
+    const output = join(outDir, `${basename(file, extname(file))}.ts`);
+    io.writeFile(output, source);
+    io.stdout(`Generated ${output}\n`);
+  }
+  return 0;
+}
+
+function formatChange(change: FlowChange): string {
+  switch (change.type) {
+    case "added":
+      return `+ step ${change.stepId}`;
+    case "removed":
+      return `- step ${change.stepId}`;
+    case "changed": {
+      const location = change.stepId
+        ? `steps.${change.stepId}.${change.property}`
+        : change.property;
+      return `~ ${location}: ${formatValue(change.before)} → ${formatValue(change.after)}`;
+    }
+  }
+}
+
+function formatValue(value: unknown): string {
+  return value === undefined ? "(none)" : JSON.stringify(value);
+}
+
+function getSingleFile(positionals: readonly string[], command: string) {
+  const [file] = positionals;
+  if (positionals.length !== 1 || file === undefined) {
+    throw new UsageError(`${command} needs exactly one file`);
+  }
+  return file;
+}
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? "" : "s"}`;
+}
@@ -0,0 +1,8 @@
+import { defineConfig } from "tsdown";
+
+export default defineConfig({
+  entry: ["src/index.ts", "src/cli.ts", "!src/**/*.test.*"],
+  format: ["esm"],
+  clean: true,
+  dts: true,
+});
@@ -0,0 +1,209 @@
+import { describe, expect, it } from "vitest";
+import {
+  describeCondition,
+  evaluateCondition,
+  matchTransition,
+  validateCondition,
+} from "./conditions";
+
+describe("evaluateCondition", () => {
+  const context = {
+    accountType: "business",
+    age: 30,
+    company: { size: 12 },
+    tags: [],
+    nickname: null,
+  };
+
+  it("should compare context fields", () => {
+    expect(
+      evaluateCondition({ "ctx.accountType": { eq: "business" } }, context),
+    ).toBe(true);
+    expect(
+      evaluateCondition({ "ctx.accountType": { neq: "business" } }, context),
+    ).toBe(false);
+    expect(
+      evaluateCondition(
+        { "ctx.accountType": { in: ["business", "enterprise"] } },
+        context,
+      ),
+    ).toBe(true);
+    expect(
+      evaluateCondition(
+        { "ctx.accountType": { notIn: ["business"] } },
+        context,
+      ),
+    ).toBe(false);
+  });
+
+  it("should compare numbers", () => {
+    expect(evaluateCondition({ "ctx.age": { gte: 18, lt: 65 } }, context)).toBe(
+      true,
+    );
+    expect(evaluateCondition({ "ctx.age": { gt: 30 } }, context)).toBe(false);
+    expect(evaluateCondition({ "ctx.accountType": { lt: 10 } }, context)).toBe(
+      false,
+    );
+  });
+
+  it("should read nested paths", () => {
+    expect(
+      evaluateCondition({ "ctx.company.size": { lte: 50 } }, context),
+    ).toBe(true);
+    expect(
+      evaluateCondition({ "ctx.missing.size": { exists: false } }, context),
+    ).toBe(true);
+  });
+
+  it("should check existence and truthiness", () => {
+    expect(
+      evaluateCondition({ "ctx.nickname": { exists: true } }, context),
+    ).toBe(false);
+    expect(evaluateCondition({ "ctx.age": { truthy: true } }, context)).toBe(
+      true,
+    );
+  });
+
+  it("should require every field to match", () => {
+    expect(
+      evaluateCondition(
+        { "ctx.accountType": { eq: "business" }, "ctx.age": { lt: 18 } },
+        context,
+      ),
+    ).toBe(false);
+  });
+
+  it("should combine conditions with all, any and not", () => {
+    expect(
+      evaluateCondition(
+        {
+          any: [
+            { "ctx.age": { lt: 18 } },
+            { not: { "ctx.accountType": { eq: "personal" } } },
+          ],
+        },
+        context,
+      ),
+    ).toBe(true);
+    expect(
+      evaluateCondition(
+        {
+          all: [
+            { "ctx.age": { gte: 18 } },
+            { "ctx.accountType": { eq: "personal" } },
+          ],
+        },
+        context,
+      ),
+    ).toBe(false);
+  });
+});
+
+describe("validateCondition", () => {
+  it("should accept valid conditions", () => {
+    expect(
+      validateCondition(
+        {
+          any: [
+            { "ctx.age": { gte: 18 } },
+            { not: { "ctx.country": { in: ["US", "CA"] } } },
+          ],
+        },
+        "skipIf",
+      ),
+    ).toEqual([]);
+  });
+
+  it("should report invalid keys and operators", () => {
+    expect(
+      validateCondition(
+        { accountType: { eq: "personal" }, "ctx.age": { above: 18 } },
+        "skipIf",
+      ),
+    ).toEqual([
+      'skipIf has invalid key "accountType". Use a context path (e.g. "ctx.accountType") or all/any/not',
+      'skipIf["ctx.age"] has unknown operator "above". Available operators: eq, neq, in, notIn, gt, gte, lt, lte, exists, truthy',
+    ]);
+  });
+
+  it("should report invalid operands", () => {
+    expect(
+      validateCondition(
+        {
+          "ctx.country": { in: "US" },
+          "ctx.age": { gt: "18" },
+          "ctx.email": { exists: 1 },
+        },
+        "skipIf",
+      ),
+    ).toEqual([
+      'skipIf["ctx.country"].in must be an array',
+      'skipIf["ctx.age"].gt must be a number',
+      'skipIf["ctx.email"].exists must be a boolean',
+    ]);
+  });
+
+  it("should validate nested conditions", () => {
+    expect(
+      validateCondition({ all: [{}, { not: "yes" }], any: {} }, "skipIf"),
+    ).toEqual([
+      'skipIf must not mix all/any/not with other keys. Nest them in "all" instead',
+      "skipIf.all[0] must not be empty",
+      "skipIf.all[1].not must be an object",
+      "skipIf.any must be an array of conditions",
+    ]);
+  });
+});
+
+describe("matchTransition", () => {
+  const transitions = [
+    { when: { "ctx.accountType": { eq: "business" } }, to: "business" },
+    { when: { "ctx.age": { lt: 18 } }, to: "minor" },
+    { to: "personal" },
+  ] as const;
+
+  it("should pick the first matching transition", () => {
+    expect(matchTransition(transitions, { accountType: "business" })).toBe(
+      "business",
+    );
+    expect(matchTransition(transitions, { age: 12 })).toBe("minor");
+    expect(matchTransition(transitions, {})).toBe("personal");
+  });
+
+  it("should return undefined when no transition matches", () => {
+    expect(matchTransition(transitions.slice(0, 2), {})).toBeUndefined();
+  });
+});
+
+describe("describeCondition", () => {
+  it("should describe field comparisons", () => {
+    expect(
+      describeCondition({
+        "ctx.plan": { in: ["pro", "team"] },
+        "ctx.seats": { gt: 5, lte: 50 },
+        "ctx.company.name": { exists: true },
+        "ctx.trial": { truthy: false },
+      }),
+    ).toBe(
+      'plan in ["pro","team"] and seats > 5 and seats <= 50 and company.name exists and not trial',
+    );
+  });
+
+  it("should group combined conditions", () => {
+    expect(
+      describeCondition({
+        any: [
+          { "ctx.accountType": { eq: "business" } },
+          {
+            all: [
+              { "ctx.age": { gte: 18 } },
+              { not: { "ctx.country": { notIn: ["US", "CA"] } } },
+            ],
+          },
+        ],
+      }),
+    ).toBe(
+      'accountType == "business" or (age >= 18 and not country not in ["US","CA"])',
+    );
+  });
+});
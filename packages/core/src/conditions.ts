@@ -0,0 +1,251 @@
+/**
+ * Declarative conditions
+ *
+ * Conditions are plain JSON (see Condition in ./types), so they can be part of
+ * remote flow definitions - unlike resolver or skip functions in the runtime config.
+ */
+
+import type {
+  Condition,
+  ConditionalTransition,
+  ConditionValue,
+  FieldCondition,
+  FlowContext,
+  StepTransition,
+} from "./types";
+
+const fieldOperators = new Set([
+  "eq",
+  "neq",
+  "in",
+  "notIn",
+  "gt",
+  "gte",
+  "lt",
+  "lte",
+  "exists",
+  "truthy",
+]);
+
+/**
+ * Reads the value at a condition path ("ctx.a.b") from the context
+ */
+function getPathValue(context: FlowContext, path: string): unknown {
+  let value: unknown = context;
+  for (const key of path.split(".").slice(1)) {
+    if (typeof value !== "object" || value === null) return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+function matchesField(value: unknown, field: FieldCondition): boolean {
+  const isNumber = typeof value === "number";
+  return (
+    (field.eq === undefined || value === field.eq) &&
+    (field.neq === undefined || value !== field.neq) &&
+    (field.in === undefined || field.in.includes(value as ConditionValue)) &&
+    (field.notIn === undefined ||
+      !field.notIn.includes(value as ConditionValue)) &&
+    (field.gt === undefined || (isNumber && value > field.gt)) &&
+    (field.gte === undefined || (isNumber && value >= field.gte)) &&
+    (field.lt === undefined || (isNumber && value < field.lt)) &&
+    (field.lte === undefined || (isNumber && value <= field.lte)) &&
+    (field.exists === undefined ||
+      (value !== undefined && value !== null) === field.exists) &&
+    (field.truthy === undefined || Boolean(value) === field.truthy)
+  );
+}
+
+/**
+ * Evaluates a condition against the flow context
+ * @param condition - Condition to evaluate (assumed valid, see validateCondition)
+ * @param context - Current flow context
+ * @returns Whether the condition matches
+ */
+export function evaluateCondition(
+  condition: Condition,
+  context: FlowContext,
+): boolean {
+  if ("all" in condition) {
+    return condition.all.every((c) => evaluateCondition(c, context));
+  }
+  if ("any" in condition) {
+    return condition.any.some((c) => evaluateCondition(c, context));
+  }
+  if ("not" in condition) {
+    return !evaluateCondition(condition.not, context);
+  }
+
+  return Object.entries(condition).every(([path, field]) =>
+    matchesField(getPathValue(context, path), field as FieldCondition),
+  );
+}
+
+const operatorSymbols: Partial<Record<keyof FieldCondition, string>> = {
+  eq: "==",
+  neq: "!=",
+  in: "in",
+  notIn: "not in",
+  gt: ">",
+  gte: ">=",
+  lt: "<",
+  lte: "<=",
+};
+
+function describeField(path: string, field: FieldCondition): string[] {
+  const name = path.slice("ctx.".length);
+  return Object.entries(field).map(([operator, operand]) => {
+    if (operator === "exists") {
+      return operand ? `${name} exists` : `${name} is missing`;
+    }
+    if (operator === "truthy") return operand ? name : `not ${name}`;
+    return `${name} ${operatorSymbols[operator as keyof FieldCondition]} ${JSON.stringify(operand)}`;
+  });
+}
+
+/**
+ * Describes a condition as short readable text (e.g. for diagram labels)
+ * @param condition - Condition to describe (assumed valid, see validateCondition)
+ * @returns The description, e.g. `accountType == "business" and seats > 5`
+ */
+export function describeCondition(condition: Condition): string {
+  const describeNested = (nested: Condition) => {
+    const text = describeCondition(nested);
+    return "all" in nested || "any" in nested || text.includes(" and ")
+      ? `(${text})`
+      : text;
+  };
+
+  if ("all" in condition) {
+    return condition.all.map(describeNested).join(" and ");
+  }
+  if ("any" in condition) {
+    return condition.any.map(describeNested).join(" or ");
+  }
+  if ("not" in condition) {
+    return `not ${describeNested(condition.not)}`;
+  }
+
+  return Object.entries(condition)
+    .flatMap(([path, field]) => describeField(path, field as FieldCondition))
+    .join(" and ");
+}
+
+/**
+ * Validates the shape of a condition (e.g. from a remote flow definition)
+ * @param condition - Condition to validate
+ * @param location - Where the condition is defined, used in error messages
+ * @returns Error messages (empty if the condition is valid)
+ */
+export function validateCondition(
+  condition: unknown,
+  location: string,
+): string[] {
+  if (typeof condition !== "object" || condition === null) {
+    return [`${location} must be an object`];
+  }
+
+  const errors: string[] = [];
+  const entries = Object.entries(condition);
+  if (entries.length === 0) {
+    errors.push(`${location} must not be empty`);
+  }
+  if (
+    entries.length > 1 &&
+    entries.some(([key]) => key === "all" || key === "any" || key === "not")
+  ) {
+    errors.push(
+      `${location} must not mix all/any/not with other keys. Nest them in "all" instead`,
+    );
+  }
+
+  for (const [key, value] of entries) {
+    if (key === "all" || key === "any") {
+      if (!Array.isArray(value)) {
+        errors.push(`${location}.${key} must be an array of conditions`);
+        continue;
+      }
+      value.forEach((c, i) => {
+        errors.push(...validateCondition(c, `${location}.${key}[${i}]`));
+      });
+      continue;
+    }
+
+    if (key === "not") {
+      errors.push(...validateCondition(value, `${location}.not`));
+      continue;
+    }
+
+    if (!key.startsWith("ctx.") || key.length === 4) {
+      errors.push(
+        `${location} has invalid key "${key}". ` +
+          `Use a context path (e.g. "ctx.${key}") or all/any/not`,
+      );
+      continue;
+    }
+
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      errors.push(`${location}["${key}"] must be an object of operators`);
+      continue;
+    }
+
+    for (const [operator, operand] of Object.entries(value)) {
+      if (!fieldOperators.has(operator)) {
+        errors.push(
+          `${location}["${key}"] has unknown operator "${operator}". ` +
+            `Available operators: ${Array.from(fieldOperators).join(", ")}`,
+        );
+      } else if (
+        (operator === "in" || operator === "notIn") &&
+        !Array.isArray(operand)
+      ) {
+        errors.push(`${location}["${key}"].${operator} must be an array`);
+      } else if (
+        (operator === "gt" ||
+          operator === "gte" ||
+          operator === "lt" ||
+          operator === "lte") &&
+        typeof operand !== "number"
+      ) {
+        errors.push(`${location}["${key}"].${operator} must be a number`);
+      } else if (
+        (operator === "exists" || operator === "truthy") &&
+        typeof operand !== "boolean"
+      ) {
+        errors.push(`${location}["${key}"].${operator} must be a boolean`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Whether a step's next transition is a list of conditional transitions
+ */
+export function isConditionalTransition(
+  next: StepTransition | undefined,
+): next is readonly ConditionalTransition[] {
+  return (
+    Array.isArray(next) &&
+    next.some((transition) => typeof transition === "object")
+  );
+}
+
+/**
+ * Picks the destination of conditional transitions for the context
+ * @param transitions - The step's conditional transitions (assumed valid)
+ * @param context - Current flow context
+ * @returns The first matching transition's step, or undefined to stay on the step
+ */
+export function matchTransition(
+  transitions: readonly ConditionalTransition[],
+  context: FlowContext,
+): string | undefined {
+  return transitions.find(
+    (transition) =>
+      transition.when === undefined ||
+      evaluateCondition(transition.when, context),
+  )?.to;
+}
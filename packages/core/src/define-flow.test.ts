@@ -1,5 +1,9 @@
-import { describe, expect, it } from "vitest";
-import { defineFlow, RuntimeFlowDefinition } from "./define-flow";
+import { describe, expect, it, vi } from "vitest";
+import {
+  defineFlow,
+  extendRuntimeFlowDefinition,
+  RuntimeFlowDefinition,
+} from "./define-flow";
 
 describe("defineFlow", () => {
   it("should create a RuntimeFlowDefinition instance", () => {
@@ -40,6 +44,20 @@ describe("defineFlow", () => {
 
     expect(flow.runtimeConfig).toBeUndefined();
   });
+
+  it("should keep step meta in the config", () => {
+    const flow = defineFlow({
+      id: "test",
+      start: "first",
+      steps: {
+        first: { meta: { title: "First", tags: ["intro"], icon: "wave" } },
+      },
+    });
+
+    const title: "First" = flow.config.steps.first.meta.title;
+    expect(title).toBe("First");
+    expect(flow.config.steps.first.meta.tags).toEqual(["intro"]);
+  });
 });
 
 describe("RuntimeFlowDefinition", () => {
@@ -202,6 +220,60 @@ describe("RuntimeFlowDefinition", () => {
       expect(flowWithBoth.runtimeConfig?.migration).toBeDefined();
     });
 
+    it("should support guards in runtime config", () => {
+      const flow = defineFlow({
+        id: "test",
+        start: "first",
+        steps: {
+          first: { next: ["second", "third"] },
+          second: {},
+          third: {},
+        },
+      });
+
+      const flowWithGuards = flow.with<{ verified: boolean }>((steps) => ({
+        guards: {
+          second: {
+            canEnter: ({ context }) =>
+              context.verified ? true : { redirect: steps.third },
+          },
+        },
+      }));
+
+      expect(
+        flowWithGuards.runtimeConfig?.guards?.second?.canEnter,
+      ).toBeDefined();
+    });
+
+    it("should support sub-flows in runtime config", () => {
+      const address = defineFlow({
+        id: "address",
+        start: "street",
+        steps: { street: {} },
+      });
+      const flow = defineFlow({
+        id: "checkout",
+        start: "shipping",
+        steps: {
+          shipping: { flow: "address", next: "payment" },
+          payment: {},
+        },
+      });
+
+      const flowWithSubFlows = flow.with<{ street?: string }>(() => ({
+        subFlows: {
+          address: {
+            flow: address,
+            output: (ctx, childCtx) => ({ ...ctx, street: childCtx.street }),
+          },
+        },
+      }));
+
+      expect(flowWithSubFlows.runtimeConfig?.subFlows?.address?.flow).toBe(
+        address,
+      );
+    });
+
     it("should allow calling with() without config function", () => {
       const flow = defineFlow({
         id: "test",
@@ -313,3 +385,31 @@ describe("RuntimeFlowDefinition", () => {
     });
   });
 });
+
+describe("extendRuntimeFlowDefinition", () => {
+  const config = {
+    id: "test",
+    start: "first",
+    steps: { first: { next: ["a", "b"] }, a: {}, b: {} },
+  } as const;
+
+  it("should call the adapter's useFlowState", () => {
+    const useFlowState = vi.fn((_options: { step: string }) => "state");
+    const AdapterFlowDefinition = extendRuntimeFlowDefinition(useFlowState);
+    const flow = new AdapterFlowDefinition(config);
+
+    expect(flow).toBeInstanceOf(RuntimeFlowDefinition);
+    expect(flow.useFlowState({ step: "first" })).toBe("state");
+    expect(useFlowState).toHaveBeenCalledWith({ step: "first" });
+  });
+
+  it("should keep the subclass and runtime config after with()", () => {
+    const AdapterFlowDefinition = extendRuntimeFlowDefinition(vi.fn());
+    const resolvers = { first: () => "a" as const };
+    const flow = new AdapterFlowDefinition(config).with(() => ({ resolvers }));
+
+    expect(flow).toBeInstanceOf(AdapterFlowDefinition);
+    expect(flow.runtimeConfig?.resolvers).toEqual(resolvers);
+    expect(typeof flow.useFlowState).toBe("function");
+  });
+});
@@ -16,7 +16,8 @@ import type { FlowContext, FlowDefinition } from "./types";
  * Runtime flow definition
  *
  * Provides a .with() method for adding typed runtime configuration
- * (resolvers, migration) to a flow definition.
+ * (resolvers, migration, guards, skip conditions, sub-flows, context schema)
+ * to a flow definition.
  */
 export class RuntimeFlowDefinition<
   TDefinition extends FlowDefinition = FlowDefinition,
@@ -47,7 +48,8 @@ export class RuntimeFlowDefinition<
   }
 
   /**
-   * Add typed runtime configuration (resolvers, migration)
+   * Add typed runtime configuration (resolvers, migration, guards, skip conditions,
+   * sub-flows, context schema)
    *
    * Creates a new RuntimeFlowDefinition instance with the specified context type
    * and runtime configuration. The original instance remains unchanged (immutable).
@@ -74,6 +76,17 @@ export class RuntimeFlowDefinition<
    *       ctx.userType === "business"
    *         ? steps.business
    *         : steps.personal
+   *   },
+   *   guards: {
+   *     business: {
+   *       canEnter: async () => await api.isBusinessAccountAllowed()
+   *     }
+   *   },
+   *   skipConditions: {
+   *     personal: (ctx) => ctx.userType === "business"
+   *   },
+   *   validators: {
+   *     start: (ctx) => (ctx.userType ? null : { userType: "Pick an account type" })
    *   }
    * }));
    * ```
@@ -98,12 +111,53 @@ export class RuntimeFlowDefinition<
         ? {
             migration: runtimeConfigResult.migration,
             resolvers: runtimeConfigResult.resolvers,
+            guards: runtimeConfigResult.guards,
+            skipConditions: runtimeConfigResult.skipConditions,
+            validators: runtimeConfigResult.validators,
+            subFlows: runtimeConfigResult.subFlows,
+            schema: runtimeConfigResult.schema,
           }
         : undefined,
     );
   }
 }
 
+/**
+ * Creates a RuntimeFlowDefinition subclass with a framework's useFlowState
+ * Used by framework adapters: the subclass's useFlowState() calls the adapter's
+ * and .with() keeps the subclass. Adapters type it with their UseFlowReturn.
+ *
+ * @param useFlowState - The adapter's useFlowState (hook, composable, ...)
+ * @returns RuntimeFlowDefinition subclass with a useFlowState method
+ *
+ * @example
+ * ```ts
+ * export const RuntimeFlowDefinition = extendRuntimeFlowDefinition(useFlowState);
+ * ```
+ */
+export function extendRuntimeFlowDefinition<
+  TUseFlowState extends (options: { step: string }) => unknown,
+>(useFlowState: TUseFlowState) {
+  class AdapterFlowDefinition<
+    TDefinition extends FlowDefinition = FlowDefinition,
+    TContext extends FlowContext = FlowContext,
+  > extends RuntimeFlowDefinition<TDefinition, TContext> {
+    public readonly useFlowState = useFlowState;
+
+    with<NewContext extends FlowContext = FlowContext>(
+      runtimeConfig?: FlowRuntimeConfig<TDefinition, NewContext>,
+    ): AdapterFlowDefinition<TDefinition, NewContext> {
+      const core = super.with<NewContext>(runtimeConfig);
+      return new AdapterFlowDefinition<TDefinition, NewContext>(
+        core.config,
+        core.runtimeConfig,
+      );
+    }
+  }
+
+  return AdapterFlowDefinition;
+}
+
 /**
  * Define a flow with declarative configuration
  *
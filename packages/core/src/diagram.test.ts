@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest";
+import { toDot, toMermaid } from "./diagram";
+import { createInitialState, flowReducer } from "./reducer";
+import type { FlowDefinition } from "./types";
+
+const definition: FlowDefinition = {
+  id: "signup",
+  start: "welcome",
+  steps: {
+    welcome: { next: "account", meta: { title: "Welcome" } },
+    account: {
+      next: [
+        { when: { "ctx.accountType": { eq: "business" } }, to: "company" },
+        { to: "plan" },
+      ],
+    },
+    company: { next: "plan" },
+    plan: { next: ["free-trial", "done"] },
+    "free-trial": { next: "done" },
+    done: {},
+  },
+};
+
+const visitedState = () => {
+  const state = createInitialState(definition, { accountType: "business" });
+  return flowReducer(
+    flowReducer(state, { type: "NEXT" }, definition),
+    { type: "NEXT" },
+    definition,
+  );
+};
+
+describe("toMermaid", () => {
+  it("should export a state diagram", () => {
+    expect(toMermaid(definition, { direction: "LR" })).toBe(
+      [
+        "stateDiagram-v2",
+        "  direction LR",
+        '  state "Welcome" as welcome',
+        '  state "free-trial" as free_trial',
+        "  [*] --> welcome",
+        "  welcome --> account",
+        "  account --> company: accountType == #quot;business#quot;",
+        "  account --> plan: otherwise",
+        "  company --> plan",
+        "  plan --> free_trial: choice",
+        "  plan --> done: choice",
+        "  free_trial --> done",
+        "  done --> [*]",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("should highlight the path and current step", () => {
+    const diagram = toMermaid(definition, { state: visitedState() });
+
+    expect(diagram).toContain("  class welcome,account visited\n");
+    expect(diagram).toContain("  class company current\n");
+  });
+
+  it("should not mark a current step once the flow is complete", () => {
+    const diagram = toMermaid(definition, {
+      state: { ...visitedState(), status: "complete" },
+    });
+
+    expect(diagram).toContain("  class welcome,account,company visited\n");
+    expect(diagram).not.toContain("current");
+  });
+
+  it("should keep ids unique when sanitizing makes them the same", () => {
+    const diagram = toMermaid({
+      id: "ids",
+      start: "a-b",
+      steps: { "a-b": { next: "a_b" }, a_b: { next: "a.b" }, "a.b": {} },
+    });
+
+    expect(diagram).toContain('  state "a-b" as a_b\n');
+    expect(diagram).toContain('  state "a.b" as a_b_3\n');
+    expect(diagram).toContain("  a_b --> a_b_2\n  a_b_2 --> a_b_3\n");
+  });
+});
+
+describe("toDot", () => {
+  it("should export a digraph", () => {
+    expect(toDot(definition)).toBe(
+      [
+        'digraph "signup" {',
+        "  rankdir=TB;",
+        "  node [shape=box, style=rounded];",
+        '  __start [shape=point, width=0.2, label=""];',
+        '  "welcome" [label="Welcome"];',
+        '  "account";',
+        '  "company";',
+        '  "plan";',
+        '  "free-trial";',
+        '  "done" [peripheries=2];',
+        '  __start -> "welcome";',
+        '  "welcome" -> "account";',
+        '  "account" -> "company" [label="accountType == \\"business\\""];',
+        '  "account" -> "plan" [label="otherwise"];',
+        '  "company" -> "plan";',
+        '  "plan" -> "free-trial" [label="choice"];',
+        '  "plan" -> "done" [label="choice"];',
+        '  "free-trial" -> "done";',
+        "}",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("should keep the start marker apart from a __start step", () => {
+    const diagram = toDot({
+      id: "start",
+      start: "__start",
+      steps: { __start: { next: "done" }, done: {} },
+    });
+
+    expect(diagram).toContain('  ___start [shape=point, width=0.2, label=""];');
+    expect(diagram).toContain('  ___start -> "__start";');
+  });
+
+  it("should highlight the path and current step", () => {
+    const diagram = toDot(definition, { state: visitedState() });
+
+    expect(diagram).toContain(
+      '  "account" [style="rounded,filled", fillcolor="#e0e7ff"];',
+    );
+    expect(diagram).toContain(
+      '  "company" [style="rounded,filled,bold", fillcolor="#6366f1", fontcolor="#ffffff"];',
+    );
+    expect(diagram).toContain(
+      '  "account" -> "company" [label="accountType == \\"business\\"", color="#6366f1", penwidth=2];',
+    );
+    expect(diagram).toContain('  "account" -> "plan" [label="otherwise"];');
+  });
+});
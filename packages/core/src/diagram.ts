@@ -0,0 +1,223 @@
+/**
+ * Flow diagrams
+ *
+ * Exports a flow definition as Mermaid (stateDiagram-v2) or Graphviz DOT
+ * text. The start step is entered from a start marker and terminal steps
+ * lead to an end marker (Mermaid) or are drawn with a double border (DOT).
+ * Conditional transitions are labelled with their condition, and a flow
+ * state's path and current step can be highlighted.
+ */
+
+import { describeCondition, isConditionalTransition } from "./conditions";
+import type { FlowDefinition, FlowState } from "./types";
+
+/**
+ * Options for toMermaid() and toDot()
+ */
+export type DiagramOptions = {
+  /** Flow state whose visited steps, path and current step are highlighted */
+  state?: Pick<FlowState, "stepId" | "path" | "status">;
+  /** Layout direction (defaults to top to bottom) */
+  direction?: "TB" | "LR";
+};
+
+type DiagramEdge = { from: string; to: string; label?: string };
+
+/**
+ * Edges of the flow graph, labelled for branching steps
+ * Conditional transitions are labelled with their condition ("otherwise" for
+ * the fallback), next arrays with "choice" (a resolver or the component picks).
+ */
+function getEdges(definition: FlowDefinition): DiagramEdge[] {
+  return Object.entries(definition.steps).flatMap(([from, step]) => {
+    const next = step.next;
+    if (next === undefined) return [];
+    if (typeof next === "string") return [{ from, to: next }];
+    if (isConditionalTransition(next)) {
+      return next.map((transition) => ({
+        from,
+        to: transition.to,
+        label: transition.when
+          ? describeCondition(transition.when)
+          : "otherwise",
+      }));
+    }
+    return next.map((to) =>
+      next.length > 1 ? { from, to, label: "choice" } : { from, to },
+    );
+  });
+}
+
+/**
+ * Steps to highlight for the options' state
+ */
+function getHighlights(options: DiagramOptions | undefined) {
+  const state = options?.state;
+  const path = state?.path.map((entry) => entry.stepId) ?? [];
+  const pathEdges = new Set(
+    path.slice(1).map((stepId, i) => `${path[i]}->${stepId}`),
+  );
+  return {
+    current: state?.status === "active" ? state.stepId : undefined,
+    visited: new Set(path),
+    isPathEdge: (edge: DiagramEdge) =>
+      pathEdges.has(`${edge.from}->${edge.to}`),
+  };
+}
+
+const isTerminal = (definition: FlowDefinition, stepId: string) =>
+  !definition.steps[stepId]?.next;
+
+/**
+ * Exports a flow definition as a Mermaid state diagram
+ * Steps with meta.title are shown with their title.
+ *
+ * @param definition - Flow definition to draw
+ * @param options - State to highlight and layout direction
+ * @returns Mermaid `stateDiagram-v2` source
+ *
+ * @example
+ * ```ts
+ * const source = toMermaid(flow.config, { state: runtime.getSnapshot().state });
+ * ```
+ */
+export function toMermaid(
+  definition: FlowDefinition,
+  options?: DiagramOptions,
+): string {
+  const ids = getMermaidIds(Object.keys(definition.steps));
+  const id = (stepId: string) => ids.get(stepId) ?? toMermaidId(stepId);
+  const { current, visited } = getHighlights(options);
+  const lines = ["stateDiagram-v2"];
+
+  if (options?.direction) lines.push(`  direction ${options.direction}`);
+  for (const [stepId, step] of Object.entries(definition.steps)) {
+    const title = step.meta?.title ?? stepId;
+    if (title !== id(stepId)) {
+      lines.push(`  state "${escapeMermaid(title)}" as ${id(stepId)}`);
+    }
+  }
+
+  lines.push(`  [*] --> ${id(definition.start)}`);
+  for (const edge of getEdges(definition)) {
+    const label = edge.label ? `: ${escapeMermaid(edge.label)}` : "";
+    lines.push(`  ${id(edge.from)} --> ${id(edge.to)}${label}`);
+  }
+  for (const stepId of Object.keys(definition.steps)) {
+    if (isTerminal(definition, stepId)) lines.push(`  ${id(stepId)} --> [*]`);
+  }
+
+  const visitedIds = [...visited]
+    .filter(
+      (stepId) => stepId !== current && Object.hasOwn(definition.steps, stepId),
+    )
+    .map(id);
+  if (visitedIds.length > 0) {
+    lines.push(
+      "  classDef visited fill:#e0e7ff,stroke:#6366f1",
+      `  class ${visitedIds.join(",")} visited`,
+    );
+  }
+  if (current !== undefined) {
+    lines.push(
+      "  classDef current fill:#6366f1,stroke:#4338ca,color:#fff,font-weight:bold",
+      `  class ${id(current)} current`,
+    );
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Exports a flow definition as a Graphviz DOT digraph
+ * Steps with meta.title are labelled with their title, and edges along the
+ * state's path are drawn bold.
+ *
+ * @param definition - Flow definition to draw
+ * @param options - State to highlight and layout direction
+ * @returns DOT source (render with e.g. `dot -Tsvg`)
+ */
+export function toDot(
+  definition: FlowDefinition,
+  options?: DiagramOptions,
+): string {
+  const { current, visited, isPathEdge } = getHighlights(options);
+  // DOT doesn't tell quoted and bare names apart - keep the start marker's
+  // name clear of the step ids
+  let start = "__start";
+  while (Object.hasOwn(definition.steps, start)) start = `_${start}`;
+  const lines = [
+    `digraph ${quoteDot(definition.id)} {`,
+    `  rankdir=${options?.direction ?? "TB"};`,
+    "  node [shape=box, style=rounded];",
+    `  ${start} [shape=point, width=0.2, label=""];`,
+  ];
+
+  for (const [stepId, step] of Object.entries(definition.steps)) {
+    const attributes: string[] = [];
+    if (step.meta?.title) attributes.push(`label=${quoteDot(step.meta.title)}`);
+    if (isTerminal(definition, stepId)) attributes.push("peripheries=2");
+    if (stepId === current) {
+      attributes.push(
+        'style="rounded,filled,bold"',
+        'fillcolor="#6366f1"',
+        'fontcolor="#ffffff"',
+      );
+    } else if (visited.has(stepId)) {
+      attributes.push('style="rounded,filled"', 'fillcolor="#e0e7ff"');
+    }
+    lines.push(
+      `  ${quoteDot(stepId)}${attributes.length > 0 ? ` [${attributes.join(", ")}]` : ""};`,
+    );
+  }
+
+  lines.push(`  ${start} -> ${quoteDot(definition.start)};`);
+  for (const edge of getEdges(definition)) {
+    const attributes: string[] = [];
+    if (edge.label) attributes.push(`label=${quoteDot(edge.label)}`);
+    if (isPathEdge(edge)) attributes.push('color="#6366f1"', "penwidth=2");
+    lines.push(
+      `  ${quoteDot(edge.from)} -> ${quoteDot(edge.to)}${attributes.length > 0 ? ` [${attributes.join(", ")}]` : ""};`,
+    );
+  }
+  lines.push("}");
+
+  return `${lines.join("\n")}\n`;
+}
+
+// Mermaid state ids can't contain spaces or punctuation
+const toMermaidId = (stepId: string) => stepId.replace(/\W/g, "_");
+
+/**
+ * Mermaid ids for the steps, numbered where sanitizing makes two steps'
+ * ids the same ("a-b" and "a_b" become a_b and a_b_2)
+ */
+function getMermaidIds(stepIds: readonly string[]): Map<string, string> {
+  const ids = new Map<string, string>();
+  const used = new Set<string>();
+  for (const stepId of stepIds) {
+    const base = toMermaidId(stepId);
+    let id = base;
+    for (let n = 2; used.has(id); n++) id = `${base}_${n}`;
+    used.add(id);
+    ids.set(stepId, id);
+  }
+  return ids;
+}
+
+const mermaidEntities: Record<string, string> = {
+  '"': "#quot;",
+  ":": "#58;",
+  ";": "#59;",
+};
+
+/**
+ * Mermaid text can't contain quotes, and ":" or ";" end labels and statements
+ */
+function escapeMermaid(text: string): string {
+  return text.replace(/[":;]/g, (char) => mermaidEntities[char] ?? char);
+}
+
+function quoteDot(text: string): string {
+  return `"${text.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
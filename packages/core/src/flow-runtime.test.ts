@@ -0,0 +1,1062 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { defineFlow } from "./define-flow";
+import { createFlowRuntime } from "./flow-runtime";
+import { replay } from "./journal";
+import type { FlowMiddleware } from "./middleware";
+import { createPersister } from "./persistence/persister";
+import { createMemoryStore } from "./persistence/stores/memory";
+import type { ContextSchema } from "./schema";
+
+const flow = defineFlow({
+  id: "signup",
+  start: "welcome",
+  steps: {
+    welcome: { next: "profile" },
+    profile: { next: "done" },
+    done: {},
+  },
+});
+
+describe("createFlowRuntime", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("state", () => {
+    it("should start at the start step with the initial context", () => {
+      const runtime = createFlowRuntime(flow, { initialContext: { name: "" } });
+
+      const snapshot = runtime.getSnapshot();
+      expect(snapshot.state.stepId).toBe("welcome");
+      expect(snapshot.state.context).toEqual({ name: "" });
+      expect(snapshot.isRestoring).toBe(false);
+      expect(snapshot.isTransitioning).toBe(false);
+    });
+
+    it("should notify subscribers with a new snapshot on every change", () => {
+      const runtime = createFlowRuntime(flow);
+      const listener = vi.fn();
+      runtime.subscribe(listener);
+      const before = runtime.getSnapshot();
+
+      runtime.next({ name: "Ada" });
+
+      expect(listener).toHaveBeenCalledOnce();
+      expect(runtime.getSnapshot()).not.toBe(before);
+      expect(runtime.getSnapshot().state.stepId).toBe("profile");
+      expect(runtime.getSnapshot().state.context).toEqual({ name: "Ada" });
+    });
+
+    it("should use the flow passed to setOptions from the next action", () => {
+      const branching = defineFlow({
+        id: "branching",
+        start: "start",
+        steps: {
+          start: { next: ["a", "b"] },
+          a: {},
+          b: {},
+        },
+      });
+      const runtime = createFlowRuntime(
+        branching.with(() => ({ resolvers: { start: () => "a" as const } })),
+      );
+
+      runtime.setOptions({
+        flow: branching.with(() => ({
+          resolvers: { start: () => "b" as const },
+        })),
+      });
+      runtime.next();
+
+      expect(runtime.getSnapshot().state.stepId).toBe("b");
+    });
+
+    it("should keep the snapshot when nothing changes", () => {
+      const runtime = createFlowRuntime(flow);
+      const listener = vi.fn();
+      runtime.subscribe(listener);
+      const before = runtime.getSnapshot();
+
+      // Can't go back from the start step
+      runtime.back();
+
+      expect(listener).not.toHaveBeenCalled();
+      expect(runtime.getSnapshot()).toBe(before);
+    });
+
+    it("should stop notifying after unsubscribing", () => {
+      const runtime = createFlowRuntime(flow);
+      const listener = vi.fn();
+      const unsubscribe = runtime.subscribe(listener);
+
+      unsubscribe();
+      runtime.next();
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it("should reset to the original initial context", async () => {
+      const runtime = createFlowRuntime(flow, { initialContext: { count: 0 } });
+      runtime.next({ count: 5 });
+
+      await runtime.reset();
+
+      expect(runtime.getSnapshot().state.stepId).toBe("welcome");
+      expect(runtime.getSnapshot().state.context).toEqual({ count: 0 });
+    });
+
+    it("should compute progress once per state", () => {
+      const runtime = createFlowRuntime(flow);
+      const progress = runtime.getProgress();
+
+      expect(progress).toMatchObject({
+        completed: 0,
+        predictedPath: ["welcome", "profile", "done"],
+      });
+      expect(runtime.getProgress()).toBe(progress);
+
+      runtime.next();
+      expect(runtime.getProgress()).toMatchObject({
+        completed: 1,
+        predictedPath: ["profile", "done"],
+      });
+    });
+
+    it("should not run resolvers to compute progress", () => {
+      const resolver = vi.fn(async () => "b" as const);
+      const branching = defineFlow({
+        id: "branching",
+        start: "start",
+        steps: {
+          start: { next: ["a", "b"] },
+          a: {},
+          b: {},
+        },
+      }).with<{ query: string }>(() => ({ resolvers: { start: resolver } }));
+      const runtime = createFlowRuntime(branching, {
+        initialContext: { query: "" },
+      });
+
+      for (const query of ["a", "ac", "acm", "acme", "acme!"]) {
+        runtime.setContext({ query });
+        runtime.getProgress();
+      }
+
+      expect(resolver).not.toHaveBeenCalled();
+      expect(runtime.getProgress().predictedPath).toEqual(["start"]);
+    });
+  });
+
+  describe("async navigation", () => {
+    it("should report transitions while an async resolver runs", async () => {
+      const branching = defineFlow({
+        id: "branching",
+        start: "start",
+        steps: {
+          start: { next: ["a", "b"] },
+          a: {},
+          b: {},
+        },
+      }).with(() => ({
+        resolvers: { start: async () => "b" as const },
+      }));
+      const runtime = createFlowRuntime(branching);
+
+      runtime.next();
+      expect(runtime.getSnapshot().isTransitioning).toBe(true);
+
+      await vi.waitFor(() => {
+        expect(runtime.getSnapshot().state.stepId).toBe("b");
+      });
+      expect(runtime.getSnapshot().isTransitioning).toBe(false);
+    });
+
+    it("should resolve again when the state changes while resolving", async () => {
+      const branching = defineFlow({
+        id: "branching",
+        start: "start",
+        steps: {
+          start: { next: ["a", "b"] },
+          a: {},
+          b: {},
+        },
+      }).with<{ plan: string }>(() => ({
+        resolvers: {
+          start: async ({ plan }) => (plan === "pro" ? "b" : "a"),
+        },
+      }));
+      const runtime = createFlowRuntime(branching, {
+        initialContext: { plan: "free" },
+      });
+
+      runtime.next();
+      runtime.setContext({ plan: "pro" });
+
+      await vi.waitFor(() => {
+        expect(runtime.getSnapshot().isTransitioning).toBe(false);
+      });
+      expect(runtime.getSnapshot().state.stepId).toBe("b");
+      expect(runtime.getSnapshot().state.context).toEqual({ plan: "pro" });
+    });
+
+    it("should check async guards again when the state changes", async () => {
+      const canEnter = vi.fn(
+        async ({ context }: { context: { verified: boolean } }) =>
+          context.verified,
+      );
+      const guarded = flow.with<{ verified: boolean }>(() => ({
+        guards: { profile: { canEnter } },
+      }));
+      const runtime = createFlowRuntime(guarded, {
+        initialContext: { verified: true },
+      });
+
+      runtime.next();
+      runtime.setContext({ verified: false });
+
+      await vi.waitFor(() => {
+        expect(runtime.getSnapshot().isTransitioning).toBe(false);
+      });
+      expect(canEnter).toHaveBeenCalledTimes(2);
+      expect(runtime.getSnapshot().state.stepId).toBe("welcome");
+      expect(runtime.getSnapshot().rejection).toMatchObject({
+        stepId: "profile",
+      });
+    });
+
+    it("should report guard rejections and keep the update", () => {
+      const guarded = flow.with<{ name: string }>(() => ({
+        guards: { profile: { canEnter: ({ context }) => context.name !== "" } },
+      }));
+      const onGuardReject = vi.fn();
+      const runtime = createFlowRuntime(guarded, {
+        initialContext: { name: "Ada" },
+        onGuardReject,
+      });
+
+      runtime.next({ name: "" });
+
+      const snapshot = runtime.getSnapshot();
+      expect(snapshot.state.stepId).toBe("welcome");
+      expect(snapshot.state.context).toEqual({ name: "" });
+      expect(snapshot.rejection).toMatchObject({
+        stepId: "profile",
+        guard: "canEnter",
+      });
+      expect(onGuardReject).toHaveBeenCalledWith(
+        expect.objectContaining({ to: "profile", context: { name: "" } }),
+      );
+    });
+
+    it("should run the guards of an active sub-flow", () => {
+      const child = defineFlow({
+        id: "child",
+        start: "first",
+        steps: { first: { next: "second" }, second: {} },
+      }).with(() => ({
+        guards: { first: { canLeave: () => false } },
+      }));
+      const parent = defineFlow({
+        id: "parent",
+        start: "nested",
+        steps: { nested: { flow: "child", next: "done" }, done: {} },
+      }).with(() => ({
+        subFlows: { child: { flow: child } },
+      }));
+      const onGuardReject = vi.fn();
+      const runtime = createFlowRuntime(parent, { onGuardReject });
+
+      runtime.next();
+
+      const snapshot = runtime.getSnapshot();
+      expect(snapshot.state.child?.stepId).toBe("first");
+      expect(snapshot.rejection).toMatchObject({
+        from: "first",
+        to: "second",
+        stepId: "first",
+        guard: "canLeave",
+      });
+      expect(onGuardReject).toHaveBeenCalledTimes(1);
+    });
+
+    const branching = defineFlow({
+      id: "branching",
+      start: "welcome",
+      steps: { welcome: { next: ["profile", "done"] }, profile: {}, done: {} },
+    });
+
+    it.each([
+      [
+        "an async guard",
+        branching.with(() => ({
+          resolvers: { welcome: () => "profile" as const },
+          guards: { profile: { canEnter: async () => true } },
+        })),
+      ],
+      [
+        "an async resolver",
+        branching.with(() => ({
+          resolvers: { welcome: async () => "profile" as const },
+        })),
+      ],
+    ])(
+      "should report errors thrown while committing after %s",
+      async (_, guarded) => {
+        vi.spyOn(console, "error").mockImplementation(() => {});
+        const error = new Error("onNext failed");
+        const onTransitionError = vi.fn();
+        const runtime = createFlowRuntime(guarded, {
+          onNext: () => {
+            throw error;
+          },
+          onTransitionError,
+        });
+
+        runtime.next();
+
+        await vi.waitFor(() => {
+          expect(onTransitionError).toHaveBeenCalledWith(error);
+        });
+        expect(runtime.getSnapshot().isTransitioning).toBe(false);
+        expect(runtime.getSnapshot().transitionError).toBe(error);
+      },
+    );
+
+    it("should throw navigation errors instead of letting the navigation through", () => {
+      const canLeave = vi.fn(() => true);
+      const guarded = branching.with(() => ({
+        guards: { welcome: { canLeave } },
+      }));
+      const runtime = createFlowRuntime(guarded);
+
+      expect(() => runtime.next()).toThrow("no resolver function");
+      expect(canLeave).not.toHaveBeenCalled();
+      expect(runtime.getSnapshot().state.stepId).toBe("welcome");
+    });
+  });
+
+  describe("callbacks", () => {
+    it("should report navigation and completion", () => {
+      const onNext = vi.fn();
+      const onBack = vi.fn();
+      const onTransition = vi.fn();
+      const onContextUpdate = vi.fn();
+      const onComplete = vi.fn();
+      const runtime = createFlowRuntime(flow, {
+        initialContext: { name: "" },
+        onNext,
+        onBack,
+        onTransition,
+        onContextUpdate,
+        onComplete,
+      });
+
+      runtime.next({ name: "Ada" });
+      runtime.back();
+      runtime.next();
+      runtime.next();
+
+      expect(onNext).toHaveBeenCalledTimes(3);
+      expect(onNext).toHaveBeenNthCalledWith(1, {
+        from: "welcome",
+        to: "profile",
+        oldContext: { name: "" },
+        newContext: { name: "Ada" },
+      });
+      expect(onBack).toHaveBeenCalledWith(
+        expect.objectContaining({ from: "profile", to: "welcome" }),
+      );
+      expect(onTransition).toHaveBeenCalledTimes(4);
+      expect(onTransition).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({ direction: "backward" }),
+      );
+      expect(onContextUpdate).toHaveBeenCalledOnce();
+      expect(onComplete).toHaveBeenCalledWith({ context: { name: "Ada" } });
+    });
+
+    it("should report global callbacks with the flow's identity", async () => {
+      const onFlowStart = vi.fn();
+      const onStepTransition = vi.fn();
+      const onFlowComplete = vi.fn();
+      const runtime = createFlowRuntime(flow, {
+        instanceId: "a",
+        callbacks: { onFlowStart, onStepTransition, onFlowComplete },
+      });
+
+      await runtime.start();
+      await runtime.start();
+      runtime.next();
+      runtime.next();
+
+      expect(onFlowStart).toHaveBeenCalledOnce();
+      expect(onFlowStart).toHaveBeenCalledWith({
+        flowId: "signup",
+        variantId: undefined,
+        instanceId: "a",
+        context: {},
+      });
+      expect(onStepTransition).toHaveBeenCalledTimes(2);
+      expect(onStepTransition).toHaveBeenCalledWith(
+        expect.objectContaining({
+          flowId: "signup",
+          instanceId: "a",
+          from: "welcome",
+          to: "profile",
+          direction: "forward",
+        }),
+      );
+      expect(onFlowComplete).toHaveBeenCalledOnce();
+    });
+
+    it("should use the latest options", () => {
+      const first = vi.fn();
+      const second = vi.fn();
+      const runtime = createFlowRuntime(flow, { onNext: first });
+
+      runtime.setOptions({ onNext: second });
+      runtime.next();
+
+      expect(first).not.toHaveBeenCalled();
+      expect(second).toHaveBeenCalledOnce();
+    });
+  });
+
+  describe("middleware", () => {
+    it("should see the state before and after each action", () => {
+      const seen: string[] = [];
+      const logger: FlowMiddleware = (api) => (next) => (action) => {
+        const before = api.getState();
+        const after = next(action);
+        seen.push(`${action.type} ${before.stepId} → ${after.stepId}`);
+        expect(api).toMatchObject({ flowId: "signup", instanceId: "a" });
+        return after;
+      };
+      const runtime = createFlowRuntime(flow, {
+        instanceId: "a",
+        middleware: [logger],
+      });
+
+      runtime.next();
+      runtime.setContext({ name: "Ada" });
+      runtime.back();
+
+      expect(seen).toEqual([
+        "NEXT welcome → profile",
+        "SET_CONTEXT profile → profile",
+        "BACK profile → welcome",
+      ]);
+    });
+
+    it("should build the middleware chain once per middleware list", () => {
+      let count = 0;
+      const factory = vi.fn();
+      const counter: FlowMiddleware = () => {
+        factory();
+        return (next) => (action) => {
+          count++;
+          return next(action);
+        };
+      };
+      const middleware = [counter];
+      const runtime = createFlowRuntime(flow, { middleware });
+
+      runtime.next();
+      runtime.setOptions({ middleware: [...middleware] });
+      runtime.setContext({ name: "Ada" });
+      runtime.back();
+
+      expect(factory).toHaveBeenCalledOnce();
+      expect(count).toBe(3);
+
+      runtime.setOptions({ middleware: [counter, counter] });
+      expect(factory).toHaveBeenCalledTimes(3);
+    });
+
+    it("should commit actions that middleware passes on later", () => {
+      vi.useFakeTimers();
+      const debounce: FlowMiddleware = (api) => {
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        return (next) => (action) => {
+          if (action.type !== "SET_CONTEXT") return next(action);
+          clearTimeout(timer);
+          timer = setTimeout(() => next(action), 100);
+          return api.getState();
+        };
+      };
+      const onContextUpdate = vi.fn();
+      const runtime = createFlowRuntime(flow, {
+        middleware: [debounce],
+        onContextUpdate,
+      });
+
+      runtime.setContext({ name: "A" });
+      runtime.setContext({ name: "Ada" });
+      expect(runtime.getSnapshot().state.context).toEqual({});
+
+      vi.advanceTimersByTime(100);
+
+      expect(runtime.getSnapshot().state.context).toEqual({ name: "Ada" });
+      expect(onContextUpdate).toHaveBeenCalledOnce();
+    });
+
+    it("should cancel actions", () => {
+      const onNext = vi.fn();
+      const listener = vi.fn();
+      const noNext: FlowMiddleware = (api) => (next) => (action) =>
+        action.type === "NEXT" ? api.getState() : next(action);
+      const runtime = createFlowRuntime(flow, {
+        middleware: [noNext],
+        onNext,
+      });
+      runtime.subscribe(listener);
+
+      runtime.next({ name: "Ada" });
+
+      expect(runtime.getSnapshot().state.stepId).toBe("welcome");
+      expect(runtime.getSnapshot().state.context).toEqual({});
+      expect(onNext).not.toHaveBeenCalled();
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it("should report transformed actions as committed", () => {
+      const onNext = vi.fn();
+      const onSkip = vi.fn();
+      const nextAsSkip: FlowMiddleware = () => (next) => (action) =>
+        action.type === "NEXT"
+          ? next({ ...action, type: "SKIP" })
+          : next(action);
+      const runtime = createFlowRuntime(flow, {
+        middleware: [nextAsSkip],
+        onNext,
+        onSkip,
+      });
+
+      runtime.next({ name: "Ada" });
+
+      const { state } = runtime.getSnapshot();
+      expect(state.stepId).toBe("profile");
+      expect(state.history[0]?.action).toBe("skip");
+      expect(onNext).not.toHaveBeenCalled();
+      expect(onSkip).toHaveBeenCalledWith(
+        expect.objectContaining({ from: "welcome", to: "profile" }),
+      );
+    });
+
+    it("should see the resolved action after guards", () => {
+      const actions: unknown[] = [];
+      const guarded = flow.with<{ name: string }>(() => ({
+        guards: { profile: { canEnter: ({ context }) => context.name !== "" } },
+      }));
+      const runtime = createFlowRuntime(guarded, {
+        initialContext: { name: "" },
+        middleware: [
+          () => (next) => (action) => {
+            actions.push(action);
+            return next(action);
+          },
+        ],
+      });
+
+      runtime.next();
+
+      // The blocked navigation is never dispatched
+      expect(actions).toEqual([]);
+      expect(runtime.getSnapshot().rejection).not.toBeNull();
+    });
+  });
+
+  describe("journal", () => {
+    it("should record committed actions with timestamps", () => {
+      vi.useFakeTimers({ now: 1000 });
+      const runtime = createFlowRuntime(flow, { journal: true });
+
+      runtime.next({ name: "Ada" });
+      vi.setSystemTime(2000);
+      runtime.back();
+      runtime.back(); // Nothing changes - not recorded
+
+      expect(runtime.getSnapshot().state.journal).toEqual([
+        { action: { type: "NEXT", update: { name: "Ada" } }, timestamp: 1000 },
+        { action: { type: "BACK" }, timestamp: 2000 },
+      ]);
+    });
+
+    it("should not record without the journal option", () => {
+      const runtime = createFlowRuntime(flow);
+
+      runtime.next();
+
+      expect(runtime.getSnapshot().state.journal).toBeUndefined();
+    });
+
+    it("should record function updates as the value they returned", () => {
+      const runtime = createFlowRuntime(flow, {
+        initialContext: { count: 1 },
+        journal: true,
+      });
+
+      runtime.setContext((context) => ({ count: context.count + 1 }));
+
+      expect(runtime.getSnapshot().state.journal?.[0]).toMatchObject({
+        action: { type: "SET_CONTEXT", update: { count: 2 } },
+        replace: true,
+      });
+    });
+
+    it("should replay function updates that remove keys", () => {
+      vi.useFakeTimers({ now: 1000 });
+      const runtime = createFlowRuntime(flow, {
+        initialContext: { x: 1 } as { x?: number; y?: number },
+        journal: true,
+      });
+      runtime.setContext(({ x: _x, ...rest }) => ({ ...rest, y: 2 }));
+      runtime.setContext({ y: 3 });
+
+      const { journal = [], ...state } = runtime.getSnapshot().state;
+      expect(state.context).toEqual({ y: 3 });
+      expect(
+        [...replay(flow, { x: 1 }, journal, { startedAt: 1000 })].at(-1),
+      ).toEqual(state);
+    });
+
+    it("should replay to the recorded state", () => {
+      vi.useFakeTimers({ now: 1000 });
+      const runtime = createFlowRuntime(flow, {
+        initialContext: { name: "" },
+        journal: true,
+      });
+      vi.setSystemTime(1500);
+      runtime.next({ name: "Ada" });
+      vi.setSystemTime(2000);
+      runtime.setContext((context) => ({ ...context, email: "a@b.c" }));
+      runtime.next();
+
+      const { journal, ...state } = runtime.getSnapshot().state;
+      const states = [
+        ...replay(flow, { name: "" }, journal ?? [], { startedAt: 1000 }),
+      ];
+
+      expect(states).toHaveLength(4);
+      expect(states.at(-1)).toEqual(state);
+    });
+
+    it("should replay with the flow's schema and guards", () => {
+      vi.useFakeTimers({ now: 1000 });
+      const schema: ContextSchema<{ name: string }> = {
+        "~standard": {
+          version: 1,
+          vendor: "test",
+          validate: (value) => {
+            const { name } = value as { name?: unknown };
+            return typeof name === "string"
+              ? { value: { name: name.trim() } }
+              : { issues: [{ message: "Expected string", path: ["name"] }] };
+          },
+        },
+      };
+      const validated = flow.with<{ name: string }>(() => ({
+        schema,
+        guards: { welcome: { canLeave: () => true } },
+      }));
+      const runtime = createFlowRuntime(validated, {
+        initialContext: { name: " " },
+        journal: true,
+      });
+      runtime.next({ name: " Ada " });
+      runtime.setContext({ name: "Grace " });
+
+      const { journal = [], ...state } = runtime.getSnapshot().state;
+      expect(state.context).toEqual({ name: "Grace" });
+      expect(
+        [...replay(validated, { name: " " }, journal, { startedAt: 1000 })].at(
+          -1,
+        ),
+      ).toEqual(state);
+      expect(() => [
+        ...replay(validated, { name: "" }, [
+          {
+            action: { type: "SET_CONTEXT", update: { name: 1 } },
+            timestamp: 1,
+          },
+        ]),
+      ]).toThrow("Journal entry 0 (SET_CONTEXT)");
+    });
+
+    it("should replay undo and redo with the runtime's undo option", () => {
+      vi.useFakeTimers({ now: 1000 });
+      const runtime = createFlowRuntime(flow, {
+        initialContext: { n: 0 },
+        journal: true,
+        undo: true,
+      });
+      runtime.setContext({ n: 1 });
+      runtime.setContext({ n: 2 });
+      runtime.undo();
+
+      const { journal = [], ...state } = runtime.getSnapshot().state;
+      expect(state.context).toEqual({ n: 1 });
+      expect(
+        [
+          ...replay(flow, { n: 0 }, journal, { startedAt: 1000, undo: true }),
+        ].at(-1),
+      ).toEqual(state);
+      expect(() => [...replay(flow, { n: 0 }, journal)]).toThrow(
+        "Pass the runtime's undo option",
+      );
+    });
+
+    it("should persist the journal and keep it on restore", async () => {
+      const persister = createPersister({ store: createMemoryStore() });
+      const first = createFlowRuntime(flow, {
+        persister,
+        saveDebounce: 0,
+        journal: true,
+      });
+      await first.start();
+      first.next();
+      await vi.waitFor(async () => {
+        expect((await persister.restore("signup"))?.journal).toHaveLength(1);
+      });
+
+      const second = createFlowRuntime(flow, { persister, journal: true });
+      await second.start();
+      second.next();
+
+      expect(
+        second.getSnapshot().state.journal?.map(({ action }) => action.type),
+      ).toEqual(["NEXT", "NEXT"]);
+    });
+  });
+
+  describe("undo", () => {
+    it("should undo and redo context changes", () => {
+      const onContextUpdate = vi.fn();
+      const runtime = createFlowRuntime(flow, {
+        initialContext: { name: "" },
+        undo: true,
+        onContextUpdate,
+      });
+
+      runtime.setContext({ name: "Ada" });
+      runtime.undo();
+      expect(runtime.getSnapshot().state.context).toEqual({ name: "" });
+      expect(onContextUpdate).toHaveBeenLastCalledWith({
+        oldContext: { name: "Ada" },
+        newContext: { name: "" },
+      });
+
+      runtime.redo();
+      expect(runtime.getSnapshot().state.context).toEqual({ name: "Ada" });
+    });
+
+    it("should ignore undo without the undo option", () => {
+      const runtime = createFlowRuntime(flow, { initialContext: { name: "" } });
+
+      runtime.setContext({ name: "Ada" });
+      runtime.undo();
+
+      expect(runtime.getSnapshot().state.context).toEqual({ name: "Ada" });
+    });
+  });
+
+  describe("context schema", () => {
+    const schema: ContextSchema<{ name: string }> = {
+      "~standard": {
+        version: 1,
+        vendor: "test",
+        validate: (value) => {
+          const { name } = value as { name?: unknown };
+          return typeof name === "string"
+            ? { value: { name: name.trim() } }
+            : { issues: [{ message: "Expected string", path: ["name"] }] };
+        },
+      },
+    };
+    const validated = flow.with<{ name: string }>(() => ({ schema }));
+    const issues = [{ message: "Expected string", path: ["name"] }];
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it("should use the schema's output for the initial context and updates", () => {
+      const runtime = createFlowRuntime(validated, {
+        initialContext: { name: " Ada " },
+      });
+      expect(runtime.getSnapshot().state.context).toEqual({ name: "Ada" });
+
+      runtime.next({ name: " Grace " });
+      expect(runtime.getSnapshot().state.context).toEqual({ name: "Grace" });
+    });
+
+    it("should report an invalid initial context when the flow starts", async () => {
+      const onValidationError = vi.fn();
+      const runtime = createFlowRuntime(validated, {
+        initialContext: {} as { name: string },
+      });
+      runtime.setOptions({ onValidationError });
+
+      await runtime.start();
+
+      expect(onValidationError).toHaveBeenCalledWith({
+        source: "initialContext",
+        context: {},
+        issues,
+      });
+    });
+
+    it("should reject invalid updates", () => {
+      const onValidationError = vi.fn();
+      const onNext = vi.fn();
+      const runtime = createFlowRuntime(validated, {
+        initialContext: { name: "" },
+        onValidationError,
+        onNext,
+      });
+
+      runtime.next({ name: 1 } as unknown as { name: string });
+
+      expect(runtime.getSnapshot().state.stepId).toBe("welcome");
+      expect(runtime.getSnapshot().state.context).toEqual({ name: "" });
+      expect(onNext).not.toHaveBeenCalled();
+      expect(onValidationError).toHaveBeenCalledWith({
+        source: "update",
+        context: { name: 1 },
+        issues,
+      });
+    });
+
+    it("should reject restoring an invalid state", () => {
+      const onValidationError = vi.fn();
+      const runtime = createFlowRuntime(validated, {
+        initialContext: { name: "" },
+        onValidationError,
+      });
+      const before = runtime.getSnapshot().state;
+
+      runtime.restore({ ...before, context: {} as { name: string } });
+
+      expect(runtime.getSnapshot().state).toBe(before);
+      expect(onValidationError).toHaveBeenCalledWith(
+        expect.objectContaining({ source: "restore" }),
+      );
+    });
+
+    it("should report invalid persisted context as a persistence error", async () => {
+      const persister = createPersister({ store: createMemoryStore() });
+      const initial = createFlowRuntime(flow).getSnapshot().state;
+      await persister.save("signup", { ...initial, context: { name: 1 } });
+      const onPersistenceError = vi.fn();
+      const onRestore = vi.fn();
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+
+      const runtime = createFlowRuntime(validated, {
+        initialContext: { name: "" },
+        persister,
+        onPersistenceError,
+        onRestore,
+      });
+      await runtime.start();
+
+      expect(runtime.getSnapshot().state.context).toEqual({ name: "" });
+      expect(onRestore).not.toHaveBeenCalled();
+      expect(onPersistenceError).toHaveBeenCalledWith(
+        new Error("Invalid persisted context: name: Expected string"),
+      );
+    });
+  });
+
+  describe("step validators", () => {
+    it("should keep the step and expose errors without running resolvers or guards", () => {
+      const resolver = vi.fn(() => "b" as const);
+      const canLeave = vi.fn(() => true);
+      const validatedFlow = defineFlow({
+        id: "validated",
+        start: "start",
+        steps: {
+          start: { next: ["a", "b"] },
+          a: {},
+          b: {},
+        },
+      }).with<{ email?: string }>(() => ({
+        resolvers: { start: resolver },
+        guards: { start: { canLeave } },
+        validators: {
+          start: (ctx) => (ctx.email ? null : { email: "Email is required" }),
+        },
+      }));
+      const onNext = vi.fn();
+      const runtime = createFlowRuntime(validatedFlow, { onNext });
+
+      runtime.next();
+
+      expect(runtime.getSnapshot().state.stepId).toBe("start");
+      expect(runtime.getSnapshot().state.errors).toEqual({
+        email: "Email is required",
+      });
+      expect(resolver).not.toHaveBeenCalled();
+      expect(canLeave).not.toHaveBeenCalled();
+      expect(onNext).not.toHaveBeenCalled();
+
+      runtime.next({ email: "ada@example.com" });
+
+      expect(runtime.getSnapshot().state.stepId).toBe("b");
+      expect(runtime.getSnapshot().state.errors).toBeUndefined();
+      expect(canLeave).toHaveBeenCalledOnce();
+    });
+  });
+
+  describe("persistence", () => {
+    it("should restore persisted state on start", async () => {
+      const persister = createPersister({ store: createMemoryStore() });
+      const first = createFlowRuntime(flow, { persister, saveDebounce: 0 });
+      await first.start();
+      first.next({ name: "Ada" });
+      await vi.waitFor(async () => {
+        expect(await persister.restore("signup")).not.toBeNull();
+      });
+
+      const onRestore = vi.fn();
+      const second = createFlowRuntime(flow, { persister, onRestore });
+      expect(second.getSnapshot().isRestoring).toBe(true);
+
+      await second.start();
+
+      expect(second.getSnapshot().isRestoring).toBe(false);
+      expect(second.getSnapshot().state.stepId).toBe("profile");
+      expect(second.getSnapshot().state.context).toEqual({ name: "Ada" });
+      expect(onRestore).toHaveBeenCalledOnce();
+    });
+
+    it("should reject persisted state that doesn't match the flow", async () => {
+      const store = createMemoryStore();
+      const persister = createPersister({ store });
+      await persister.save("signup", {
+        stepId: "removed",
+        context: {},
+        path: [{ stepId: "removed", startedAt: 1 }],
+        history: [{ stepId: "removed", startedAt: 1 }],
+        status: "active",
+        startedAt: 1,
+      });
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      const onPersistenceError = vi.fn();
+      const runtime = createFlowRuntime(flow, {
+        persister,
+        onPersistenceError,
+      });
+
+      await runtime.start();
+
+      expect(runtime.getSnapshot().state.stepId).toBe("welcome");
+      expect(onPersistenceError).toHaveBeenCalledWith(
+        expect.objectContaining({
+          message: expect.stringContaining("Invalid persisted state"),
+        }),
+      );
+      vi.restoreAllMocks();
+    });
+
+    it("should debounce saves on navigation", async () => {
+      vi.useFakeTimers();
+      const persister = createPersister({ store: createMemoryStore() });
+      const save = vi.spyOn(persister, "save");
+      const runtime = createFlowRuntime(flow, { persister });
+      await runtime.start();
+
+      runtime.setContext({ draft: true });
+      runtime.next();
+      runtime.next();
+      expect(save).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(300);
+
+      expect(save).toHaveBeenCalledOnce();
+      expect(save).toHaveBeenCalledWith(
+        "signup",
+        expect.objectContaining({ stepId: "done" }),
+        { version: undefined, instanceId: undefined, variantId: undefined },
+      );
+    });
+
+    it("should only save manually in manual mode", async () => {
+      vi.useFakeTimers();
+      const persister = createPersister({ store: createMemoryStore() });
+      const save = vi.spyOn(persister, "save");
+      const onSave = vi.fn();
+      const runtime = createFlowRuntime(flow, {
+        persister,
+        saveMode: "manual",
+        onSave,
+      });
+      await runtime.start();
+
+      runtime.next();
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(save).not.toHaveBeenCalled();
+
+      await runtime.save();
+      expect(onSave).toHaveBeenCalledWith(
+        expect.objectContaining({ stepId: "profile" }),
+      );
+    });
+
+    it("should cancel pending saves when stopped", async () => {
+      vi.useFakeTimers();
+      const persister = createPersister({ store: createMemoryStore() });
+      const save = vi.spyOn(persister, "save");
+      const runtime = createFlowRuntime(flow, { persister });
+      await runtime.start();
+
+      runtime.next();
+      runtime.stop();
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(save).not.toHaveBeenCalled();
+    });
+
+    it("should ignore a restore that finishes after stop", async () => {
+      const persister = createPersister({ store: createMemoryStore() });
+      await persister.save("signup", {
+        stepId: "profile",
+        context: {},
+        path: [
+          { stepId: "welcome", startedAt: 1, completedAt: 2, action: "next" },
+          { stepId: "profile", startedAt: 2 },
+        ],
+        history: [
+          { stepId: "welcome", startedAt: 1, completedAt: 2, action: "next" },
+          { stepId: "profile", startedAt: 2 },
+        ],
+        status: "active",
+        startedAt: 1,
+      });
+      const runtime = createFlowRuntime(flow, { persister });
+
+      const pending = runtime.start();
+      runtime.stop();
+      await pending;
+
+      expect(runtime.getSnapshot().state.stepId).toBe("welcome");
+      expect(runtime.getSnapshot().isRestoring).toBe(true);
+
+      await runtime.start();
+      expect(runtime.getSnapshot().state.stepId).toBe("profile");
+      expect(runtime.getSnapshot().isRestoring).toBe(false);
+    });
+
+    it("should remove persisted state on reset", async () => {
+      const persister = createPersister({ store: createMemoryStore() });
+      const runtime = createFlowRuntime(flow, { persister, saveDebounce: 0 });
+      await runtime.start();
+      runtime.next();
+      await runtime.save();
+
+      await runtime.reset();
+
+      expect(await persister.restore("signup")).toBeNull();
+      expect(runtime.getSnapshot().state.stepId).toBe("welcome");
+    });
+  });
+});
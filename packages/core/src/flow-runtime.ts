@@ -0,0 +1,1002 @@
+/**
+ * Framework-agnostic flow runtime
+ *
+ * Owns the state of a running flow: dispatching actions (including async
+ * resolvers and guards), restoring and saving persisted state, and reporting
+ * lifecycle callbacks. Framework adapters subscribe to its snapshots (e.g.
+ * React's useSyncExternalStore), and non-UI code can drive it directly.
+ */
+
+import {
+  applyMiddleware,
+  type FlowDispatch,
+  type FlowMiddleware,
+} from "./middleware";
+import type { FlowPersister } from "./persistence/persister";
+import { validatePersistedState } from "./persistence/state";
+import { type FlowProgress, getProgress } from "./progress";
+import { createInitialState, flowReducer, type UndoOptions } from "./reducer";
+import type {
+  MigrateFunction,
+  RuntimeFlowDefinition,
+  RuntimeGuardMap,
+  RuntimeResolverMap,
+  RuntimeSkipConditionMap,
+  RuntimeSubFlowMap,
+  RuntimeValidatorMap,
+} from "./runtime";
+import {
+  type ContextSchema,
+  type ContextValidationEvent,
+  formatIssues,
+  validateContext,
+} from "./schema";
+import {
+  type GuardDecision,
+  type GuardRejection,
+  guardNavigation,
+  resolveNavigationTarget,
+} from "./transitions";
+import type {
+  ContextUpdate,
+  FlowAction,
+  FlowContext,
+  FlowDefinition,
+  FlowState,
+  JournalEntry,
+  PersistedFlowState,
+} from "./types";
+
+/**
+ * When state is saved automatically
+ * - "always": Save on every state change (context updates, navigation)
+ * - "navigation": Save only on navigation (next/skip/back)
+ * - "manual": Only save when calling save() explicitly
+ */
+export type SaveMode = "always" | "navigation" | "manual";
+
+/**
+ * Event passed to global transition callbacks
+ */
+export interface TransitionEvent {
+  flowId: string;
+  variantId?: string;
+  instanceId?: string;
+  from: string;
+  to: string;
+  direction: "forward" | "backward";
+  oldContext: FlowContext;
+  newContext: FlowContext;
+}
+
+/**
+ * Event passed to global flow start/complete callbacks
+ */
+export interface FlowLifecycleEvent {
+  flowId: string;
+  variantId?: string;
+  instanceId?: string;
+  context: FlowContext;
+}
+
+/**
+ * Callbacks for lifecycle events of every flow (e.g. analytics)
+ */
+export type GlobalFlowCallbacks = {
+  /**
+   * Called when any flow starts (first render with initial state)
+   */
+  onFlowStart?: (event: FlowLifecycleEvent) => void;
+
+  /**
+   * Called when any flow completes
+   */
+  onFlowComplete?: (event: FlowLifecycleEvent) => void;
+
+  /**
+   * Called on every step transition in any flow
+   */
+  onStepTransition?: (event: TransitionEvent) => void;
+};
+
+/**
+ * Event passed to step change callbacks (onNext, onSkip, onBack)
+ */
+export type StepChangeEvent<TContext extends FlowContext = FlowContext> = {
+  from: string;
+  to: string;
+  oldContext: TContext;
+  newContext: TContext;
+};
+
+/**
+ * Options for createFlowRuntime()
+ */
+export type FlowRuntimeOptions<TContext extends FlowContext = FlowContext> = {
+  /** Initial context (also used by reset(), later changes are ignored) */
+  initialContext?: TContext;
+  /**
+   * Latest version of the flow (steps and runtime config), e.g. recreated on
+   * every render. Used from the next action on - it must keep the flow's id
+   */
+  flow?: RuntimeFlowDefinition<FlowDefinition, TContext>;
+  /** State to start from instead of the flow's initial state */
+  initialState?: FlowState<TContext>;
+  /** Unique identifier for reusable flows with separate persistence */
+  instanceId?: string;
+  /**
+   * Persister for saving/restoring flow state
+   * Restored from when the runtime starts - a persister passed later with
+   * setOptions() is only used for saving
+   */
+  persister?: FlowPersister;
+  /**
+   * When state is saved automatically
+   * @default "navigation"
+   */
+  saveMode?: SaveMode;
+  /**
+   * Debounce delay (in ms) for automatic saves
+   * @default 300
+   */
+  saveDebounce?: number;
+  onComplete?: (event: { context: TContext }) => void;
+  onNext?: (event: StepChangeEvent<TContext>) => void;
+  onSkip?: (event: StepChangeEvent<TContext>) => void;
+  onBack?: (event: StepChangeEvent<TContext>) => void;
+  onTransition?: (
+    event: StepChangeEvent<TContext> & { direction: "forward" | "backward" },
+  ) => void;
+  onContextUpdate?: (event: {
+    oldContext: TContext;
+    newContext: TContext;
+  }) => void;
+  /** Called when a guard blocks next/skip/back */
+  onGuardReject?: (event: GuardRejection & { context: TContext }) => void;
+  /**
+   * Called when a context doesn't match the flow's schema (see .with({ schema }))
+   * Invalid restored persisted state is reported to onPersistenceError instead
+   */
+  onValidationError?: (event: ContextValidationEvent) => void;
+  /**
+   * Called when async navigation fails - a resolver or guard rejected, or
+   * committing the navigation threw after one (e.g. in onNext)
+   */
+  onTransitionError?: (error: Error) => void;
+  /** Called when save/restore/remove operations fail */
+  onPersistenceError?: (error: Error) => void;
+  onSave?: (state: PersistedFlowState<TContext>) => void;
+  onRestore?: (state: PersistedFlowState<TContext>) => void;
+  /** Callbacks shared by all flows (e.g. from a framework provider) */
+  callbacks?: GlobalFlowCallbacks;
+  /** Middleware around every dispatched action (first is outermost) */
+  middleware?: FlowMiddleware<TContext>[];
+  /**
+   * Record every committed action in state.journal (persisted with the state)
+   * Function updates are recorded as the value they returned - see replay()
+   */
+  journal?: boolean;
+  /**
+   * Keep context snapshots for undo() and redo()
+   * `true` uses the defaults (per-step scope, 50 snapshots)
+   */
+  undo?: boolean | UndoOptions;
+};
+
+/**
+ * Immutable snapshot of a running flow
+ * A new object is created on every change, so snapshots can be compared by reference
+ */
+export type FlowRuntimeSnapshot<TContext extends FlowContext = FlowContext> = {
+  state: FlowState<TContext>;
+  /** Whether persisted state is being restored (see start()) */
+  isRestoring: boolean;
+  /** Whether a navigation is waiting on an async resolver or guard */
+  isTransitioning: boolean;
+  /** Last transition blocked by a guard (cleared when a transition is allowed) */
+  rejection: GuardRejection | null;
+  /**
+   * Last async navigation error - the resolver rejected or resolved to a step
+   * that isn't in the next array, or committing the navigation threw after an
+   * async resolver or guard (cleared when a transition is committed)
+   */
+  transitionError: Error | null;
+};
+
+/**
+ * Running flow returned by createFlowRuntime()
+ */
+export type FlowRuntime<TContext extends FlowContext = FlowContext> = {
+  /** Current snapshot (stable until the next change) */
+  getSnapshot: () => FlowRuntimeSnapshot<TContext>;
+  /**
+   * Listen for snapshot changes
+   * @returns Function that removes the listener
+   */
+  subscribe: (listener: () => void) => () => void;
+  /**
+   * Restore persisted state (when a persister is configured) and report the
+   * flow start. Resolves once restoring has finished
+   */
+  start: () => Promise<void>;
+  /**
+   * Cancel pending saves, restores and async transitions
+   * The runtime keeps its state and can be started again
+   */
+  stop: () => void;
+  /**
+   * Replace the options (flow, callbacks, persister, save settings)
+   * The initial context is kept from createFlowRuntime()
+   */
+  setOptions: (options: FlowRuntimeOptions<TContext>) => void;
+  next: {
+    (target: string, update?: ContextUpdate<TContext>): void;
+    (update?: ContextUpdate<TContext>): void;
+  };
+  skip: {
+    (target: string, update?: ContextUpdate<TContext>): void;
+    (update?: ContextUpdate<TContext>): void;
+  };
+  back: () => void;
+  /** Jump back to an earlier step on the path */
+  goTo: (stepId: string) => void;
+  /** Re-enter the step most recently left with back() */
+  forward: () => void;
+  /** Finish the current iteration of a looping step and start the next one */
+  repeat: (update?: ContextUpdate<FlowContext>) => void;
+  /** Update the current iteration's item of a looping step */
+  setItem: (update: ContextUpdate<FlowContext>) => void;
+  /** Switch the active branch of a parallel step */
+  selectBranch: (branch: string) => void;
+  setContext: (update: ContextUpdate<TContext>) => void;
+  /** Revert the last context change (requires the undo option) */
+  undo: () => void;
+  /** Re-apply a context change reverted by undo() */
+  redo: () => void;
+  restore: (state: FlowState<TContext>) => void;
+  /** Remove persisted state and go back to the initial state */
+  reset: () => Promise<void>;
+  /** Save the current state (does nothing without a persister) */
+  save: () => Promise<void>;
+  /**
+   * Progress of the current state (or the given one) - see getProgress()
+   * Cached per state, so it can be called on every render
+   */
+  getProgress: (state?: FlowState<TContext>) => FlowProgress;
+};
+
+type NavigateAction<TContext extends FlowContext> = Extract<
+  FlowAction<TContext>,
+  { type: "NEXT" | "SKIP" | "BACK" | "GOTO" | "FORWARD" }
+>;
+
+/**
+ * Action type of the method that caused a change (a redirected forward() is
+ * committed as NEXT but still reported as FORWARD)
+ */
+type ActionSource = FlowAction["type"];
+
+const navigationSources = new Set<ActionSource>([
+  "NEXT",
+  "SKIP",
+  "BACK",
+  "GOTO",
+  "FORWARD",
+  "REPEAT",
+  "SELECT_BRANCH",
+]);
+
+const contextSources = new Set<ActionSource>([
+  "SET_CONTEXT",
+  "SET_ITEM",
+  "REPEAT",
+  "NEXT",
+  "SKIP",
+  "UNDO",
+  "REDO",
+]);
+
+/**
+ * Wraps a function update so the journal can record the value it returned
+ * (functions can't be persisted) - replay() applies it as-is, like the function
+ */
+function recordUpdate<TContext extends FlowContext>(
+  action: FlowAction<TContext>,
+  onRecord: (action: FlowAction) => void,
+): FlowAction<TContext> {
+  if (!("update" in action) || typeof action.update !== "function") {
+    return action;
+  }
+
+  const { update } = action;
+  return {
+    ...action,
+    update: (current: TContext) => {
+      const value = update(current);
+      onRecord({ ...action, update: value } as FlowAction);
+      return value;
+    },
+  } as FlowAction<TContext>;
+}
+
+/**
+ * Adds an entry to the journal of the previous state
+ * A restored state that brings its own journal replaces the current one.
+ */
+function appendJournal<TContext extends FlowContext>(
+  prevState: FlowState<TContext>,
+  state: FlowState<TContext>,
+  entry: JournalEntry,
+): FlowState<TContext> {
+  if (entry.action.type === "RESTORE" && state.journal) return state;
+  return { ...state, journal: [...(prevState.journal ?? []), entry] };
+}
+
+/**
+ * Whether two lists hold the same items in the same order
+ */
+function isSameList(a: readonly unknown[] = [], b: readonly unknown[] = []) {
+  return a.length === b.length && a.every((item, index) => item === b[index]);
+}
+
+/**
+ * Reads the definition and runtime configuration of a flow
+ * Shared with replay(), so replayed actions run with the same reducer options
+ */
+export function readFlow<
+  TDefinition extends FlowDefinition,
+  TContext extends FlowContext,
+>(flow: RuntimeFlowDefinition<TDefinition, TContext>) {
+  // Safe cast: the typed maps are stricter compile-time types of the runtime maps
+  const runtimeConfig = flow.runtimeConfig as
+    | {
+        migration?: MigrateFunction<TContext>;
+        resolvers?: RuntimeResolverMap<TContext>;
+        guards?: RuntimeGuardMap<TContext>;
+        skipConditions?: RuntimeSkipConditionMap<TContext>;
+        validators?: RuntimeValidatorMap<TContext>;
+        subFlows?: RuntimeSubFlowMap<TContext>;
+        schema?: ContextSchema<TContext>;
+      }
+    | undefined;
+
+  return {
+    definition: flow.config as FlowDefinition,
+    runtimeConfig,
+    reducerOptions: {
+      resolvers: runtimeConfig?.resolvers,
+      subFlows: runtimeConfig?.subFlows,
+      skipConditions: runtimeConfig?.skipConditions,
+      validators: runtimeConfig?.validators,
+      guards: runtimeConfig?.guards,
+    },
+    schema: runtimeConfig?.schema,
+  };
+}
+
+/**
+ * Creates a runtime for a flow
+ *
+ * @param flow - RuntimeFlowDefinition returned by defineFlow()
+ * @param options - Initial context, persistence settings and callbacks
+ * @returns Runtime with navigation methods and a subscribe/getSnapshot API
+ *
+ * @example
+ * ```ts
+ * const runtime = createFlowRuntime(onboardingFlow, {
+ *   initialContext: { name: "" },
+ *   persister,
+ *   onComplete: ({ context }) => console.log("done", context),
+ * });
+ *
+ * runtime.subscribe(() => {
+ *   console.log(runtime.getSnapshot().state.stepId);
+ * });
+ *
+ * await runtime.start(); // restores persisted state
+ * runtime.next({ name: "Ada" });
+ * ```
+ */
+export function createFlowRuntime<
+  TDefinition extends FlowDefinition,
+  TContext extends FlowContext = FlowContext,
+>(
+  flow: RuntimeFlowDefinition<TDefinition, TContext>,
+  options: FlowRuntimeOptions<TContext> = {},
+): FlowRuntime<TContext> {
+  // Replaced by setOptions({ flow }) - the id stays the same
+  let currentFlow: RuntimeFlowDefinition<FlowDefinition, TContext> = flow;
+  let { definition, runtimeConfig, reducerOptions, schema } = readFlow(flow);
+  const rawInitialContext = options.initialContext ?? ({} as TContext);
+  const initialResult = schema
+    ? validateContext(schema, rawInitialContext)
+    : undefined;
+  // An invalid initial context is kept and reported when the flow starts
+  const initialContext =
+    initialResult && !initialResult.issues
+      ? initialResult.value
+      : rawInitialContext;
+
+  let currentOptions = options;
+  let snapshot: FlowRuntimeSnapshot<TContext> = {
+    state:
+      options.initialState ??
+      createInitialState(definition, initialContext, reducerOptions),
+    isRestoring: !!options.persister,
+    isTransitioning: false,
+    rejection: null,
+    transitionError: null,
+  };
+  const listeners = new Set<() => void>();
+
+  // Incremented on every navigation - stale async results are ignored
+  let transitionId = 0;
+  // Incremented by stop() - stale restores are ignored
+  let startId = 0;
+  let hasStarted = false;
+  let saveTimer: ReturnType<typeof setTimeout> | undefined;
+  // Last computed progress (recomputed when the state changes)
+  let progress: { state: FlowState<TContext>; value: FlowProgress } | undefined;
+
+  const flowInfo = () => ({
+    flowId: flow.id,
+    variantId: definition.variantId,
+    instanceId: currentOptions.instanceId,
+  });
+
+  const update = (changes: Partial<FlowRuntimeSnapshot<TContext>>) => {
+    const changed = (
+      Object.keys(changes) as (keyof FlowRuntimeSnapshot<TContext>)[]
+    ).some((key) => changes[key] !== snapshot[key]);
+    if (!changed) return;
+
+    snapshot = { ...snapshot, ...changes };
+    for (const listener of listeners) {
+      listener();
+    }
+  };
+
+  const reportChange = (
+    source: ActionSource,
+    prevState: FlowState<TContext>,
+    state: FlowState<TContext>,
+  ) => {
+    const {
+      onNext,
+      onSkip,
+      onBack,
+      onTransition,
+      onContextUpdate,
+      onComplete,
+      callbacks,
+    } = currentOptions;
+    const stepChange = {
+      from: prevState.stepId,
+      to: state.stepId,
+      oldContext: prevState.context,
+      newContext: state.context,
+    };
+
+    if (prevState.stepId !== state.stepId) {
+      const direction =
+        source === "BACK" || source === "GOTO"
+          ? "backward"
+          : source === "NEXT" || source === "SKIP" || source === "FORWARD"
+            ? "forward"
+            : undefined;
+
+      if (source === "NEXT") onNext?.(stepChange);
+      if (source === "SKIP") onSkip?.(stepChange);
+      // Jumps back with goTo() are reported as backward transitions only
+      if (source === "BACK") onBack?.(stepChange);
+
+      if (direction) {
+        onTransition?.({ ...stepChange, direction });
+        callbacks?.onStepTransition?.({
+          ...flowInfo(),
+          ...stepChange,
+          direction,
+        });
+      }
+    }
+
+    if (contextSources.has(source) && prevState.context !== state.context) {
+      onContextUpdate?.({
+        oldContext: prevState.context,
+        newContext: state.context,
+      });
+    }
+
+    if (state.status === "complete" && prevState.status !== "complete") {
+      onComplete?.({ context: state.context });
+      callbacks?.onFlowComplete?.({ ...flowInfo(), context: state.context });
+    }
+  };
+
+  const scheduleSave = (isNavigation: boolean) => {
+    const { saveMode = "navigation", saveDebounce = 300 } = currentOptions;
+    if (saveMode === "manual") return;
+    if (saveMode === "navigation" && !isNavigation) return;
+
+    clearTimeout(saveTimer);
+    if (saveDebounce > 0) {
+      saveTimer = setTimeout(() => {
+        saveTimer = undefined;
+        save();
+      }, saveDebounce);
+      return;
+    }
+
+    save();
+  };
+
+  const reportValidationError = (event: ContextValidationEvent) => {
+    if (process.env.NODE_ENV !== "production") {
+      console.warn(
+        `[Flow] Context validation failed (${event.source}):`,
+        formatIssues(event.issues),
+      );
+    }
+    currentOptions.onValidationError?.(event);
+  };
+
+  /**
+   * Validates the context of a new state with the flow's schema
+   * @returns The state with the schema's output, or prevState to reject the change
+   */
+  const validateState = (
+    action: FlowAction<TContext>,
+    prevState: FlowState<TContext>,
+    state: FlowState<TContext>,
+  ): FlowState<TContext> => {
+    // RESET goes back to the (already validated) initial context
+    if (
+      !schema ||
+      state.context === prevState.context ||
+      action.type === "RESET"
+    ) {
+      return state;
+    }
+
+    const result = validateContext(schema, state.context);
+    if (result.issues) {
+      reportValidationError({
+        source: action.type === "RESTORE" ? "restore" : "update",
+        context: state.context,
+        issues: result.issues,
+      });
+      return prevState;
+    }
+    return { ...state, context: result.value };
+  };
+
+  // Type of the action passed to the middleware chain by dispatch(), and the
+  // method that dispatched it
+  let dispatching: { type: ActionSource; source: ActionSource } | undefined;
+
+  /**
+   * Innermost dispatch of the middleware chain - reduces and commits an action
+   * Middleware may call it later (e.g. after a debounce), it commits on its own.
+   */
+  const commit: FlowDispatch<TContext> = (action) => {
+    const prevState = snapshot.state;
+    // One timestamp per action, so replay() recreates the same entries
+    const timestamp = Date.now();
+    const { undo, journal } = currentOptions;
+    let entry: JournalEntry = { action: action as FlowAction, timestamp };
+    let state = flowReducer(
+      prevState,
+      journal
+        ? recordUpdate(action, (value) => {
+            entry = { action: value, timestamp, replace: true };
+          })
+        : action,
+      definition,
+      {
+        ...reducerOptions,
+        now: () => timestamp,
+        undo: undo === true ? {} : undo || undefined,
+      },
+    );
+    state = validateState(action, prevState, state);
+    if (state === prevState) return state;
+    if (journal) {
+      state = appendJournal(prevState, state, entry);
+    }
+
+    // Actions rewritten by middleware are reported as what was committed
+    const source =
+      dispatching?.type === action.type ? dispatching.source : action.type;
+    update({ state });
+    if (source !== "RESTORE") {
+      reportChange(source, prevState, state);
+    }
+    scheduleSave(navigationSources.has(source));
+    return state;
+  };
+
+  // The chain is built once per middleware list, so middleware keeps its
+  // closure state (counters, timers, caches) across actions
+  const composeMiddleware = (middleware?: FlowMiddleware<TContext>[]) =>
+    middleware?.length
+      ? applyMiddleware(
+          middleware,
+          { ...flowInfo(), getState: () => snapshot.state },
+          commit,
+        )
+      : commit;
+  let chain = composeMiddleware(options.middleware);
+
+  const dispatch = (action: FlowAction<TContext>, source: ActionSource) => {
+    const outer = dispatching;
+    dispatching = { type: action.type, source };
+    try {
+      chain(action);
+    } finally {
+      dispatching = outer;
+    }
+  };
+
+  const cancelTransition = () => {
+    transitionId++;
+    update({ isTransitioning: false });
+  };
+
+  const navigate = (action: NavigateAction<TContext>) => {
+    const id = ++transitionId;
+    const isCurrent = () => id === transitionId;
+    const source = action.type;
+    const state = snapshot.state;
+    // Resolvers and guards decided for `state` - if it changed while they ran
+    // (e.g. setContext() or undo()), their result no longer applies
+    const isStale = () => snapshot.state !== state;
+
+    // Keep the user's input even though they stay on this step
+    const keepUpdate = () => {
+      if (
+        (action.type === "NEXT" || action.type === "SKIP") &&
+        action.update !== undefined
+      ) {
+        dispatch({ type: "SET_CONTEXT", update: action.update }, source);
+      }
+    };
+
+    const applyDecision = (
+      resolvedAction: FlowAction<TContext>,
+      decision: GuardDecision,
+    ) => {
+      if (!decision.allowed) {
+        update({ isTransitioning: false, rejection: decision.rejection });
+        keepUpdate();
+        currentOptions.onGuardReject?.({
+          ...decision.rejection,
+          context: snapshot.state.context,
+        });
+        return;
+      }
+      update({
+        isTransitioning: false,
+        rejection: null,
+        transitionError: null,
+      });
+      if (decision.redirect === undefined) {
+        dispatch(resolvedAction, source);
+      } else if (resolvedAction.type === "FORWARD") {
+        // Redirecting takes a different branch (clears the forward stack)
+        dispatch({ type: "NEXT", target: decision.redirect }, source);
+      } else if (
+        resolvedAction.type === "NEXT" ||
+        resolvedAction.type === "SKIP"
+      ) {
+        dispatch({ ...resolvedAction, target: decision.redirect }, source);
+      } else {
+        dispatch(resolvedAction, source);
+      }
+    };
+
+    const fail = (error: unknown, message: string, keep: boolean) => {
+      const transitionError =
+        error instanceof Error ? error : new Error(String(error));
+      update({ isTransitioning: false, transitionError });
+      if (keep) keepUpdate();
+      if (process.env.NODE_ENV !== "production") {
+        console.error(message, transitionError);
+      }
+      currentOptions.onTransitionError?.(transitionError);
+    };
+
+    // Continues after an async resolver or guard - errors can't reach the
+    // caller anymore, so they're reported as the transition error
+    const resume = (run: () => void) => {
+      if (!isCurrent()) return;
+      try {
+        if (isStale()) {
+          navigate(action);
+        } else {
+          run();
+        }
+      } catch (error) {
+        fail(error, "[Flow] Failed to navigate:", false);
+      }
+    };
+
+    const guard = (resolvedAction: FlowAction<TContext>) => {
+      // Sub-flows and parallel branches run their own guards. Navigation
+      // errors (e.g. a missing resolver) throw here like in the reducer.
+      const decision = guardNavigation(
+        state,
+        resolvedAction,
+        definition,
+        reducerOptions,
+      );
+
+      if (!(decision instanceof Promise)) {
+        applyDecision(resolvedAction, decision ?? { allowed: true });
+        return;
+      }
+
+      update({ isTransitioning: true });
+      decision.then(
+        (resolved) => resume(() => applyDecision(resolvedAction, resolved)),
+        (error) =>
+          resume(() => fail(error, "[Flow] Failed to run guards:", true)),
+      );
+    };
+
+    // Resolve the destination first - resolvers can be async
+    const resolved = resolveNavigationTarget(
+      state,
+      action,
+      definition,
+      reducerOptions,
+    );
+
+    if (!(resolved instanceof Promise)) {
+      if (resolved) {
+        guard(resolved);
+      } else {
+        update({ isTransitioning: false });
+      }
+      return;
+    }
+
+    update({ isTransitioning: true });
+    resolved.then(
+      (resolvedAction) =>
+        resume(() => {
+          if (resolvedAction) {
+            guard(resolvedAction);
+          } else {
+            update({ isTransitioning: false });
+          }
+        }),
+      (error) =>
+        resume(() => fail(error, "[Flow] Failed to resolve next step:", true)),
+    );
+  };
+
+  const reportPersistenceError = (message: string, error: unknown) => {
+    if (process.env.NODE_ENV !== "production") {
+      console.error(message, error);
+    }
+    currentOptions.onPersistenceError?.(error as Error);
+  };
+
+  const save = async () => {
+    const { persister, instanceId, onSave } = currentOptions;
+    if (!persister) return;
+    try {
+      const persistedState = await persister.save(flow.id, snapshot.state, {
+        version: definition.version,
+        instanceId,
+        variantId: definition.variantId,
+      });
+
+      if (persistedState) {
+        onSave?.(persistedState as PersistedFlowState<TContext>);
+      }
+    } catch (error) {
+      reportPersistenceError("[Flow] Failed to save state:", error);
+    }
+  };
+
+  const restorePersisted = async (isCurrent: () => boolean) => {
+    const { persister, instanceId, onPersistenceError, onRestore } =
+      currentOptions;
+    if (!persister) return;
+
+    try {
+      const state = await persister.restore(flow.id, {
+        version: definition.version,
+        migrate: runtimeConfig?.migration as MigrateFunction | undefined,
+        instanceId,
+        variantId: definition.variantId,
+      });
+      if (!state || !isCurrent()) return;
+
+      // Validate state is compatible with this flow's definition
+      const validation = validatePersistedState(state, definition, {
+        subFlows: reducerOptions.subFlows as RuntimeSubFlowMap,
+      });
+      if (!validation.valid) {
+        if (process.env.NODE_ENV !== "production") {
+          console.warn(
+            "[Flow] Persisted state validation failed:",
+            validation.errors,
+          );
+        }
+        onPersistenceError?.(
+          new Error(
+            `Invalid persisted state: ${validation.errors?.join(", ")}`,
+          ),
+        );
+        return;
+      }
+
+      // Validate the context against the flow's schema (if it has one)
+      const contextResult = schema
+        ? validateContext(schema, state.context)
+        : undefined;
+      if (contextResult?.issues) {
+        const issues = formatIssues(contextResult.issues);
+        if (process.env.NODE_ENV !== "production") {
+          console.warn("[Flow] Persisted context validation failed:", issues);
+        }
+        onPersistenceError?.(new Error(`Invalid persisted context: ${issues}`));
+        return;
+      }
+
+      // Safe cast: persister returns base FlowContext, but we've validated
+      //  the structure matches this flow. Context shape is trusted based on:
+      // 1. FlowId matching (same flow that saved it)
+      // 2. Version checking + migration
+      // 3. Custom validate function in persister options
+      // 4. The flow's context schema (when it has one)
+      const typedState = (
+        contextResult ? { ...state, context: contextResult.value } : state
+      ) as PersistedFlowState<TContext>;
+      cancelTransition();
+      dispatch({ type: "RESTORE", state: typedState }, "RESTORE");
+      onRestore?.(typedState);
+    } catch (error) {
+      if (isCurrent()) {
+        reportPersistenceError("[Flow] Failed to restore state:", error);
+      }
+    }
+  };
+
+  const start = async () => {
+    const id = ++startId;
+    const isCurrent = () => id === startId;
+
+    if (snapshot.isRestoring) {
+      await restorePersisted(isCurrent);
+      if (!isCurrent()) return;
+      update({ isRestoring: false });
+    }
+    // "always" also saves the state the flow starts with
+    scheduleSave(false);
+
+    if (!hasStarted) {
+      hasStarted = true;
+      if (initialResult?.issues) {
+        reportValidationError({
+          source: "initialContext",
+          context: rawInitialContext,
+          issues: initialResult.issues,
+        });
+      }
+      currentOptions.callbacks?.onFlowStart?.({
+        ...flowInfo(),
+        context: snapshot.state.context,
+      });
+    }
+  };
+
+  const stop = () => {
+    startId++;
+    clearTimeout(saveTimer);
+    saveTimer = undefined;
+    cancelTransition();
+  };
+
+  const next = (
+    targetOrUpdate?: string | ContextUpdate<TContext>,
+    update?: ContextUpdate<TContext>,
+  ) => {
+    // Determine if first arg is target (string) or update (object/function)
+    if (typeof targetOrUpdate === "string") {
+      navigate({ type: "NEXT", target: targetOrUpdate, update });
+    } else {
+      navigate({ type: "NEXT", update: targetOrUpdate });
+    }
+  };
+
+  const skip = (
+    targetOrUpdate?: string | ContextUpdate<TContext>,
+    update?: ContextUpdate<TContext>,
+  ) => {
+    // Determine if first arg is target (string) or update (object/function)
+    if (typeof targetOrUpdate === "string") {
+      navigate({ type: "SKIP", target: targetOrUpdate, update });
+    } else {
+      navigate({ type: "SKIP", update: targetOrUpdate });
+    }
+  };
+
+  return {
+    getSnapshot: () => snapshot,
+    getProgress: (state = snapshot.state) => {
+      if (progress?.state !== state) {
+        progress = {
+          state,
+          value: getProgress(state, definition, reducerOptions),
+        };
+      }
+      return progress.value;
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    start,
+    stop,
+    setOptions: (options) => {
+      if (!isSameList(options.middleware, currentOptions.middleware)) {
+        chain = composeMiddleware(options.middleware);
+      }
+      currentOptions = options;
+      if (options.flow && options.flow !== currentFlow) {
+        currentFlow = options.flow;
+        ({ definition, runtimeConfig, reducerOptions, schema } =
+          readFlow(currentFlow));
+        progress = undefined;
+      }
+    },
+    next,
+    skip,
+    back: () => navigate({ type: "BACK" }),
+    goTo: (stepId) => navigate({ type: "GOTO", target: stepId }),
+    forward: () => navigate({ type: "FORWARD" }),
+    repeat: (update) => {
+      cancelTransition();
+      dispatch({ type: "REPEAT", update }, "REPEAT");
+    },
+    setItem: (update) => dispatch({ type: "SET_ITEM", update }, "SET_ITEM"),
+    selectBranch: (branch) => {
+      cancelTransition();
+      dispatch({ type: "SELECT_BRANCH", branch }, "SELECT_BRANCH");
+    },
+    setContext: (update) =>
+      dispatch({ type: "SET_CONTEXT", update }, "SET_CONTEXT"),
+    undo: () => dispatch({ type: "UNDO" }, "UNDO"),
+    redo: () => dispatch({ type: "REDO" }, "REDO"),
+    restore: (state) => {
+      cancelTransition();
+      dispatch({ type: "RESTORE", state }, "RESTORE");
+    },
+    reset: async () => {
+      const { persister, instanceId } = currentOptions;
+      // Clear persisted state if persister is available
+      if (persister) {
+        try {
+          await persister.remove?.(flow.id, {
+            instanceId,
+            variantId: definition.variantId,
+          });
+        } catch (error) {
+          reportPersistenceError(
+            "[Flow] Failed to remove persisted state on reset:",
+            error,
+          );
+        }
+      }
+      cancelTransition();
+      update({ rejection: null, transitionError: null });
+      dispatch({ type: "RESET", initialContext }, "RESET");
+    },
+    save,
+  };
+}
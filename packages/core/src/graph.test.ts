@@ -0,0 +1,135 @@
+import { describe, expect, it } from "vitest";
+import { analyzeFlowGraph } from "./graph";
+import type { FlowReducerOptions } from "./reducer";
+import type { FlowDefinition } from "./types";
+
+const codes = (
+  definition: FlowDefinition,
+  options?: Pick<FlowReducerOptions, "resolvers">,
+) =>
+  analyzeFlowGraph(definition, options).map(({ code, stepIds }) => ({
+    code,
+    stepIds,
+  }));
+
+describe("analyzeFlowGraph", () => {
+  it("should report nothing for a flow that always completes", () => {
+    const definition: FlowDefinition = {
+      id: "signup",
+      start: "welcome",
+      steps: {
+        welcome: { next: "account" },
+        account: {
+          next: [
+            { when: { "ctx.business": { eq: true } }, to: "company" },
+            { to: "done" },
+          ],
+        },
+        company: { next: "account" },
+        done: {},
+      },
+    };
+
+    expect(analyzeFlowGraph(definition)).toEqual([]);
+  });
+
+  it("should report steps that can't be reached from the start step", () => {
+    expect(
+      codes({
+        id: "test",
+        start: "first",
+        steps: {
+          first: { next: "done" },
+          old: { next: "older" },
+          older: { next: "done" },
+          done: {},
+        },
+      }),
+    ).toEqual([
+      { code: "unreachable-step", stepIds: ["old"] },
+      { code: "unreachable-step", stepIds: ["older"] },
+    ]);
+  });
+
+  it("should report each cycle with no exit", () => {
+    expect(
+      codes({
+        id: "test",
+        start: "first",
+        steps: {
+          first: { next: ["loop", "wait", "done"] },
+          loop: { next: "again" },
+          again: { next: "loop" },
+          wait: { next: "wait" },
+          done: {},
+        },
+      }),
+    ).toEqual([
+      { code: "dead-end-cycle", stepIds: ["loop", "again"] },
+      { code: "dead-end-cycle", stepIds: ["wait"] },
+      { code: "missing-resolver", stepIds: ["first"] },
+    ]);
+  });
+
+  it("should not report cycles that can be left", () => {
+    expect(
+      codes({
+        id: "test",
+        start: "review",
+        steps: {
+          review: { next: "edit" },
+          edit: {
+            next: [
+              { when: { "ctx.approved": { eq: false } }, to: "review" },
+              { to: "done" },
+            ],
+          },
+          done: {},
+        },
+      }),
+    ).toEqual([]);
+  });
+
+  it("should report a flow without a terminal step", () => {
+    expect(
+      codes({
+        id: "test",
+        start: "first",
+        steps: {
+          first: { next: "second" },
+          second: { next: "first" },
+        },
+      }),
+    ).toEqual([{ code: "no-terminal-step", stepIds: undefined }]);
+  });
+
+  it("should report branching steps without a resolver", () => {
+    const definition: FlowDefinition = {
+      id: "test",
+      start: "plan",
+      steps: {
+        plan: { next: ["free", "paid"] },
+        free: { next: ["done"] },
+        paid: { next: "done" },
+        done: {},
+      },
+    };
+
+    expect(codes(definition)).toEqual([
+      { code: "missing-resolver", stepIds: ["plan"] },
+    ]);
+    expect(codes(definition, { resolvers: { plan: () => "free" } })).toEqual(
+      [],
+    );
+  });
+
+  it("should ignore references to non-existent steps", () => {
+    expect(
+      codes({
+        id: "test",
+        start: "first",
+        steps: { first: { next: "missing" }, done: {} },
+      }),
+    ).toEqual([{ code: "unreachable-step", stepIds: ["done"] }]);
+  });
+});
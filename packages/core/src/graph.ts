@@ -0,0 +1,190 @@
+/**
+ * Flow graph analysis
+ *
+ * Reference checks catch typos, but not flows that can't be finished. The
+ * graph of next transitions is checked from the start step: steps no route
+ * reaches, cycles no route leaves, flows without a terminal step, and
+ * branching steps that rely on the component passing a target.
+ */
+
+import { type FlowReducerOptions, getNextStepIds } from "./reducer";
+import type { FlowDefinition } from "./types";
+
+/**
+ * Kind of problem a diagnostic reports
+ */
+export type FlowDiagnosticCode =
+  | "unknown-step"
+  | "invalid-step"
+  | "invalid-condition"
+  | "invalid-transition"
+  | "unreachable-step"
+  | "dead-end-cycle"
+  | "no-terminal-step"
+  | "missing-resolver";
+
+/**
+ * A problem found in a flow definition
+ * Errors make the flow unusable - validateFlowDefinition() throws for them.
+ * Warnings point at likely mistakes.
+ */
+export type FlowDiagnostic = {
+  severity: "error" | "warning";
+  code: FlowDiagnosticCode;
+  message: string;
+  /** Steps the diagnostic is about */
+  stepIds?: readonly string[];
+};
+
+/**
+ * Checks the graph of next transitions for steps that can't be reached,
+ * cycles with no exit, a missing terminal step and branching steps without
+ * a resolver
+ * References to non-existent steps are ignored - validateFlowDefinition()
+ * reports them.
+ *
+ * @param definition - Flow definition to analyze
+ * @param options - Resolvers the flow runs with (branching steps without one are reported)
+ * @returns Graph diagnostics, in step order
+ */
+export function analyzeFlowGraph(
+  definition: FlowDefinition,
+  options?: Pick<FlowReducerOptions, "resolvers">,
+): FlowDiagnostic[] {
+  const { steps } = definition;
+  if (!Object.hasOwn(steps, definition.start)) return [];
+
+  const diagnostics: FlowDiagnostic[] = [];
+  const edges = new Map<string, string[]>();
+  for (const [stepId, step] of Object.entries(steps)) {
+    edges.set(
+      stepId,
+      (getNextStepIds(step.next) ?? []).filter((id) =>
+        Object.hasOwn(steps, id),
+      ),
+    );
+  }
+
+  const reachable = collect([definition.start], (id) => edges.get(id) ?? []);
+  for (const stepId of Object.keys(steps)) {
+    if (reachable.has(stepId)) continue;
+    diagnostics.push({
+      severity: "warning",
+      code: "unreachable-step",
+      message: `Step "${stepId}" can't be reached from start step "${definition.start}"`,
+      stepIds: [stepId],
+    });
+  }
+
+  const terminals = Object.keys(steps).filter((id) => !steps[id]?.next);
+  if (terminals.length === 0) {
+    diagnostics.push({
+      severity: "error",
+      code: "no-terminal-step",
+      message:
+        "Flow has no terminal step (a step without next), so it can never complete",
+    });
+  } else {
+    const predecessors = new Map<string, string[]>();
+    for (const [stepId, targets] of edges) {
+      for (const target of targets) {
+        predecessors.set(target, [...(predecessors.get(target) ?? []), stepId]);
+      }
+    }
+    const canFinish = collect(terminals, (id) => predecessors.get(id) ?? []);
+    const trapped = [...reachable].filter((id) => !canFinish.has(id));
+
+    for (const cycle of findCycles(trapped, edges)) {
+      diagnostics.push({
+        severity: "error",
+        code: "dead-end-cycle",
+        message: `Steps ${cycle.map((id) => `"${id}"`).join(", ")} form a cycle with no exit, so the flow can't complete once it enters it`,
+        stepIds: cycle,
+      });
+    }
+  }
+
+  for (const [stepId, step] of Object.entries(steps)) {
+    const next = step.next;
+    if (!Array.isArray(next) || typeof next[0] !== "string") continue;
+    if (next.length < 2 || options?.resolvers?.[stepId]) continue;
+    diagnostics.push({
+      severity: "warning",
+      code: "missing-resolver",
+      message: `Step "${stepId}" branches to ${next.map((id) => `"${id}"`).join(", ")} without a resolver, so next() needs an explicit target`,
+      stepIds: [stepId],
+    });
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Steps reachable from the given steps (included) through neighbors()
+ */
+function collect(
+  from: readonly string[],
+  neighbors: (stepId: string) => readonly string[],
+): Set<string> {
+  const seen = new Set(from);
+  const queue = [...from];
+  for (const stepId of queue) {
+    for (const neighbor of neighbors(stepId)) {
+      if (seen.has(neighbor)) continue;
+      seen.add(neighbor);
+      queue.push(neighbor);
+    }
+  }
+  return seen;
+}
+
+/**
+ * Cycles among the given steps - strongly connected components (Tarjan) with
+ * more than one step, or a step that leads to itself
+ */
+function findCycles(
+  stepIds: readonly string[],
+  edges: ReadonlyMap<string, readonly string[]>,
+): string[][] {
+  const members = new Set(stepIds);
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const cycles: string[][] = [];
+
+  const visit = (stepId: string) => {
+    index.set(stepId, index.size);
+    lowLink.set(stepId, index.get(stepId) ?? 0);
+    stack.push(stepId);
+    onStack.add(stepId);
+
+    for (const target of edges.get(stepId) ?? []) {
+      if (!members.has(target)) continue;
+      if (!index.has(target)) {
+        visit(target);
+        lowLink.set(
+          stepId,
+          Math.min(lowLink.get(stepId) ?? 0, lowLink.get(target) ?? 0),
+        );
+      } else if (onStack.has(target)) {
+        lowLink.set(
+          stepId,
+          Math.min(lowLink.get(stepId) ?? 0, index.get(target) ?? 0),
+        );
+      }
+    }
+
+    if (lowLink.get(stepId) !== index.get(stepId)) return;
+    const component = stack.splice(stack.lastIndexOf(stepId));
+    for (const id of component) onStack.delete(id);
+    if (component.length > 1 || (edges.get(stepId) ?? []).includes(stepId)) {
+      cycles.push(component);
+    }
+  };
+
+  for (const stepId of stepIds) {
+    if (!index.has(stepId)) visit(stepId);
+  }
+  return cycles;
+}
@@ -1,7 +1,52 @@
 // Persistence module
 
+// Declarative conditions
+export {
+  describeCondition,
+  evaluateCondition,
+  isConditionalTransition,
+  matchTransition,
+  validateCondition,
+} from "./conditions";
 // Flow definition with runtime config
-export { defineFlow, RuntimeFlowDefinition } from "./define-flow";
+export {
+  defineFlow,
+  extendRuntimeFlowDefinition,
+  RuntimeFlowDefinition,
+} from "./define-flow";
+// Diagrams (Mermaid, Graphviz DOT)
+export type { DiagramOptions } from "./diagram";
+export { toDot, toMermaid } from "./diagram";
+// Framework-agnostic flow runtime
+export type {
+  FlowLifecycleEvent,
+  FlowRuntime,
+  FlowRuntimeOptions,
+  FlowRuntimeSnapshot,
+  GlobalFlowCallbacks,
+  SaveMode,
+  StepChangeEvent,
+  TransitionEvent,
+} from "./flow-runtime";
+export { createFlowRuntime } from "./flow-runtime";
+// Flow graph analysis
+export type { FlowDiagnostic, FlowDiagnosticCode } from "./graph";
+export { analyzeFlowGraph } from "./graph";
+// Action journal replay
+export type { ReplayOptions } from "./journal";
+export { replay } from "./journal";
+export type {
+  FlowDispatch,
+  FlowMiddleware,
+  FlowMiddlewareApi,
+} from "./middleware";
+export { applyMiddleware } from "./middleware";
+// Parsing untrusted flow definitions
+export type {
+  FlowDefinitionIssue,
+  ParseFlowDefinitionResult,
+} from "./parse";
+export { parseFlowDefinition } from "./parse";
 export type {
   AsyncStorageOptions,
   BrowserStorageOptions,
@@ -25,32 +70,103 @@ export {
   kvStorageAdapter,
   validatePersistedState,
 } from "./persistence";
+// Progress through the flow graph
+export type { FlowProgress } from "./progress";
+export { getProgress } from "./progress";
+export type { FlowReducerOptions, UndoOptions } from "./reducer";
 export {
+  canGoForward,
+  canGoTo,
+  canNavigateBack,
+  canRedo,
+  canUndo,
   createInitialState,
+  FlowDefinitionError,
   flowReducer,
+  getFlowDiagnostics,
+  getNextStepIds,
+  getStepErrors,
   validateFlowDefinition,
+  validateStep,
 } from "./reducer";
 export type {
   FlowRuntimeConfig,
+  GuardEvent,
+  GuardFunction,
+  GuardMap,
+  GuardResult,
   MigrateFunction,
   ResolveFunction,
   ResolverMap,
+  RuntimeGuardMap,
   RuntimeResolverMap,
+  RuntimeSkipConditionMap,
+  RuntimeSubFlowMap,
+  RuntimeValidatorMap,
+  SkipCondition,
+  SkipConditionMap,
+  StepGuards,
   StepRefs,
+  StepValidator,
+  SubFlowConfig,
+  SubFlowIds,
+  SubFlowMap,
+  ValidatorMap,
 } from "./runtime";
+// Context schemas (Standard Schema)
+export type {
+  ContextSchema,
+  ContextValidationEvent,
+  StandardSchemaV1,
+} from "./schema";
+export { validateContext } from "./schema";
+export type {
+  GuardDecision,
+  GuardRejection,
+  PendingTransition,
+} from "./transitions";
+export {
+  checkGuards,
+  getPendingTransition,
+  guardNavigation,
+  resolveNavigationTarget,
+} from "./transitions";
 // Note: RuntimeFlowDefinition is exported from ./define-flow (both class and type with same name)
 // Core types
 export type {
+  Condition,
+  ConditionalTransition,
+  ConditionValue,
   ContextUpdate,
+  FieldCondition,
   FlowAction,
   FlowContext,
   FlowDefinition,
   FlowState,
+  ForwardEntry,
   HistoryEntry,
+  JournalEntry,
+  LoopDefinition,
   NavigationAction,
+  ParallelDefinition,
+  ParallelState,
   PathEntry,
   PersistedFlowInstance,
   PersistedFlowState,
   StepDefinition,
+  StepErrors,
+  StepMeta,
+  StepMetaValue,
   StepTransition,
+  UndoStack,
 } from "./types";
+// Flow state views for framework adapters
+export type { FlowStateView, NestedStepEntries, StepInfo } from "./view";
+export {
+  canNavigateNext,
+  createFlowStateView,
+  getNextStepsInfo,
+  getStepKeys,
+  getStepsInfo,
+  selectStepEntry,
+} from "./view";
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { defineFlow } from "./define-flow";
+import { replay } from "./journal";
+import type { FlowDefinition } from "./types";
+
+const definition: FlowDefinition = {
+  id: "test",
+  start: "a",
+  steps: { a: { next: "b" }, b: { next: "c" }, c: {} },
+};
+
+describe("replay", () => {
+  it("should yield the initial state and one state per entry", () => {
+    const states = [
+      ...replay(definition, { name: "" }, [
+        { action: { type: "NEXT", update: { name: "Ada" } }, timestamp: 10 },
+        { action: { type: "NEXT" }, timestamp: 20 },
+      ]),
+    ];
+
+    expect(states.map((state) => state.stepId)).toEqual(["a", "b", "c"]);
+    expect(states[0]?.startedAt).toBe(10);
+    expect(states[1]?.context).toEqual({ name: "Ada" });
+    expect(states[2]?.status).toBe("complete");
+    expect(states[2]?.completedAt).toBe(20);
+  });
+
+  it("should use recorded timestamps for history entries", () => {
+    const states = [
+      ...replay(
+        definition,
+        {},
+        [
+          { action: { type: "NEXT" }, timestamp: 10 },
+          { action: { type: "BACK" }, timestamp: 30 },
+        ],
+        { startedAt: 5 },
+      ),
+    ];
+
+    expect(states.at(-1)?.history.map((entry) => entry.startedAt)).toEqual([
+      5, 10, 30,
+    ]);
+  });
+
+  it("should use the runtime config of a RuntimeFlowDefinition", () => {
+    const flow = defineFlow({
+      id: "branch",
+      start: "a",
+      steps: { a: { next: ["b", "c"] }, b: {}, c: {} },
+    }).with<{ skipB: boolean }>((steps) => ({
+      resolvers: { a: (context) => (context.skipB ? steps.c : steps.b) },
+    }));
+
+    const states = [
+      ...replay(flow, { skipB: true }, [
+        { action: { type: "NEXT" }, timestamp: 10 },
+      ]),
+    ];
+
+    expect(states.at(-1)?.stepId).toBe("c");
+  });
+});
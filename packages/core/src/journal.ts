@@ -0,0 +1,166 @@
+/**
+ * Journal replay
+ *
+ * A runtime created with `journal: true` records every committed action in
+ * state.journal. replay() re-runs those actions through flowReducer, e.g. to
+ * reproduce a user's session in a test or step through it in a debugger.
+ */
+
+import { RuntimeFlowDefinition } from "./define-flow";
+import { readFlow } from "./flow-runtime";
+import {
+  createInitialState,
+  type FlowReducerOptions,
+  flowReducer,
+  type UndoOptions,
+} from "./reducer";
+import { type ContextSchema, formatIssues, validateContext } from "./schema";
+import type {
+  FlowAction,
+  FlowContext,
+  FlowDefinition,
+  FlowState,
+  JournalEntry,
+} from "./types";
+
+/**
+ * Options for replay()
+ */
+export type ReplayOptions<TContext extends FlowContext = FlowContext> = Omit<
+  FlowReducerOptions<TContext>,
+  "undo"
+> & {
+  /** Start time of the flow (defaults to the first entry's timestamp) */
+  startedAt?: number;
+  /**
+   * The runtime's undo option - required to replay UNDO/REDO entries, which
+   * move along the context snapshots it kept
+   */
+  undo?: boolean | UndoOptions;
+};
+
+/**
+ * Re-runs journaled actions and yields every intermediate state
+ * The first state is the flow's initial state, followed by one per entry.
+ * Entries use their recorded timestamps, so the states match the recorded
+ * ones (without the journal itself).
+ *
+ * Function updates were recorded as the value they returned, which replaces
+ * the context (or item) as the function did. Contexts go through the flow's
+ * schema like in the runtime, so its transforms are applied again.
+ *
+ * @param definition - Flow definition, or RuntimeFlowDefinition from defineFlow()
+ *   (its runtime config is used like by createFlowRuntime(): resolvers,
+ *   guards, sub-flows, skip conditions, validators and schema)
+ * @param initialContext - Context the flow started with
+ * @param journal - Entries from state.journal
+ * @param options - Reducer options (override the definition's runtime config)
+ * @throws Error if the journal has UNDO/REDO entries but no undo option is given,
+ *   or an entry leads to a context the schema rejects (the runtime didn't commit it)
+ *
+ * @example
+ * ```ts
+ * const states = [...replay(onboardingFlow, {}, saved.journal ?? [])];
+ * expect(states.at(-1)?.stepId).toBe(saved.stepId);
+ * ```
+ */
+export function* replay<
+  TDefinition extends FlowDefinition,
+  TContext extends FlowContext = FlowContext,
+>(
+  definition: TDefinition | RuntimeFlowDefinition<TDefinition, TContext>,
+  initialContext: TContext,
+  journal: readonly JournalEntry[],
+  options: ReplayOptions<TContext> = {},
+): Generator<FlowState<TContext>, FlowState<TContext>> {
+  const { startedAt, undo, ...overrides } = options;
+  if (
+    !undo &&
+    journal.some(
+      ({ action }) => action.type === "UNDO" || action.type === "REDO",
+    )
+  ) {
+    throw new Error(
+      "The journal has undo/redo entries. Pass the runtime's undo option to replay() to reproduce them",
+    );
+  }
+
+  const flow =
+    definition instanceof RuntimeFlowDefinition
+      ? readFlow(definition)
+      : { definition: definition as FlowDefinition, reducerOptions: {} };
+  const config = flow.definition;
+  const schema = "schema" in flow ? flow.schema : undefined;
+  const reducerOptions: FlowReducerOptions<TContext> = {
+    ...flow.reducerOptions,
+    ...overrides,
+    undo: undo === true ? {} : undo || undefined,
+  };
+
+  // An invalid initial context is kept, like in the runtime
+  const initialResult = schema
+    ? validateContext(schema, initialContext)
+    : undefined;
+  const startTime = startedAt ?? journal[0]?.timestamp ?? Date.now();
+  let state = createInitialState(
+    config,
+    initialResult && !initialResult.issues
+      ? initialResult.value
+      : initialContext,
+    { ...reducerOptions, now: () => startTime },
+  );
+  yield state;
+
+  for (const [index, { action, timestamp, replace }] of journal.entries()) {
+    const prevState = state;
+    state = flowReducer(state, toReplayedAction(action, replace), config, {
+      ...reducerOptions,
+      now: () => timestamp,
+    });
+    state = applySchema(schema, action, prevState, state, index);
+    yield state;
+  }
+
+  return state;
+}
+
+/**
+ * Runs a new context through the flow's schema, like the runtime does before
+ * committing a state (RESET goes back to the validated initial context)
+ */
+function applySchema<TContext extends FlowContext>(
+  schema: ContextSchema<TContext> | undefined,
+  action: FlowAction,
+  prevState: FlowState<TContext>,
+  state: FlowState<TContext>,
+  index: number,
+): FlowState<TContext> {
+  if (
+    !schema ||
+    state.context === prevState.context ||
+    action.type === "RESET"
+  ) {
+    return state;
+  }
+
+  const result = validateContext(schema, state.context);
+  if (result.issues) {
+    throw new Error(
+      `Journal entry ${index} (${action.type}) leads to a context the flow's schema rejects: ${formatIssues(result.issues)}`,
+    );
+  }
+  return { ...state, context: result.value };
+}
+
+/**
+ * Turns a recorded function update back into a function, so its value
+ * replaces the context instead of being merged into it
+ */
+function toReplayedAction<TContext extends FlowContext>(
+  action: FlowAction,
+  replace: true | undefined,
+): FlowAction<TContext> {
+  if (!replace || !("update" in action)) return action as FlowAction<TContext>;
+  const { update } = action;
+  return { ...action, update: () => update } as FlowAction<TContext>;
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it, vi } from "vitest";
+import { applyMiddleware, type FlowMiddleware } from "./middleware";
+import { createInitialState } from "./reducer";
+import type { FlowDefinition } from "./types";
+
+const definition: FlowDefinition = {
+  id: "test",
+  start: "a",
+  steps: { a: { next: "b" }, b: {} },
+};
+
+describe("applyMiddleware", () => {
+  const state = createInitialState(definition, {});
+  const api = { flowId: "test", getState: () => state };
+
+  it("should run middleware outermost first", () => {
+    const calls: string[] = [];
+    const track =
+      (name: string): FlowMiddleware =>
+      () =>
+      (next) =>
+      (action) => {
+        calls.push(`${name}:before`);
+        const result = next(action);
+        calls.push(`${name}:after`);
+        return result;
+      };
+
+    const dispatch = applyMiddleware([track("a"), track("b")], api, () => {
+      calls.push("reducer");
+      return state;
+    });
+    dispatch({ type: "BACK" });
+
+    expect(calls).toEqual([
+      "a:before",
+      "b:before",
+      "reducer",
+      "b:after",
+      "a:after",
+    ]);
+  });
+
+  it("should call the dispatch directly without middleware", () => {
+    const dispatch = applyMiddleware([], api, () => state);
+
+    expect(dispatch({ type: "BACK" })).toBe(state);
+  });
+
+  it("should pass actions transformed by a middleware to the next one", () => {
+    const seen: string[] = [];
+    const backAsUndo: FlowMiddleware = () => (next) => (action) =>
+      next(action.type === "BACK" ? { type: "UNDO" } : action);
+    const record: FlowMiddleware = () => (next) => (action) => {
+      seen.push(action.type);
+      return next(action);
+    };
+
+    applyMiddleware([backAsUndo, record], api, () => state)({ type: "BACK" });
+
+    expect(seen).toEqual(["UNDO"]);
+  });
+
+  it("should skip later middleware and the reducer when next isn't called", () => {
+    const reduce = vi.fn(() => state);
+    const later = vi.fn();
+    const block: FlowMiddleware = (blockApi) => () => () => blockApi.getState();
+    const observe: FlowMiddleware = () => (next) => (action) => {
+      later(action);
+      return next(action);
+    };
+
+    const result = applyMiddleware(
+      [block, observe],
+      api,
+      reduce,
+    )({
+      type: "BACK",
+    });
+
+    expect(result).toBe(state);
+    expect(later).not.toHaveBeenCalled();
+    expect(reduce).not.toHaveBeenCalled();
+  });
+
+  it("should call each middleware factory once", () => {
+    const factory = vi.fn();
+    const counter: FlowMiddleware = () => {
+      factory();
+      return (next) => (action) => next(action);
+    };
+
+    const dispatch = applyMiddleware([counter], api, () => state);
+    dispatch({ type: "BACK" });
+    dispatch({ type: "BACK" });
+
+    expect(factory).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Middleware
+ *
+ * Middleware wraps every action the runtime dispatches to flowReducer, like
+ * Redux middleware. It runs after async resolvers and guards, so it sees the
+ * action that is about to be committed (e.g. NEXT with the resolved target).
+ * An action rewritten by middleware is committed as-is - resolvers and guards
+ * don't run again for it.
+ */
+
+import type { FlowAction, FlowContext, FlowState } from "./types";
+
+/**
+ * Passes an action to the next middleware (or the reducer)
+ * Returns the resulting state - the same object when nothing changed
+ */
+export type FlowDispatch<TContext extends FlowContext = FlowContext> = (
+  action: FlowAction<TContext>,
+) => FlowState<TContext>;
+
+/**
+ * Flow identity and state access given to middleware
+ */
+export type FlowMiddlewareApi<TContext extends FlowContext = FlowContext> = {
+  flowId: string;
+  variantId?: string;
+  instanceId?: string;
+  /** Current state - the state before the action until `next()` commits it */
+  getState: () => FlowState<TContext>;
+};
+
+/**
+ * Middleware around flowReducer
+ * The runtime calls `middleware(api)(next)` once (and again only when the
+ * middleware list changes), so state kept in those closures persists.
+ *
+ * - Observe: call `next(action)` and inspect the returned state
+ * - Transform: call `next()` with a different action (committed without
+ *   running resolvers or guards for it)
+ * - Cancel: return `api.getState()` without calling `next()`
+ *
+ * @example
+ * ```ts
+ * const logger: FlowMiddleware = (api) => (next) => (action) => {
+ *   const before = api.getState();
+ *   const after = next(action);
+ *   console.log(action.type, before.stepId, "→", after.stepId);
+ *   return after;
+ * };
+ *
+ * const readOnly: FlowMiddleware = (api) => (next) => (action) =>
+ *   action.type === "SET_CONTEXT" ? api.getState() : next(action);
+ * ```
+ */
+export type FlowMiddleware<TContext extends FlowContext = FlowContext> = (
+  api: FlowMiddlewareApi<TContext>,
+) => (next: FlowDispatch<TContext>) => FlowDispatch<TContext>;
+
+/**
+ * Wraps a dispatch function with middleware
+ * The first middleware is the outermost - it sees actions first and results last
+ *
+ * @param middleware - Middleware in order
+ * @param api - Flow identity and state access passed to each middleware
+ * @param dispatch - Innermost dispatch (usually calls flowReducer)
+ * @returns Dispatch that runs the whole chain
+ */
+export function applyMiddleware<TContext extends FlowContext>(
+  middleware: readonly FlowMiddleware<TContext>[],
+  api: FlowMiddlewareApi<TContext>,
+  dispatch: FlowDispatch<TContext>,
+): FlowDispatch<TContext> {
+  return middleware.reduceRight<FlowDispatch<TContext>>(
+    (next, current) => current(api)(next),
+    dispatch,
+  );
+}
@@ -0,0 +1,154 @@
+import { describe, expect, it } from "vitest";
+import schema from "../flow-definition.schema.json";
+import { parseFlowDefinition } from "./parse";
+
+const remoteFlow = {
+  $schema: "https://docs.useflow.sh/flow-definition.schema.json",
+  id: "onboarding",
+  version: "v2",
+  variantId: "extended",
+  start: "profile",
+  steps: {
+    profile: {
+      next: [
+        { when: { "ctx.accountType": { eq: "business" } }, to: "team" },
+        { to: "preferences" },
+      ],
+      meta: { title: "Your profile", weight: 2, tags: ["account"] },
+    },
+    team: {
+      next: "preferences",
+      loop: { items: "members", min: 1, max: 10 },
+    },
+    preferences: {
+      next: ["billing", "complete"],
+      skipIf: { "ctx.skipPreferences": { truthy: true } },
+    },
+    billing: {
+      next: "setup",
+      flow: "billing-flow",
+    },
+    setup: {
+      next: "complete",
+      parallel: {
+        branches: ["profile-setup", "team-setup"],
+        join: ["profile-setup"],
+      },
+    },
+    complete: {},
+  },
+};
+
+describe("parseFlowDefinition", () => {
+  it("should return a valid definition", () => {
+    const result = parseFlowDefinition(JSON.parse(JSON.stringify(remoteFlow)));
+
+    expect(result).toEqual({ success: true, definition: remoteFlow });
+  });
+
+  it("should accept every property of the JSON Schema", () => {
+    const usedStepKeys = new Set(
+      Object.values(remoteFlow.steps).flatMap((step) => Object.keys(step)),
+    );
+
+    expect(Object.keys(remoteFlow).sort()).toEqual(
+      Object.keys(schema.properties).sort(),
+    );
+    expect([...usedStepKeys].sort()).toEqual(
+      Object.keys(schema.$defs.step.properties).sort(),
+    );
+  });
+
+  it("should report the shape issues with their path", () => {
+    const result = parseFlowDefinition({
+      id: "",
+      start: 1,
+      version: 2,
+      steps: {
+        profile: { next: { to: "done" }, meta: { title: 3 } },
+        plan: { next: ["done", { to: "done" }], nxt: "done" },
+        team: { loop: { min: "1" }, skipIf: { plan: { eq: "team" } } },
+        done: [],
+      },
+    });
+
+    expect(result.success).toBe(false);
+    expect(!result.success && result.issues).toEqual([
+      { path: ["id"], message: "Expected a non-empty string" },
+      { path: ["start"], message: "Expected a non-empty string" },
+      { path: ["version"], message: "Expected a non-empty string" },
+      {
+        path: ["steps", "profile", "next"],
+        message:
+          "Expected a step id or an array of step ids or conditional transitions",
+      },
+      {
+        path: ["steps", "profile", "meta", "title"],
+        message: "Expected a string",
+      },
+      {
+        path: ["steps", "plan", "nxt"],
+        message:
+          'Unknown property "nxt". Expected one of: next, flow, parallel, loop, skipIf, meta',
+      },
+      {
+        path: ["steps", "plan", "next", 0],
+        message:
+          "Expected a conditional transition ({ when?, to }). Don't mix step ids and conditional transitions",
+      },
+      {
+        path: ["steps", "team", "skipIf"],
+        message:
+          'steps.team.skipIf has invalid key "plan". Use a context path (e.g. "ctx.plan") or all/any/not',
+      },
+      {
+        path: ["steps", "team", "loop", "items"],
+        message: "Expected a non-empty string",
+      },
+      { path: ["steps", "team", "loop", "min"], message: "Expected a number" },
+      { path: ["steps", "done"], message: "Expected an object" },
+    ]);
+  });
+
+  it("should reject values that aren't objects", () => {
+    expect(parseFlowDefinition(null)).toEqual({
+      success: false,
+      issues: [{ path: [], message: "Expected an object" }],
+    });
+    expect(parseFlowDefinition({ id: "test", start: "a", steps: {} })).toEqual({
+      success: false,
+      issues: [{ path: ["steps"], message: "Expected at least one step" }],
+    });
+  });
+
+  it("should report invalid references", () => {
+    const result = parseFlowDefinition({
+      id: "test",
+      start: "constructor",
+      steps: { first: { next: "missing" }, done: {} },
+    });
+
+    expect(!result.success && result.issues.map((issue) => issue.path)).toEqual(
+      [["start"], ["steps", "first"]],
+    );
+  });
+
+  it("should report flows that can't complete", () => {
+    const result = parseFlowDefinition({
+      id: "test",
+      start: "review",
+      steps: { review: { next: "edit" }, edit: { next: "review" } },
+    });
+
+    expect(result).toEqual({
+      success: false,
+      issues: [
+        {
+          path: [],
+          message:
+            "Flow has no terminal step (a step without next), so it can never complete",
+        },
+      ],
+    });
+  });
+});
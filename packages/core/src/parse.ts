@@ -0,0 +1,296 @@
+/**
+ * Flow definition parsing
+ *
+ * Flow definitions fetched from a server (or stored as JSON) are untrusted.
+ * parseFlowDefinition() checks their shape against the same rules as the
+ * published JSON Schema (flow-definition.schema.json), then the references and
+ * graph checks defineFlow() would throw for - so a parsed definition can be
+ * passed to defineFlow() safely.
+ */
+
+import { validateCondition } from "./conditions";
+import { getFlowDiagnostics } from "./reducer";
+import type { FlowDefinition } from "./types";
+
+/**
+ * A problem found while parsing a flow definition
+ */
+export type FlowDefinitionIssue = {
+  /** Location of the invalid value, e.g. ["steps", "profile", "next", 0] */
+  path: readonly (string | number)[];
+  message: string;
+};
+
+/**
+ * Result of parseFlowDefinition()
+ */
+export type ParseFlowDefinitionResult =
+  | { success: true; definition: FlowDefinition }
+  | { success: false; issues: FlowDefinitionIssue[] };
+
+type Path = readonly (string | number)[];
+type Issues = FlowDefinitionIssue[];
+
+const definitionKeys = new Set([
+  "$schema",
+  "id",
+  "start",
+  "steps",
+  "version",
+  "variantId",
+]);
+const stepKeys = new Set([
+  "next",
+  "flow",
+  "parallel",
+  "loop",
+  "skipIf",
+  "meta",
+]);
+
+/**
+ * Parses an untrusted flow definition (e.g. a JSON payload from a server)
+ *
+ * @param input - Value to parse
+ * @returns The typed definition, or the issues found (with their location)
+ *
+ * @example
+ * ```ts
+ * const result = parseFlowDefinition(await response.json());
+ * if (!result.success) {
+ *   throw new Error(result.issues.map((issue) => issue.message).join("\n"));
+ * }
+ * const flow = defineFlow(result.definition);
+ * ```
+ */
+export function parseFlowDefinition(input: unknown): ParseFlowDefinitionResult {
+  const issues: Issues = [];
+
+  if (isObject(input, [], issues)) {
+    checkKeys(input, definitionKeys, [], issues);
+    checkString(input.id, ["id"], issues, { required: true });
+    checkString(input.start, ["start"], issues, { required: true });
+    checkString(input.version, ["version"], issues);
+    checkString(input.variantId, ["variantId"], issues);
+
+    if (isObject(input.steps, ["steps"], issues)) {
+      const steps = Object.entries(input.steps);
+      if (steps.length === 0) {
+        issues.push({ path: ["steps"], message: "Expected at least one step" });
+      }
+      for (const [stepId, step] of steps) {
+        if (stepId === "") {
+          issues.push({
+            path: ["steps", stepId],
+            message: "Step ids can't be empty",
+          });
+        }
+        checkStep(step, ["steps", stepId], issues);
+      }
+    }
+  }
+
+  if (issues.length > 0) return { success: false, issues };
+
+  // The shape is valid - check references and the flow graph
+  const definition = input as FlowDefinition;
+  for (const diagnostic of getFlowDiagnostics(definition)) {
+    if (diagnostic.severity !== "error") continue;
+    const stepId = diagnostic.stepIds?.[0];
+    // Only the start step check reports an unknown step without a step id
+    const path =
+      stepId !== undefined
+        ? ["steps", stepId]
+        : diagnostic.code === "unknown-step"
+          ? ["start"]
+          : [];
+    issues.push({ path, message: diagnostic.message });
+  }
+
+  return issues.length > 0
+    ? { success: false, issues }
+    : { success: true, definition };
+}
+
+function checkStep(step: unknown, path: Path, issues: Issues) {
+  if (!isObject(step, path, issues)) return;
+  checkKeys(step, stepKeys, path, issues);
+  checkString(step.flow, [...path, "flow"], issues);
+  checkNext(step.next, [...path, "next"], issues);
+
+  if (step.skipIf !== undefined) {
+    checkCondition(step.skipIf, [...path, "skipIf"], issues);
+  }
+  if (step.meta !== undefined) {
+    checkMeta(step.meta, [...path, "meta"], issues);
+  }
+
+  if (step.parallel !== undefined) {
+    const parallelPath = [...path, "parallel"];
+    if (isObject(step.parallel, parallelPath, issues)) {
+      checkKeys(
+        step.parallel,
+        new Set(["branches", "join"]),
+        parallelPath,
+        issues,
+      );
+      checkStringArray(
+        step.parallel.branches,
+        [...parallelPath, "branches"],
+        issues,
+        { required: true },
+      );
+      checkStringArray(step.parallel.join, [...parallelPath, "join"], issues);
+    }
+  }
+
+  if (step.loop !== undefined) {
+    const loopPath = [...path, "loop"];
+    if (isObject(step.loop, loopPath, issues)) {
+      checkKeys(step.loop, new Set(["items", "min", "max"]), loopPath, issues);
+      checkString(step.loop.items, [...loopPath, "items"], issues, {
+        required: true,
+      });
+      for (const key of ["min", "max"] as const) {
+        const value = step.loop[key];
+        if (value !== undefined && typeof value !== "number") {
+          issues.push({
+            path: [...loopPath, key],
+            message: "Expected a number",
+          });
+        }
+      }
+    }
+  }
+}
+
+/**
+ * next is a step id, an array of step ids or an array of conditional transitions
+ */
+function checkNext(next: unknown, path: Path, issues: Issues) {
+  if (next === undefined || typeof next === "string") return;
+  if (!Array.isArray(next)) {
+    issues.push({
+      path,
+      message:
+        "Expected a step id or an array of step ids or conditional transitions",
+    });
+    return;
+  }
+
+  const conditional = next.some((transition) => typeof transition === "object");
+  next.forEach((transition, i) => {
+    const transitionPath = [...path, i];
+    if (!conditional) {
+      checkString(transition, transitionPath, issues);
+      return;
+    }
+    if (
+      typeof transition !== "object" ||
+      transition === null ||
+      Array.isArray(transition)
+    ) {
+      issues.push({
+        path: transitionPath,
+        message:
+          "Expected a conditional transition ({ when?, to }). Don't mix step ids and conditional transitions",
+      });
+      return;
+    }
+    checkKeys(transition, new Set(["when", "to"]), transitionPath, issues);
+    checkString(transition.to, [...transitionPath, "to"], issues, {
+      required: true,
+    });
+    if (transition.when !== undefined) {
+      checkCondition(transition.when, [...transitionPath, "when"], issues);
+    }
+  });
+}
+
+/**
+ * meta accepts any JSON fields, but the known ones must have their type
+ */
+function checkMeta(meta: unknown, path: Path, issues: Issues) {
+  if (!isObject(meta, path, issues)) return;
+  for (const key of ["title", "description"] as const) {
+    if (meta[key] !== undefined && typeof meta[key] !== "string") {
+      issues.push({ path: [...path, key], message: "Expected a string" });
+    }
+  }
+  if (meta.weight !== undefined && typeof meta.weight !== "number") {
+    issues.push({ path: [...path, "weight"], message: "Expected a number" });
+  }
+  if (
+    meta.tags !== undefined &&
+    !(
+      Array.isArray(meta.tags) &&
+      meta.tags.every((tag) => typeof tag === "string")
+    )
+  ) {
+    issues.push({
+      path: [...path, "tags"],
+      message: "Expected an array of strings",
+    });
+  }
+}
+
+function checkCondition(condition: unknown, path: Path, issues: Issues) {
+  for (const message of validateCondition(condition, path.join("."))) {
+    issues.push({ path, message });
+  }
+}
+
+function isObject(
+  value: unknown,
+  path: Path,
+  issues: Issues,
+): value is Record<string, unknown> {
+  if (typeof value === "object" && value !== null && !Array.isArray(value)) {
+    return true;
+  }
+  issues.push({ path, message: "Expected an object" });
+  return false;
+}
+
+function checkKeys(
+  value: Record<string, unknown>,
+  allowed: ReadonlySet<string>,
+  path: Path,
+  issues: Issues,
+) {
+  for (const key of Object.keys(value)) {
+    if (allowed.has(key)) continue;
+    issues.push({
+      path: [...path, key],
+      message: `Unknown property "${key}". Expected one of: ${[...allowed].join(", ")}`,
+    });
+  }
+}
+
+function checkString(
+  value: unknown,
+  path: Path,
+  issues: Issues,
+  { required = false } = {},
+) {
+  if (value === undefined && !required) return;
+  if (typeof value !== "string" || value === "") {
+    issues.push({ path, message: "Expected a non-empty string" });
+  }
+}
+
+function checkStringArray(
+  value: unknown,
+  path: Path,
+  issues: Issues,
+  { required = false } = {},
+) {
+  if (value === undefined && !required) return;
+  if (!Array.isArray(value)) {
+    issues.push({ path, message: "Expected an array of strings" });
+    return;
+  }
+  value.forEach((item, i) => {
+    checkString(item, [...path, i], issues);
+  });
+}
@@ -123,6 +123,51 @@ describe("validatePersistedState", () => {
     ).toBe(true);
   });
 
+  it("should reject state without the iteration of an active looping step", () => {
+    const loopDefinition = {
+      id: "loop",
+      start: "dependent",
+      steps: {
+        dependent: { next: "done", loop: { items: "dependents" } },
+        done: {},
+      },
+    };
+    const persisted: PersistedFlowState = {
+      stepId: "dependent",
+      startedAt: 1234567890,
+      context: { dependents: [{}] },
+      path: [{ stepId: "dependent", startedAt: 1234567890 }],
+      history: [{ stepId: "dependent", startedAt: 1234567890 }],
+      status: "active",
+    };
+
+    const result = validatePersistedState(persisted, loopDefinition);
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toContain(
+      `Looping step "dependent" is active but its iteration wasn't persisted`,
+    );
+  });
+
+  it("should reject state with invalid step in forward stack", () => {
+    const persisted: PersistedFlowState<{ name: string }> = {
+      stepId: "welcome",
+      startedAt: 1234567890,
+      context: { name: "John" },
+      path: [{ stepId: "welcome", startedAt: 1234567890 }],
+      history: [{ stepId: "welcome", startedAt: 1234567890 }],
+      status: "active",
+      forwardStack: [{ stepId: "invalid", action: "next" }],
+    };
+
+    const result = validatePersistedState(persisted, definition);
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toContain(
+      'Forward stack contains non-existent step "invalid"',
+    );
+  });
+
   it("should reject state where stepId doesn't match last history item", () => {
     const persisted: PersistedFlowState<{ name: string }> = {
       stepId: "complete",
@@ -201,4 +246,169 @@ describe("validatePersistedState", () => {
 
     expect(result.valid).toBe(true);
   });
+
+  describe("sub-flows", () => {
+    const parent: FlowDefinition = {
+      id: "parent",
+      start: "intro",
+      steps: {
+        intro: { next: "nested" },
+        nested: { flow: "test-flow", next: "done" },
+        done: {},
+      },
+    };
+    const options = {
+      subFlows: {
+        "test-flow": { flow: { id: "test-flow", config: definition } },
+      },
+    };
+    const entry = (stepId: string) => ({ stepId, startedAt: 1234567890 });
+    const atNested = (child?: PersistedFlowState) => ({
+      stepId: "nested",
+      startedAt: 1234567890,
+      context: {},
+      path: [entry("intro"), entry("nested")],
+      history: [entry("intro"), entry("nested")],
+      status: "active" as const,
+      child,
+    });
+    const child: PersistedFlowState = {
+      stepId: "profile",
+      startedAt: 1234567890,
+      context: {},
+      path: [entry("welcome"), entry("profile")],
+      history: [entry("welcome"), entry("profile")],
+      status: "active",
+    };
+
+    it("should validate nested child state", () => {
+      const result = validatePersistedState(atNested(child), parent, options);
+
+      expect(result.valid).toBe(true);
+    });
+
+    it("should prefix errors from invalid child state", () => {
+      const result = validatePersistedState(
+        atNested({ ...child, stepId: "missing" }),
+        parent,
+        options,
+      );
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain(
+        'Sub-flow "test-flow": Current step "missing" not found in flow definition. Available steps: welcome, profile, complete',
+      );
+    });
+
+    it("should reject an active sub-flow step without child state", () => {
+      const result = validatePersistedState(atNested(), parent, options);
+
+      expect(result.errors).toContain(
+        'Step "nested" runs sub-flow "test-flow" but no child state was persisted',
+      );
+    });
+
+    it("should reject child state on a step without a sub-flow", () => {
+      const result = validatePersistedState(
+        { ...atNested(child), stepId: "intro", path: [entry("intro")] },
+        parent,
+        options,
+      );
+
+      expect(result.errors).toContain(
+        `Step "intro" doesn't run a sub-flow but child state was persisted`,
+      );
+    });
+
+    it("should reject child state when the sub-flow wasn't provided", () => {
+      const result = validatePersistedState(atNested(child), parent);
+
+      expect(result.errors).toEqual([
+        expect.stringContaining(
+          'Step "nested" runs sub-flow "test-flow" but no sub-flow with that id was provided',
+        ),
+      ]);
+    });
+  });
+
+  describe("parallel steps", () => {
+    const parent: FlowDefinition = {
+      id: "parent",
+      start: "setup",
+      steps: {
+        setup: {
+          parallel: { branches: ["test-flow", "other"] },
+          next: "done",
+        },
+        done: {},
+      },
+    };
+    const options = {
+      subFlows: {
+        "test-flow": { flow: { id: "test-flow", config: definition } },
+        other: { flow: { id: "other", config: definition } },
+      },
+    };
+    const entry = (stepId: string) => ({ stepId, startedAt: 1234567890 });
+    const branch: PersistedFlowState = {
+      stepId: "welcome",
+      startedAt: 1234567890,
+      context: {},
+      path: [entry("welcome")],
+      history: [entry("welcome")],
+      status: "active",
+    };
+    const atSetup = (
+      parallel?: PersistedFlowState["parallel"],
+    ): PersistedFlowState => ({
+      stepId: "setup",
+      startedAt: 1234567890,
+      context: {},
+      path: [entry("setup")],
+      history: [entry("setup")],
+      status: "active",
+      parallel,
+    });
+
+    it("should validate branch states", () => {
+      const result = validatePersistedState(
+        atSetup({
+          active: "other",
+          branches: { "test-flow": branch, other: branch },
+          done: ["test-flow"],
+        }),
+        parent,
+        options,
+      );
+
+      expect(result.valid).toBe(true);
+    });
+
+    it("should report invalid and missing branch states", () => {
+      const result = validatePersistedState(
+        atSetup({
+          active: "missing",
+          branches: { "test-flow": { ...branch, stepId: "nope" } },
+          done: [],
+        }),
+        parent,
+        options,
+      );
+
+      expect(result.errors).toEqual([
+        'Active branch "missing" not found in parallel step "setup". Available branches: test-flow, other',
+        expect.stringContaining('Branch "test-flow": Current step "nope"'),
+        'Branch "test-flow": Current stepId "nope" must match last item in path "welcome"',
+        'Branch "other" state was not persisted',
+      ]);
+    });
+
+    it("should reject an active parallel step without branch state", () => {
+      const result = validatePersistedState(atSetup(), parent, options);
+
+      expect(result.errors).toEqual([
+        'Parallel step "setup" is active but no branch state was persisted',
+      ]);
+    });
+  });
 });
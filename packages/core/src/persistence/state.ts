@@ -1,3 +1,5 @@
+import { getSubFlow } from "../reducer";
+import type { RuntimeSubFlowMap } from "../runtime";
 import type { FlowContext, FlowDefinition, PersistedFlowState } from "../types";
 
 /**
@@ -11,10 +13,17 @@ export type ValidationResult = {
 /**
  * Validate that persisted state is compatible with flow definition
  * Checks that all step references exist and state is internally consistent
+ *
+ * When the current step runs a sub-flow (or parallel branches), the nested
+ * child state is validated against the child flow definition (provide subFlows
+ * from the runtime config).
  */
 export function validatePersistedState<TContext extends FlowContext>(
   persisted: PersistedFlowState<TContext>,
   definition: FlowDefinition,
+  options?: {
+    subFlows?: RuntimeSubFlowMap<TContext>;
+  },
 ): ValidationResult {
   const errors: string[] = [];
   const stepNames = new Set(Object.keys(definition.steps));
@@ -46,6 +55,15 @@ export function validatePersistedState<TContext extends FlowContext>(
       }
     }
 
+    // Validate forward stack steps exist
+    for (const entry of persisted.forwardStack ?? []) {
+      if (!stepNames.has(entry.stepId)) {
+        errors.push(
+          `Forward stack contains non-existent step "${entry.stepId}"`,
+        );
+      }
+    }
+
     // Validate path consistency
     const lastInPath = persisted.path[persisted.path.length - 1];
     if (lastInPath && lastInPath.stepId !== persisted.stepId) {
@@ -53,12 +71,29 @@ export function validatePersistedState<TContext extends FlowContext>(
         `Current stepId "${persisted.stepId}" must match last item in path "${lastInPath.stepId}"`,
       );
     }
+
+    // Validate the current iteration of a looping step
+    if (
+      lastInPath?.stepId === persisted.stepId &&
+      definition.steps[persisted.stepId]?.loop &&
+      lastInPath.iteration === undefined
+    ) {
+      errors.push(
+        `Looping step "${persisted.stepId}" is active but its iteration wasn't persisted`,
+      );
+    }
   }
 
   // Validate status is consistent with step definition
+  // (a terminal sub-flow step stays active while its child flow runs)
   const currentStep = definition.steps[persisted.stepId];
   if (currentStep) {
-    const expectedStatus = currentStep.next ? "active" : "complete";
+    const expectedStatus =
+      currentStep.next ||
+      (currentStep.flow && persisted.child) ||
+      (currentStep.parallel && persisted.parallel)
+        ? "active"
+        : "complete";
     if (persisted.status !== expectedStatus) {
       errors.push(
         `Status "${persisted.status}" doesn't match expected "${expectedStatus}" for step "${persisted.stepId}"`,
@@ -66,6 +101,88 @@ export function validatePersistedState<TContext extends FlowContext>(
     }
   }
 
+  // Validate nested sub-flow state
+  if (currentStep?.flow && persisted.status === "active") {
+    if (!persisted.child) {
+      errors.push(
+        `Step "${persisted.stepId}" runs sub-flow "${currentStep.flow}" but no child state was persisted`,
+      );
+    } else {
+      try {
+        const subFlow = getSubFlow(definition, persisted.stepId, options);
+        const childResult = validatePersistedState(
+          persisted.child,
+          subFlow.definition,
+          subFlow.options,
+        );
+        for (const error of childResult.errors ?? []) {
+          errors.push(`Sub-flow "${currentStep.flow}": ${error}`);
+        }
+      } catch (error) {
+        errors.push((error as Error).message);
+      }
+    }
+  } else if (persisted.child) {
+    errors.push(
+      `Step "${persisted.stepId}" doesn't run a sub-flow but child state was persisted`,
+    );
+  }
+
+  // Validate parallel branch states
+  const parallelStep = currentStep?.parallel;
+  if (parallelStep && persisted.status === "active") {
+    const { parallel } = persisted;
+    if (!parallel) {
+      errors.push(
+        `Parallel step "${persisted.stepId}" is active but no branch state was persisted`,
+      );
+    } else {
+      if (!parallelStep.branches.includes(parallel.active)) {
+        errors.push(
+          `Active branch "${parallel.active}" not found in parallel step "${persisted.stepId}". ` +
+            `Available branches: ${parallelStep.branches.join(", ")}`,
+        );
+      }
+      for (const branchId of parallel.done) {
+        if (!parallelStep.branches.includes(branchId)) {
+          errors.push(
+            `Finished branches contain non-existent branch "${branchId}"`,
+          );
+        }
+      }
+
+      for (const branchId of parallelStep.branches) {
+        const branch = parallel.branches[branchId];
+        if (!branch) {
+          errors.push(`Branch "${branchId}" state was not persisted`);
+          continue;
+        }
+        try {
+          const subFlow = getSubFlow(
+            definition,
+            persisted.stepId,
+            options,
+            branchId,
+          );
+          const branchResult = validatePersistedState(
+            branch,
+            subFlow.definition,
+            subFlow.options,
+          );
+          for (const error of branchResult.errors ?? []) {
+            errors.push(`Branch "${branchId}": ${error}`);
+          }
+        } catch (error) {
+          errors.push((error as Error).message);
+        }
+      }
+    }
+  } else if (persisted.parallel) {
+    errors.push(
+      `Step "${persisted.stepId}" isn't an active parallel step but branch state was persisted`,
+    );
+  }
+
   return {
     valid: errors.length === 0,
     errors: errors.length > 0 ? errors : undefined,
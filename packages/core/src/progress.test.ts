@@ -0,0 +1,178 @@
+import { describe, expect, it, vi } from "vitest";
+import { getProgress } from "./progress";
+import {
+  createInitialState,
+  type FlowReducerOptions,
+  flowReducer,
+} from "./reducer";
+import type { FlowContext, FlowDefinition, FlowState } from "./types";
+
+type Context = { accountType?: "business" | "personal"; newsletter?: boolean };
+
+const definition: FlowDefinition = {
+  id: "signup",
+  start: "welcome",
+  steps: {
+    welcome: { next: "account" },
+    account: {
+      next: [
+        { when: { "ctx.accountType": { eq: "business" } }, to: "company" },
+        { to: "profile" },
+      ],
+    },
+    company: { next: "billing" },
+    billing: { next: "profile" },
+    profile: { next: "newsletter" },
+    newsletter: {
+      next: "done",
+      skipIf: { "ctx.newsletter": { eq: false } },
+    },
+    done: {},
+  },
+};
+
+const advance = (
+  state: FlowState<Context>,
+  steps: number,
+  options?: FlowReducerOptions<Context>,
+) => {
+  let current = state;
+  for (let i = 0; i < steps; i++) {
+    current = flowReducer(current, { type: "NEXT" }, definition, options);
+  }
+  return current;
+};
+
+describe("getProgress", () => {
+  it("should count completed steps and the predicted route", () => {
+    const state = advance(
+      createInitialState<Context>(definition, { accountType: "business" }),
+      2,
+    );
+
+    expect(getProgress(state, definition)).toEqual({
+      completed: 2,
+      minRemaining: 4,
+      maxRemaining: 5,
+      predictedPath: ["company", "billing", "profile", "newsletter", "done"],
+      percent: (2 / 7) * 100,
+    });
+  });
+
+  it("should predict the route for the current context", () => {
+    const state = advance(
+      createInitialState<Context>(definition, {
+        accountType: "personal",
+        newsletter: false,
+      }),
+      1,
+    );
+
+    const progress = getProgress(state, definition);
+    expect(progress.predictedPath).toEqual(["account", "profile", "done"]);
+    // company/billing on the longest route, newsletter can be skipped on the shortest
+    expect(progress.minRemaining).toBe(3);
+    expect(progress.maxRemaining).toBe(6);
+  });
+
+  it("should stop where the destination isn't known without running resolvers", () => {
+    const branching: FlowDefinition = {
+      id: "branching",
+      start: "start",
+      steps: {
+        start: { next: ["a"] },
+        a: { next: ["b", "c"] },
+        b: {},
+        c: {},
+      },
+    };
+    const state = createInitialState<FlowContext>(branching, {});
+    const resolver = vi.fn(() => "b" as const);
+
+    expect(
+      getProgress(state, branching, { resolvers: { a: resolver } })
+        .predictedPath,
+    ).toEqual(["start", "a"]);
+    expect(resolver).not.toHaveBeenCalled();
+  });
+
+  it("should never decrease percent along a resolver branch", () => {
+    const branching: FlowDefinition = {
+      id: "branching",
+      start: "welcome",
+      steps: {
+        welcome: { next: "plan" },
+        plan: { next: ["basic", "pro"] },
+        basic: { next: "done" },
+        pro: { next: "seats" },
+        seats: { next: "done" },
+        done: {},
+      },
+    };
+    const percents = (plan: string) => {
+      const options = { resolvers: { plan: () => plan } };
+      let state = createInitialState<FlowContext>(branching, {});
+      const result = [getProgress(state, branching, options).percent];
+      while (state.status !== "complete") {
+        state = flowReducer(state, { type: "NEXT" }, branching, options);
+        result.push(getProgress(state, branching, options).percent);
+      }
+      return result;
+    };
+
+    // The heaviest route (pro) counts until the resolver has picked one
+    expect(percents("pro")).toEqual([0, 20, 40, 60, 100]);
+    expect(percents("basic")).toEqual([0, 20, 50, 100]);
+  });
+
+  it("should weight steps by meta.weight", () => {
+    const weighted: FlowDefinition = {
+      id: "weighted",
+      start: "intro",
+      steps: {
+        intro: { next: "form", meta: { weight: 1 } },
+        form: { next: "done", meta: { weight: 3 } },
+        done: { meta: { weight: 0 } },
+      },
+    };
+    const state = flowReducer(
+      createInitialState(weighted, {}),
+      { type: "NEXT" },
+      weighted,
+    );
+
+    expect(getProgress(state, weighted).percent).toBe(25);
+  });
+
+  it("should report 100 percent once the flow is complete", () => {
+    const state = advance(createInitialState<Context>(definition, {}), 5);
+
+    expect(state.status).toBe("complete");
+    expect(getProgress(state, definition)).toEqual({
+      completed: 5,
+      minRemaining: 0,
+      maxRemaining: 0,
+      predictedPath: [],
+      percent: 100,
+    });
+  });
+
+  it("should end the route where it leads back to a visited step", () => {
+    const cyclic: FlowDefinition = {
+      id: "cyclic",
+      start: "a",
+      steps: {
+        a: { next: "b" },
+        b: {
+          next: [{ when: { "ctx.retry": { eq: true } }, to: "a" }, { to: "c" }],
+        },
+        c: {},
+      },
+    };
+    const state = createInitialState<FlowContext>(cyclic, { retry: true });
+
+    const progress = getProgress(state, cyclic);
+    expect(progress.predictedPath).toEqual(["a", "b"]);
+    expect(progress.maxRemaining).toBe(3);
+  });
+});
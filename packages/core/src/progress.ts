@@ -0,0 +1,221 @@
+/**
+ * Flow progress
+ *
+ * "Step 3 of 7" is wrong for branching flows. getProgress() walks the flow
+ * definition's graph from the current step instead: the fewest and most
+ * steps any route can still take, and the route the current context leads
+ * through (conditional transitions and skip conditions evaluated with it).
+ * Progress is computed for every state, so resolvers (which may call an API)
+ * are never run - only navigation runs them.
+ */
+
+import { isConditionalTransition, matchTransition } from "./conditions";
+import {
+  type FlowReducerOptions,
+  getNextStepIds,
+  isStepSkipped,
+} from "./reducer";
+import type { FlowContext, FlowDefinition, FlowState } from "./types";
+
+/**
+ * Progress through a flow
+ * Sub-flow and parallel steps count as one step of the flow that runs them.
+ */
+export type FlowProgress = {
+  /** Steps finished - path entries before the current step (all of them once complete) */
+  completed: number;
+  /**
+   * Fewest steps left on any route, including the current step
+   * Steps with a skip condition may be passed over, so they don't count.
+   */
+  minRemaining: number;
+  /** Most steps left on any route without revisiting a step, including the current step */
+  maxRemaining: number;
+  /**
+   * Steps the current context leads through, starting with the current step
+   * Ends early at steps whose destination isn't known yet (several next
+   * steps picked by a resolver or the component, or no matching conditional
+   * transition).
+   */
+  predictedPath: string[];
+  /**
+   * Completed share of the completed and remaining steps (0-100)
+   * Steps are weighted by meta.weight (defaults to 1). Past the end of
+   * predictedPath, the heaviest route counts, so percent doesn't drop once
+   * the destination is known.
+   */
+  percent: number;
+};
+
+/**
+ * Computes progress from the flow graph, the path taken so far and the context
+ *
+ * @param state - Current flow state
+ * @param definition - Flow definition
+ * @param options - Reducer options (skip conditions are used)
+ * @returns Completed and remaining steps, and the weighted percent
+ *
+ * @example
+ * ```ts
+ * const { completed, predictedPath } = getProgress(state, flow.config);
+ * const label = `Step ${completed + 1} of ${completed + predictedPath.length}`;
+ * ```
+ */
+export function getProgress<TContext extends FlowContext>(
+  state: FlowState<TContext>,
+  definition: FlowDefinition,
+  options?: FlowReducerOptions<TContext>,
+): FlowProgress {
+  const weight = (stepId: string) =>
+    Math.max(definition.steps[stepId]?.meta?.weight ?? 1, 0);
+  const completedSteps = (
+    state.status === "complete" ? state.path : state.path.slice(0, -1)
+  ).map((entry) => entry.stepId);
+  const done = completedSteps.reduce((sum, id) => sum + weight(id), 0);
+
+  if (state.status === "complete") {
+    return {
+      completed: completedSteps.length,
+      minRemaining: 0,
+      maxRemaining: 0,
+      predictedPath: [],
+      percent: 100,
+    };
+  }
+
+  const { path: predictedPath, stop } = predictPath(
+    state.stepId,
+    state.context,
+    definition,
+    options,
+  );
+  const left =
+    predictedPath.reduce((sum, id) => sum + weight(id), 0) +
+    (stop ? heaviestRemaining(stop, definition, weight) : 0);
+  const { min, max } = countRemaining(state.stepId, definition, options);
+
+  return {
+    completed: completedSteps.length,
+    minRemaining: min,
+    maxRemaining: max,
+    predictedPath,
+    percent: done + left > 0 ? (done / (done + left)) * 100 : 0,
+  };
+}
+
+/**
+ * The step the context leads to from a step
+ * @returns The destination, or undefined if it isn't known yet
+ */
+function predictNextStep(
+  stepId: string,
+  context: FlowContext,
+  definition: FlowDefinition,
+): string | undefined {
+  const next = definition.steps[stepId]?.next;
+  if (next === undefined || typeof next === "string") return next;
+  if (isConditionalTransition(next)) return matchTransition(next, context);
+  // Several step ids are a choice (resolver or component) - not predicted
+  return next.length === 1 ? next[0] : undefined;
+}
+
+/**
+ * Follows the steps the context leads through, passing over skipped steps
+ * @returns The steps, and the step whose destination isn't known (if the
+ * route doesn't end or lead back first)
+ */
+function predictPath<TContext extends FlowContext>(
+  stepId: string,
+  context: TContext,
+  definition: FlowDefinition,
+  options?: FlowReducerOptions<TContext>,
+): { path: string[]; stop?: string } {
+  const path = [stepId];
+  const visited = new Set(path);
+  let current = stepId;
+
+  while (true) {
+    const next = predictNextStep(current, context, definition);
+    if (next === undefined) {
+      const unknown = getNextStepIds(definition.steps[current]?.next);
+      return { path, stop: unknown ? current : undefined };
+    }
+    // Stop where the route leads back
+    if (visited.has(next)) return { path };
+    visited.add(next);
+    if (!isStepSkipped(next, context, definition, options)) {
+      path.push(next);
+    }
+    current = next;
+  }
+}
+
+/**
+ * Weight of the heaviest route after a step (excluding it)
+ * Edges leading back to a step on the route are ignored.
+ */
+function heaviestRemaining(
+  stepId: string,
+  definition: FlowDefinition,
+  weight: (stepId: string) => number,
+): number {
+  const heaviest = new Map<string, number>();
+  const visiting = new Set<string>([stepId]);
+
+  const visit = (id: string): number => {
+    const known = heaviest.get(id);
+    if (known !== undefined) return known;
+    if (visiting.has(id)) return 0;
+
+    visiting.add(id);
+    const rest = getNextStepIds(definition.steps[id]?.next) ?? [];
+    const total = weight(id) + Math.max(0, ...rest.map(visit));
+    visiting.delete(id);
+    heaviest.set(id, total);
+    return total;
+  };
+
+  const next = getNextStepIds(definition.steps[stepId]?.next) ?? [];
+  return Math.max(0, ...next.map(visit));
+}
+
+/**
+ * Fewest and most steps from a step to the end of the flow (including it)
+ * Edges leading back to a step on the current route are ignored.
+ */
+function countRemaining<TContext extends FlowContext>(
+  stepId: string,
+  definition: FlowDefinition,
+  options?: FlowReducerOptions<TContext>,
+): { min: number; max: number } {
+  const counts = new Map<string, { min: number; max: number }>();
+  const visiting = new Set<string>();
+
+  const visit = (id: string): { min: number; max: number } | undefined => {
+    const known = counts.get(id);
+    if (known) return known;
+    if (visiting.has(id)) return undefined;
+
+    visiting.add(id);
+    const rest = (getNextStepIds(definition.steps[id]?.next) ?? [])
+      .map(visit)
+      .filter((count) => count !== undefined);
+    visiting.delete(id);
+
+    // The current step is entered, so it always counts
+    const skippable =
+      id !== stepId &&
+      (definition.steps[id]?.skipIf !== undefined ||
+        options?.skipConditions?.[id] !== undefined);
+    const count = {
+      min:
+        (skippable ? 0 : 1) +
+        (rest.length > 0 ? Math.min(...rest.map((c) => c.min)) : 0),
+      max: 1 + (rest.length > 0 ? Math.max(...rest.map((c) => c.max)) : 0),
+    };
+    counts.set(id, count);
+    return count;
+  };
+
+  return visit(stepId) ?? { min: 1, max: 1 };
+}
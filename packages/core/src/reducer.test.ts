@@ -1,7 +1,14 @@
 import { describe, expect, it, vi } from "vitest";
 import {
+  canGoForward,
+  canRedo,
+  canUndo,
   createInitialState,
+  FlowDefinitionError,
+  type FlowReducerOptions,
   flowReducer,
+  getFlowDiagnostics,
+  getStepErrors,
   validateFlowDefinition,
 } from "./reducer";
 import type { FlowAction, FlowContext } from "./types";
@@ -360,6 +367,26 @@ describe("flowReducer", () => {
     );
   });
 
+  it("should throw when a resolver returns a Promise", () => {
+    const definition = {
+      id: "test",
+      start: "menu",
+      steps: {
+        menu: { next: ["option1", "option2"] },
+        option1: {},
+        option2: {},
+      },
+    };
+
+    const state = createInitialState(definition, {});
+
+    expect(() => {
+      flowReducer(state, { type: "NEXT" }, definition, {
+        resolvers: { menu: async () => "option1" },
+      });
+    }).toThrow('resolver() for step "menu" returned a Promise');
+  });
+
   it("should skip on final step and mark as complete", () => {
     const definition = {
       id: "test",
@@ -1172,6 +1199,34 @@ describe("validateFlowDefinition", () => {
     );
   });
 
+  it("should throw error when a parallel step joins on a non-existent branch", () => {
+    const flow = {
+      id: "test",
+      start: "setup",
+      steps: {
+        setup: {
+          parallel: { branches: ["profile", "billing"], join: ["team"] },
+        },
+      },
+    };
+
+    expect(() => validateFlowDefinition(flow)).toThrow(
+      'Parallel step "setup" joins on non-existent branch "team". Available branches: profile, billing',
+    );
+  });
+
+  it("should throw error when a parallel step has no branches", () => {
+    const flow = {
+      id: "test",
+      start: "setup",
+      steps: { setup: { parallel: { branches: [] } } },
+    };
+
+    expect(() => validateFlowDefinition(flow)).toThrow(
+      'Parallel step "setup" must have at least one branch',
+    );
+  });
+
   it("should throw error when array next references non-existent step", () => {
     const flow = {
       id: "test",
@@ -1233,6 +1288,179 @@ describe("validateFlowDefinition", () => {
     expect(() => validateFlowDefinition(flow)).toThrow("also-missing");
     expect(() => validateFlowDefinition(flow)).toThrow("another-missing");
   });
+
+  it("should throw for invalid skipIf conditions", () => {
+    const flow = {
+      id: "test",
+      start: "first",
+      steps: {
+        first: { next: "second" },
+        second: {
+          next: "third",
+          skipIf: { "ctx.age": { lt: "18" } },
+        },
+        third: {},
+      },
+    };
+
+    // biome-ignore lint/suspicious/noExplicitAny: Intentionally invalid condition
+    expect(() => validateFlowDefinition(flow as any)).toThrow(
+      'Step "second" skipIf["ctx.age"].lt must be a number',
+    );
+  });
+
+  it("should throw for non-object step meta", () => {
+    const flow = {
+      id: "test",
+      start: "first",
+      steps: { first: { meta: ["First"] } },
+    };
+
+    // biome-ignore lint/suspicious/noExplicitAny: Intentionally invalid meta
+    expect(() => validateFlowDefinition(flow as any)).toThrow(
+      'Step "first" meta must be an object',
+    );
+  });
+
+  it("should validate conditional transitions", () => {
+    const flow = {
+      id: "test",
+      start: "first",
+      steps: {
+        first: {
+          next: [
+            { when: { "ctx.age": { gt: "18" } }, to: "adult" },
+            { to: "minor" },
+            { when: { "ctx.age": { lt: 13 } }, to: "child" },
+            "teen",
+          ],
+        },
+        minor: {},
+        child: {},
+        teen: {},
+      },
+    };
+
+    // biome-ignore lint/suspicious/noExplicitAny: Intentionally invalid transitions
+    const validate = () => validateFlowDefinition(flow as any);
+    expect(validate).toThrow(
+      'Step "first" references non-existent step "adult"',
+    );
+    expect(validate).toThrow(
+      'Step "first" next[0].when["ctx.age"].gt must be a number',
+    );
+    expect(validate).toThrow(
+      'Step "first" next[1] has no condition, so the transitions after it are never taken',
+    );
+    expect(validate).toThrow(
+      'Step "first" next[3] must be a conditional transition',
+    );
+  });
+
+  it("should throw for a cycle with no exit", () => {
+    const flow = {
+      id: "test",
+      start: "first",
+      steps: {
+        first: { next: ["review", "done"] },
+        review: { next: "edit" },
+        edit: { next: "review" },
+        done: {},
+      },
+    };
+
+    expect(() => validateFlowDefinition(flow)).toThrow(
+      'Steps "review", "edit" form a cycle with no exit',
+    );
+  });
+
+  it("should throw a FlowDefinitionError with the diagnostics", () => {
+    const flow = {
+      id: "test",
+      start: "first",
+      steps: {
+        first: { next: "missing" },
+        legacy: { next: "first" },
+        done: {},
+      },
+    };
+
+    let error: unknown;
+    try {
+      validateFlowDefinition(flow);
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(FlowDefinitionError);
+    expect((error as FlowDefinitionError).name).toBe("FlowDefinitionError");
+    expect((error as FlowDefinitionError).diagnostics).toEqual(
+      getFlowDiagnostics(flow),
+    );
+    expect((error as FlowDefinitionError).diagnostics).toContainEqual(
+      expect.objectContaining({
+        severity: "error",
+        code: "unknown-step",
+        stepIds: ["first"],
+      }),
+    );
+  });
+
+  it("should return warnings for a valid flow", () => {
+    const flow = {
+      id: "test",
+      start: "first",
+      steps: {
+        first: { next: "done" },
+        legacy: { next: "done" },
+        done: {},
+      },
+    };
+
+    expect(validateFlowDefinition(flow)).toEqual([
+      {
+        severity: "warning",
+        code: "unreachable-step",
+        message: 'Step "legacy" can\'t be reached from start step "first"',
+        stepIds: ["legacy"],
+      },
+    ]);
+  });
+});
+
+describe("getFlowDiagnostics", () => {
+  it("should report errors and warnings without throwing", () => {
+    const flow = {
+      id: "test",
+      start: "first",
+      steps: {
+        first: { next: ["second", "missing"] },
+        second: { next: "first", meta: "Second" },
+        orphan: {},
+      },
+    };
+
+    // biome-ignore lint/suspicious/noExplicitAny: Intentionally invalid meta
+    const diagnostics = getFlowDiagnostics(flow as any);
+
+    expect(
+      diagnostics.map(({ severity, code, stepIds }) => ({
+        severity,
+        code,
+        stepIds,
+      })),
+    ).toEqual([
+      { severity: "error", code: "invalid-step", stepIds: ["second"] },
+      { severity: "error", code: "unknown-step", stepIds: ["first"] },
+      { severity: "warning", code: "unreachable-step", stepIds: ["orphan"] },
+      {
+        severity: "error",
+        code: "dead-end-cycle",
+        stepIds: ["first", "second"],
+      },
+      { severity: "warning", code: "missing-resolver", stepIds: ["first"] },
+    ]);
+  });
 });
 
 describe("RESET action", () => {
@@ -1727,3 +1955,1600 @@ describe("Flow timestamps", () => {
     expect(state.startedAt).toBeGreaterThanOrEqual(originalStartedAt);
   });
 });
+
+describe("GOTO", () => {
+  const definition = {
+    id: "stepper",
+    start: "one",
+    steps: {
+      one: { next: "two" },
+      two: { next: "three" },
+      three: { next: "four" },
+      four: {},
+    },
+  };
+
+  const toStep = (count: number) => {
+    let state = createInitialState(definition, {});
+    for (let i = 0; i < count; i++) {
+      state = flowReducer(state, { type: "NEXT" }, definition);
+    }
+    return state;
+  };
+
+  it("should jump to an earlier step on the path and truncate the path", () => {
+    const state = flowReducer(
+      toStep(2),
+      { type: "GOTO", target: "one" },
+      definition,
+    );
+
+    expect(state.stepId).toBe("one");
+    expect(state.status).toBe("active");
+    expect(state.path).toEqual([
+      { stepId: "one", startedAt: expect.any(Number) },
+    ]);
+  });
+
+  it("should record goto in history", () => {
+    const state = flowReducer(
+      toStep(2),
+      { type: "GOTO", target: "two" },
+      definition,
+    );
+
+    expect(state.history.map((entry) => entry.action)).toEqual([
+      "next",
+      "next",
+      "goto",
+      undefined,
+    ]);
+    expect(state.history[3]?.stepId).toBe("two");
+    expect(state.path.map((entry) => entry.stepId)).toEqual(["one", "two"]);
+  });
+
+  it("should make a completed flow active again", () => {
+    const complete = toStep(3);
+    expect(complete.status).toBe("complete");
+
+    const state = flowReducer(
+      complete,
+      { type: "GOTO", target: "two" },
+      definition,
+    );
+
+    expect(state.status).toBe("active");
+    expect(state.completedAt).toBeUndefined();
+  });
+
+  it("should ignore targets that aren't earlier steps on the path", () => {
+    const consoleWarnSpy = vi
+      .spyOn(console, "warn")
+      .mockImplementation(() => {});
+    const state = toStep(1);
+
+    expect(
+      flowReducer(state, { type: "GOTO", target: "three" }, definition),
+    ).toBe(state);
+    expect(
+      flowReducer(state, { type: "GOTO", target: "two" }, definition),
+    ).toBe(state);
+    expect(consoleWarnSpy).toHaveBeenCalledWith(
+      'Invalid goto target "three" from step "two". Allowed: one',
+    );
+
+    consoleWarnSpy.mockRestore();
+  });
+
+  it("should jump within an active sub-flow or out of it", () => {
+    const wizard = {
+      id: "wizard",
+      config: {
+        id: "wizard",
+        start: "a",
+        steps: { a: { next: "b" }, b: { next: "c" }, c: {} },
+      },
+    };
+    const parent = {
+      id: "parent",
+      start: "intro",
+      steps: { intro: { next: "nested" }, nested: { flow: "wizard" } },
+    };
+    const options = { subFlows: { wizard: { flow: wizard } } };
+
+    let state = flowReducer(
+      createInitialState(parent, {}),
+      { type: "NEXT" },
+      parent,
+      options,
+    );
+    state = flowReducer(state, { type: "NEXT" }, parent, options);
+    state = flowReducer(state, { type: "NEXT" }, parent, options);
+    expect(state.child?.stepId).toBe("c");
+
+    state = flowReducer(state, { type: "GOTO", target: "a" }, parent, options);
+    expect(state.stepId).toBe("nested");
+    expect(state.child?.stepId).toBe("a");
+
+    state = flowReducer(
+      state,
+      { type: "GOTO", target: "intro" },
+      parent,
+      options,
+    );
+    expect(state.stepId).toBe("intro");
+    expect(state.child).toBeUndefined();
+  });
+});
+
+describe("FORWARD", () => {
+  const definition = {
+    id: "wizard",
+    start: "one",
+    steps: {
+      one: { next: "two" },
+      two: { next: ["three", "alt"] },
+      three: { next: "four" },
+      alt: { next: "four" },
+      four: {},
+    },
+  };
+
+  const toFour = (options?: FlowReducerOptions<{ alt?: boolean }>) => {
+    let state = createInitialState<{ alt?: boolean }>(definition, {});
+    state = flowReducer(state, { type: "NEXT" }, definition, options);
+    state = flowReducer(
+      state,
+      { type: "SKIP", target: "three" },
+      definition,
+      options,
+    );
+    return flowReducer(state, { type: "NEXT" }, definition, options);
+  };
+
+  it("should remember steps left with BACK", () => {
+    let state = toFour();
+    state = flowReducer(state, { type: "BACK" }, definition);
+    state = flowReducer(state, { type: "BACK" }, definition);
+
+    expect(state.stepId).toBe("two");
+    expect(state.forwardStack).toEqual([
+      { stepId: "four", action: "next" },
+      { stepId: "three", action: "skip" },
+    ]);
+  });
+
+  it("should re-enter steps left with BACK, replaying how they were left", () => {
+    let state = toFour();
+    state = flowReducer(state, { type: "BACK" }, definition);
+    state = flowReducer(state, { type: "BACK" }, definition);
+
+    state = flowReducer(state, { type: "FORWARD" }, definition);
+    expect(state.stepId).toBe("three");
+    expect(state.history.at(-2)).toEqual(
+      expect.objectContaining({ stepId: "two", action: "skip" }),
+    );
+
+    state = flowReducer(state, { type: "FORWARD" }, definition);
+    expect(state.stepId).toBe("four");
+    expect(state.status).toBe("complete");
+    expect(state.forwardStack).toBeUndefined();
+    expect(state.path.map((entry) => entry.stepId)).toEqual([
+      "one",
+      "two",
+      "three",
+      "four",
+    ]);
+  });
+
+  it("should keep the stack when moving forward along the same steps", () => {
+    let state = toFour();
+    state = flowReducer(state, { type: "BACK" }, definition);
+    state = flowReducer(state, { type: "BACK" }, definition);
+    state = flowReducer(state, { type: "NEXT", target: "three" }, definition);
+
+    expect(state.forwardStack).toEqual([{ stepId: "four", action: "next" }]);
+  });
+
+  it("should clear the stack when taking a different branch", () => {
+    let state = toFour();
+    state = flowReducer(state, { type: "BACK" }, definition);
+    state = flowReducer(state, { type: "BACK" }, definition);
+    state = flowReducer(state, { type: "NEXT", target: "alt" }, definition);
+
+    expect(state.forwardStack).toBeUndefined();
+    expect(flowReducer(state, { type: "FORWARD" }, definition)).toBe(state);
+  });
+
+  it("should clear a stale stack when the context resolves to a different branch", () => {
+    const options = {
+      resolvers: {
+        two: (ctx: { alt?: boolean }) => (ctx.alt ? "alt" : "three"),
+      },
+    };
+    let state = flowReducer(toFour(), { type: "BACK" }, definition, options);
+    state = flowReducer(state, { type: "BACK" }, definition, options);
+    const stale = flowReducer(
+      state,
+      { type: "SET_CONTEXT", update: { alt: true } },
+      definition,
+      options,
+    );
+
+    expect(
+      flowReducer(stale, { type: "FORWARD" }, definition, options),
+    ).toEqual({ ...stale, forwardStack: undefined });
+    expect(
+      flowReducer(state, { type: "FORWARD" }, definition, options).stepId,
+    ).toBe("three");
+  });
+
+  it("should remember steps jumped over with GOTO", () => {
+    let state = flowReducer(
+      toFour(),
+      { type: "GOTO", target: "one" },
+      definition,
+    );
+    expect(state.forwardStack).toEqual([
+      { stepId: "four", action: "next" },
+      { stepId: "three", action: "skip" },
+      { stepId: "two", action: "next" },
+    ]);
+
+    state = flowReducer(state, { type: "FORWARD" }, definition);
+    expect(state.stepId).toBe("two");
+  });
+
+  it("should re-enter a sub-flow step and redo past its finished child", () => {
+    const child = {
+      id: "child",
+      config: {
+        id: "child",
+        start: "a",
+        steps: { a: { next: "b" }, b: {} },
+      },
+    };
+    const parent = {
+      id: "parent",
+      start: "intro",
+      steps: {
+        intro: { next: "nested" },
+        nested: { flow: "child", next: "outro" },
+        outro: {},
+      },
+    };
+    const options = { subFlows: { child: { flow: child } } };
+
+    let state = flowReducer(
+      createInitialState(parent, {}),
+      { type: "NEXT" },
+      parent,
+      options,
+    );
+    state = flowReducer(state, { type: "NEXT" }, parent, options);
+    state = flowReducer(state, { type: "NEXT" }, parent, options);
+    expect(state.stepId).toBe("outro");
+
+    // Back into the finished child, then back within it
+    state = flowReducer(state, { type: "BACK" }, parent, options);
+    state = flowReducer(state, { type: "BACK" }, parent, options);
+    expect(canGoForward(state)).toBe(true);
+
+    state = flowReducer(state, { type: "FORWARD" }, parent, options);
+    expect(state.child?.stepId).toBe("b");
+
+    state = flowReducer(state, { type: "FORWARD" }, parent, options);
+    expect(state.stepId).toBe("outro");
+    expect(canGoForward(state)).toBe(false);
+  });
+});
+
+describe("sub-flows", () => {
+  const addressFlow = {
+    id: "address",
+    config: {
+      id: "address",
+      start: "street",
+      steps: {
+        street: { next: "city" },
+        city: {},
+      },
+    },
+  };
+
+  const checkout = {
+    id: "checkout",
+    start: "cart",
+    steps: {
+      cart: { next: "shipping" },
+      shipping: { flow: "address", next: "payment" },
+      payment: {},
+    },
+  };
+
+  const options = { subFlows: { address: { flow: addressFlow } } };
+
+  const toShipping = () =>
+    flowReducer(
+      createInitialState<FlowContext>(checkout, { items: 2 }),
+      { type: "NEXT" },
+      checkout,
+      options,
+    );
+
+  it("should start the child flow when entering a sub-flow step", () => {
+    const state = toShipping();
+
+    expect(state.stepId).toBe("shipping");
+    expect(state.status).toBe("active");
+    expect(state.child).toEqual({
+      stepId: "street",
+      context: { items: 2 },
+      path: [{ stepId: "street", startedAt: expect.any(Number) }],
+      history: [{ stepId: "street", startedAt: expect.any(Number) }],
+      status: "active",
+      startedAt: expect.any(Number),
+    });
+  });
+
+  it("should start the child flow when the start step is a sub-flow", () => {
+    const definition = { ...checkout, start: "shipping" };
+
+    const state = createInitialState(definition, {}, options);
+
+    expect(state.child?.stepId).toBe("street");
+  });
+
+  it("should route navigation and context updates to the child flow", () => {
+    let state = toShipping();
+
+    state = flowReducer(
+      state,
+      { type: "NEXT", update: { street: "Main St" } },
+      checkout,
+      options,
+    );
+    state = flowReducer(
+      state,
+      { type: "SET_CONTEXT", update: { city: "Springfield" } },
+      checkout,
+      options,
+    );
+
+    expect(state.stepId).toBe("shipping");
+    expect(state.path).toHaveLength(2);
+    expect(state.child?.stepId).toBe("city");
+    expect(state.child?.status).toBe("complete");
+    expect(state.child?.context).toEqual({
+      items: 2,
+      street: "Main St",
+      city: "Springfield",
+    });
+    // Parent context is unchanged until the child is left
+    expect(state.context).toEqual({ items: 2 });
+  });
+
+  it("should advance the parent step when leaving the child's final step", () => {
+    let state = toShipping();
+    state = flowReducer(state, { type: "NEXT" }, checkout, options);
+    state = flowReducer(
+      state,
+      { type: "NEXT", update: { city: "Springfield" } },
+      checkout,
+      options,
+    );
+
+    expect(state.stepId).toBe("payment");
+    expect(state.status).toBe("complete");
+    expect(state.child).toBeUndefined();
+    expect(state.context).toEqual({ items: 2, city: "Springfield" });
+    expect(state.path[1]).toEqual(
+      expect.objectContaining({
+        stepId: "shipping",
+        action: "next",
+        child: expect.objectContaining({
+          stepId: "city",
+          status: "complete",
+          context: { items: 2, city: "Springfield" },
+        }),
+      }),
+    );
+  });
+
+  it("should map context in and out of the child flow", () => {
+    const mapped = {
+      subFlows: {
+        address: {
+          flow: addressFlow,
+          input: (ctx: { shipping?: { city: string } }) => ({
+            city: ctx.shipping?.city ?? "",
+          }),
+          output: (
+            ctx: { shipping?: { city: string } },
+            childCtx: { city?: string },
+          ) => ({ ...ctx, shipping: { city: childCtx.city ?? "" } }),
+        },
+      },
+    };
+
+    let state = flowReducer(
+      createInitialState(checkout, {}),
+      { type: "NEXT" },
+      checkout,
+      mapped,
+    );
+    expect(state.child?.context).toEqual({ city: "" });
+
+    state = flowReducer(state, { type: "NEXT" }, checkout, mapped);
+    state = flowReducer(
+      state,
+      { type: "NEXT", update: { city: "Springfield" } },
+      checkout,
+      mapped,
+    );
+
+    expect(state.context).toEqual({ shipping: { city: "Springfield" } });
+  });
+
+  it("should go back within the child flow", () => {
+    let state = toShipping();
+    state = flowReducer(state, { type: "NEXT" }, checkout, options);
+    state = flowReducer(state, { type: "BACK" }, checkout, options);
+
+    expect(state.stepId).toBe("shipping");
+    expect(state.child?.stepId).toBe("street");
+  });
+
+  it("should return to the parent when going back from the first child step", () => {
+    let state = toShipping();
+    state = flowReducer(state, { type: "BACK" }, checkout, options);
+
+    expect(state.stepId).toBe("cart");
+    expect(state.child).toBeUndefined();
+    expect(state.path).toEqual([
+      { stepId: "cart", startedAt: expect.any(Number) },
+    ]);
+  });
+
+  it("should re-enter a completed child on its final step when going back", () => {
+    const definition = {
+      ...checkout,
+      steps: { ...checkout.steps, payment: { next: "review" }, review: {} },
+    };
+    let state = flowReducer(
+      createInitialState(definition, {}),
+      { type: "NEXT" },
+      definition,
+      options,
+    );
+    state = flowReducer(state, { type: "NEXT" }, definition, options);
+    state = flowReducer(
+      state,
+      { type: "NEXT", update: { city: "Springfield" } },
+      definition,
+      options,
+    );
+    expect(state.stepId).toBe("payment");
+
+    state = flowReducer(state, { type: "BACK" }, definition, options);
+
+    expect(state.stepId).toBe("shipping");
+    expect(state.child?.stepId).toBe("city");
+    expect(state.child?.context).toEqual({ city: "Springfield" });
+
+    state = flowReducer(state, { type: "BACK" }, definition, options);
+    expect(state.child?.stepId).toBe("street");
+  });
+
+  it("should not go back from the first child step at the flow start", () => {
+    const definition = { ...checkout, start: "shipping" };
+    const state = createInitialState(definition, {}, options);
+
+    expect(flowReducer(state, { type: "BACK" }, definition, options)).toBe(
+      state,
+    );
+  });
+
+  it("should complete the flow when leaving a terminal sub-flow step", () => {
+    const definition = {
+      id: "signup",
+      start: "address",
+      steps: { address: { flow: "address" } },
+    };
+    let state = createInitialState(definition, {}, options);
+    expect(state.status).toBe("active");
+
+    state = flowReducer(state, { type: "NEXT" }, definition, options);
+    expect(state.status).toBe("active");
+    state = flowReducer(state, { type: "NEXT" }, definition, options);
+
+    expect(state.stepId).toBe("address");
+    expect(state.status).toBe("complete");
+    expect(state.child).toBeUndefined();
+    expect(state.path[0]?.child?.stepId).toBe("city");
+  });
+
+  it("should throw when the sub-flow wasn't provided", () => {
+    const state = createInitialState(checkout, {});
+
+    expect(() => flowReducer(state, { type: "NEXT" }, checkout)).toThrow(
+      'Step "shipping" runs sub-flow "address" but no sub-flow with that id was provided',
+    );
+  });
+});
+
+describe("parallel steps", () => {
+  const track = (id: string) => ({
+    id,
+    config: {
+      id,
+      start: `${id}Form`,
+      steps: { [`${id}Form`]: { next: `${id}Done` }, [`${id}Done`]: {} },
+    },
+  });
+
+  const onboarding = {
+    id: "onboarding",
+    start: "welcome",
+    steps: {
+      welcome: { next: "setup" },
+      setup: {
+        parallel: { branches: ["profile", "billing", "team"] },
+        next: "finish",
+      },
+      finish: {},
+    },
+  };
+
+  const options = {
+    subFlows: {
+      profile: { flow: track("profile") },
+      billing: { flow: track("billing") },
+      team: { flow: track("team") },
+    },
+  };
+
+  const toSetup = (definition = onboarding) =>
+    flowReducer(
+      createInitialState<FlowContext>(definition, {}),
+      { type: "NEXT" },
+      definition,
+      options,
+    );
+
+  // Finishes the active branch (form -> done -> leave)
+  const finishBranch = (
+    state: ReturnType<typeof toSetup>,
+    update?: FlowContext,
+    definition = onboarding,
+  ) => {
+    const atDone = flowReducer(state, { type: "NEXT" }, definition, options);
+    return flowReducer(atDone, { type: "NEXT", update }, definition, options);
+  };
+
+  it("should start every branch when entering a parallel step", () => {
+    const state = toSetup();
+
+    expect(state.stepId).toBe("setup");
+    expect(state.status).toBe("active");
+    expect(state.parallel?.active).toBe("profile");
+    expect(state.parallel?.done).toEqual([]);
+    expect(
+      Object.fromEntries(
+        Object.entries(state.parallel?.branches ?? {}).map(([id, branch]) => [
+          id,
+          branch.stepId,
+        ]),
+      ),
+    ).toEqual({
+      profile: "profileForm",
+      billing: "billingForm",
+      team: "teamForm",
+    });
+  });
+
+  it("should route navigation to the active branch only", () => {
+    const state = flowReducer(toSetup(), { type: "NEXT" }, onboarding, options);
+
+    expect(state.stepId).toBe("setup");
+    expect(state.parallel?.branches.profile?.stepId).toBe("profileDone");
+    expect(state.parallel?.branches.billing?.stepId).toBe("billingForm");
+  });
+
+  it("should switch branches with SELECT_BRANCH and keep each branch's step", () => {
+    let state = flowReducer(toSetup(), { type: "NEXT" }, onboarding, options);
+    state = flowReducer(
+      state,
+      { type: "SELECT_BRANCH", branch: "team" },
+      onboarding,
+      options,
+    );
+    expect(state.parallel?.active).toBe("team");
+
+    state = flowReducer(
+      state,
+      { type: "SELECT_BRANCH", branch: "profile" },
+      onboarding,
+      options,
+    );
+    expect(state.parallel?.branches.profile?.stepId).toBe("profileDone");
+  });
+
+  it("should move to the next unfinished branch when a branch is finished", () => {
+    let state = flowReducer(
+      toSetup(),
+      { type: "SELECT_BRANCH", branch: "billing" },
+      onboarding,
+      options,
+    );
+    state = finishBranch(state, { plan: "pro" });
+
+    expect(state.stepId).toBe("setup");
+    expect(state.parallel?.done).toEqual(["billing"]);
+    expect(state.parallel?.active).toBe("team");
+    // Branch context is mapped back as soon as the branch is finished
+    expect(state.context).toEqual({ plan: "pro" });
+  });
+
+  it("should join when all branches are finished", () => {
+    let state = toSetup();
+    state = finishBranch(state, { name: "Ada" });
+    state = finishBranch(state, { plan: "pro" });
+    state = finishBranch(state, { invited: 2 });
+
+    expect(state.stepId).toBe("finish");
+    expect(state.status).toBe("complete");
+    expect(state.parallel).toBeUndefined();
+    expect(state.context).toEqual({ name: "Ada", plan: "pro", invited: 2 });
+    expect(state.path[1]?.parallel?.done).toEqual([
+      "profile",
+      "billing",
+      "team",
+    ]);
+  });
+
+  it("should join when the configured subset of branches is finished", () => {
+    const definition = {
+      ...onboarding,
+      steps: {
+        ...onboarding.steps,
+        setup: {
+          parallel: {
+            branches: ["profile", "billing", "team"],
+            join: ["profile", "billing"],
+          },
+          next: "finish",
+        },
+      },
+    };
+
+    let state = toSetup(definition);
+    state = finishBranch(state, undefined, definition);
+    expect(state.stepId).toBe("setup");
+
+    state = finishBranch(state, undefined, definition);
+    expect(state.stepId).toBe("finish");
+  });
+
+  it("should reopen a finished branch when it is selected", () => {
+    let state = finishBranch(toSetup());
+    state = flowReducer(
+      state,
+      { type: "SELECT_BRANCH", branch: "profile" },
+      onboarding,
+      options,
+    );
+
+    expect(state.parallel?.active).toBe("profile");
+    expect(state.parallel?.done).toEqual([]);
+    expect(state.parallel?.branches.profile?.stepId).toBe("profileDone");
+  });
+
+  it("should leave the parallel step when going back from a branch's first step", () => {
+    const state = flowReducer(toSetup(), { type: "BACK" }, onboarding, options);
+
+    expect(state.stepId).toBe("welcome");
+    expect(state.parallel).toBeUndefined();
+  });
+
+  it("should reopen the last finished branch when going back into a joined step", () => {
+    const definition = {
+      ...onboarding,
+      steps: { ...onboarding.steps, finish: { next: "done" }, done: {} },
+    };
+    let state = toSetup(definition);
+    state = finishBranch(state, undefined, definition);
+    state = finishBranch(state, undefined, definition);
+    state = finishBranch(state, undefined, definition);
+    expect(state.stepId).toBe("finish");
+
+    state = flowReducer(state, { type: "BACK" }, definition, options);
+
+    expect(state.stepId).toBe("setup");
+    expect(state.parallel?.active).toBe("team");
+    expect(state.parallel?.done).toEqual(["profile", "billing"]);
+    expect(state.parallel?.branches.team?.stepId).toBe("teamDone");
+  });
+
+  it("should throw when selecting a branch that doesn't exist", () => {
+    expect(() =>
+      flowReducer(
+        toSetup(),
+        { type: "SELECT_BRANCH", branch: "unknown" },
+        onboarding,
+        options,
+      ),
+    ).toThrow(
+      'Step "setup" has no branch "unknown". Available branches: profile, billing, team',
+    );
+  });
+
+  it("should ignore SELECT_BRANCH outside parallel steps", () => {
+    const consoleWarnSpy = vi
+      .spyOn(console, "warn")
+      .mockImplementation(() => {});
+    const state = createInitialState(onboarding, {});
+
+    expect(
+      flowReducer(
+        state,
+        { type: "SELECT_BRANCH", branch: "profile" },
+        onboarding,
+        options,
+      ),
+    ).toBe(state);
+    expect(consoleWarnSpy).toHaveBeenCalledWith(
+      'Cannot select branch "profile": step "welcome" is not a parallel step',
+    );
+
+    consoleWarnSpy.mockRestore();
+  });
+});
+
+describe("skip conditions", () => {
+  type Context = { accountType?: "business" | "personal"; company?: string };
+
+  const definition = {
+    id: "signup",
+    start: "account",
+    steps: {
+      account: { next: "company" },
+      company: { next: "address" },
+      address: { next: "done" },
+      done: {},
+    },
+  };
+
+  const options: FlowReducerOptions<Context> = {
+    skipConditions: {
+      company: (ctx) => ctx.accountType === "personal",
+    },
+  };
+
+  it("should pass over steps whose skip condition matches", () => {
+    let state = createInitialState<Context>(definition, {});
+    state = flowReducer(
+      state,
+      { type: "NEXT", update: { accountType: "personal" } },
+      definition,
+      options,
+    );
+
+    expect(state.stepId).toBe("address");
+    expect(state.path.map((entry) => entry.stepId)).toEqual([
+      "account",
+      "company",
+      "address",
+    ]);
+    expect(state.history.at(-2)).toEqual(
+      expect.objectContaining({ stepId: "company", action: "skip" }),
+    );
+  });
+
+  it("should enter steps whose skip condition doesn't match", () => {
+    let state = createInitialState<Context>(definition, {});
+    state = flowReducer(
+      state,
+      { type: "NEXT", update: { accountType: "business" } },
+      definition,
+      options,
+    );
+
+    expect(state.stepId).toBe("company");
+  });
+
+  it("should evaluate skipIf conditions from the definition", () => {
+    const jsonDefinition = {
+      ...definition,
+      steps: {
+        ...definition.steps,
+        company: {
+          next: "address",
+          skipIf: { "ctx.accountType": { eq: "personal" } },
+        },
+      },
+    } as const;
+
+    let state = createInitialState<Context>(jsonDefinition, {
+      accountType: "personal",
+    });
+    state = flowReducer(state, { type: "NEXT" }, jsonDefinition);
+
+    expect(state.stepId).toBe("address");
+  });
+
+  it("should step over skipped steps when navigating back", () => {
+    let state = createInitialState<Context>(definition, {
+      accountType: "personal",
+    });
+    state = flowReducer(state, { type: "NEXT" }, definition, options);
+    state = flowReducer(state, { type: "BACK" }, definition, options);
+
+    expect(state.stepId).toBe("account");
+    expect(state.path).toHaveLength(1);
+  });
+
+  it("should re-enter a step on BACK once its skip condition no longer matches", () => {
+    let state = createInitialState<Context>(definition, {
+      accountType: "personal",
+    });
+    state = flowReducer(state, { type: "NEXT" }, definition, options);
+    state = flowReducer(
+      state,
+      { type: "SET_CONTEXT", update: { accountType: "business" } },
+      definition,
+      options,
+    );
+    state = flowReducer(state, { type: "BACK" }, definition, options);
+
+    expect(state.stepId).toBe("company");
+  });
+
+  it("should pass over skipped steps again with FORWARD", () => {
+    let state = createInitialState<Context>(definition, {
+      accountType: "personal",
+    });
+    state = flowReducer(state, { type: "NEXT" }, definition, options);
+    state = flowReducer(state, { type: "BACK" }, definition, options);
+
+    expect(state.forwardStack).toEqual([
+      { stepId: "address", action: "skip" },
+      { stepId: "company", action: "next" },
+    ]);
+
+    state = flowReducer(state, { type: "FORWARD" }, definition, options);
+
+    expect(state.stepId).toBe("address");
+    expect(state.forwardStack).toBeUndefined();
+  });
+
+  it("should resolve the next step of skipped branching steps", () => {
+    const branching = {
+      id: "branching",
+      start: "first",
+      steps: {
+        first: { next: "second" },
+        second: { next: ["third", "fourth"] },
+        third: {},
+        fourth: {},
+      },
+    };
+
+    let state = createInitialState(branching, {});
+    state = flowReducer(state, { type: "NEXT" }, branching, {
+      resolvers: { second: () => "fourth" },
+      skipConditions: { second: () => true },
+    });
+
+    expect(state.stepId).toBe("fourth");
+    expect(state.status).toBe("complete");
+  });
+
+  it("should enter skipped branching steps without a resolver", () => {
+    const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const branching = {
+      id: "branching",
+      start: "first",
+      steps: {
+        first: { next: "second" },
+        second: { next: ["third", "fourth"] },
+        third: {},
+        fourth: {},
+      },
+    };
+
+    let state = createInitialState(branching, {});
+    state = flowReducer(state, { type: "NEXT" }, branching, {
+      skipConditions: { second: () => true },
+    });
+
+    expect(state.stepId).toBe("second");
+    expect(warnSpy).toHaveBeenCalledWith(
+      expect.stringContaining('Step "second" matches its skip condition'),
+    );
+    warnSpy.mockRestore();
+  });
+
+  it("should never skip terminal steps", () => {
+    let state = createInitialState(definition, {});
+    state = flowReducer(state, { type: "NEXT", target: "company" }, definition);
+    state = flowReducer(state, { type: "NEXT" }, definition);
+    state = flowReducer(state, { type: "NEXT" }, definition, {
+      skipConditions: { done: () => true },
+    });
+
+    expect(state.stepId).toBe("done");
+    expect(state.status).toBe("complete");
+  });
+
+  it("should throw when skipped steps form a cycle", () => {
+    const cyclic = {
+      id: "cyclic",
+      start: "first",
+      steps: {
+        first: { next: "second" },
+        second: { next: "third" },
+        third: { next: "second" },
+      },
+    };
+
+    const state = createInitialState(cyclic, {});
+
+    expect(() =>
+      flowReducer(state, { type: "NEXT" }, cyclic, {
+        skipConditions: { second: () => true, third: () => true },
+      }),
+    ).toThrow("Skip conditions form a cycle: second -> third -> second");
+  });
+});
+
+describe("looping steps", () => {
+  type Context = { dependents?: { name?: string }[]; done?: boolean };
+
+  const definition = {
+    id: "household",
+    start: "intro",
+    steps: {
+      intro: { next: "dependent" },
+      dependent: { next: "review", loop: { items: "dependents", max: 3 } },
+      review: {},
+    },
+  };
+
+  const toDependent = () =>
+    flowReducer(
+      createInitialState<Context>(definition, {}),
+      { type: "NEXT" },
+      definition,
+    );
+
+  it("should start looping steps at iteration 0 with an empty item", () => {
+    const state = toDependent();
+
+    expect(state.stepId).toBe("dependent");
+    expect(state.path.at(-1)?.iteration).toBe(0);
+    expect(state.context.dependents).toEqual([{}]);
+  });
+
+  it("should start the next iteration with REPEAT, scoping the update to the item", () => {
+    let state = toDependent();
+    state = flowReducer(
+      state,
+      { type: "REPEAT", update: { name: "Ada" } },
+      definition,
+    );
+
+    expect(state.stepId).toBe("dependent");
+    expect(state.path.map((entry) => entry.iteration)).toEqual([
+      undefined,
+      0,
+      1,
+    ]);
+    expect(state.history.at(-2)).toEqual(
+      expect.objectContaining({
+        stepId: "dependent",
+        iteration: 0,
+        action: "repeat",
+      }),
+    );
+    expect(state.context.dependents).toEqual([{ name: "Ada" }, {}]);
+  });
+
+  it("should update the current item with SET_ITEM", () => {
+    let state = toDependent();
+    state = flowReducer(state, { type: "REPEAT" }, definition);
+    state = flowReducer(
+      state,
+      { type: "SET_ITEM", update: { name: "Grace" } },
+      definition,
+    );
+
+    expect(state.context.dependents).toEqual([{}, { name: "Grace" }]);
+  });
+
+  it("should move between iterations with BACK and FORWARD", () => {
+    let state = toDependent();
+    state = flowReducer(
+      state,
+      { type: "REPEAT", update: { name: "Ada" } },
+      definition,
+    );
+    state = flowReducer(
+      state,
+      { type: "SET_ITEM", update: { name: "Grace" } },
+      definition,
+    );
+
+    state = flowReducer(state, { type: "BACK" }, definition);
+    expect(state.stepId).toBe("dependent");
+    expect(state.path.at(-1)?.iteration).toBe(0);
+    // Items are kept so going forward again restores the input
+    expect(state.context.dependents).toEqual([
+      { name: "Ada" },
+      { name: "Grace" },
+    ]);
+    expect(state.forwardStack).toEqual([
+      { stepId: "dependent", action: "repeat" },
+    ]);
+
+    state = flowReducer(state, { type: "FORWARD" }, definition);
+    expect(state.path.at(-1)?.iteration).toBe(1);
+    expect(state.context.dependents).toEqual([
+      { name: "Ada" },
+      { name: "Grace" },
+    ]);
+  });
+
+  it("should drop items of later iterations when leaving the step", () => {
+    let state = toDependent();
+    state = flowReducer(state, { type: "REPEAT" }, definition);
+    state = flowReducer(state, { type: "BACK" }, definition);
+    state = flowReducer(state, { type: "NEXT" }, definition);
+
+    expect(state.stepId).toBe("review");
+    expect(state.context.dependents).toHaveLength(1);
+  });
+
+  it("should re-enter the last iteration when navigating back into the step", () => {
+    let state = toDependent();
+    state = flowReducer(state, { type: "REPEAT" }, definition);
+    state = flowReducer(state, { type: "NEXT" }, definition);
+    state = flowReducer(state, { type: "BACK" }, definition);
+
+    expect(state.stepId).toBe("dependent");
+    expect(state.path.at(-1)?.iteration).toBe(1);
+    expect(state.history.at(-1)?.iteration).toBe(1);
+  });
+
+  it("should jump to an earlier iteration with GOTO", () => {
+    let state = toDependent();
+    state = flowReducer(state, { type: "REPEAT" }, definition);
+    state = flowReducer(state, { type: "NEXT" }, definition);
+    state = flowReducer(
+      state,
+      { type: "GOTO", target: "dependent" },
+      definition,
+    );
+
+    expect(state.stepId).toBe("dependent");
+    expect(state.path.at(-1)?.iteration).toBe(1);
+  });
+
+  it("should not repeat more than loop.max times", () => {
+    const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+    let state = toDependent();
+    state = flowReducer(state, { type: "REPEAT" }, definition);
+    state = flowReducer(state, { type: "REPEAT" }, definition);
+    const atMax = flowReducer(
+      state,
+      { type: "REPEAT", update: { name: "Linus" } },
+      definition,
+    );
+
+    expect(atMax.path).toEqual(state.path);
+    expect(atMax.context.dependents?.[2]).toEqual({ name: "Linus" });
+    expect(warnSpy).toHaveBeenCalledWith(
+      'Step "dependent" can repeat at most 3 times',
+    );
+    warnSpy.mockRestore();
+  });
+
+  it("should not leave the step before loop.min iterations", () => {
+    const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const withMin = {
+      ...definition,
+      steps: {
+        ...definition.steps,
+        dependent: { next: "review", loop: { items: "dependents", min: 2 } },
+      },
+    };
+
+    let state = flowReducer(
+      createInitialState<Context>(withMin, {}),
+      { type: "NEXT" },
+      withMin,
+    );
+    state = flowReducer(
+      state,
+      { type: "NEXT", update: { done: true } },
+      withMin,
+    );
+
+    expect(state.stepId).toBe("dependent");
+    expect(state.context.done).toBe(true);
+    expect(warnSpy).toHaveBeenCalledWith(
+      expect.stringContaining('Step "dependent" must repeat at least 2 times'),
+    );
+
+    state = flowReducer(state, { type: "REPEAT" }, withMin);
+    state = flowReducer(state, { type: "NEXT" }, withMin);
+    expect(state.stepId).toBe("review");
+    warnSpy.mockRestore();
+  });
+
+  it("should warn when repeating a step that isn't looping", () => {
+    const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const state = createInitialState<Context>(definition, {});
+
+    expect(flowReducer(state, { type: "REPEAT" }, definition)).toBe(state);
+    expect(warnSpy).toHaveBeenCalledWith(
+      `Cannot repeat step "intro": it isn't a looping step`,
+    );
+    warnSpy.mockRestore();
+  });
+
+  it("should start at iteration 0 when the start step loops", () => {
+    const state = createInitialState<Context>(
+      { ...definition, start: "dependent" },
+      { dependents: [{ name: "Ada" }] },
+    );
+
+    expect(state.path).toEqual([
+      { stepId: "dependent", startedAt: expect.any(Number), iteration: 0 },
+    ]);
+    expect(state.context.dependents).toEqual([{ name: "Ada" }]);
+  });
+
+  it("should validate loop configuration", () => {
+    expect(() =>
+      validateFlowDefinition({
+        id: "test",
+        start: "first",
+        steps: {
+          first: { loop: { items: "", min: 3, max: 2 } },
+        },
+      }),
+    ).toThrow(
+      [
+        'Looping step "first" must have a next step',
+        'Looping step "first" must name a context array in loop.items',
+        'Looping step "first" has loop.min (3) greater than loop.max (2)',
+      ].join("\n  - "),
+    );
+  });
+});
+
+describe("UNDO and REDO", () => {
+  const definition = {
+    id: "form",
+    start: "details",
+    steps: {
+      details: { next: "review" },
+      review: {},
+    },
+  };
+
+  type Context = { name: string };
+
+  const edit = (
+    names: string[],
+    options: FlowReducerOptions<Context> = { undo: {} },
+  ) =>
+    names.reduce(
+      (state, name) =>
+        flowReducer(
+          state,
+          { type: "SET_CONTEXT", update: { name } },
+          definition,
+          options,
+        ),
+      createInitialState<Context>(definition, { name: "" }),
+    );
+
+  it("should revert and re-apply context changes", () => {
+    const options = { undo: {} };
+    let state = edit(["A", "Ad", "Ada"], options);
+
+    state = flowReducer(state, { type: "UNDO" }, definition, options);
+    state = flowReducer(state, { type: "UNDO" }, definition, options);
+    expect(state.context).toEqual({ name: "A" });
+    expect(canUndo(state)).toBe(true);
+    expect(canRedo(state)).toBe(true);
+
+    state = flowReducer(state, { type: "REDO" }, definition, options);
+    expect(state.context).toEqual({ name: "Ad" });
+    expect(state.undoStack).toEqual({
+      past: [{ name: "" }, { name: "A" }],
+      future: [{ name: "Ada" }],
+    });
+  });
+
+  it("should clear redo after a new change", () => {
+    const options = { undo: {} };
+    let state = edit(["A", "B"], options);
+    state = flowReducer(state, { type: "UNDO" }, definition, options);
+    state = flowReducer(
+      state,
+      { type: "SET_CONTEXT", update: { name: "C" } },
+      definition,
+      options,
+    );
+
+    expect(canRedo(state)).toBe(false);
+    expect(state.undoStack?.past).toEqual([{ name: "" }, { name: "A" }]);
+  });
+
+  it("should keep at most limit snapshots", () => {
+    const state = edit(["A", "B", "C"], { undo: { limit: 2 } });
+
+    expect(state.undoStack?.past).toEqual([{ name: "A" }, { name: "B" }]);
+  });
+
+  it("should do nothing without snapshots", () => {
+    const state = createInitialState<Context>(definition, { name: "" });
+
+    expect(flowReducer(state, { type: "UNDO" }, definition)).toBe(state);
+    expect(flowReducer(state, { type: "REDO" }, definition)).toBe(state);
+    expect(canUndo(state)).toBe(false);
+  });
+
+  it("should not track changes without the undo option", () => {
+    const state = edit(["A"], {});
+
+    expect(state.undoStack).toBeUndefined();
+  });
+
+  it("should clear the stack when the step changes in step scope", () => {
+    const options = { undo: { scope: "step" as const } };
+    let state = edit(["A"], options);
+    state = flowReducer(
+      state,
+      { type: "NEXT", update: { name: "Ada" } },
+      definition,
+      options,
+    );
+
+    expect(state.undoStack).toBeUndefined();
+
+    // Going back to the step starts a new stack too
+    state = flowReducer(
+      state,
+      { type: "SET_CONTEXT", update: { name: "B" } },
+      definition,
+      options,
+    );
+    state = flowReducer(state, { type: "BACK" }, definition, options);
+    expect(canUndo(state)).toBe(false);
+  });
+
+  it("should keep the stack across steps in flow scope", () => {
+    const options = { undo: { scope: "flow" as const } };
+    let state = edit(["A"], options);
+    state = flowReducer(
+      state,
+      { type: "NEXT", update: { name: "Ada" } },
+      definition,
+      options,
+    );
+    state = flowReducer(state, { type: "UNDO" }, definition, options);
+
+    // Undo reverts the context but stays on the step
+    expect(state.stepId).toBe("review");
+    expect(state.context).toEqual({ name: "A" });
+
+    state = flowReducer(state, { type: "BACK" }, definition, options);
+    state = flowReducer(state, { type: "UNDO" }, definition, options);
+    expect(state.stepId).toBe("details");
+    expect(state.context).toEqual({ name: "" });
+  });
+
+  it("should undo changes in the active sub-flow", () => {
+    const checkout = {
+      id: "checkout",
+      start: "shipping",
+      steps: { shipping: { flow: "address", next: "payment" }, payment: {} },
+    };
+    const options: FlowReducerOptions = {
+      undo: {},
+      subFlows: {
+        address: {
+          flow: {
+            id: "address",
+            config: { id: "address", start: "street", steps: { street: {} } },
+          },
+        },
+      },
+    };
+    let state = createInitialState<FlowContext>(checkout, {}, options);
+    state = flowReducer(
+      state,
+      { type: "SET_CONTEXT", update: { street: "Main St" } },
+      checkout,
+      options,
+    );
+
+    expect(canUndo(state)).toBe(true);
+    expect(state.undoStack).toBeUndefined();
+
+    state = flowReducer(state, { type: "UNDO" }, checkout, options);
+    expect(state.child?.context).toEqual({});
+  });
+});
+
+describe("step validators", () => {
+  const definition = {
+    id: "signup",
+    start: "profile",
+    steps: {
+      profile: { next: "billing" },
+      billing: { next: "done" },
+      done: {},
+    },
+  };
+
+  type Context = { name?: string; email?: string };
+
+  const options: FlowReducerOptions<Context> = {
+    validators: {
+      profile: (ctx) => {
+        const errors: Record<string, string> = {};
+        if (!ctx.name) errors.name = "Name is required";
+        if (!ctx.email) errors.email = "Email is required";
+        return errors;
+      },
+    },
+  };
+
+  it("should keep the step and set errors when the validator fails", () => {
+    const state = flowReducer(
+      createInitialState<Context>(definition, {}),
+      { type: "NEXT", update: { name: "Ada" } },
+      definition,
+      options,
+    );
+
+    expect(state.stepId).toBe("profile");
+    expect(state.context).toEqual({ name: "Ada" });
+    expect(state.errors).toEqual({ email: "Email is required" });
+    expect(state.history).toHaveLength(1);
+  });
+
+  it("should gate SKIP like NEXT", () => {
+    const state = flowReducer(
+      createInitialState<Context>(definition, {}),
+      { type: "SKIP" },
+      definition,
+      options,
+    );
+
+    expect(state.stepId).toBe("profile");
+    expect(Object.keys(state.errors ?? {})).toEqual(["name", "email"]);
+  });
+
+  it("should navigate and clear errors once the step is valid", () => {
+    let state = flowReducer(
+      createInitialState<Context>(definition, {}),
+      { type: "NEXT" },
+      definition,
+      options,
+    );
+    state = flowReducer(
+      state,
+      { type: "NEXT", update: { name: "Ada", email: "ada@example.com" } },
+      definition,
+      options,
+    );
+
+    expect(state.stepId).toBe("billing");
+    expect(state.errors).toBeUndefined();
+  });
+
+  it("should re-validate context updates while errors are shown", () => {
+    let state = flowReducer(
+      createInitialState<Context>(definition, {}),
+      { type: "NEXT" },
+      definition,
+      options,
+    );
+    state = flowReducer(
+      state,
+      { type: "SET_CONTEXT", update: { name: "Ada" } },
+      definition,
+      options,
+    );
+    expect(state.errors).toEqual({ email: "Email is required" });
+
+    state = flowReducer(
+      state,
+      { type: "SET_CONTEXT", update: { email: "ada@example.com" } },
+      definition,
+      options,
+    );
+    expect(state.errors).toBeUndefined();
+  });
+
+  it("should not validate context updates before next()", () => {
+    const state = flowReducer(
+      createInitialState<Context>(definition, {}),
+      { type: "SET_CONTEXT", update: { name: "Ada" } },
+      definition,
+      options,
+    );
+
+    expect(state.errors).toBeUndefined();
+  });
+
+  it("should clear errors when leaving the step another way", () => {
+    const validators = { billing: () => ({ card: "Card is required" }) };
+    let state = flowReducer(
+      createInitialState<Context>(definition, {}),
+      { type: "NEXT" },
+      definition,
+      { validators },
+    );
+    state = flowReducer(state, { type: "NEXT" }, definition, { validators });
+    expect(state.errors).toEqual({ card: "Card is required" });
+
+    state = flowReducer(state, { type: "BACK" }, definition, { validators });
+    expect(state.stepId).toBe("profile");
+    expect(state.errors).toBeUndefined();
+  });
+
+  it("should validate the final step before completing", () => {
+    const validators = { profile: () => ({ terms: "Accept the terms" }) };
+    const single = { id: "terms", start: "profile", steps: { profile: {} } };
+    const state = flowReducer(
+      createInitialState<Context>(single, {}),
+      { type: "NEXT" },
+      single,
+      { validators },
+    );
+
+    expect(state.status).toBe("active");
+    expect(state.errors).toEqual({ terms: "Accept the terms" });
+  });
+
+  it("should throw if a validator returns a Promise", () => {
+    const validators = {
+      profile: () => Promise.resolve({}) as unknown as Record<string, string>,
+    };
+
+    expect(() =>
+      flowReducer(
+        createInitialState<Context>(definition, {}),
+        { type: "NEXT" },
+        definition,
+        { validators },
+      ),
+    ).toThrow('Validator for step "profile" returned a Promise');
+  });
+
+  it("should validate steps of a sub-flow with its own validators", () => {
+    const addressFlow = {
+      id: "address",
+      config: { id: "address", start: "street", steps: { street: {} } },
+      runtimeConfig: {
+        validators: {
+          street: (ctx: FlowContext) =>
+            ctx.street ? null : { street: "Street is required" },
+        },
+      },
+    };
+    const checkout = {
+      id: "checkout",
+      start: "shipping",
+      steps: { shipping: { flow: "address", next: "payment" }, payment: {} },
+    };
+    const subFlowOptions = { subFlows: { address: { flow: addressFlow } } };
+
+    let state = flowReducer(
+      createInitialState<FlowContext>(checkout, {}, subFlowOptions),
+      { type: "NEXT" },
+      checkout,
+      subFlowOptions,
+    );
+    expect(state.stepId).toBe("shipping");
+    expect(getStepErrors(state)).toEqual({ street: "Street is required" });
+
+    state = flowReducer(
+      state,
+      { type: "NEXT", update: { street: "Main St" } },
+      checkout,
+      subFlowOptions,
+    );
+    expect(state.child?.status).toBe("complete");
+    expect(getStepErrors(state)).toBeUndefined();
+  });
+});
+
+describe("conditional transitions", () => {
+  type Context = { accountType?: "business" | "personal"; company?: string };
+
+  const definition = {
+    id: "signup",
+    start: "account",
+    steps: {
+      account: {
+        next: [
+          { when: { "ctx.accountType": { eq: "business" } }, to: "business" },
+          { when: { "ctx.accountType": { exists: true } }, to: "personal" },
+        ],
+      },
+      business: { next: "done" },
+      personal: { next: "done" },
+      done: {},
+    },
+  } as const;
+
+  const next = (
+    context: Context,
+    action: FlowAction<Context> = { type: "NEXT" },
+  ) => flowReducer(createInitialState(definition, context), action, definition);
+
+  it("should take the first transition whose condition matches", () => {
+    expect(next({ accountType: "business" }).stepId).toBe("business");
+    expect(next({ accountType: "personal" }).stepId).toBe("personal");
+  });
+
+  it("should evaluate conditions with the context after the update", () => {
+    const state = next(
+      {},
+      { type: "NEXT", update: { accountType: "business" } },
+    );
+
+    expect(state.stepId).toBe("business");
+    expect(state.history[0]?.action).toBe("next");
+  });
+
+  it("should stay on the step when no transition matches", () => {
+    const state = next({});
+
+    expect(state.stepId).toBe("account");
+    expect(state.history).toHaveLength(1);
+  });
+
+  it("should accept an explicit target from the transitions", () => {
+    expect(
+      next({ accountType: "business" }, { type: "NEXT", target: "personal" })
+        .stepId,
+    ).toBe("personal");
+  });
+
+  it("should continue past skipped steps with conditional transitions", () => {
+    const skipping = {
+      ...definition,
+      start: "welcome",
+      steps: {
+        ...definition.steps,
+        welcome: { next: "account" },
+        account: {
+          ...definition.steps.account,
+          skipIf: { "ctx.accountType": { exists: true } },
+        },
+      },
+    };
+
+    const state = flowReducer(
+      createInitialState<Context>(skipping, { accountType: "business" }),
+      { type: "NEXT" },
+      skipping,
+    );
+
+    expect(state.stepId).toBe("business");
+    expect(state.path.map((entry) => entry.stepId)).toEqual([
+      "welcome",
+      "account",
+      "business",
+    ]);
+  });
+});
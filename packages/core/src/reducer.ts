@@ -1,45 +1,231 @@
-import type { RuntimeResolverMap } from "./runtime";
+import {
+  evaluateCondition,
+  isConditionalTransition,
+  matchTransition,
+  validateCondition,
+} from "./conditions";
+import {
+  analyzeFlowGraph,
+  type FlowDiagnostic,
+  type FlowDiagnosticCode,
+} from "./graph";
+import type {
+  RuntimeGuardMap,
+  RuntimeResolverMap,
+  RuntimeSkipConditionMap,
+  RuntimeSubFlowMap,
+  RuntimeValidatorMap,
+  SubFlowConfig,
+} from "./runtime";
 import type {
   ContextUpdate,
   FlowAction,
   FlowContext,
   FlowDefinition,
   FlowState,
+  ForwardEntry,
+  LoopDefinition,
+  NavigationAction,
+  ParallelState,
+  PathEntry,
+  StepErrors,
+  StepTransition,
 } from "./types";
+import { isPromiseLike } from "./utils";
 
 /**
- * Validates a flow definition to ensure all step references exist
- * Throws errors for invalid references to fail fast during development
- * @param definition - Flow definition to validate
- * @throws Error if start step or any next references don't exist
+ * Checks a flow definition without throwing
+ * Reports invalid references and configuration (start step, next references,
+ * parallel branches, loops, meta, conditions) as errors, followed by the
+ * graph analysis from analyzeFlowGraph().
+ *
+ * @param definition - Flow definition to check
+ * @param options - Resolvers the flow runs with (branching steps without one are reported)
+ * @returns Errors and warnings found
  */
-export function validateFlowDefinition(definition: FlowDefinition): void {
+export function getFlowDiagnostics(
+  definition: FlowDefinition,
+  options?: Pick<FlowReducerOptions, "resolvers">,
+): FlowDiagnostic[] {
   const stepNames = new Set(Object.keys(definition.steps));
-  const errors: string[] = [];
+  const diagnostics: FlowDiagnostic[] = [];
+  const error = (
+    code: FlowDiagnosticCode,
+    message: string,
+    stepId?: string,
+  ) => {
+    diagnostics.push({
+      severity: "error",
+      code,
+      message,
+      ...(stepId !== undefined && { stepIds: [stepId] }),
+    });
+  };
 
   // Validate start step exists
   if (!stepNames.has(definition.start)) {
-    errors.push(
+    error(
+      "unknown-step",
       `Start step "${definition.start}" does not exist in steps. ` +
         `Available steps: ${Array.from(stepNames).join(", ")}`,
     );
   }
 
+  // Validate parallel step branches
+  for (const [stepId, step] of Object.entries(definition.steps)) {
+    if (!step.parallel) continue;
+
+    if (step.flow) {
+      error(
+        "invalid-step",
+        `Step "${stepId}" cannot be both a sub-flow step and a parallel step`,
+        stepId,
+      );
+    }
+    if (step.parallel.branches.length === 0) {
+      error(
+        "invalid-step",
+        `Parallel step "${stepId}" must have at least one branch`,
+        stepId,
+      );
+    }
+    for (const branch of step.parallel.join ?? []) {
+      if (!step.parallel.branches.includes(branch)) {
+        error(
+          "invalid-step",
+          `Parallel step "${stepId}" joins on non-existent branch "${branch}". ` +
+            `Available branches: ${step.parallel.branches.join(", ")}`,
+          stepId,
+        );
+      }
+    }
+  }
+
+  // Validate looping steps
+  for (const [stepId, step] of Object.entries(definition.steps)) {
+    if (!step.loop) continue;
+
+    const { items, min, max } = step.loop;
+    if (step.flow || step.parallel) {
+      error(
+        "invalid-step",
+        `Step "${stepId}" cannot be both a looping step and a sub-flow or parallel step`,
+        stepId,
+      );
+    }
+    if (!step.next) {
+      error(
+        "invalid-step",
+        `Looping step "${stepId}" must have a next step`,
+        stepId,
+      );
+    }
+    if (!items) {
+      error(
+        "invalid-step",
+        `Looping step "${stepId}" must name a context array in loop.items`,
+        stepId,
+      );
+    }
+    if (min !== undefined && !(Number.isInteger(min) && min >= 0)) {
+      error(
+        "invalid-step",
+        `Looping step "${stepId}" has invalid loop.min ${min}. Use a non-negative integer`,
+        stepId,
+      );
+    }
+    if (max !== undefined && !(Number.isInteger(max) && max >= 1)) {
+      error(
+        "invalid-step",
+        `Looping step "${stepId}" has invalid loop.max ${max}. Use a positive integer`,
+        stepId,
+      );
+    }
+    if (min !== undefined && max !== undefined && min > max) {
+      error(
+        "invalid-step",
+        `Looping step "${stepId}" has loop.min (${min}) greater than loop.max (${max})`,
+        stepId,
+      );
+    }
+  }
+
+  // Validate step metadata (kept as-is, so it must stay JSON)
+  for (const [stepId, step] of Object.entries(definition.steps)) {
+    if (step.meta === undefined) continue;
+    if (
+      typeof step.meta !== "object" ||
+      step.meta === null ||
+      Array.isArray(step.meta)
+    ) {
+      error("invalid-step", `Step "${stepId}" meta must be an object`, stepId);
+    }
+  }
+
+  // Validate declarative skip conditions
+  for (const [stepId, step] of Object.entries(definition.steps)) {
+    if (step.skipIf === undefined) continue;
+    for (const message of validateCondition(
+      step.skipIf,
+      `Step "${stepId}" skipIf`,
+    )) {
+      error("invalid-condition", message, stepId);
+    }
+  }
+
   // Validate each step's next references
   for (const [stepId, step] of Object.entries(definition.steps)) {
     if (!step.next) continue;
 
     const validateStepRef = (ref: string, source: string) => {
       if (!stepNames.has(ref)) {
-        errors.push(
+        error(
+          "unknown-step",
           `Step "${stepId}" references non-existent step "${ref}" in ${source}. ` +
             `Available steps: ${Array.from(stepNames).join(", ")}`,
+          stepId,
         );
       }
     };
 
     if (typeof step.next === "string") {
       validateStepRef(step.next, "next");
+    } else if (isConditionalTransition(step.next)) {
+      step.next.forEach((transition, i, transitions) => {
+        const location = `Step "${stepId}" next[${i}]`;
+        if (typeof transition !== "object" || transition === null) {
+          error(
+            "invalid-transition",
+            `${location} must be a conditional transition ({ when?, to }). ` +
+              "Don't mix step ids and conditional transitions",
+            stepId,
+          );
+          return;
+        }
+        if (typeof transition.to !== "string") {
+          error(
+            "invalid-transition",
+            `${location} must have a "to" step`,
+            stepId,
+          );
+        } else {
+          validateStepRef(transition.to, `next[${i}].to`);
+        }
+        if (transition.when !== undefined) {
+          for (const message of validateCondition(
+            transition.when,
+            `${location}.when`,
+          )) {
+            error("invalid-condition", message, stepId);
+          }
+        } else if (i < transitions.length - 1) {
+          error(
+            "invalid-transition",
+            `${location} has no condition, so the transitions after it are never taken`,
+            stepId,
+          );
+        }
+      });
     } else if (Array.isArray(step.next)) {
       for (const ref of step.next) {
         validateStepRef(ref, "next array");
@@ -48,19 +234,65 @@ export function validateFlowDefinition(definition: FlowDefinition): void {
     // Note: Can't validate function returns statically, only at runtime
   }
 
-  if (errors.length > 0) {
-    throw new Error(
-      `[FlowDefinition] Invalid flow definition:\n${errors.map((e) => `  - ${e}`).join("\n")}`,
+  return [...diagnostics, ...analyzeFlowGraph(definition, options)];
+}
+
+/**
+ * Error thrown for an unusable flow definition (by validateFlowDefinition()
+ * and defineFlow())
+ * The message lists the errors, `diagnostics` has them as structured data.
+ */
+export class FlowDefinitionError extends Error {
+  /** Every diagnostic of the definition - the errors and any warnings */
+  readonly diagnostics: FlowDiagnostic[];
+
+  constructor(diagnostics: FlowDiagnostic[]) {
+    const errors = diagnostics.filter(
+      (diagnostic) => diagnostic.severity === "error",
     );
+    super(
+      `[FlowDefinition] Invalid flow definition:\n${errors.map((e) => `  - ${e.message}`).join("\n")}`,
+    );
+    this.name = "FlowDefinitionError";
+    this.diagnostics = diagnostics;
   }
 }
 
+/**
+ * Validates a flow definition to ensure all step references exist and the
+ * flow can complete
+ * Throws errors to fail fast during development, warnings are returned.
+ * @param definition - Flow definition to validate
+ * @param options - Resolvers the flow runs with (branching steps without one are reported)
+ * @returns Warnings (unreachable steps, branching steps without a resolver)
+ * @throws FlowDefinitionError if start step or any next references (or
+ *   parallel branches, loops or skip conditions) are invalid, or the flow
+ *   can't complete
+ */
+export function validateFlowDefinition(
+  definition: FlowDefinition,
+  options?: Pick<FlowReducerOptions, "resolvers">,
+): FlowDiagnostic[] {
+  const diagnostics = getFlowDiagnostics(definition, options);
+  if (diagnostics.some((diagnostic) => diagnostic.severity === "error")) {
+    throw new FlowDefinitionError(diagnostics);
+  }
+  return diagnostics;
+}
+
+/**
+ * Current time for new entries (options.now lets replay() reproduce timestamps)
+ */
+function getNow(options?: Pick<FlowReducerOptions, "now">): number {
+  return options?.now?.() ?? Date.now();
+}
+
 /**
  * Applies a context update to the current context
  * - Object updates: shallow merge with current context
  * - Function updates: return value becomes the new context
  */
-function applyContextUpdate<TContext extends FlowContext>(
+export function applyContextUpdate<TContext extends FlowContext>(
   current: TContext,
   update: ContextUpdate<TContext>,
 ): TContext {
@@ -72,57 +304,1024 @@ function applyContextUpdate<TContext extends FlowContext>(
   return { ...current, ...update };
 }
 
+/**
+ * Steps a step's next transition can lead to
+ * Conditional transitions list their `to` steps in order (without duplicates).
+ * @returns The step ids, or undefined for a terminal step
+ */
+export function getNextStepIds(
+  next: StepTransition | undefined,
+): readonly string[] | undefined {
+  if (next === undefined) return undefined;
+  if (typeof next === "string") return [next];
+  if (isConditionalTransition(next)) {
+    return [...new Set(next.map((transition) => transition.to))];
+  }
+  return next;
+}
+
+/**
+ * Validates the value returned by a resolver
+ * @param resolved - Value returned by the resolver
+ * @param next - The step's next array
+ * @param stepId - Step the resolver belongs to
+ * @returns The resolved step, or undefined to stay on the current step
+ * @throws Error if the value is a Promise or not in the next array
+ */
+export function validateResolvedStep(
+  resolved: unknown,
+  next: readonly string[],
+  stepId: string,
+): string | undefined {
+  if (isPromiseLike(resolved)) {
+    throw new Error(
+      `resolver() for step "${stepId}" returned a Promise. Async resolvers must be resolved ` +
+        "with resolveNavigationTarget() before dispatching - flowReducer is synchronous",
+    );
+  }
+
+  if (resolved && !next.includes(resolved as string)) {
+    throw new Error(
+      `resolver() returned "${resolved}" which is not in next array: [${next.join(", ")}] ` +
+        `for step "${stepId}"`,
+    );
+  }
+
+  return (resolved as string | undefined) || undefined;
+}
+
+/**
+ * Runtime configuration used by the reducer
+ */
+export type FlowReducerOptions<TContext extends FlowContext = FlowContext> = {
+  /** Resolvers for context-driven navigation */
+  resolvers?: RuntimeResolverMap<TContext>;
+  /** Child flows for steps that reference a sub-flow (step.flow) */
+  subFlows?: RuntimeSubFlowMap<TContext>;
+  /** Predicates for steps that are skipped automatically */
+  skipConditions?: RuntimeSkipConditionMap<TContext>;
+  /** Field checks a step must pass before NEXT or SKIP leaves it */
+  validators?: RuntimeValidatorMap<TContext>;
+  /** Step guards (run by guardNavigation() before an action is dispatched, not by the reducer) */
+  guards?: RuntimeGuardMap<TContext>;
+  /** Clock for entry timestamps (defaults to Date.now, replay() passes recorded times) */
+  now?: () => number;
+  /** Track context snapshots for UNDO/REDO (not tracked when omitted) */
+  undo?: UndoOptions;
+};
+
+/**
+ * Undo/redo configuration
+ */
+export type UndoOptions = {
+  /**
+   * What a snapshot stack belongs to
+   * - "step": cleared whenever the step changes (including back() and new
+   *   loop iterations)
+   * - "flow": kept across steps - undo reverts the context but never navigates
+   * @default "step"
+   */
+  scope?: "step" | "flow";
+  /**
+   * Maximum number of snapshots undo can go back (oldest are dropped)
+   * @default 50
+   */
+  limit?: number;
+};
+
+/**
+ * Looks up the child flow run by a sub-flow step (or one of its parallel branches)
+ * @throws Error if the child flow wasn't provided in subFlows
+ */
+export function getSubFlow<TContext extends FlowContext>(
+  definition: FlowDefinition,
+  stepId: string,
+  options?: FlowReducerOptions<TContext>,
+  flowId: string | undefined = definition.steps[stepId]?.flow,
+) {
+  const subFlow = flowId ? options?.subFlows?.[flowId] : undefined;
+  if (!flowId || !subFlow) {
+    throw new Error(
+      `Step "${stepId}" runs sub-flow "${flowId}" but no sub-flow with that id was provided. ` +
+        `Add it to subFlows in the runtime config`,
+    );
+  }
+
+  return {
+    config: subFlow,
+    definition: subFlow.flow.config,
+    options: {
+      resolvers: subFlow.flow.runtimeConfig?.resolvers as
+        | RuntimeResolverMap
+        | undefined,
+      subFlows: subFlow.flow.runtimeConfig?.subFlows as
+        | RuntimeSubFlowMap
+        | undefined,
+      skipConditions: subFlow.flow.runtimeConfig?.skipConditions as
+        | RuntimeSkipConditionMap
+        | undefined,
+      validators: subFlow.flow.runtimeConfig?.validators as
+        | RuntimeValidatorMap
+        | undefined,
+      guards: subFlow.flow.runtimeConfig?.guards as RuntimeGuardMap | undefined,
+      now: options?.now,
+      undo: options?.undo,
+    },
+  };
+}
+
+/**
+ * Returns the nested flow that receives actions for the current step
+ * (the sub-flow child or the active parallel branch), with its definition
+ */
+export function getActiveSubFlow<TContext extends FlowContext>(
+  state: FlowState<TContext>,
+  definition: FlowDefinition,
+  options?: FlowReducerOptions<TContext>,
+) {
+  const parallel = state.parallel;
+  const nested = state.child ?? parallel?.branches[parallel.active];
+  if (!nested) return undefined;
+
+  return {
+    state: nested,
+    ...getSubFlow(
+      definition,
+      state.stepId,
+      options,
+      state.child ? undefined : parallel?.active,
+    ),
+  };
+}
+
+/**
+ * Whether BACK would change the state
+ * True if this flow or its active sub-flow (or parallel branch) has a previous step
+ */
+export function canNavigateBack(state: FlowState): boolean {
+  const nested = state.child ?? state.parallel?.branches[state.parallel.active];
+  return state.path.length > 1 || (!!nested && canNavigateBack(nested));
+}
+
+/**
+ * Whether GOTO can jump to the step
+ * True if the step is an earlier entry on the path of this flow or of its
+ * active sub-flow (or parallel branch)
+ */
+export function canGoTo(state: FlowState, stepId: string): boolean {
+  const nested = state.child ?? state.parallel?.branches[state.parallel.active];
+  return (
+    state.path.slice(0, -1).some((entry) => entry.stepId === stepId) ||
+    (!!nested && canGoTo(nested, stepId))
+  );
+}
+
+/**
+ * Whether FORWARD would re-enter a step left with BACK
+ * A flow's own forward stack can only be used once its active sub-flow (or
+ * parallel branch) is on its final step.
+ */
+export function canGoForward(state: FlowState): boolean {
+  const nested = state.child ?? state.parallel?.branches[state.parallel.active];
+  const hasForwardStack = (state.forwardStack?.length ?? 0) > 0;
+  if (!nested) return hasForwardStack;
+  return (
+    canGoForward(nested) || (nested.status === "complete" && hasForwardStack)
+  );
+}
+
+/**
+ * Whether UNDO would restore an earlier context
+ * Undo applies to the innermost active flow (sub-flow or parallel branch).
+ */
+export function canUndo(state: FlowState): boolean {
+  const nested = state.child ?? state.parallel?.branches[state.parallel.active];
+  return nested ? canUndo(nested) : (state.undoStack?.past.length ?? 0) > 0;
+}
+
+/**
+ * Whether REDO would restore a context reverted by UNDO
+ */
+export function canRedo(state: FlowState): boolean {
+  const nested = state.child ?? state.parallel?.branches[state.parallel.active];
+  return nested ? canRedo(nested) : (state.undoStack?.future.length ?? 0) > 0;
+}
+
+/**
+ * Field errors of the innermost active flow's current step
+ * Errors are set when NEXT or SKIP was rejected by the step's validator.
+ */
+export function getStepErrors(state: FlowState): StepErrors | undefined {
+  const nested = state.child ?? state.parallel?.branches[state.parallel.active];
+  return nested ? getStepErrors(nested) : state.errors;
+}
+
+/**
+ * Runs the step's validator (runtime config) for the context
+ * @returns Field errors, or undefined when the step is valid or has no validator
+ * @throws Error if the validator returns a Promise (validation is synchronous)
+ */
+export function validateStep<TContext extends FlowContext>(
+  stepId: string,
+  context: TContext,
+  options?: FlowReducerOptions<TContext>,
+): StepErrors | undefined {
+  const errors = options?.validators?.[stepId]?.(context);
+  if (isPromiseLike(errors)) {
+    throw new Error(
+      `Validator for step "${stepId}" returned a Promise. ` +
+        "Validators must be synchronous - use a canLeave guard for async checks",
+    );
+  }
+  return errors && Object.keys(errors).length > 0 ? errors : undefined;
+}
+
+/**
+ * Sets (or clears) the current step's errors from its validator
+ */
+function withStepErrors<TContext extends FlowContext>(
+  state: FlowState<TContext>,
+  options?: FlowReducerOptions<TContext>,
+): FlowState<TContext> {
+  const errors = validateStep(state.stepId, state.context, options);
+  if (errors) return { ...state, errors };
+  return state.errors ? withoutErrors(state) : state;
+}
+
+function withoutErrors<TContext extends FlowContext>(
+  state: FlowState<TContext>,
+): FlowState<TContext> {
+  const { errors: _errors, ...rest } = state;
+  return rest;
+}
+
+/**
+ * Forward stack after moving to a step
+ * Moving to the most recent step left with BACK keeps the rest of the stack,
+ * taking a different branch clears it.
+ */
+function popForwardStack(
+  forwardStack: FlowState["forwardStack"],
+  stepId: string,
+): FlowState["forwardStack"] {
+  const top = forwardStack?.[forwardStack.length - 1];
+  return top?.stepId === stepId && forwardStack && forwardStack.length > 1
+    ? forwardStack.slice(0, -1)
+    : undefined;
+}
+
+/**
+ * Whether the step is skipped automatically for the context
+ * True if its skip condition (runtime config) or skipIf (definition) matches
+ */
+export function isStepSkipped<TContext extends FlowContext>(
+  stepId: string,
+  context: TContext,
+  definition: FlowDefinition,
+  options?: FlowReducerOptions<TContext>,
+): boolean {
+  const skipIf = definition.steps[stepId]?.skipIf;
+  return (
+    !!options?.skipConditions?.[stepId]?.(context) ||
+    (skipIf !== undefined && evaluateCondition(skipIf, context))
+  );
+}
+
+/**
+ * Passes over steps that are skipped automatically, starting at stepId
+ * Terminal steps, and branching steps that can't be resolved, are entered anyway.
+ * @returns The step to enter and path entries for the steps passed over
+ * @throws Error if the skipped steps form a cycle or a resolver returns a Promise
+ */
+function passOverSkippedSteps<TContext extends FlowContext>(
+  stepId: string,
+  context: TContext,
+  definition: FlowDefinition,
+  options: FlowReducerOptions<TContext> | undefined,
+  now: number,
+): { stepId: string; skipped: PathEntry[] } {
+  const skipped: PathEntry[] = [];
+  let current = stepId;
+
+  while (isStepSkipped(current, context, definition, options)) {
+    const next = definition.steps[current]?.next;
+    let nextStepId: string | undefined;
+
+    if (typeof next === "string") {
+      nextStepId = next;
+    } else if (isConditionalTransition(next)) {
+      nextStepId = matchTransition(next, context);
+    } else if (Array.isArray(next)) {
+      const resolver = options?.resolvers?.[current];
+      if (!resolver) {
+        if (process.env.NODE_ENV !== "production") {
+          console.warn(
+            `Step "${current}" matches its skip condition but has multiple next steps [${next.join(", ")}] ` +
+              "and no resolver function. Entering it instead",
+          );
+        }
+        break;
+      }
+      const resolved = resolver(context);
+      if (isPromiseLike(resolved)) {
+        throw new Error(
+          `resolver() for step "${current}" returned a Promise, but the step is skipped automatically. ` +
+            "Resolvers of steps with skip conditions must be synchronous",
+        );
+      }
+      nextStepId = validateResolvedStep(resolved, next, current);
+    }
+
+    // Terminal step, or the resolver (or conditions) chose to stay - enter the step
+    if (nextStepId === undefined) break;
+
+    skipped.push({
+      stepId: current,
+      startedAt: now,
+      completedAt: now,
+      action: "skip",
+    });
+    current = nextStepId;
+
+    if (skipped.some((entry) => entry.stepId === current)) {
+      throw new Error(
+        `Skip conditions form a cycle: ${[...skipped.map((entry) => entry.stepId), current].join(" -> ")}`,
+      );
+    }
+  }
+
+  return { stepId: current, skipped };
+}
+
+/**
+ * How forward() re-enters a step, given how the step before it was left
+ */
+function toForwardAction(
+  action: NavigationAction | undefined,
+): ForwardEntry["action"] {
+  return action === "skip" || action === "repeat" ? action : "next";
+}
+
+/**
+ * Path/history entry for arriving at a step
+ * Looping steps start at iteration 0 unless an iteration is given.
+ */
+function createEntry(
+  stepId: string,
+  now: number,
+  definition: FlowDefinition,
+  iteration = definition.steps[stepId]?.loop ? 0 : undefined,
+): PathEntry {
+  return iteration === undefined
+    ? { stepId, startedAt: now }
+    : { stepId, startedAt: now, iteration };
+}
+
+/**
+ * Context with an item for every iteration up to the given one
+ * Items of earlier visits are kept, so going back and forth keeps the input.
+ */
+function withLoopItem<TContext extends FlowContext>(
+  context: TContext,
+  loop: LoopDefinition | undefined,
+  iteration: number | undefined,
+): TContext {
+  if (!loop || iteration === undefined) return context;
+
+  const current: unknown = context[loop.items];
+  const items = Array.isArray(current) ? current : [];
+  if (items === current && items.length > iteration) return context;
+
+  return {
+    ...context,
+    [loop.items]: [
+      ...items,
+      ...Array.from({ length: iteration + 1 - items.length }, () => ({})),
+    ],
+  };
+}
+
+/**
+ * Applies an update to the item of a loop iteration (scoped context)
+ */
+function updateLoopItem<TContext extends FlowContext>(
+  context: TContext,
+  loop: LoopDefinition,
+  iteration: number,
+  update: ContextUpdate<FlowContext>,
+): TContext {
+  const items = [...withLoopItem(context, loop, iteration)[loop.items]];
+  items[iteration] = applyContextUpdate(items[iteration], update);
+  return { ...context, [loop.items]: items };
+}
+
+/**
+ * Context after leaving a looping step forward - items of iterations the user
+ * went back from are dropped
+ */
+function leaveLoop<TContext extends FlowContext>(
+  context: TContext,
+  loop: LoopDefinition | undefined,
+  iteration: number | undefined,
+): TContext {
+  if (!loop || iteration === undefined) return context;
+
+  const items: unknown = context[loop.items];
+  return Array.isArray(items) && items.length > iteration + 1
+    ? { ...context, [loop.items]: items.slice(0, iteration + 1) }
+    : context;
+}
+
+/**
+ * Whether a looping step has run its minimum number of iterations
+ * Warns when it hasn't (the user stays on the step)
+ */
+function canLeaveLoop(
+  stepId: string,
+  loop: LoopDefinition | undefined,
+  iteration: number | undefined,
+): boolean {
+  if (!loop?.min || iteration === undefined || iteration + 1 >= loop.min) {
+    return true;
+  }
+  if (process.env.NODE_ENV !== "production") {
+    console.warn(
+      `Step "${stepId}" must repeat at least ${loop.min} times before it can be left ` +
+        `(currently on iteration ${iteration + 1})`,
+    );
+  }
+  return false;
+}
+
+/**
+ * Whether the step runs nested flows (sub-flow or parallel branches)
+ * Such steps stay active while the nested flows run
+ */
+function hasNestedFlows(step: FlowDefinition["steps"][string] | undefined) {
+  return !!(step?.flow || step?.parallel);
+}
+
+/**
+ * Starts the nested flows when the current step is a sub-flow or parallel step
+ * - Navigating back into the step restores its finished state (on the last
+ *   child step the user left)
+ * - Otherwise each child flow starts fresh with the mapped input context
+ */
+function enterSubFlow<TContext extends FlowContext>(
+  previous: FlowState<TContext>,
+  state: FlowState<TContext>,
+  action: FlowAction<TContext>,
+  definition: FlowDefinition,
+  options?: FlowReducerOptions<TContext>,
+): FlowState<TContext> {
+  const step = definition.steps[state.stepId];
+  if (
+    state.child ||
+    state.parallel ||
+    state.status !== "active" ||
+    !hasNestedFlows(step)
+  ) {
+    return state;
+  }
+
+  // Going back (or jumping back) re-enters an earlier path entry
+  const finished =
+    action.type === "BACK" || action.type === "GOTO"
+      ? previous.path[state.path.length - 1]
+      : undefined;
+
+  const start = (flowId?: string) => {
+    const subFlow = getSubFlow(definition, state.stepId, options, flowId);
+    return createInitialState(
+      subFlow.definition,
+      subFlow.config.input?.(state.context) ?? state.context,
+      subFlow.options,
+    );
+  };
+
+  if (step?.parallel) {
+    // Reopen the branch that was finished last
+    if (finished?.parallel) {
+      const { active, done } = finished.parallel;
+      return {
+        ...state,
+        parallel: {
+          ...finished.parallel,
+          done: done.filter((id) => id !== active),
+        },
+      };
+    }
+
+    const { branches } = step.parallel;
+    return {
+      ...state,
+      parallel: {
+        // biome-ignore lint/style/noNonNullAssertion: validateFlowDefinition requires at least one branch
+        active: branches[0]!,
+        branches: Object.fromEntries(branches.map((id) => [id, start(id)])),
+        done: [],
+      },
+    };
+  }
+
+  return { ...state, child: finished?.child ?? start() };
+}
+
+/**
+ * Advances this flow after its sub-flow or parallel step was finished
+ * The finished nested state is kept on the step's path entry for back
+ * navigation (and rendering, when a terminal step completes this flow).
+ */
+function leaveSubFlow<TContext extends FlowContext>(
+  state: FlowState<TContext>,
+  action: Extract<FlowAction<TContext>, { type: "NEXT" | "SKIP" }>,
+  context: TContext,
+  finished: Pick<PathEntry, "child" | "parallel">,
+  definition: FlowDefinition,
+  options?: FlowReducerOptions<TContext>,
+): FlowState<TContext> {
+  const advanced = reduceFlow(
+    { ...state, context, child: undefined, parallel: undefined },
+    { type: action.type },
+    definition,
+    options,
+  );
+
+  const withFinished = (index: number) =>
+    advanced.path.map((entry, i) =>
+      i === index ? { ...entry, ...finished } : entry,
+    );
+
+  if (advanced.history.length === state.history.length) {
+    // Terminal step completes this flow, otherwise stay on the step
+    return advanced.status === "complete"
+      ? { ...advanced, path: withFinished(advanced.path.length - 1) }
+      : { ...advanced, ...finished };
+  }
+
+  return enterSubFlow(
+    state,
+    { ...advanced, path: withFinished(advanced.path.length - 2) },
+    action,
+    definition,
+    options,
+  );
+}
+
+/**
+ * Applies the last update of a nested flow's final step and maps its
+ * context back into this flow's context
+ */
+function finishSubFlow<TContext extends FlowContext>(
+  context: TContext,
+  nested: FlowState,
+  action: Extract<FlowAction<TContext>, { type: "NEXT" | "SKIP" }>,
+  config: SubFlowConfig<TContext>,
+) {
+  const finished =
+    action.update !== undefined
+      ? {
+          ...nested,
+          context: applyContextUpdate(
+            nested.context,
+            action.update as ContextUpdate<FlowContext>,
+          ),
+        }
+      : nested;
+
+  return {
+    finished,
+    context: config.output
+      ? config.output(context, finished.context)
+      : ({ ...context, ...finished.context } as TContext),
+  };
+}
+
+/**
+ * Routes an action to the active sub-flow
+ * Next/skip from the child's final step maps its context back and advances this flow.
+ * @returns New state, or null if this flow should handle the action itself
+ */
+function reduceSubFlow<TContext extends FlowContext>(
+  state: FlowState<TContext>,
+  child: FlowState,
+  action: FlowAction<TContext>,
+  definition: FlowDefinition,
+  options?: FlowReducerOptions<TContext>,
+): FlowState<TContext> | null {
+  const subFlow = getSubFlow(definition, state.stepId, options);
+
+  switch (action.type) {
+    case "BACK": {
+      if (canNavigateBack(child)) {
+        return {
+          ...state,
+          child: flowReducer(
+            child,
+            action,
+            subFlow.definition,
+            subFlow.options,
+          ),
+        };
+      }
+      // First child step: leave the sub-flow (nothing to go back to at the start)
+      return state.path.length > 1 ? null : state;
+    }
+
+    case "GOTO": {
+      // Jumps to a step outside the child flow are handled by this flow
+      return canGoTo(child, action.target)
+        ? {
+            ...state,
+            child: flowReducer(
+              child,
+              action,
+              subFlow.definition,
+              subFlow.options,
+            ),
+          }
+        : null;
+    }
+
+    case "FORWARD": {
+      if (canGoForward(child)) {
+        return {
+          ...state,
+          child: flowReducer(
+            child,
+            action,
+            subFlow.definition,
+            subFlow.options,
+          ),
+        };
+      }
+      // Redo past the finished child flow (like next() on its final step)
+      return child.status === "complete" && state.forwardStack?.length
+        ? reduceSubFlow(state, child, { type: "NEXT" }, definition, options)
+        : state;
+    }
+
+    case "NEXT":
+    case "SKIP":
+    case "REPEAT":
+    case "SET_CONTEXT":
+    case "SET_ITEM":
+    case "SELECT_BRANCH":
+    case "UNDO":
+    case "REDO": {
+      if (
+        (action.type !== "NEXT" && action.type !== "SKIP") ||
+        child.status !== "complete"
+      ) {
+        return {
+          ...state,
+          child: flowReducer(
+            child,
+            // Child context is untyped at this level
+            action as FlowAction,
+            subFlow.definition,
+            subFlow.options,
+          ),
+        };
+      }
+
+      // Leaving the child's final step - map its context back and advance this step
+      const { finished, context } = finishSubFlow(
+        state.context,
+        child,
+        action,
+        subFlow.config,
+      );
+      return leaveSubFlow(
+        state,
+        action,
+        context,
+        { child: finished },
+        definition,
+        options,
+      );
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Routes an action to the active branch of a parallel step
+ * Next/skip from a branch's final step finishes the branch: its context is
+ * mapped back, then the step either joins (advancing this flow) or moves on
+ * to the next unfinished branch.
+ * @returns New state, or null if this flow should handle the action itself
+ */
+function reduceParallel<TContext extends FlowContext>(
+  state: FlowState<TContext>,
+  parallel: ParallelState,
+  action: FlowAction<TContext>,
+  definition: FlowDefinition,
+  options?: FlowReducerOptions<TContext>,
+): FlowState<TContext> | null {
+  const branchIds = definition.steps[state.stepId]?.parallel?.branches ?? [];
+  const { active } = parallel;
+  // biome-ignore lint/style/noNonNullAssertion: active always points to a started branch
+  const branch = parallel.branches[active]!;
+  const subFlow = getSubFlow(definition, state.stepId, options, active);
+
+  const withBranch = (branchState: FlowState): FlowState<TContext> => ({
+    ...state,
+    parallel: {
+      ...parallel,
+      branches: { ...parallel.branches, [active]: branchState },
+    },
+  });
+
+  switch (action.type) {
+    case "SELECT_BRANCH": {
+      if (!parallel.branches[action.branch]) {
+        throw new Error(
+          `Step "${state.stepId}" has no branch "${action.branch}". ` +
+            `Available branches: ${branchIds.join(", ")}`,
+        );
+      }
+      // Selecting a finished branch reopens it on its final step
+      return {
+        ...state,
+        parallel: {
+          ...parallel,
+          active: action.branch,
+          done: parallel.done.filter((id) => id !== action.branch),
+        },
+      };
+    }
+
+    case "BACK": {
+      if (canNavigateBack(branch)) {
+        return withBranch(
+          flowReducer(branch, action, subFlow.definition, subFlow.options),
+        );
+      }
+      // First branch step: leave the parallel step
+      return state.path.length > 1 ? null : state;
+    }
+
+    case "GOTO": {
+      // Jumps to a step outside the branch are handled by this flow
+      return canGoTo(branch, action.target)
+        ? withBranch(
+            flowReducer(branch, action, subFlow.definition, subFlow.options),
+          )
+        : null;
+    }
+
+    case "FORWARD": {
+      if (canGoForward(branch)) {
+        return withBranch(
+          flowReducer(branch, action, subFlow.definition, subFlow.options),
+        );
+      }
+      // Redo past the finished branch (like next() on its final step)
+      return branch.status === "complete" && state.forwardStack?.length
+        ? reduceParallel(state, parallel, { type: "NEXT" }, definition, options)
+        : state;
+    }
+
+    case "NEXT":
+    case "SKIP":
+    case "REPEAT":
+    case "SET_CONTEXT":
+    case "SET_ITEM":
+    case "UNDO":
+    case "REDO": {
+      if (
+        (action.type !== "NEXT" && action.type !== "SKIP") ||
+        branch.status !== "complete"
+      ) {
+        return withBranch(
+          flowReducer(
+            branch,
+            // Branch context is untyped at this level
+            action as FlowAction,
+            subFlow.definition,
+            subFlow.options,
+          ),
+        );
+      }
+
+      // Leaving the branch's final step - map its context back
+      const { finished, context } = finishSubFlow(
+        state.context,
+        branch,
+        action,
+        subFlow.config,
+      );
+      const branches = { ...parallel.branches, [active]: finished };
+      const done = parallel.done.includes(active)
+        ? parallel.done
+        : [...parallel.done, active];
+
+      const join = definition.steps[state.stepId]?.parallel?.join ?? branchIds;
+      if (join.every((id) => done.includes(id))) {
+        return leaveSubFlow(
+          state,
+          action,
+          context,
+          { parallel: { active, branches, done } },
+          definition,
+          options,
+        );
+      }
+
+      // Continue with the next unfinished branch
+      const index = branchIds.indexOf(active);
+      const nextActive =
+        [...branchIds.slice(index + 1), ...branchIds.slice(0, index)].find(
+          (id) => !done.includes(id),
+        ) ?? active;
+
+      return {
+        ...state,
+        context,
+        parallel: { active: nextActive, branches, done },
+      };
+    }
+
+    default:
+      return null;
+  }
+}
+
 /**
  * Creates the initial state for a flow
  * @param definition - Flow definition
  * @param initialContext - Initial context values
+ * @param options - Optional runtime configuration (needed when the start step runs nested flows)
  * @returns Initial flow state
  */
 export function createInitialState<TContext extends FlowContext>(
   definition: FlowDefinition,
   initialContext: TContext,
+  options?: FlowReducerOptions<TContext>,
 ): FlowState<TContext> {
-  const now = Date.now();
-  const startEntry = {
-    stepId: definition.start,
-    startedAt: now,
-    // No completedAt or action - user hasn't left this step yet
-  };
-  return {
+  const now = getNow(options);
+  // No completedAt or action - user hasn't left this step yet
+  const startEntry = createEntry(definition.start, now, definition);
+  const state: FlowState<TContext> = {
     stepId: definition.start,
-    context: initialContext,
+    context: withLoopItem(
+      initialContext,
+      definition.steps[definition.start]?.loop,
+      startEntry.iteration,
+    ),
     path: [startEntry],
     history: [startEntry],
     status: "active",
     startedAt: now,
     // completedAt is undefined until flow completes
   };
+  return hasNestedFlows(definition.steps[definition.start])
+    ? enterSubFlow(state, state, { type: "NEXT" }, definition, options)
+    : state;
 }
 
 /**
  * Pure reducer for flow state transitions
  * Framework-agnostic - works with React, Vue, Svelte, or vanilla JS
  *
+ * When the current step runs a sub-flow, navigation and context actions are
+ * routed to the child flow (for parallel steps, to the active branch - see
+ * SELECT_BRANCH). BACK from the first child step returns to the previous
+ * step of this flow.
+ *
  * @param state - Current flow state
  * @param action - Action to perform
  * @param definition - Flow definition
- * @param options - Optional runtime configuration (resolvers for context-driven navigation)
+ * @param options - Optional runtime configuration (resolvers for context-driven navigation, sub-flows)
  * @returns New flow state
  */
 export function flowReducer<TContext extends FlowContext>(
   state: FlowState<TContext>,
   action: FlowAction<TContext>,
   definition: FlowDefinition,
-  options?: {
-    resolvers?: RuntimeResolverMap<TContext>;
-  },
+  options?: FlowReducerOptions<TContext>,
+): FlowState<TContext> {
+  let next = reduceNested(state, action, definition, options);
+  // Errors belong to the step that was validated (cleared on back(), goTo(), ...)
+  if (
+    next.errors &&
+    (next.stepId !== state.stepId || next.path.length !== state.path.length)
+  ) {
+    next = withoutErrors(next);
+  }
+  return options?.undo ? recordUndo(state, next, action, options.undo) : next;
+}
+
+/**
+ * Routes an action to the active sub-flow (or parallel branch) first, then
+ * to this flow's own steps
+ */
+function reduceNested<TContext extends FlowContext>(
+  state: FlowState<TContext>,
+  action: FlowAction<TContext>,
+  definition: FlowDefinition,
+  options?: FlowReducerOptions<TContext>,
+): FlowState<TContext> {
+  let current = state;
+  if (state.child || state.parallel) {
+    const reduced = state.child
+      ? reduceSubFlow(state, state.child, action, definition, options)
+      : // biome-ignore lint/style/noNonNullAssertion: checked above
+        reduceParallel(state, state.parallel!, action, definition, options);
+    if (reduced) return reduced;
+    // Leaving the sub-flow backwards - this flow handles the action
+    if (action.type === "BACK" || action.type === "GOTO") {
+      current = { ...state, child: undefined, parallel: undefined };
+    }
+  }
+
+  const next = reduceFlow(current, action, definition, options);
+  return next === current
+    ? state
+    : enterSubFlow(state, next, action, definition, options);
+}
+
+/**
+ * Records the context before a change for UNDO
+ * Context changes push the previous context and clear the redo stack. With
+ * the "step" scope, moving to another step (or iteration) clears both stacks.
+ */
+function recordUndo<TContext extends FlowContext>(
+  prevState: FlowState<TContext>,
+  state: FlowState<TContext>,
+  action: FlowAction<TContext>,
+  { scope = "step", limit = 50 }: UndoOptions,
+): FlowState<TContext> {
+  if (state === prevState) return state;
+  // Undo/redo move along the stack, restore and reset bring their own state
+  if (
+    action.type === "UNDO" ||
+    action.type === "REDO" ||
+    action.type === "RESTORE" ||
+    action.type === "RESET"
+  ) {
+    return state;
+  }
+
+  const stepChanged =
+    state.stepId !== prevState.stepId ||
+    state.path.length !== prevState.path.length;
+  if (stepChanged && scope === "step") {
+    const { undoStack: _undoStack, ...rest } = state;
+    return rest;
+  }
+  if (state.context === prevState.context) return state;
+
+  const past = [...(prevState.undoStack?.past ?? []), prevState.context];
+  return { ...state, undoStack: { past: past.slice(-limit), future: [] } };
+}
+
+/**
+ * Moves the context one snapshot back (UNDO) or forward (REDO)
+ */
+function moveUndo<TContext extends FlowContext>(
+  state: FlowState<TContext>,
+  type: "UNDO" | "REDO",
+): FlowState<TContext> {
+  const { past = [], future = [] } = state.undoStack ?? {};
+  const isUndo = type === "UNDO";
+  const from = isUndo ? past : future;
+  const context = from[from.length - 1];
+  if (!context) return state;
+
+  const remaining = from.slice(0, -1);
+  const to = [...(isUndo ? future : past), state.context];
+  return {
+    ...state,
+    context,
+    undoStack: isUndo
+      ? { past: remaining, future: to }
+      : { past: to, future: remaining },
+  };
+}
+
+/**
+ * Reduces an action for this flow's own steps (nested flows handled by flowReducer)
+ */
+function reduceFlow<TContext extends FlowContext>(
+  state: FlowState<TContext>,
+  action: FlowAction<TContext>,
+  definition: FlowDefinition,
+  options?: FlowReducerOptions<TContext>,
 ): FlowState<TContext> {
   switch (action.type) {
     case "SET_CONTEXT": {
-      return {
+      const updatedState = {
         ...state,
         context: applyContextUpdate(state.context, action.update),
       };
+      // Shown errors follow the user's edits
+      return state.errors
+        ? withStepErrors(updatedState, options)
+        : updatedState;
     }
 
     case "NEXT": {
@@ -131,16 +1330,32 @@ export function flowReducer<TContext extends FlowContext>(
         ? applyContextUpdate(state.context, action.update)
         : state.context;
 
-      const updatedState =
+      const updatedState = withStepErrors(
         action.update !== undefined
           ? { ...state, context: updatedContext }
-          : state;
+          : state,
+        options,
+      );
+
+      // Steps can only be left once their validator passes
+      if (updatedState.errors) return updatedState;
 
       const step = definition.steps[updatedState.stepId];
+      const iteration =
+        updatedState.path[updatedState.path.length - 1]?.iteration;
+
+      // Looping steps can only be left after their minimum iterations
+      if (!canLeaveLoop(updatedState.stepId, step?.loop, iteration)) {
+        return updatedState;
+      }
 
       // No next step = final state
       if (!step?.next) {
-        return { ...updatedState, status: "complete", completedAt: Date.now() };
+        return {
+          ...updatedState,
+          status: "complete",
+          completedAt: getNow(options),
+        };
       }
 
       let nextStepId: string | undefined;
@@ -148,21 +1363,17 @@ export function flowReducer<TContext extends FlowContext>(
       // If target is explicitly specified, use it
       if (action.target) {
         // Validate target is in the allowed next destinations
-        if (typeof step.next === "string") {
-          nextStepId = step.next === action.target ? action.target : undefined;
-        } else if (Array.isArray(step.next)) {
-          nextStepId = step.next.includes(action.target)
-            ? action.target
-            : undefined;
-        }
+        // (explicit targets bypass conditional transitions, like resolvers)
+        const allowed = getNextStepIds(step.next) ?? [];
+        nextStepId = allowed.includes(action.target)
+          ? action.target
+          : undefined;
 
         // Validation: target not in allowed destinations
         if (nextStepId === undefined) {
-          const allowed =
-            typeof step.next === "string" ? step.next : step.next.join(", ");
           if (process.env.NODE_ENV !== "production") {
             console.warn(
-              `Invalid target "${action.target}" from step "${updatedState.stepId}". Allowed: ${allowed}`,
+              `Invalid target "${action.target}" from step "${updatedState.stepId}". Allowed: ${allowed.join(", ")}`,
             );
           }
           return updatedState;
@@ -172,22 +1383,20 @@ export function flowReducer<TContext extends FlowContext>(
         if (typeof step.next === "string") {
           // String: simple static navigation
           nextStepId = step.next;
+        } else if (isConditionalTransition(step.next)) {
+          // Declarative: the first transition whose condition matches
+          nextStepId = matchTransition(step.next, updatedContext);
         } else if (Array.isArray(step.next)) {
           // Array: check for resolver function
           const resolver = options?.resolvers?.[updatedState.stepId];
           if (resolver) {
             // Context-driven: use resolver to determine next step
-            const resolved = resolver(updatedContext);
-
-            // Validate resolved value is in next array
-            if (resolved && !step.next.includes(resolved)) {
-              throw new Error(
-                `resolver() returned "${resolved}" which is not in next array: [${step.next.join(", ")}] ` +
-                  `for step "${updatedState.stepId}"`,
-              );
-            }
-
-            nextStepId = resolved;
+            // (validates the resolved value is in next array)
+            nextStepId = validateResolvedStep(
+              resolver(updatedContext),
+              step.next,
+              updatedState.stepId,
+            );
           } else {
             // Component-driven but no explicit target - ERROR
             throw new Error(
@@ -203,11 +1412,21 @@ export function flowReducer<TContext extends FlowContext>(
         return updatedState;
       }
 
-      // Check if the next step is final (has no next)
-      const nextStep = definition.steps[nextStepId];
-      const isFinalStep = !nextStep?.next;
+      const now = getNow(options);
 
-      const now = Date.now();
+      // Pass over steps that are skipped automatically for the new context
+      const { stepId: enteredStepId, skipped } = passOverSkippedSteps(
+        nextStepId,
+        updatedContext,
+        definition,
+        options,
+        now,
+      );
+
+      // Check if the next step is final (has no next)
+      const nextStep = definition.steps[enteredStepId];
+      // Sub-flow and parallel steps stay active while their nested flows run
+      const isFinalStep = !nextStep?.next && !hasNestedFlows(nextStep);
 
       // Complete the current step by adding completedAt and action to its history entry
       const completedHistory = updatedState.history.map((entry, index) => {
@@ -235,19 +1454,25 @@ export function flowReducer<TContext extends FlowContext>(
       });
 
       // Create entry for the new step (started but not completed yet)
-      const nextEntry = {
-        stepId: nextStepId,
-        startedAt: now,
-        // No completedAt or action yet - user just arrived
-      };
+      // No completedAt or action yet - user just arrived
+      const nextEntry = createEntry(enteredStepId, now, definition);
 
       return {
         ...updatedState,
-        stepId: nextStepId,
-        path: [...completedPath, nextEntry],
-        history: [...completedHistory, nextEntry],
+        stepId: enteredStepId,
+        context: withLoopItem(
+          leaveLoop(updatedContext, step.loop, iteration),
+          nextStep?.loop,
+          nextEntry.iteration,
+        ),
+        path: [...completedPath, ...skipped, nextEntry],
+        history: [...completedHistory, ...skipped, nextEntry],
         status: isFinalStep ? "complete" : "active",
         completedAt: isFinalStep ? now : undefined,
+        forwardStack: [...skipped, nextEntry].reduce(
+          (stack, entry) => popForwardStack(stack, entry.stepId),
+          updatedState.forwardStack,
+        ),
       };
     }
 
@@ -258,16 +1483,32 @@ export function flowReducer<TContext extends FlowContext>(
         ? applyContextUpdate(state.context, action.update)
         : state.context;
 
-      const updatedState =
+      const updatedState = withStepErrors(
         action.update !== undefined
           ? { ...state, context: updatedContext }
-          : state;
+          : state,
+        options,
+      );
+
+      // Steps can only be left once their validator passes
+      if (updatedState.errors) return updatedState;
 
       const step = definition.steps[updatedState.stepId];
+      const iteration =
+        updatedState.path[updatedState.path.length - 1]?.iteration;
+
+      // Looping steps can only be left after their minimum iterations
+      if (!canLeaveLoop(updatedState.stepId, step?.loop, iteration)) {
+        return updatedState;
+      }
 
       // No next step = final state
       if (!step?.next) {
-        return { ...updatedState, status: "complete", completedAt: Date.now() };
+        return {
+          ...updatedState,
+          status: "complete",
+          completedAt: getNow(options),
+        };
       }
 
       let nextStepId: string | undefined;
@@ -275,21 +1516,17 @@ export function flowReducer<TContext extends FlowContext>(
       // If target is explicitly specified, use it
       if (action.target) {
         // Validate target is in the allowed next destinations
-        if (typeof step.next === "string") {
-          nextStepId = step.next === action.target ? action.target : undefined;
-        } else if (Array.isArray(step.next)) {
-          nextStepId = step.next.includes(action.target)
-            ? action.target
-            : undefined;
-        }
+        // (explicit targets bypass conditional transitions, like resolvers)
+        const allowed = getNextStepIds(step.next) ?? [];
+        nextStepId = allowed.includes(action.target)
+          ? action.target
+          : undefined;
 
         // Validation: target not in allowed destinations
         if (nextStepId === undefined) {
-          const allowed =
-            typeof step.next === "string" ? step.next : step.next.join(", ");
           if (process.env.NODE_ENV !== "production") {
             console.warn(
-              `Invalid target "${action.target}" from step "${updatedState.stepId}". Allowed: ${allowed}`,
+              `Invalid target "${action.target}" from step "${updatedState.stepId}". Allowed: ${allowed.join(", ")}`,
             );
           }
           return updatedState;
@@ -299,22 +1536,20 @@ export function flowReducer<TContext extends FlowContext>(
         if (typeof step.next === "string") {
           // String: simple static navigation
           nextStepId = step.next;
+        } else if (isConditionalTransition(step.next)) {
+          // Declarative: the first transition whose condition matches
+          nextStepId = matchTransition(step.next, updatedContext);
         } else if (Array.isArray(step.next)) {
           // Array: check for resolver function
           const resolver = options?.resolvers?.[updatedState.stepId];
           if (resolver) {
             // Context-driven: use resolver to determine next step
-            const resolved = resolver(updatedContext);
-
-            // Validate resolved value is in next array
-            if (resolved && !step.next.includes(resolved)) {
-              throw new Error(
-                `resolver() returned "${resolved}" which is not in next array: [${step.next.join(", ")}] ` +
-                  `for step "${updatedState.stepId}"`,
-              );
-            }
-
-            nextStepId = resolved;
+            // (validates the resolved value is in next array)
+            nextStepId = validateResolvedStep(
+              resolver(updatedContext),
+              step.next,
+              updatedState.stepId,
+            );
           } else {
             // Component-driven but no explicit target - ERROR
             throw new Error(
@@ -330,11 +1565,21 @@ export function flowReducer<TContext extends FlowContext>(
         return updatedState;
       }
 
-      // Check if the next step is final (has no next)
-      const nextStep = definition.steps[nextStepId];
-      const isFinalStep = !nextStep?.next;
+      const now = getNow(options);
+
+      // Pass over steps that are skipped automatically for the new context
+      const { stepId: enteredStepId, skipped } = passOverSkippedSteps(
+        nextStepId,
+        updatedContext,
+        definition,
+        options,
+        now,
+      );
 
-      const now = Date.now();
+      // Check if the next step is final (has no next)
+      const nextStep = definition.steps[enteredStepId];
+      // Sub-flow and parallel steps stay active while their nested flows run
+      const isFinalStep = !nextStep?.next && !hasNestedFlows(nextStep);
 
       // Complete the current step by marking it as skipped
       const completedHistory = updatedState.history.map((entry, index) => {
@@ -362,19 +1607,25 @@ export function flowReducer<TContext extends FlowContext>(
       });
 
       // Create entry for the new step (started but not completed yet)
-      const nextEntry = {
-        stepId: nextStepId,
-        startedAt: now,
-        // No completedAt or action yet - user just arrived
-      };
+      // No completedAt or action yet - user just arrived
+      const nextEntry = createEntry(enteredStepId, now, definition);
 
       return {
         ...updatedState,
-        stepId: nextStepId,
-        path: [...completedPath, nextEntry],
-        history: [...completedHistory, nextEntry],
+        stepId: enteredStepId,
+        context: withLoopItem(
+          leaveLoop(updatedContext, step.loop, iteration),
+          nextStep?.loop,
+          nextEntry.iteration,
+        ),
+        path: [...completedPath, ...skipped, nextEntry],
+        history: [...completedHistory, ...skipped, nextEntry],
         status: isFinalStep ? "complete" : "active",
         completedAt: isFinalStep ? now : undefined,
+        forwardStack: [...skipped, nextEntry].reduce(
+          (stack, entry) => popForwardStack(stack, entry.stepId),
+          updatedState.forwardStack,
+        ),
       };
     }
 
@@ -383,7 +1634,23 @@ export function flowReducer<TContext extends FlowContext>(
         return state;
       }
 
-      const now = Date.now();
+      // Step over earlier steps that are skipped automatically for the
+      // current context (the start step is always re-entered)
+      let index = state.path.length - 2;
+      while (
+        index > 0 &&
+        isStepSkipped(
+          // biome-ignore lint/style/noNonNullAssertion: index is within the path
+          state.path[index]!.stepId,
+          state.context,
+          definition,
+          options,
+        )
+      ) {
+        index--;
+      }
+
+      const now = getNow(options);
 
       // Complete the current step by marking it as exited via "back"
       const completedHistory = state.history.map((entry, index) => {
@@ -398,17 +1665,15 @@ export function flowReducer<TContext extends FlowContext>(
         return entry;
       });
 
-      // Remove current step from path (going back)
-      const pathWithoutCurrent = state.path.slice(0, -1);
+      // Remove current step (and the steps stepped over) from path
+      const pathWithoutCurrent = state.path.slice(0, index + 1);
 
       // Update the previous step in path to clear its completion (user is re-entering it)
       const updatedPath = pathWithoutCurrent.map((entry, index) => {
         // Clear completedAt and action from the step we're returning to
+        // (new start time for re-entry, same loop iteration)
         if (index === pathWithoutCurrent.length - 1) {
-          return {
-            stepId: entry.stepId,
-            startedAt: now, // New start time for re-entry
-          };
+          return createEntry(entry.stepId, now, definition, entry.iteration);
         }
         return entry;
       });
@@ -417,11 +1682,18 @@ export function flowReducer<TContext extends FlowContext>(
       const previousEntry = updatedPath[updatedPath.length - 1]!;
 
       // Re-enter the previous step in history
-      const reentryEntry = {
-        stepId: previousEntry.stepId,
-        startedAt: now,
-        // No completedAt or action - user just arrived back
-      };
+      // No completedAt or action - user just arrived back
+      const reentryEntry = { ...previousEntry };
+
+      // Remember the steps being left so forward() can re-enter them
+      // (the step right after the previous step ends up on top of the stack)
+      const forwardEntries = state.path
+        .slice(index + 1)
+        .map((entry, i) => ({
+          stepId: entry.stepId,
+          action: toForwardAction(state.path[index + i]?.action),
+        }))
+        .reverse();
 
       return {
         ...state,
@@ -430,7 +1702,224 @@ export function flowReducer<TContext extends FlowContext>(
         history: [...completedHistory, reentryEntry],
         status: "active", // Going back makes flow active again
         completedAt: undefined, // Clear completion timestamp when going back
+        forwardStack: [...(state.forwardStack ?? []), ...forwardEntries],
+      };
+    }
+
+    case "GOTO": {
+      // Only earlier steps on the path can be jumped to (the path is truncated
+      // like going back several steps at once)
+      const index = state.path
+        .slice(0, -1)
+        .map((entry) => entry.stepId)
+        .lastIndexOf(action.target);
+
+      if (index === -1) {
+        if (process.env.NODE_ENV !== "production") {
+          console.warn(
+            `Invalid goto target "${action.target}" from step "${state.stepId}". ` +
+              `Allowed: ${state.path
+                .slice(0, -1)
+                .map((entry) => entry.stepId)
+                .join(", ")}`,
+          );
+        }
+        return state;
+      }
+
+      const now = getNow(options);
+
+      // Complete the current step by marking it as exited via "goto"
+      const completedHistory = state.history.map((entry, index) => {
+        if (index === state.history.length - 1) {
+          return {
+            ...entry,
+            completedAt: now,
+            action: "goto" as const,
+          };
+        }
+        return entry;
+      });
+
+      // Re-enter the target step (clears its completion)
+      const targetEntry = createEntry(
+        action.target,
+        now,
+        definition,
+        state.path[index]?.iteration,
+      );
+
+      // Remember the steps jumped over so forward() can re-enter them
+      // (the step right after the target ends up on top of the stack)
+      const forwardEntries = state.path
+        .slice(index + 1)
+        .map((entry, i) => ({
+          stepId: entry.stepId,
+          action: toForwardAction(state.path[index + i]?.action),
+        }))
+        .reverse();
+
+      return {
+        ...state,
+        stepId: action.target,
+        path: [...state.path.slice(0, index), targetEntry],
+        history: [...completedHistory, targetEntry],
+        status: "active",
+        completedAt: undefined,
+        forwardStack: [...(state.forwardStack ?? []), ...forwardEntries],
+      };
+    }
+
+    case "FORWARD": {
+      const top = state.forwardStack?.[state.forwardStack.length - 1];
+      if (!top) return state;
+
+      // Re-enter the next iteration of this looping step
+      if (top.action === "repeat") {
+        return reduceFlow(state, { type: "REPEAT" }, definition, options);
+      }
+
+      // The context must still resolve to the step that was left with BACK
+      // (target is the pre-resolved destination for async resolvers)
+      const step = definition.steps[state.stepId];
+      const resolver = options?.resolvers?.[state.stepId];
+      const destination =
+        action.target ??
+        (isConditionalTransition(step?.next)
+          ? matchTransition(step.next, state.context)
+          : Array.isArray(step?.next) && resolver
+            ? validateResolvedStep(
+                resolver(state.context),
+                step.next,
+                state.stepId,
+              )
+            : top.stepId);
+
+      // Resolver (or conditions) chose to stay on the current step
+      if (destination === undefined) return state;
+
+      // The context now resolves to a different branch - the stack is stale
+      if (destination !== top.stepId) {
+        return { ...state, forwardStack: undefined };
+      }
+
+      return reduceFlow(
+        state,
+        { type: top.action === "skip" ? "SKIP" : "NEXT", target: top.stepId },
+        definition,
+        options,
+      );
+    }
+
+    case "REPEAT": {
+      const loop = definition.steps[state.stepId]?.loop;
+      if (!loop) {
+        if (process.env.NODE_ENV !== "production") {
+          console.warn(
+            `Cannot repeat step "${state.stepId}": it isn't a looping step`,
+          );
+        }
+        return state;
+      }
+
+      const iteration = state.path[state.path.length - 1]?.iteration ?? 0;
+
+      // Update is scoped to the item of the iteration being finished
+      const updatedContext = action.update
+        ? updateLoopItem(state.context, loop, iteration, action.update)
+        : state.context;
+
+      if (loop.max !== undefined && iteration + 1 >= loop.max) {
+        if (process.env.NODE_ENV !== "production") {
+          console.warn(
+            `Step "${state.stepId}" can repeat at most ${loop.max} times`,
+          );
+        }
+        return action.update !== undefined
+          ? { ...state, context: updatedContext }
+          : state;
+      }
+
+      const now = getNow(options);
+
+      // Complete the current iteration by marking it as repeated
+      const completedHistory = state.history.map((entry, index) => {
+        if (index === state.history.length - 1) {
+          return {
+            ...entry,
+            completedAt: now,
+            action: "repeat" as const,
+          };
+        }
+        return entry;
+      });
+
+      const completedPath = state.path.map((entry, index) => {
+        if (index === state.path.length - 1) {
+          return {
+            ...entry,
+            completedAt: now,
+            action: "repeat" as const,
+          };
+        }
+        return entry;
+      });
+
+      // Start the next iteration (started but not completed yet)
+      const nextEntry = createEntry(
+        state.stepId,
+        now,
+        definition,
+        iteration + 1,
+      );
+
+      return {
+        ...state,
+        context: withLoopItem(updatedContext, loop, iteration + 1),
+        path: [...completedPath, nextEntry],
+        history: [...completedHistory, nextEntry],
+        forwardStack: popForwardStack(state.forwardStack, state.stepId),
+      };
+    }
+
+    case "SET_ITEM": {
+      const loop = definition.steps[state.stepId]?.loop;
+      if (!loop) {
+        if (process.env.NODE_ENV !== "production") {
+          console.warn(
+            `Cannot set item: step "${state.stepId}" isn't a looping step`,
+          );
+        }
+        return state;
+      }
+
+      const updatedState = {
+        ...state,
+        context: updateLoopItem(
+          state.context,
+          loop,
+          state.path[state.path.length - 1]?.iteration ?? 0,
+          action.update,
+        ),
       };
+      return state.errors
+        ? withStepErrors(updatedState, options)
+        : updatedState;
+    }
+
+    case "SELECT_BRANCH": {
+      // Only parallel steps have branches (handled by reduceParallel)
+      if (process.env.NODE_ENV !== "production") {
+        console.warn(
+          `Cannot select branch "${action.branch}": step "${state.stepId}" is not a parallel step`,
+        );
+      }
+      return state;
+    }
+
+    case "UNDO":
+    case "REDO": {
+      return moveUndo(state, action.type);
     }
 
     case "RESTORE": {
@@ -441,7 +1930,7 @@ export function flowReducer<TContext extends FlowContext>(
     case "RESET": {
       // Reset to initial state - use the definition's start step
       // and the provided initial context
-      return createInitialState(definition, action.initialContext);
+      return createInitialState(definition, action.initialContext, options);
     }
 
     default: {
@@ -8,7 +8,14 @@
  * while still supporting runtime behaviors in client applications.
  */
 
-import type { FlowContext, FlowDefinition, PersistedFlowState } from "./types";
+import type { ContextSchema } from "./schema";
+import type {
+  FlowContext,
+  FlowDefinition,
+  NavigationAction,
+  PersistedFlowState,
+  StepErrors,
+} from "./types";
 
 /**
  * Migration function to transform persisted state from old versions
@@ -43,15 +50,22 @@ export type MigrateFunction<TContext extends FlowContext = FlowContext> = (
  * When a step has multiple possible next steps (array), this function
  * determines which step to navigate to based on the current context
  *
+ * Resolvers can be async (e.g. "is this company already registered?").
+ * While an async resolver runs, the flow reports a transition in flight,
+ * and navigating again cancels the pending result.
+ *
  * @param context - Current flow context
  * @returns One of the step names from the next array, or undefined to stay on current step
+ *   (or a Promise of either)
  *
  * @see defineFlow() for usage examples
  */
 export type ResolveFunction<
   TContext extends FlowContext = FlowContext,
   TNextSteps extends string = string,
-> = (context: TContext) => TNextSteps | undefined;
+> = (
+  context: TContext,
+) => TNextSteps | undefined | Promise<TNextSteps | undefined>;
 
 /**
  * Runtime resolver map - looser type used internally by the reducer
@@ -62,7 +76,8 @@ export type RuntimeResolverMap<TContext extends FlowContext = FlowContext> =
 
 /**
  * Type-safe resolver map for flow definitions
- * Only steps with array-based next transitions need resolvers
+ * Only steps with array-based next transitions need resolvers (steps with
+ * conditional transitions are resolved by their conditions)
  *
  * Each resolver is constrained to return only the valid next steps defined
  * for that specific step in the flow configuration.
@@ -78,12 +93,206 @@ export type ResolverMap<
   TContext extends FlowContext = FlowContext,
 > = {
   [K in keyof TSteps]?: TSteps[K] extends { next: infer N }
-    ? N extends readonly (infer E)[]
-      ? (context: TContext) => (E & string) | undefined
+    ? N extends readonly string[]
+      ? ResolveFunction<TContext, N[number]>
       : never
     : never;
 };
 
+/**
+ * Event passed to step guards
+ * Describes the transition that is about to be committed
+ */
+export type GuardEvent<TContext extends FlowContext = FlowContext> = {
+  /** Step the user is leaving */
+  from: string;
+  /** Step the user is about to enter */
+  to: string;
+  /** How the user is leaving the current step */
+  action: NavigationAction;
+  /** Context after the action's update has been applied */
+  context: TContext;
+};
+
+/**
+ * Result of a guard check
+ * - true: allow the transition
+ * - false: block the transition (user stays on the current step)
+ * - { redirect }: navigate to a different next step of the current step instead
+ *
+ * Redirects are only supported for forward navigation (next/skip).
+ * The redirect target must be one of the current step's next destinations.
+ */
+export type GuardResult<TStepNames extends string = string> =
+  | boolean
+  | { redirect: TStepNames };
+
+/**
+ * Guard function - can be sync or async
+ * Throwing (or rejecting) blocks the transition and reports the error
+ *
+ * @see defineFlow() for usage examples
+ */
+export type GuardFunction<
+  TContext extends FlowContext = FlowContext,
+  TStepNames extends string = string,
+> = (
+  event: GuardEvent<TContext>,
+) => GuardResult<TStepNames> | Promise<GuardResult<TStepNames>>;
+
+/**
+ * Guards for a single step
+ * - canLeave: checked before leaving the step (next, skip or back)
+ * - canEnter: checked before entering the step
+ */
+export type StepGuards<
+  TContext extends FlowContext = FlowContext,
+  TStepNames extends string = string,
+> = {
+  canEnter?: GuardFunction<TContext, TStepNames>;
+  canLeave?: GuardFunction<TContext, TStepNames>;
+};
+
+/**
+ * Runtime guard map - looser type used internally by the runtime
+ */
+export type RuntimeGuardMap<TContext extends FlowContext = FlowContext> =
+  Record<string, StepGuards<TContext, string>>;
+
+/**
+ * Type-safe guard map for flow definitions
+ * Any step can declare canEnter/canLeave guards, redirects are narrowed to step names
+ *
+ * @see defineFlow() for usage examples
+ */
+export type GuardMap<
+  // biome-ignore lint/suspicious/noExplicitAny: Generic constraint allows any step definition shape
+  TSteps extends Record<string, any> = Record<string, any>,
+  TContext extends FlowContext = FlowContext,
+> = {
+  [K in keyof TSteps]?: StepGuards<TContext, keyof TSteps & string>;
+};
+
+/**
+ * Skip condition - when it returns true the step is skipped automatically
+ * Evaluated (synchronously) while resolving the next step and when navigating back
+ *
+ * @param context - Current flow context
+ * @returns Whether the step should be passed over
+ *
+ * @see defineFlow() for usage examples
+ */
+export type SkipCondition<TContext extends FlowContext = FlowContext> = (
+  context: TContext,
+) => boolean;
+
+/**
+ * Runtime skip condition map - looser type used internally by the reducer
+ */
+export type RuntimeSkipConditionMap<
+  TContext extends FlowContext = FlowContext,
+> = Record<string, SkipCondition<TContext>>;
+
+/**
+ * Type-safe skip condition map for flow definitions
+ * Any step can declare a skip condition (the start step is never skipped)
+ *
+ * @see defineFlow() for usage examples
+ */
+export type SkipConditionMap<
+  // biome-ignore lint/suspicious/noExplicitAny: Generic constraint allows any step definition shape
+  TSteps extends Record<string, any> = Record<string, any>,
+  TContext extends FlowContext = FlowContext,
+> = {
+  [K in keyof TSteps]?: SkipCondition<TContext>;
+};
+
+/**
+ * Step validator - checks the context a step must produce before it is left
+ * Runs (synchronously) on next() and skip(), after the action's context update
+ *
+ * @param context - Flow context including the update passed to next()/skip()
+ * @returns Field errors, or undefined (or an empty object) when the step is valid
+ *
+ * @see defineFlow() for usage examples
+ */
+export type StepValidator<TContext extends FlowContext = FlowContext> = (
+  context: TContext,
+) => StepErrors | null | undefined;
+
+/**
+ * Runtime validator map - looser type used internally by the reducer
+ */
+export type RuntimeValidatorMap<TContext extends FlowContext = FlowContext> =
+  Record<string, StepValidator<TContext>>;
+
+/**
+ * Type-safe validator map for flow definitions
+ * Any step can declare a validator
+ *
+ * @see defineFlow() for usage examples
+ */
+export type ValidatorMap<
+  // biome-ignore lint/suspicious/noExplicitAny: Generic constraint allows any step definition shape
+  TSteps extends Record<string, any> = Record<string, any>,
+  TContext extends FlowContext = FlowContext,
+> = {
+  [K in keyof TSteps]?: StepValidator<TContext>;
+};
+
+/**
+ * Sub-flow configuration - how a child flow runs inside a parent step
+ *
+ * @see defineFlow() for usage examples
+ */
+export type SubFlowConfig<TContext extends FlowContext = FlowContext> = {
+  /** Child flow returned by defineFlow() (its runtime config is used for the child) */
+  // biome-ignore lint/suspicious/noExplicitAny: Child flows can use any context type
+  flow: RuntimeFlowDefinition<FlowDefinition, any>;
+  /**
+   * Maps the parent context to the child's initial context
+   * Defaults to passing the parent context as-is
+   */
+  input?: (context: TContext) => FlowContext;
+  /**
+   * Maps the child's final context back into the parent context
+   * Defaults to shallow merging the child context into the parent context
+   */
+  output?: (context: TContext, childContext: FlowContext) => TContext;
+};
+
+/**
+ * Runtime sub-flow map - keyed by child flow id
+ */
+export type RuntimeSubFlowMap<TContext extends FlowContext = FlowContext> =
+  Record<string, SubFlowConfig<TContext>>;
+
+/**
+ * Extract child flow ids referenced by steps (step.flow and parallel branches)
+ */
+export type SubFlowIds<TSteps> = {
+  [K in keyof TSteps]: TSteps[K] extends { flow: infer F extends string }
+    ? F
+    : TSteps[K] extends {
+          parallel: { branches: readonly (infer B extends string)[] };
+        }
+      ? B
+      : never;
+}[keyof TSteps];
+
+/**
+ * Type-safe sub-flow map - every child flow id referenced by a step must be provided
+ *
+ * @see defineFlow() for usage examples
+ */
+export type SubFlowMap<
+  // biome-ignore lint/suspicious/noExplicitAny: Generic constraint allows any step definition shape
+  TSteps extends Record<string, any> = Record<string, any>,
+  TContext extends FlowContext = FlowContext,
+> = {
+  [K in SubFlowIds<TSteps>]: SubFlowConfig<TContext>;
+};
+
 /**
  * Step references object - provides type-safe references to step names
  * Each step becomes a property with its name as both key and value
@@ -104,7 +313,8 @@ export type StepRefs<TSteps extends Record<string, unknown>> = {
  * Callback that receives type-safe step references and returns runtime behaviors
  *
  * @param steps - Object with step names as properties (for type-safe references)
- * @returns Runtime configuration with migration and/or resolvers
+ * @returns Runtime configuration with migration, resolvers, guards, skip conditions,
+ *   validators, sub-flows and/or a context schema
  *
  * @see defineFlow() for usage examples
  */
@@ -114,6 +324,16 @@ export type FlowRuntimeConfig<
 > = (steps: StepRefs<TDefinition["steps"]>) => {
   migration?: MigrateFunction<TContext>;
   resolvers?: ResolverMap<TDefinition["steps"], TContext>;
+  guards?: GuardMap<TDefinition["steps"], TContext>;
+  skipConditions?: SkipConditionMap<TDefinition["steps"], TContext>;
+  /** Field checks a step must pass before next() or skip() leaves it */
+  validators?: ValidatorMap<TDefinition["steps"], TContext>;
+  subFlows?: SubFlowMap<TDefinition["steps"], TContext>;
+  /**
+   * Standard Schema (Zod, Valibot, ArkType, ...) the context must match
+   * Validates the initial context, every context update and restored state
+   */
+  schema?: ContextSchema<TContext>;
 };
 
 /**
@@ -123,7 +343,7 @@ export type FlowRuntimeConfig<
  *
  * @property id - Flow identifier
  * @property config - Pure, JSON-serializable flow definition (can be sent to server)
- * @property runtimeConfig - Client-side runtime behaviors (migrate, resolvers)
+ * @property runtimeConfig - Client-side runtime behaviors (migrate, resolvers, guards, skip conditions, validators, sub-flows, schema)
  */
 export type RuntimeFlowDefinition<
   TDefinition extends FlowDefinition,
@@ -134,5 +354,10 @@ export type RuntimeFlowDefinition<
   runtimeConfig?: {
     migration?: MigrateFunction<TContext>;
     resolvers?: ResolverMap<TDefinition["steps"], TContext>;
+    guards?: GuardMap<TDefinition["steps"], TContext>;
+    skipConditions?: SkipConditionMap<TDefinition["steps"], TContext>;
+    validators?: ValidatorMap<TDefinition["steps"], TContext>;
+    subFlows?: SubFlowMap<TDefinition["steps"], TContext>;
+    schema?: ContextSchema<TContext>;
   };
 };
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import {
+  type ContextSchema,
+  formatIssues,
+  type StandardSchemaV1,
+  validateContext,
+} from "./schema";
+
+const schema: ContextSchema<{ name: string }> = {
+  "~standard": {
+    version: 1,
+    vendor: "test",
+    validate: (value) => {
+      const { name } = value as { name?: unknown };
+      return typeof name === "string"
+        ? { value: { name: name.trim() } }
+        : { issues: [{ message: "Expected string", path: ["name"] }] };
+    },
+  },
+};
+
+describe("validateContext", () => {
+  it("should return the schema's output", () => {
+    expect(validateContext(schema, { name: " Ada " })).toEqual({
+      value: { name: "Ada" },
+    });
+  });
+
+  it("should return the schema's issues", () => {
+    expect(validateContext(schema, { name: 1 }).issues).toEqual([
+      { message: "Expected string", path: ["name"] },
+    ]);
+  });
+
+  it("should throw for async schemas", () => {
+    const asyncSchema: ContextSchema = {
+      "~standard": {
+        version: 1,
+        vendor: "test",
+        validate: async (value) => ({ value: value as object }),
+      },
+    };
+
+    expect(() => validateContext(asyncSchema, {})).toThrow(
+      "Context schema validated asynchronously",
+    );
+  });
+});
+
+describe("formatIssues", () => {
+  it("should prefix messages with their path", () => {
+    const issues: StandardSchemaV1.Issue[] = [
+      { message: "Required", path: ["address", { key: "city" }] },
+      { message: "Invalid context" },
+    ];
+
+    expect(formatIssues(issues)).toBe(
+      "address.city: Required, Invalid context",
+    );
+  });
+});
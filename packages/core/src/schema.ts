@@ -0,0 +1,112 @@
+/**
+ * Context schemas
+ *
+ * Flows can validate their context with any schema library that implements
+ * Standard Schema (https://standardschema.dev) - e.g. Zod, Valibot or ArkType.
+ * The interface is copied from the spec (as it recommends), so core stays
+ * free of dependencies.
+ */
+
+import type { FlowContext } from "./types";
+
+/**
+ * The Standard Schema interface (v1)
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly "~standard": StandardSchemaV1.Props<Input, Output>;
+}
+
+export declare namespace StandardSchemaV1 {
+  export interface Props<Input = unknown, Output = Input> {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown,
+    ) => Result<Output> | Promise<Result<Output>>;
+    readonly types?: Types<Input, Output> | undefined;
+  }
+
+  export type Result<Output> = SuccessResult<Output> | FailureResult;
+
+  export interface SuccessResult<Output> {
+    readonly value: Output;
+    readonly issues?: undefined;
+  }
+
+  export interface FailureResult {
+    readonly issues: ReadonlyArray<Issue>;
+  }
+
+  export interface Issue {
+    readonly message: string;
+    readonly path?: ReadonlyArray<PropertyKey | PathSegment> | undefined;
+  }
+
+  export interface PathSegment {
+    readonly key: PropertyKey;
+  }
+
+  export interface Types<Input = unknown, Output = Input> {
+    readonly input: Input;
+    readonly output: Output;
+  }
+}
+
+/**
+ * Schema for a flow's context (its output is the context type)
+ */
+export type ContextSchema<TContext extends FlowContext = FlowContext> =
+  StandardSchemaV1<unknown, TContext>;
+
+/**
+ * Reported when a context doesn't match the flow's schema
+ */
+export type ContextValidationEvent = {
+  /**
+   * What was validated
+   * - "initialContext": the initial context (reported when the flow starts)
+   * - "update": a context change - the action was not applied
+   * - "restore": a state passed to restore() - it was not applied
+   */
+  source: "initialContext" | "update" | "restore";
+  /** The context that failed validation */
+  context: FlowContext;
+  issues: readonly StandardSchemaV1.Issue[];
+};
+
+/**
+ * Validates a context with a schema
+ * @param schema - Standard Schema for the context
+ * @param context - Context to validate
+ * @returns The schema's output (e.g. with defaults applied), or its issues
+ * @throws Error if the schema validates asynchronously (context updates are synchronous)
+ */
+export function validateContext<TContext extends FlowContext>(
+  schema: ContextSchema<TContext>,
+  context: unknown,
+): StandardSchemaV1.Result<TContext> {
+  const result = schema["~standard"].validate(context);
+  if (result instanceof Promise) {
+    throw new Error(
+      "Context schema validated asynchronously. " +
+        "Flow context updates are synchronous - use a schema without async refinements",
+    );
+  }
+  return result;
+}
+
+/**
+ * Formats schema issues as "path: message" (joined with ", ")
+ */
+export function formatIssues(issues: readonly StandardSchemaV1.Issue[]) {
+  return issues
+    .map((issue) => {
+      const path = issue.path
+        ?.map((segment) =>
+          String(typeof segment === "object" ? segment.key : segment),
+        )
+        .join(".");
+      return path ? `${path}: ${issue.message}` : issue.message;
+    })
+    .join(", ");
+}
@@ -0,0 +1,510 @@
+import { describe, expect, it, vi } from "vitest";
+import { defineFlow } from "./define-flow";
+import { createInitialState, flowReducer } from "./reducer";
+import {
+  checkGuards,
+  getPendingTransition,
+  guardNavigation,
+  resolveNavigationTarget,
+} from "./transitions";
+
+const definition = {
+  id: "test",
+  start: "profile",
+  steps: {
+    profile: { next: "verification" },
+    verification: { next: ["complete", "support"] },
+    complete: {},
+    support: {},
+  },
+};
+
+describe("resolveNavigationTarget", () => {
+  const atVerification = () =>
+    flowReducer(
+      createInitialState(definition, { verified: false }),
+      { type: "NEXT" },
+      definition,
+    );
+
+  it("should return actions that don't need a resolver unchanged", () => {
+    const state = atVerification();
+    const withTarget = { type: "NEXT" as const, target: "complete" };
+
+    expect(resolveNavigationTarget(state, withTarget, definition)).toBe(
+      withTarget,
+    );
+
+    const back = { type: "BACK" as const };
+    expect(resolveNavigationTarget(state, back, definition)).toBe(back);
+  });
+
+  it("should resolve synchronous resolvers to an explicit target", () => {
+    const resolver = vi.fn(() => "support" as const);
+
+    const action = resolveNavigationTarget(
+      atVerification(),
+      { type: "SKIP", update: { verified: true } },
+      definition,
+      { resolvers: { verification: resolver } },
+    );
+
+    expect(action).toEqual({
+      type: "SKIP",
+      target: "support",
+      update: { verified: true },
+    });
+    // Resolver receives the updated context
+    expect(resolver).toHaveBeenCalledWith({ verified: true });
+  });
+
+  it("should resolve async resolvers", async () => {
+    const action = resolveNavigationTarget(
+      atVerification(),
+      { type: "NEXT" },
+      definition,
+      { resolvers: { verification: async () => "complete" } },
+    );
+
+    expect(action).toBeInstanceOf(Promise);
+    await expect(action).resolves.toEqual({ type: "NEXT", target: "complete" });
+  });
+
+  it("should only apply the update when the resolver returns undefined", async () => {
+    const state = atVerification();
+    const options = { resolvers: { verification: async () => undefined } };
+
+    await expect(
+      resolveNavigationTarget(state, { type: "NEXT" }, definition, options),
+    ).resolves.toBeNull();
+    await expect(
+      resolveNavigationTarget(
+        state,
+        { type: "NEXT", update: { verified: true } },
+        definition,
+        options,
+      ),
+    ).resolves.toEqual({ type: "SET_CONTEXT", update: { verified: true } });
+  });
+
+  it("should reject when an async resolver returns a step not in next array", async () => {
+    await expect(
+      resolveNavigationTarget(atVerification(), { type: "NEXT" }, definition, {
+        resolvers: { verification: async () => "profile" },
+      }),
+    ).rejects.toThrow(
+      'resolver() returned "profile" which is not in next array: [complete, support] for step "verification"',
+    );
+  });
+
+  it("should reject when an async resolver rejects", async () => {
+    await expect(
+      resolveNavigationTarget(atVerification(), { type: "NEXT" }, definition, {
+        resolvers: {
+          verification: () => Promise.reject(new Error("API unavailable")),
+        },
+      }),
+    ).rejects.toThrow("API unavailable");
+  });
+
+  it("should pre-resolve the destination of forward actions", async () => {
+    let state = flowReducer(
+      atVerification(),
+      { type: "NEXT", target: "support" },
+      definition,
+    );
+    state = flowReducer(state, { type: "BACK" }, definition);
+
+    await expect(
+      resolveNavigationTarget(state, { type: "FORWARD" }, definition, {
+        resolvers: { verification: async () => "support" },
+      }),
+    ).resolves.toEqual({ type: "FORWARD", target: "support" });
+  });
+
+  it("should use the child flow's resolvers when a sub-flow is active", () => {
+    const parent = {
+      id: "parent",
+      start: "review",
+      steps: { review: { flow: "test", next: "done" }, done: {} },
+    };
+    const options = {
+      subFlows: {
+        test: {
+          flow: defineFlow(definition).with(() => ({
+            resolvers: { verification: () => "support" },
+          })),
+        },
+      },
+    };
+    const state = flowReducer(
+      createInitialState(parent, {}, options),
+      { type: "NEXT" },
+      parent,
+      options,
+    );
+
+    expect(
+      resolveNavigationTarget(state, { type: "NEXT" }, parent, options),
+    ).toEqual({ type: "NEXT", target: "support" });
+  });
+});
+
+describe("getPendingTransition", () => {
+  it("should describe a forward transition", () => {
+    const state = createInitialState(definition, { name: "" });
+
+    const transition = getPendingTransition(
+      state,
+      { type: "NEXT", update: { name: "Ada" } },
+      definition,
+    );
+
+    expect(transition).toEqual({
+      from: "profile",
+      to: "verification",
+      action: "next",
+      context: { name: "Ada" },
+    });
+  });
+
+  it("should describe skip and back transitions", () => {
+    let state = createInitialState(definition, {});
+    expect(getPendingTransition(state, { type: "SKIP" }, definition)).toEqual(
+      expect.objectContaining({ to: "verification", action: "skip" }),
+    );
+
+    state = flowReducer(state, { type: "NEXT" }, definition);
+    expect(getPendingTransition(state, { type: "BACK" }, definition)).toEqual(
+      expect.objectContaining({
+        from: "verification",
+        to: "profile",
+        action: "back",
+      }),
+    );
+  });
+
+  it("should use resolvers to determine the destination", () => {
+    let state = createInitialState(definition, { verified: false });
+    state = flowReducer(state, { type: "NEXT" }, definition);
+
+    const transition = getPendingTransition(
+      state,
+      { type: "NEXT" },
+      definition,
+      {
+        resolvers: {
+          verification: (ctx) => (ctx.verified ? "complete" : "support"),
+        },
+      },
+    );
+
+    expect(transition?.to).toBe("support");
+  });
+
+  it("should describe goto transitions", () => {
+    let state = createInitialState(definition, {});
+    state = flowReducer(state, { type: "NEXT" }, definition);
+
+    expect(
+      getPendingTransition(
+        state,
+        { type: "GOTO", target: "profile" },
+        definition,
+      ),
+    ).toEqual(
+      expect.objectContaining({
+        from: "verification",
+        to: "profile",
+        action: "goto",
+      }),
+    );
+  });
+
+  it("should return null when the action doesn't change step", () => {
+    const state = createInitialState(definition, {});
+
+    expect(
+      getPendingTransition(state, { type: "BACK" }, definition),
+    ).toBeNull();
+    expect(
+      getPendingTransition(
+        state,
+        { type: "SET_CONTEXT", update: { name: "Ada" } },
+        definition,
+      ),
+    ).toBeNull();
+  });
+});
+
+describe("checkGuards", () => {
+  const transition = {
+    from: "verification",
+    to: "complete",
+    action: "next" as const,
+    context: { verified: true },
+  };
+
+  it("should allow transitions without guards", () => {
+    expect(checkGuards(transition, definition)).toEqual({ allowed: true });
+    expect(checkGuards(transition, definition, {})).toEqual({ allowed: true });
+  });
+
+  it("should run canLeave before canEnter", () => {
+    const calls: string[] = [];
+
+    const decision = checkGuards(transition, definition, {
+      verification: {
+        canLeave: () => {
+          calls.push("canLeave");
+          return true;
+        },
+      },
+      complete: {
+        canEnter: () => {
+          calls.push("canEnter");
+          return true;
+        },
+      },
+    });
+
+    expect(decision).toEqual({ allowed: true });
+    expect(calls).toEqual(["canLeave", "canEnter"]);
+  });
+
+  it("should pass the transition to guards", () => {
+    const canEnter = vi.fn(() => true);
+
+    checkGuards(transition, definition, { complete: { canEnter } });
+
+    expect(canEnter).toHaveBeenCalledWith(transition);
+  });
+
+  it("should return synchronously when guards are synchronous", () => {
+    const decision = checkGuards(transition, definition, {
+      verification: { canLeave: () => false },
+    });
+
+    expect(decision).not.toBeInstanceOf(Promise);
+    expect(decision).toEqual({
+      allowed: false,
+      rejection: {
+        from: "verification",
+        to: "complete",
+        action: "next",
+        stepId: "verification",
+        guard: "canLeave",
+        error: undefined,
+      },
+    });
+  });
+
+  it("should not run canEnter when canLeave blocks", () => {
+    const canEnter = vi.fn(() => true);
+
+    checkGuards(transition, definition, {
+      verification: { canLeave: () => false },
+      complete: { canEnter },
+    });
+
+    expect(canEnter).not.toHaveBeenCalled();
+  });
+
+  it("should await async guards", async () => {
+    const decision = checkGuards(transition, definition, {
+      verification: { canLeave: async () => true },
+      complete: { canEnter: async () => false },
+    });
+
+    expect(decision).toBeInstanceOf(Promise);
+    await expect(decision).resolves.toEqual({
+      allowed: false,
+      rejection: expect.objectContaining({
+        stepId: "complete",
+        guard: "canEnter",
+      }),
+    });
+  });
+
+  it("should report thrown and rejected errors", async () => {
+    const thrown = checkGuards(transition, definition, {
+      complete: {
+        canEnter: () => {
+          throw new Error("Network down");
+        },
+      },
+    });
+    expect(thrown).toEqual({
+      allowed: false,
+      rejection: expect.objectContaining({ error: new Error("Network down") }),
+    });
+
+    const rejected = await checkGuards(transition, definition, {
+      complete: { canEnter: () => Promise.reject("timeout") },
+    });
+    expect(rejected).toEqual({
+      allowed: false,
+      rejection: expect.objectContaining({ error: new Error("timeout") }),
+    });
+  });
+
+  it("should allow redirects to other next steps", () => {
+    const decision = checkGuards(transition, definition, {
+      complete: {
+        canEnter: ({ context }) =>
+          context.verified ? { redirect: "support" } : true,
+      },
+    });
+
+    expect(decision).toEqual({ allowed: true, redirect: "support" });
+  });
+
+  it("should run the canEnter guard of the redirect target", async () => {
+    const decision = checkGuards(transition, definition, {
+      complete: { canEnter: () => ({ redirect: "support" }) },
+      support: { canEnter: () => false },
+    });
+
+    expect(decision).toEqual({
+      allowed: false,
+      rejection: expect.objectContaining({
+        from: "verification",
+        to: "support",
+        stepId: "support",
+        guard: "canEnter",
+      }),
+    });
+
+    const redirected = await checkGuards(transition, definition, {
+      verification: { canLeave: () => ({ redirect: "support" }) },
+      support: { canEnter: async () => true },
+    });
+    expect(redirected).toEqual({ allowed: true, redirect: "support" });
+  });
+
+  it("should reject redirect loops", () => {
+    const decision = checkGuards(transition, definition, {
+      complete: { canEnter: () => ({ redirect: "support" }) },
+      support: { canEnter: () => ({ redirect: "complete" }) },
+    });
+
+    expect(decision).toEqual({
+      allowed: false,
+      rejection: expect.objectContaining({
+        stepId: "support",
+        error: expect.objectContaining({
+          message: expect.stringContaining(
+            "redirected in a loop: complete → support → complete",
+          ),
+        }),
+      }),
+    });
+  });
+
+  it("should reject redirects outside the next steps", () => {
+    const decision = checkGuards(transition, definition, {
+      complete: { canEnter: () => ({ redirect: "profile" }) },
+    });
+
+    expect(decision).toEqual({
+      allowed: false,
+      rejection: expect.objectContaining({
+        stepId: "complete",
+        error: expect.objectContaining({
+          message: expect.stringContaining('redirected to "profile"'),
+        }),
+      }),
+    });
+  });
+
+  it("should reject redirects during goto navigation", () => {
+    const decision = checkGuards(
+      { ...transition, to: "profile", action: "goto" },
+      definition,
+      { profile: { canEnter: () => ({ redirect: "support" }) } },
+    );
+
+    expect(decision).toEqual({
+      allowed: false,
+      rejection: expect.objectContaining({
+        guard: "canEnter",
+        error: expect.objectContaining({
+          message: expect.stringContaining("cannot redirect goto navigation"),
+        }),
+      }),
+    });
+  });
+
+  it("should reject redirects during back navigation", () => {
+    const decision = checkGuards(
+      { ...transition, to: "profile", action: "back" },
+      definition,
+      { verification: { canLeave: () => ({ redirect: "support" }) } },
+    );
+
+    expect(decision).toEqual({
+      allowed: false,
+      rejection: expect.objectContaining({
+        guard: "canLeave",
+        error: expect.objectContaining({
+          message: expect.stringContaining("cannot redirect back navigation"),
+        }),
+      }),
+    });
+  });
+});
+
+describe("guardNavigation", () => {
+  const parent = {
+    id: "parent",
+    start: "review",
+    steps: { review: { flow: "test", next: "done" }, done: {} },
+  };
+
+  it("should run the child flow's guards while a sub-flow is active", () => {
+    const canLeave = vi.fn(() => false);
+    const options = {
+      subFlows: {
+        test: {
+          flow: defineFlow(definition).with(() => ({
+            guards: { profile: { canLeave } },
+          })),
+        },
+      },
+      guards: { review: { canLeave: () => true } },
+    };
+    const state = createInitialState(parent, {}, options);
+
+    expect(
+      guardNavigation(state, { type: "NEXT" }, parent, options),
+    ).toMatchObject({
+      allowed: false,
+      rejection: { from: "profile", to: "verification", guard: "canLeave" },
+    });
+    expect(canLeave).toHaveBeenCalledTimes(1);
+  });
+
+  it("should run this flow's guards when leaving the sub-flow", () => {
+    const options = {
+      subFlows: { test: { flow: defineFlow(definition) } },
+      guards: { done: { canEnter: () => false } },
+    };
+    let state = createInitialState(parent, {}, options);
+    for (const target of ["verification", "complete"]) {
+      state = flowReducer(state, { type: "NEXT", target }, parent, options);
+    }
+
+    expect(
+      guardNavigation(state, { type: "NEXT" }, parent, options),
+    ).toMatchObject({
+      allowed: false,
+      rejection: { from: "review", to: "done", guard: "canEnter" },
+    });
+  });
+
+  it("should return null when the action doesn't change step", () => {
+    const state = createInitialState(definition, {});
+
+    expect(guardNavigation(state, { type: "BACK" }, definition)).toBeNull();
+  });
+});
@@ -0,0 +1,395 @@
+/**
+ * Transition utilities
+ *
+ * The reducer is pure and synchronous, so work that may be async (resolvers,
+ * guards) runs before an action is dispatched. These helpers are
+ * framework-agnostic and are used by framework adapters to decide whether
+ * and how to commit an action.
+ */
+
+import { isConditionalTransition } from "./conditions";
+import {
+  applyContextUpdate,
+  canGoForward,
+  canGoTo,
+  canNavigateBack,
+  type FlowReducerOptions,
+  flowReducer,
+  getActiveSubFlow,
+  getNextStepIds,
+  validateResolvedStep,
+  validateStep,
+} from "./reducer";
+import type { GuardEvent, GuardResult, RuntimeGuardMap } from "./runtime";
+import type {
+  FlowAction,
+  FlowContext,
+  FlowDefinition,
+  FlowState,
+  NavigationAction,
+} from "./types";
+import { isPromiseLike } from "./utils";
+
+/**
+ * Transition that an action would perform if committed
+ */
+export type PendingTransition<TContext extends FlowContext = FlowContext> =
+  GuardEvent<TContext>;
+
+/**
+ * Details about a transition blocked by a guard
+ */
+export type GuardRejection = {
+  from: string;
+  to: string;
+  action: NavigationAction;
+  /** Step whose guard blocked the transition */
+  stepId: string;
+  /** Which guard blocked the transition */
+  guard: "canEnter" | "canLeave";
+  /** Error thrown by the guard, or raised for an invalid redirect */
+  error?: Error;
+};
+
+/**
+ * Outcome of running the guards for a transition
+ * - allowed: commit the action (optionally redirected to another next step)
+ * - rejected: keep the user on the current step
+ */
+export type GuardDecision =
+  | { allowed: true; redirect?: string }
+  | { allowed: false; rejection: GuardRejection };
+
+const navigationActions = {
+  NEXT: "next",
+  SKIP: "skip",
+  BACK: "back",
+  GOTO: "goto",
+  FORWARD: "next",
+} as const satisfies Partial<Record<FlowAction["type"], NavigationAction>>;
+
+/**
+ * Resolves the destination of a next/skip/forward action before it is dispatched
+ *
+ * Calls the step's resolver (which may be async) and returns the action with
+ * an explicit target, so the reducer never has to await. Actions that don't
+ * need a resolver are returned unchanged. When a sub-flow (or parallel
+ * branch) is active, the child flow's resolvers are used.
+ *
+ * @param state - Current flow state
+ * @param action - Action about to be dispatched
+ * @param definition - Flow definition
+ * @param options - Runtime configuration used by the reducer
+ * @returns The action to dispatch (null if there is nothing to dispatch),
+ *   or a promise of it if the resolver is async
+ * @throws Error (or rejects) if the resolver fails or resolves to a step
+ *   that isn't in the next array
+ */
+export function resolveNavigationTarget<TContext extends FlowContext>(
+  state: FlowState<TContext>,
+  action: FlowAction<TContext>,
+  definition: FlowDefinition,
+  options?: FlowReducerOptions<TContext>,
+): FlowAction<TContext> | null | Promise<FlowAction<TContext> | null> {
+  if (
+    (action.type !== "NEXT" &&
+      action.type !== "SKIP" &&
+      action.type !== "FORWARD") ||
+    action.target
+  ) {
+    return action;
+  }
+
+  // Actions are routed to the innermost active flow (FORWARD only while the
+  // nested flow has steps to re-enter)
+  const subFlow = getActiveSubFlow(state, definition, options);
+  if (subFlow && (action.type !== "FORWARD" || canGoForward(subFlow.state))) {
+    return resolveNavigationTarget(
+      subFlow.state,
+      action as FlowAction,
+      subFlow.definition,
+      subFlow.options,
+    ) as FlowAction<TContext> | null | Promise<FlowAction<TContext> | null>;
+  }
+
+  const next = definition.steps[state.stepId]?.next;
+  const resolver = options?.resolvers?.[state.stepId];
+  // Conditional transitions are evaluated (synchronously) by the reducer
+  if (!Array.isArray(next) || isConditionalTransition(next) || !resolver) {
+    return action;
+  }
+  // Nothing to re-enter (FORWARD is a no-op), or re-entering the next iteration
+  // of this looping step (no destination to resolve)
+  if (
+    action.type === "FORWARD" &&
+    (state.forwardStack?.[state.forwardStack.length - 1]?.action ??
+      "repeat") === "repeat"
+  ) {
+    return action;
+  }
+
+  const update = action.type === "FORWARD" ? undefined : action.update;
+  const context = update
+    ? applyContextUpdate(state.context, update)
+    : state.context;
+
+  // A step that fails its validator stays put (the reducer records the errors)
+  if (
+    action.type !== "FORWARD" &&
+    validateStep(state.stepId, context, options)
+  ) {
+    return action;
+  }
+
+  const toAction = (resolved: unknown): FlowAction<TContext> | null => {
+    const target = validateResolvedStep(resolved, next, state.stepId);
+    if (target !== undefined) return { ...action, target };
+
+    // Resolver chose to stay on the current step - only apply the update
+    return update !== undefined ? { type: "SET_CONTEXT", update } : null;
+  };
+
+  const resolved = resolver(context);
+  if (isPromiseLike(resolved)) {
+    return Promise.resolve(resolved).then(toAction);
+  }
+  return toAction(resolved);
+}
+
+/**
+ * Computes the transition an action would perform, without committing it
+ *
+ * @param state - Current flow state
+ * @param action - Action about to be dispatched
+ * @param definition - Flow definition
+ * @param options - Runtime configuration used by the reducer
+ * @returns The pending transition, or null if the action doesn't change step
+ */
+export function getPendingTransition<TContext extends FlowContext>(
+  state: FlowState<TContext>,
+  action: FlowAction<TContext>,
+  definition: FlowDefinition,
+  options?: FlowReducerOptions<TContext>,
+): PendingTransition<TContext> | null {
+  if (!(action.type in navigationActions)) return null;
+
+  const candidate = flowReducer(state, action, definition, options);
+
+  // Same history length means the user stayed on the current step
+  if (candidate.history.length === state.history.length) return null;
+
+  return {
+    from: state.stepId,
+    to: candidate.stepId,
+    // FORWARD replays how the step was originally left (next or skip)
+    action:
+      candidate.history[state.history.length - 1]?.action ??
+      navigationActions[action.type as keyof typeof navigationActions],
+    context: candidate.context,
+  };
+}
+
+/**
+ * Whether a nested flow (sub-flow child or active parallel branch) handles a
+ * navigation action itself, mirroring how flowReducer routes it
+ */
+function isHandledByNestedFlow(nested: FlowState, action: FlowAction): boolean {
+  switch (action.type) {
+    case "BACK":
+      return canNavigateBack(nested);
+    case "GOTO":
+      return canGoTo(nested, action.target);
+    case "FORWARD":
+      return canGoForward(nested);
+    case "NEXT":
+    case "SKIP":
+      // Next/skip from a finished child leaves the nested flow
+      return nested.status !== "complete";
+    default:
+      return false;
+  }
+}
+
+/**
+ * Runs the guards for the transition an action would perform
+ *
+ * Navigation is routed to the innermost active flow (like
+ * resolveNavigationTarget()): while a sub-flow or parallel branch moves
+ * between its own steps, the transition is computed from the child's state
+ * and checked against the child flow's guards. Entering or leaving the
+ * nested flow is a transition of this flow and runs this flow's guards.
+ *
+ * @param state - Current flow state
+ * @param action - Action about to be dispatched (with its resolved target)
+ * @param definition - Flow definition
+ * @param options - Runtime configuration (guards are read from options.guards)
+ * @returns Guard decision (or a promise of one), or null if the action
+ *   doesn't change step
+ * @throws Error if computing the transition fails (e.g. a missing resolver)
+ */
+export function guardNavigation<TContext extends FlowContext>(
+  state: FlowState<TContext>,
+  action: FlowAction<TContext>,
+  definition: FlowDefinition,
+  options?: FlowReducerOptions<TContext>,
+): GuardDecision | Promise<GuardDecision> | null {
+  const subFlow = getActiveSubFlow(state, definition, options);
+  if (subFlow && isHandledByNestedFlow(subFlow.state, action as FlowAction)) {
+    return guardNavigation(
+      subFlow.state,
+      action as FlowAction,
+      subFlow.definition,
+      subFlow.options,
+    );
+  }
+
+  const transition = getPendingTransition(state, action, definition, options);
+  return transition
+    ? checkGuards(transition, definition, options?.guards)
+    : null;
+}
+
+/**
+ * Runs the canLeave guard of the current step, then the canEnter guard
+ * of the destination step
+ *
+ * A redirect runs the canEnter guard of the new destination too (which may
+ * block or redirect again). Redirecting back to a destination that was
+ * already redirected away from is rejected as a loop.
+ *
+ * Returns synchronously when every guard is synchronous, so flows without
+ * async guards navigate in the same tick.
+ *
+ * @param transition - Pending transition from getPendingTransition()
+ * @param definition - Flow definition (used to validate redirects)
+ * @param guards - Runtime guard map
+ * @returns Guard decision, or a promise of one if any guard is async
+ */
+export function checkGuards<TContext extends FlowContext>(
+  transition: PendingTransition<TContext>,
+  definition: FlowDefinition,
+  guards?: RuntimeGuardMap<TContext>,
+): GuardDecision | Promise<GuardDecision> {
+  return runGuards(
+    transition,
+    definition,
+    guards,
+    ["canLeave", "canEnter"],
+    [transition.to],
+  );
+}
+
+function runGuards<TContext extends FlowContext>(
+  transition: PendingTransition<TContext>,
+  definition: FlowDefinition,
+  guards: RuntimeGuardMap<TContext> | undefined,
+  kinds: readonly ("canLeave" | "canEnter")[],
+  destinations: readonly string[],
+): GuardDecision | Promise<GuardDecision> {
+  const checks = kinds.map((guard) => {
+    const stepId = guard === "canLeave" ? transition.from : transition.to;
+    return { stepId, guard, fn: guards?.[stepId]?.[guard] };
+  });
+  const reject = (
+    check: (typeof checks)[number],
+    error?: unknown,
+  ): GuardDecision => ({
+    allowed: false,
+    rejection: {
+      from: transition.from,
+      to: transition.to,
+      action: transition.action,
+      stepId: check.stepId,
+      guard: check.guard,
+      error:
+        error === undefined
+          ? undefined
+          : error instanceof Error
+            ? error
+            : new Error(String(error)),
+    },
+  });
+
+  const decide = (
+    index: number,
+    result: GuardResult,
+  ): GuardDecision | Promise<GuardDecision> => {
+    // biome-ignore lint/style/noNonNullAssertion: index always points to a check that ran
+    const check = checks[index]!;
+    if (result === false) return reject(check);
+    if (result === true) return run(index + 1);
+
+    if (transition.action === "back" || transition.action === "goto") {
+      return reject(
+        check,
+        new Error(
+          `${check.guard} guard of step "${check.stepId}" cannot redirect ${transition.action} navigation`,
+        ),
+      );
+    }
+
+    // Redirecting to the current destination is the same as allowing it
+    if (result.redirect === transition.to) return run(index + 1);
+
+    const allowed =
+      getNextStepIds(definition.steps[transition.from]?.next) ?? [];
+    if (!allowed.includes(result.redirect)) {
+      return reject(
+        check,
+        new Error(
+          `${check.guard} guard of step "${check.stepId}" redirected to "${result.redirect}" ` +
+            `which is not a next step of "${transition.from}". Allowed: ${allowed.join(", ")}`,
+        ),
+      );
+    }
+    if (destinations.includes(result.redirect)) {
+      return reject(
+        check,
+        new Error(
+          `${check.guard} guard of step "${check.stepId}" redirected in a loop: ` +
+            [...destinations, result.redirect].join(" → "),
+        ),
+      );
+    }
+
+    // The new destination's canEnter guard decides whether it can be entered
+    const redirect = result.redirect;
+    const toDecision = (decision: GuardDecision): GuardDecision =>
+      decision.allowed
+        ? { allowed: true, redirect: decision.redirect ?? redirect }
+        : decision;
+    const decision = runGuards(
+      { ...transition, to: redirect },
+      definition,
+      guards,
+      ["canEnter"],
+      [...destinations, redirect],
+    );
+    return isPromiseLike<GuardDecision>(decision)
+      ? Promise.resolve(decision).then(toDecision)
+      : toDecision(decision);
+  };
+
+  const run = (index: number): GuardDecision | Promise<GuardDecision> => {
+    const check = checks[index];
+    if (!check) return { allowed: true };
+    if (!check.fn) return run(index + 1);
+
+    let result: ReturnType<typeof check.fn>;
+    try {
+      result = check.fn(transition);
+    } catch (error) {
+      return reject(check, error);
+    }
+
+    if (isPromiseLike<GuardResult>(result)) {
+      return Promise.resolve(result).then(
+        (resolved) => decide(index, resolved),
+        (error) => reject(check, error),
+      );
+    }
+    return decide(index, result);
+  };
+
+  return run(0);
+}
@@ -22,8 +22,66 @@ export type ContextUpdate<TContext extends FlowContext = FlowContext> =
  * - string[]: Multiple destinations - requires either:
  *   - resolve function for context-driven navigation, OR
  *   - component calls next('target') with explicit target for component-driven navigation
+ * - ConditionalTransition[]: Destinations picked by conditions on the context
  */
-export type StepTransition = string | readonly string[];
+export type StepTransition =
+  | string
+  | readonly string[]
+  | readonly ConditionalTransition[];
+
+/**
+ * Conditional transition - JSON-expressible alternative to a resolver
+ * Transitions are checked in order: the first whose `when` matches the context
+ * (or that has no `when`) is taken. When none matches, the user stays on the step.
+ *
+ * @example
+ * ```ts
+ * next: [
+ *   { when: { "ctx.accountType": { eq: "business" } }, to: "business" },
+ *   { to: "personal" },
+ * ]
+ * ```
+ */
+export type ConditionalTransition = {
+  readonly when?: Condition;
+  readonly to: string;
+};
+
+/**
+ * JSON value allowed in step metadata
+ */
+export type StepMetaValue =
+  | string
+  | number
+  | boolean
+  | null
+  | readonly StepMetaValue[]
+  | { readonly [key: string]: StepMetaValue };
+
+/**
+ * Step metadata - JSON-serializable display information (e.g. for headers
+ * and steppers)
+ *
+ * Apps can declare their own fields with declaration merging:
+ *
+ * @example
+ * ```ts
+ * declare module "@useflow/core" {
+ *   interface StepMeta {
+ *     icon?: "user" | "card";
+ *   }
+ * }
+ * ```
+ */
+export interface StepMeta {
+  /** Human-readable step title */
+  title?: string;
+  description?: string;
+  /** Relative size of the step (e.g. for progress) */
+  weight?: number;
+  tags?: readonly string[];
+  [key: string]: StepMetaValue | undefined;
+}
 
 /**
  * Step definition - purely declarative structure
@@ -32,16 +90,137 @@ export type StepTransition = string | readonly string[];
  * Note: Resolver functions are defined separately in the runtime configuration
  * to keep this type serializable for remote configs
  */
-export type StepDefinition<TNext extends StepTransition = StepTransition> = {
+export type StepDefinition<
+  TNext extends StepTransition = StepTransition,
+  TMeta extends StepMeta = StepMeta,
+> = {
   /**
    * Next step(s) this step can navigate to
    * - string: Single destination - component calls next() with no args
    * - string[]: Multiple destinations - requires either:
    *   - Resolver function (defined in runtime config), OR
    *   - Component calls next('target') with explicit target
+   * - ConditionalTransition[]: The first destination whose condition matches
    * - undefined: Terminal step (flow complete)
    */
   next?: TNext;
+
+  /**
+   * Id of a child flow to run as this step (sub-flow)
+   * The child flow keeps its own path/history; next() on its final step
+   * advances this flow. The child definition and context mapping are provided in the
+   * runtime configuration (subFlows).
+   */
+  flow?: string;
+
+  /**
+   * Independent branches the user can complete in any order (parallel step)
+   * Each branch is a sub-flow provided in the runtime configuration (subFlows).
+   */
+  parallel?: ParallelDefinition;
+
+  /**
+   * Repeat this step once per item of a context array (looping step)
+   * Each iteration is a separate path entry, so back() moves between iterations.
+   */
+  loop?: LoopDefinition;
+
+  /**
+   * Skip this step automatically when the condition matches the context
+   * JSON-expressible form of a skip condition (see skipConditions in the
+   * runtime configuration). Steps passed over are recorded as "skip".
+   */
+  skipIf?: Condition;
+
+  /**
+   * Display information (title, description, ...) passed through to
+   * components as step.meta and steps[id].meta
+   */
+  meta?: TMeta;
+};
+
+/**
+ * Looping step configuration
+ */
+export type LoopDefinition = {
+  /**
+   * Context key of the array holding one item (object) per iteration
+   * The item for an iteration is created when the iteration starts.
+   */
+  items: string;
+  /** Iterations required before the step can be left with next/skip */
+  min?: number;
+  /** Maximum number of iterations (repeat is ignored once reached) */
+  max?: number;
+};
+
+/**
+ * Value a context field can be compared against in a condition
+ */
+export type ConditionValue = string | number | boolean | null;
+
+/**
+ * Comparisons for a single context field - all given operators must match
+ * - eq / neq: strict (in)equality
+ * - in / notIn: value is (not) one of the listed values
+ * - gt / gte / lt / lte: numeric comparison (false for non-numbers)
+ * - exists: value is (not) undefined or null
+ * - truthy: value is truthy (or falsy)
+ */
+export type FieldCondition = {
+  eq?: ConditionValue;
+  neq?: ConditionValue;
+  in?: readonly ConditionValue[];
+  notIn?: readonly ConditionValue[];
+  gt?: number;
+  gte?: number;
+  lt?: number;
+  lte?: number;
+  exists?: boolean;
+  truthy?: boolean;
+};
+
+/**
+ * JSON-expressible condition evaluated against the flow context
+ * - { "ctx.field": FieldCondition }: field comparisons (all keys must match)
+ *   Keys are dot paths starting with "ctx", e.g. "ctx.company.size"
+ * - { all: [...] } / { any: [...] } / { not: ... }: combine conditions
+ *
+ * @example
+ * ```ts
+ * { "ctx.accountType": { eq: "personal" } }
+ * { any: [{ "ctx.age": { lt: 18 } }, { "ctx.country": { notIn: ["US", "CA"] } }] }
+ * ```
+ */
+export type Condition =
+  | { readonly all: readonly Condition[] }
+  | { readonly any: readonly Condition[] }
+  | { readonly not: Condition }
+  | { readonly [path: `ctx.${string}`]: FieldCondition };
+
+/**
+ * Parallel step configuration
+ */
+export type ParallelDefinition = {
+  /** Child flow ids run as branches, in display order */
+  branches: readonly string[];
+  /**
+   * Branches that must be finished before the step continues
+   * Defaults to all branches - unfinished optional branches are dropped
+   */
+  join?: readonly string[];
+};
+
+/**
+ * State of an active parallel step
+ */
+export type ParallelState = {
+  /** Branch that receives navigation actions */
+  active: string;
+  /** Current state of each branch, keyed by branch id */
+  branches: Record<string, FlowState>;
+  /** Branches finished by leaving their final step */
+  done: string[];
 };
 
 /**
@@ -50,8 +229,10 @@ export type StepDefinition<TNext extends StepTransition = StepTransition> = {
  * - "next": Completed the step normally and moved forward
  * - "skip": Skipped the step and moved forward
  * - "back": Navigated backward to a previous step
+ * - "goto": Jumped to an earlier step on the path (e.g. from a stepper)
+ * - "repeat": Finished an iteration of a looping step and started another one
  */
-export type NavigationAction = "next" | "skip" | "back";
+export type NavigationAction = "next" | "skip" | "back" | "goto" | "repeat";
 
 /**
  * Navigation history entry tracking step visits
@@ -68,13 +249,61 @@ export type HistoryEntry = {
   completedAt?: number;
   /** How the user left this step: next or back (undefined if still on this step) */
   action?: NavigationAction;
+  /** Iteration index when the step is a looping step */
+  iteration?: number;
+};
+
+/**
+ * Journal entry - an action committed by the runtime
+ * Recorded when the runtime's journal option is enabled, see replay()
+ */
+export type JournalEntry = {
+  /** Action passed to flowReducer (function updates are stored as the value they returned) */
+  action: FlowAction;
+  /** When the action was dispatched (used for the entries it creates) */
+  timestamp: number;
+  /**
+   * The action's update came from a function, so it replaces the value it
+   * applies to instead of being merged (keys the function removed stay removed)
+   */
+  replace?: true;
 };
 
 /**
  * Path entry - same as HistoryEntry but semantically represents the navigation path
  * This is the route the user took to get to the current step (used for back navigation)
  */
-export type PathEntry = HistoryEntry;
+export type PathEntry = HistoryEntry & {
+  /**
+   * Final state of a completed sub-flow step
+   * Restored when navigating back into the step
+   */
+  child?: FlowState;
+  /** Final state of a finished parallel step (restored when navigating back into it) */
+  parallel?: ParallelState;
+};
+
+/**
+ * Step left with back() (or skipped over by goTo()) that forward() can re-enter
+ */
+export type ForwardEntry = {
+  stepId: string;
+  /** How the previous step was originally left - replayed by forward() */
+  action: "next" | "skip" | "repeat";
+};
+
+/**
+ * Context snapshots for undo() and redo() (most recent last)
+ */
+export type UndoStack<TContext extends FlowContext = FlowContext> = {
+  past: TContext[];
+  future: TContext[];
+};
+
+/**
+ * Field errors returned by a step validator, keyed by field (e.g. "email")
+ */
+export type StepErrors = Record<string, string>;
 
 /**
  * Persistable flow state - can be serialized to JSON
@@ -95,6 +324,16 @@ export type PersistedFlowState<TContext extends FlowContext = FlowContext> = {
   startedAt: number;
   /** When the flow was completed (undefined if still active) */
   completedAt?: number;
+  /** State of the active sub-flow (when the current step runs a child flow) */
+  child?: FlowState;
+  /** State of the active parallel step's branches */
+  parallel?: ParallelState;
+  /** Steps that forward() can re-enter (most recent back() last) */
+  forwardStack?: ForwardEntry[];
+  /** Actions committed since the flow started (when journaling is enabled) */
+  journal?: JournalEntry[];
+  /** Context snapshots for undo/redo (when undo is enabled) */
+  undoStack?: UndoStack<TContext>;
   __meta?: {
     savedAt?: number;
     version?: string;
@@ -167,6 +406,39 @@ export type FlowState<TContext extends FlowContext = FlowContext> = {
   startedAt: number;
   /** When the flow was completed (undefined if still active) */
   completedAt?: number;
+  /**
+   * State of the active sub-flow (when the current step runs a child flow)
+   * Navigation actions are routed to the innermost active flow
+   */
+  child?: FlowState;
+  /**
+   * State of the active parallel step's branches
+   * Navigation actions are routed to the active branch
+   */
+  parallel?: ParallelState;
+  /**
+   * Steps that forward() can re-enter, most recent back() last
+   * Kept while the user moves forward along the same steps, cleared when they
+   * take a different branch
+   */
+  forwardStack?: ForwardEntry[];
+  /**
+   * Actions committed since the flow started, recorded alongside history when
+   * the runtime's journal option is enabled - see replay()
+   */
+  journal?: JournalEntry[];
+  /**
+   * Context before (past) and after (future) the current one, for undo/redo
+   * Only tracked when the reducer's undo option is set. Each sub-flow (and
+   * parallel branch) keeps its own stack.
+   */
+  undoStack?: UndoStack<TContext>;
+  /**
+   * Field errors from the current step's validator
+   * Set when next() or skip() was rejected, cleared once the step is valid
+   * or left. Each sub-flow (and parallel branch) keeps its own errors.
+   */
+  errors?: StepErrors;
 };
 
 /**
@@ -177,6 +449,13 @@ export type FlowAction<TContext extends FlowContext = FlowContext> =
   | { type: "NEXT"; target?: string; update?: ContextUpdate<TContext> }
   | { type: "SKIP"; target?: string; update?: ContextUpdate<TContext> }
   | { type: "BACK" }
+  | { type: "GOTO"; target: string }
+  | { type: "FORWARD"; target?: string }
+  | { type: "REPEAT"; update?: ContextUpdate<FlowContext> }
   | { type: "SET_CONTEXT"; update: ContextUpdate<TContext> }
+  | { type: "SET_ITEM"; update: ContextUpdate<FlowContext> }
+  | { type: "SELECT_BRANCH"; branch: string }
+  | { type: "UNDO" }
+  | { type: "REDO" }
   | { type: "RESTORE"; state: FlowState<TContext> }
   | { type: "RESET"; initialContext: TContext };
@@ -0,0 +1,15 @@
+/**
+ * Internal helpers shared across core modules
+ */
+
+/**
+ * Checks whether a value is a promise (or any thenable)
+ * Used to support runtime functions that can be sync or async
+ */
+export function isPromiseLike<T>(value: unknown): value is PromiseLike<T> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as PromiseLike<T>).then === "function"
+  );
+}
@@ -0,0 +1,198 @@
+import { describe, expect, it } from "vitest";
+import { defineFlow } from "./define-flow";
+import { createFlowRuntime } from "./flow-runtime";
+import { createInitialState, flowReducer } from "./reducer";
+import type { FlowContext, FlowDefinition, FlowState } from "./types";
+import {
+  canNavigateNext,
+  createFlowStateView,
+  getNextStepsInfo,
+  getStepKeys,
+  getStepsInfo,
+  type NestedStepEntries,
+  selectStepEntry,
+} from "./view";
+
+const address: FlowDefinition = {
+  id: "address",
+  start: "street",
+  steps: { street: { next: "city" }, city: {} },
+};
+
+const checkout: FlowDefinition = {
+  id: "checkout",
+  start: "cart",
+  steps: {
+    cart: {
+      next: [
+        { when: { "ctx.express": { eq: true } }, to: "payment" },
+        { to: "shipping" },
+      ],
+      meta: { title: "Cart" },
+    },
+    shipping: { flow: "address", next: "payment" },
+    payment: { next: ["review", "cart"] },
+    review: {},
+  },
+};
+
+const options = {
+  subFlows: { address: { flow: { id: "address", config: address } } },
+};
+
+const atShipping = () =>
+  flowReducer(
+    createInitialState<FlowContext>(checkout, {}),
+    { type: "NEXT" },
+    checkout,
+    options,
+  );
+
+const isString = (entry: string | NestedStepEntries<string>): entry is string =>
+  typeof entry === "string";
+
+describe("getStepsInfo", () => {
+  it("should strip steps down to next and meta", () => {
+    const steps = getStepsInfo(checkout);
+
+    expect(steps.cart).toEqual({
+      next: ["payment", "shipping"],
+      meta: { title: "Cart" },
+    });
+    expect(steps.shipping).toEqual({ next: "payment", meta: undefined });
+    expect(steps.payment?.next).toEqual(["review", "cart"]);
+    expect(steps.review).toEqual({ next: undefined, meta: undefined });
+  });
+});
+
+describe("getNextStepsInfo", () => {
+  it("should list the next steps of a step", () => {
+    expect(getNextStepsInfo(checkout, "shipping")).toEqual(["payment"]);
+    expect(getNextStepsInfo(checkout, "cart")).toEqual(["payment", "shipping"]);
+  });
+
+  it("should return undefined for terminal and unknown steps", () => {
+    expect(getNextStepsInfo(checkout, "review")).toBeUndefined();
+    expect(getNextStepsInfo(checkout, "missing")).toBeUndefined();
+  });
+});
+
+describe("canNavigateNext", () => {
+  it("should be true when the step has next steps", () => {
+    const state = createInitialState<FlowContext>(checkout, {});
+
+    expect(canNavigateNext(state, checkout)).toBe(true);
+  });
+
+  it("should be false on a terminal step", () => {
+    const state: FlowState = {
+      ...createInitialState<FlowContext>(checkout, {}),
+      stepId: "review",
+    };
+
+    expect(canNavigateNext(state, checkout)).toBe(false);
+  });
+
+  it("should be true while a sub-flow runs", () => {
+    const definition = {
+      ...checkout,
+      steps: { ...checkout.steps, shipping: { flow: "address" } },
+    };
+    const state = flowReducer(
+      createInitialState<FlowContext>(definition, {}),
+      { type: "NEXT" },
+      definition,
+      options,
+    );
+
+    expect(state.stepId).toBe("shipping");
+    expect(getNextStepsInfo(definition, "shipping")).toBeUndefined();
+    expect(canNavigateNext(state, definition)).toBe(true);
+  });
+});
+
+describe("getStepKeys", () => {
+  it("should return the step id for a plain step", () => {
+    const state = createInitialState<FlowContext>(checkout, {});
+
+    expect(getStepKeys(state)).toEqual(["cart"]);
+  });
+
+  it("should add the child flow's step, most specific first", () => {
+    const state = flowReducer(
+      atShipping(),
+      { type: "NEXT" },
+      checkout,
+      options,
+    );
+
+    expect(getStepKeys(state)).toEqual(["shipping.city", "shipping"]);
+  });
+});
+
+describe("selectStepEntry", () => {
+  it("should pick the entry for the current step", () => {
+    const state = createInitialState<FlowContext>(checkout, {});
+
+    expect(selectStepEntry({ cart: "Cart" }, state, isString)).toBe("Cart");
+  });
+
+  it("should pick the nested entry for the child flow's step", () => {
+    const entries = { shipping: { street: "Street", city: "City" } };
+
+    expect(selectStepEntry(entries, atShipping(), isString)).toBe("Street");
+    expect(
+      selectStepEntry(
+        entries,
+        flowReducer(atShipping(), { type: "NEXT" }, checkout, options),
+        isString,
+      ),
+    ).toBe("City");
+  });
+
+  it("should return undefined when there is no entry", () => {
+    expect(selectStepEntry({}, atShipping(), isString)).toBeUndefined();
+    expect(
+      selectStepEntry({ shipping: { city: "City" } }, atShipping(), isString),
+    ).toBeUndefined();
+  });
+});
+
+describe("createFlowStateView", () => {
+  const flow = defineFlow({
+    id: "signup",
+    start: "welcome",
+    steps: {
+      welcome: { next: "profile" },
+      profile: { next: "done" },
+      done: {},
+    },
+  });
+
+  it("should read the latest snapshot on every access", () => {
+    const runtime = createFlowRuntime(flow, { initialContext: { name: "" } });
+    const view = createFlowStateView(runtime, flow.config, () =>
+      runtime.getSnapshot(),
+    );
+
+    expect(view.stepId).toBe("welcome");
+    expect(view.canGoBack).toBe(false);
+
+    view.next({ name: "Ada" });
+
+    expect(view.stepId).toBe("profile");
+    expect(view.context).toEqual({ name: "Ada" });
+    expect(view.nextSteps).toEqual(["done"]);
+    expect(view.canGoBack).toBe(true);
+    expect(view.canGoNext).toBe(true);
+  });
+
+  it("should expose the step info of every step", () => {
+    const runtime = createFlowRuntime(flow);
+    const view = createFlowStateView(runtime, flow.config, () =>
+      runtime.getSnapshot(),
+    );
+
+    expect(view.steps).toEqual(getStepsInfo(flow.config));
+  });
+});
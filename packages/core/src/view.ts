@@ -0,0 +1,314 @@
+/**
+ * Flow state views
+ *
+ * Pure helpers framework adapters use to expose a running flow to components:
+ * step info for steppers, the current step's next steps, which element (or
+ * slot) renders the current step, and a getter-based view of a runtime
+ * snapshot. Adapters only add their reactivity on top.
+ */
+
+import { isConditionalTransition } from "./conditions";
+import type { FlowRuntime, FlowRuntimeSnapshot } from "./flow-runtime";
+import type { FlowProgress } from "./progress";
+import {
+  canGoForward,
+  canNavigateBack,
+  canRedo,
+  canUndo,
+  getNextStepIds,
+  getStepErrors,
+} from "./reducer";
+import type {
+  FlowContext,
+  FlowDefinition,
+  FlowState,
+  ForwardEntry,
+  HistoryEntry,
+  ParallelState,
+  PathEntry,
+  StepDefinition,
+  StepErrors,
+  StepMeta,
+} from "./types";
+
+/**
+ * Stripped-down step info exposed to components
+ * Contains navigation and display metadata
+ */
+export type StepInfo<TStepNames extends string = string> = {
+  /** Possible next step(s) from this step */
+  next?: TStepNames | readonly TStepNames[];
+  /** Display information from the step definition (title, description, ...) */
+  meta?: StepMeta;
+};
+
+/**
+ * Entries for the steps of a sub-flow (keyed by the child flow's step names)
+ * or of a parallel step (keyed by branch id) - nested flows can nest further
+ */
+export type NestedStepEntries<TEntry> = {
+  [stepId: string]: TEntry | NestedStepEntries<TEntry>;
+};
+
+/**
+ * State of a running flow as read by step components
+ * Properties are getters over the latest snapshot - see createFlowStateView()
+ */
+export type FlowStateView<TContext extends FlowContext = FlowContext> = {
+  readonly stepId: string;
+  readonly step: StepDefinition;
+  readonly context: TContext;
+  readonly status: FlowState["status"];
+  readonly path: PathEntry[];
+  readonly history: HistoryEntry[];
+  readonly startedAt: number;
+  readonly completedAt?: number;
+  readonly child?: FlowState;
+  readonly parallel?: ParallelState;
+  readonly forwardStack?: ForwardEntry[];
+  readonly iteration?: number;
+  readonly errors?: StepErrors;
+  readonly isRestoring: boolean;
+  readonly isTransitioning: boolean;
+  readonly rejection: FlowRuntimeSnapshot["rejection"];
+  readonly transitionError: Error | null;
+  readonly steps: Record<string, StepInfo>;
+  readonly nextSteps: readonly string[] | undefined;
+  readonly canGoBack: boolean;
+  readonly canGoForward: boolean;
+  readonly canUndo: boolean;
+  readonly canRedo: boolean;
+  readonly progress: FlowProgress;
+  readonly canGoNext: boolean;
+} & Pick<
+  FlowRuntime<TContext>,
+  | "next"
+  | "skip"
+  | "back"
+  | "goTo"
+  | "forward"
+  | "repeat"
+  | "setItem"
+  | "selectBranch"
+  | "setContext"
+  | "undo"
+  | "redo"
+  | "restore"
+  | "reset"
+  | "save"
+>;
+
+/**
+ * Step info for every step of a flow (stripped down to next and meta)
+ * Conditional transitions are listed by their destinations.
+ */
+export function getStepsInfo(
+  definition: FlowDefinition,
+): Record<string, StepInfo> {
+  return Object.fromEntries(
+    Object.entries(definition.steps).map(([id, step]) => [
+      id,
+      {
+        next: isConditionalTransition(step.next)
+          ? getNextStepIds(step.next)
+          : step.next,
+        meta: step.meta,
+      },
+    ]),
+  );
+}
+
+/**
+ * Possible next steps from a step
+ * @returns The step ids, or undefined for a terminal step
+ */
+export function getNextStepsInfo(
+  definition: FlowDefinition,
+  stepId: string,
+): readonly string[] | undefined {
+  return getNextStepIds(definition.steps[stepId]?.next);
+}
+
+/**
+ * Whether next() can leave the current step
+ * True if it has next steps or runs a sub-flow (or parallel branches)
+ */
+export function canNavigateNext(
+  state: Pick<FlowState, "stepId" | "child" | "parallel">,
+  definition: FlowDefinition,
+): boolean {
+  return (
+    getNextStepsInfo(definition, state.stepId) !== undefined ||
+    state.child !== undefined ||
+    state.parallel !== undefined
+  );
+}
+
+/**
+ * Dotted keys for the current step, most specific first
+ * Sub-flow steps add the child's step ("step.childStep") and parallel steps
+ * the active branch ("step.branch") - nested flows can nest further. Used by
+ * adapters that pick slots or snippets by name.
+ */
+export function getStepKeys(
+  state: Pick<FlowState, "stepId" | "path" | "child" | "parallel">,
+): string[] {
+  const segments: string[] = [];
+  let current: typeof state | undefined = state;
+  while (current) {
+    segments.push(current.stepId);
+    const last: PathEntry | undefined = current.path[current.path.length - 1];
+    const parallel: ParallelState | undefined =
+      current.parallel ?? last?.parallel;
+    if (parallel) {
+      segments.push(parallel.active);
+      current = parallel.branches[parallel.active];
+    } else {
+      current = current.child ?? last?.child;
+    }
+  }
+
+  return segments.map((_, i) =>
+    segments.slice(0, segments.length - i).join("."),
+  );
+}
+
+/**
+ * Picks the entry (element, component, ...) for the current step
+ * Sub-flow steps can map to a nested record keyed by the child flow's steps,
+ * and parallel steps to a record keyed by branch id. The active child (or the
+ * finished one kept on the path) picks the nested entry.
+ *
+ * @param entries - Entries keyed by step id
+ * @param state - Current flow state
+ * @param isEntry - Tells entries apart from nested records
+ * @returns The entry, or undefined if there is none for the current step
+ */
+export function selectStepEntry<TEntry>(
+  entries: NestedStepEntries<TEntry>,
+  state: Pick<FlowState, "stepId" | "path" | "child" | "parallel">,
+  isEntry: (value: TEntry | NestedStepEntries<TEntry>) => value is TEntry,
+): TEntry | undefined {
+  let entry = entries[state.stepId];
+  const last = state.path[state.path.length - 1];
+
+  const parallel = state.parallel ?? last?.parallel;
+  let nested = state.child ?? last?.child;
+  if (parallel && entry && !isEntry(entry)) {
+    entry = entry[parallel.active];
+    nested = parallel.branches[parallel.active];
+  }
+
+  if (!entry || isEntry(entry)) return entry;
+  return nested ? selectStepEntry(entry, nested, isEntry) : undefined;
+}
+
+/**
+ * Creates a view of a runtime whose getters read the latest snapshot
+ * Adapters pass a snapshot reader their reactivity system tracks (a ref, a
+ * rune, ...), so every property read in a template is tracked.
+ *
+ * @param runtime - Runtime created with createFlowRuntime()
+ * @param definition - Flow definition the runtime runs
+ * @param getSnapshot - Reads the latest snapshot
+ * @returns Flow state with getters and the runtime's methods
+ */
+export function createFlowStateView<TContext extends FlowContext>(
+  runtime: FlowRuntime<TContext>,
+  definition: FlowDefinition,
+  getSnapshot: () => FlowRuntimeSnapshot<TContext>,
+): FlowStateView<TContext> {
+  const steps = getStepsInfo(definition);
+  const state = () => getSnapshot().state;
+
+  return {
+    get stepId() {
+      return state().stepId;
+    },
+    get step() {
+      return definition.steps[state().stepId] ?? {};
+    },
+    get context() {
+      return state().context;
+    },
+    get status() {
+      return state().status;
+    },
+    get path() {
+      return state().path;
+    },
+    get history() {
+      return state().history;
+    },
+    get startedAt() {
+      return state().startedAt;
+    },
+    get completedAt() {
+      return state().completedAt;
+    },
+    get child() {
+      return state().child;
+    },
+    get parallel() {
+      return state().parallel;
+    },
+    get forwardStack() {
+      return state().forwardStack;
+    },
+    get iteration() {
+      const { path } = state();
+      return path[path.length - 1]?.iteration;
+    },
+    get errors() {
+      return getStepErrors(state());
+    },
+    get isRestoring() {
+      return getSnapshot().isRestoring;
+    },
+    get isTransitioning() {
+      return getSnapshot().isTransitioning;
+    },
+    get rejection() {
+      return getSnapshot().rejection;
+    },
+    get transitionError() {
+      return getSnapshot().transitionError;
+    },
+    steps,
+    get nextSteps() {
+      return getNextStepsInfo(definition, state().stepId);
+    },
+    get canGoBack() {
+      return canNavigateBack(state());
+    },
+    get canGoForward() {
+      return canGoForward(state());
+    },
+    get canUndo() {
+      return canUndo(state());
+    },
+    get canRedo() {
+      return canRedo(state());
+    },
+    get progress() {
+      return runtime.getProgress(state());
+    },
+    get canGoNext() {
+      return canNavigateNext(state(), definition);
+    },
+    next: runtime.next,
+    skip: runtime.skip,
+    back: runtime.back,
+    goTo: runtime.goTo,
+    forward: runtime.forward,
+    repeat: runtime.repeat,
+    setItem: runtime.setItem,
+    selectBranch: runtime.selectBranch,
+    setContext: runtime.setContext,
+    undo: runtime.undo,
+    redo: runtime.redo,
+    restore: runtime.restore,
+    reset: runtime.reset,
+    save: runtime.save,
+  };
+}
@@ -1,5 +1,9 @@
 import { fireEvent, render, screen, waitFor } from "@testing-library/react";
-import { createMemoryStore, createPersister } from "@useflow/core";
+import {
+  createMemoryStore,
+  createPersister,
+  type FlowMiddleware,
+} from "@useflow/core";
 import { describe, expect, it, vi } from "vitest";
 import { defineFlow } from "./define-flow";
 import { Flow } from "./flow";
@@ -351,6 +355,37 @@ describe("Flow with Global Config", () => {
       );
     });
   });
+
+  it("runs FlowProvider middleware around the flow's middleware", () => {
+    const calls: string[] = [];
+    const track =
+      (name: string): FlowMiddleware =>
+      () =>
+      (next) =>
+      (action) => {
+        calls.push(`${name}:${action.type}`);
+        return next(action);
+      };
+    const cancelNext: FlowMiddleware = (api) => (next) => (action) =>
+      action.type === "NEXT" ? api.getState() : next(action);
+
+    render(
+      <FlowProvider config={{ middleware: [track("global")] }}>
+        <Flow flow={testFlow} middleware={[track("local"), cancelNext]}>
+          {({ stepId, next }) => (
+            <button type="button" onClick={() => next()}>
+              {stepId}
+            </button>
+          )}
+        </Flow>
+      </FlowProvider>,
+    );
+
+    fireEvent.click(screen.getByText("step1"));
+
+    expect(calls).toEqual(["global:NEXT", "local:NEXT"]);
+    expect(screen.getByText("step1")).toBeInTheDocument();
+  });
 });
 
 it("uses onPersistenceError from FlowProvider", async () => {
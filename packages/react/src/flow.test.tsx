@@ -1,7 +1,13 @@
-import { fireEvent, render, screen, waitFor } from "@testing-library/react";
+import {
+  cleanup,
+  fireEvent,
+  render,
+  screen,
+  waitFor,
+} from "@testing-library/react";
 import type { FlowPersister } from "@useflow/core";
 import { createMemoryStore } from "@useflow/core";
-import { act, useState } from "react";
+import { act, Suspense, startTransition, useState } from "react";
 import { describe, expect, it, vi } from "vitest";
 import { defineFlow } from "./define-flow";
 import { Flow, useFlowState } from "./flow";
@@ -740,6 +746,65 @@ describe("Flow callbacks", () => {
     });
   });
 
+  it("should keep the committed callbacks when a render is discarded", async () => {
+    const flow = defineFlow({
+      id: "test",
+      start: "first",
+      steps: {
+        first: { next: "second" },
+        second: {},
+      },
+    });
+    const committed = vi.fn();
+    const discarded = vi.fn();
+    const pending = new Promise<never>(() => {});
+
+    function Suspend(): never {
+      throw pending;
+    }
+
+    function TestComponent() {
+      const { next } = useFlowState();
+      return <button onClick={() => next()}>Next</button>;
+    }
+
+    function App({
+      onNext,
+      suspend,
+    }: {
+      onNext: () => void;
+      suspend: boolean;
+    }) {
+      return (
+        <Suspense fallback={<div>Loading</div>}>
+          <Flow flow={flow} onNext={onNext}>
+            {({ renderStep }) => (
+              <>
+                {renderStep({
+                  first: <TestComponent />,
+                  second: <div>Second</div>,
+                })}
+                {suspend && <Suspend />}
+              </>
+            )}
+          </Flow>
+        </Suspense>
+      );
+    }
+
+    const { rerender } = render(<App onNext={committed} suspend={false} />);
+    // A transition that suspends is rendered but never committed
+    await act(async () => {
+      startTransition(() => {
+        rerender(<App onNext={discarded} suspend />);
+      });
+    });
+    fireEvent.click(screen.getByText("Next"));
+
+    expect(committed).toHaveBeenCalledTimes(1);
+    expect(discarded).not.toHaveBeenCalled();
+  });
+
   it("should call onSkip callback when skipping a step", () => {
     const flow = defineFlow({
       id: "test",
@@ -958,6 +1023,116 @@ describe("Flow callbacks", () => {
     });
   });
 
+  it("should call onTransition but not onBack when jumping with goTo", () => {
+    const flow = defineFlow({
+      id: "test",
+      start: "first",
+      steps: {
+        first: { next: "second" },
+        second: { next: "third" },
+        third: {},
+      },
+    });
+
+    const onBack = vi.fn();
+    const onTransition = vi.fn();
+
+    function TestComponent() {
+      const { next, goTo, stepId } = useFlowState();
+      return (
+        <div>
+          <div data-testid="stepId">{stepId}</div>
+          <button onClick={() => next()}>Next</button>
+          <button onClick={() => goTo("first")}>Go to first</button>
+        </div>
+      );
+    }
+
+    render(
+      <Flow flow={flow} onBack={onBack} onTransition={onTransition}>
+        {({ renderStep }) =>
+          renderStep({
+            first: <TestComponent />,
+            second: <TestComponent />,
+            third: <TestComponent />,
+          })
+        }
+      </Flow>,
+    );
+
+    fireEvent.click(screen.getByText("Next"));
+    fireEvent.click(screen.getByText("Next"));
+    fireEvent.click(screen.getByText("Go to first"));
+
+    expect(screen.getByTestId("stepId")).toHaveTextContent("first");
+    expect(onBack).not.toHaveBeenCalled();
+    expect(onTransition).toHaveBeenLastCalledWith({
+      from: "third",
+      to: "first",
+      direction: "backward",
+      oldContext: {},
+      newContext: {},
+    });
+  });
+
+  it("should call onTransition but not onNext when re-entering with forward", () => {
+    const flow = defineFlow({
+      id: "test",
+      start: "first",
+      steps: {
+        first: { next: "second" },
+        second: {},
+      },
+    });
+
+    const onNext = vi.fn();
+    const onTransition = vi.fn();
+
+    function TestComponent() {
+      const { next, back, forward, canGoForward, stepId } = useFlowState();
+      return (
+        <div>
+          <div data-testid="stepId">{stepId}</div>
+          <div data-testid="canGoForward">{String(canGoForward)}</div>
+          <button onClick={() => next()}>Next</button>
+          <button onClick={() => back()}>Back</button>
+          <button onClick={() => forward()}>Forward</button>
+        </div>
+      );
+    }
+
+    render(
+      <Flow flow={flow} onNext={onNext} onTransition={onTransition}>
+        {({ renderStep }) =>
+          renderStep({
+            first: <TestComponent />,
+            second: <TestComponent />,
+          })
+        }
+      </Flow>,
+    );
+
+    expect(screen.getByTestId("canGoForward")).toHaveTextContent("false");
+
+    fireEvent.click(screen.getByText("Next"));
+    fireEvent.click(screen.getByText("Back"));
+
+    expect(screen.getByTestId("canGoForward")).toHaveTextContent("true");
+
+    fireEvent.click(screen.getByText("Forward"));
+
+    expect(screen.getByTestId("stepId")).toHaveTextContent("second");
+    expect(screen.getByTestId("canGoForward")).toHaveTextContent("false");
+    expect(onNext).toHaveBeenCalledTimes(1);
+    expect(onTransition).toHaveBeenLastCalledWith({
+      from: "first",
+      to: "second",
+      direction: "forward",
+      oldContext: {},
+      newContext: {},
+    });
+  });
+
   it("should call onContextUpdate callback when context changes", () => {
     const flow = defineFlow({
       id: "test",
@@ -3044,6 +3219,88 @@ describe("reset", () => {
 });
 
 describe("metadata exposure", () => {
+  it("should expose step meta on step and steps", () => {
+    const flow = defineFlow({
+      id: "test",
+      start: "profile",
+      steps: {
+        profile: {
+          next: "billing",
+          meta: { title: "Your profile", weight: 2, tags: ["account"] },
+        },
+        billing: { meta: { title: "Billing", icon: "card" } },
+      },
+    });
+
+    function TestComponent() {
+      const { step, steps } = useFlowState();
+      return (
+        <div>
+          <h1>{step.meta?.title}</h1>
+          <div data-testid="billing">{steps.billing?.meta?.title}</div>
+        </div>
+      );
+    }
+
+    render(
+      <Flow flow={flow} initialContext={{}}>
+        {({ renderStep }) =>
+          renderStep({ profile: <TestComponent />, billing: <div /> })
+        }
+      </Flow>,
+    );
+
+    expect(screen.getByRole("heading")).toHaveTextContent("Your profile");
+    expect(screen.getByTestId("billing")).toHaveTextContent("Billing");
+  });
+
+  it("should expose progress through the flow", () => {
+    const flow = defineFlow({
+      id: "test",
+      start: "profile",
+      steps: {
+        profile: { next: "billing", meta: { weight: 3 } },
+        billing: { next: "done" },
+        done: {},
+      },
+    });
+
+    function TestComponent() {
+      const { progress, next } = useFlowState();
+      return (
+        <div>
+          <div data-testid="percent">{progress.percent}</div>
+          <div data-testid="path">{progress.predictedPath.join(",")}</div>
+          <button type="button" onClick={() => next()}>
+            Next
+          </button>
+        </div>
+      );
+    }
+
+    render(
+      <Flow flow={flow} initialContext={{}}>
+        {({ renderStep }) =>
+          renderStep({
+            profile: <TestComponent />,
+            billing: <TestComponent />,
+            done: <div />,
+          })
+        }
+      </Flow>,
+    );
+
+    expect(screen.getByTestId("percent")).toHaveTextContent("0");
+    expect(screen.getByTestId("path")).toHaveTextContent(
+      "profile,billing,done",
+    );
+
+    fireEvent.click(screen.getByRole("button"));
+
+    expect(screen.getByTestId("percent")).toHaveTextContent("60");
+    expect(screen.getByTestId("path")).toHaveTextContent("billing,done");
+  });
+
   it("should expose steps metadata with only next property", () => {
     const flow = defineFlow({
       id: "test",
@@ -3435,3 +3692,572 @@ describe("metadata exposure", () => {
     expect(screen.getByTestId("canGoNext")).toHaveTextContent("false");
   });
 });
+
+describe("guards", () => {
+  const flow = defineFlow({
+    id: "guarded",
+    start: "verification",
+    steps: {
+      verification: { next: "complete" },
+      complete: {},
+    },
+  }).with<{ verified: boolean }>(() => ({
+    guards: {
+      verification: {
+        canLeave: async ({ context }) => context.verified,
+      },
+    },
+  }));
+
+  function VerificationStep() {
+    const { next, isTransitioning } = useFlowState();
+    return (
+      <button onClick={() => next()} disabled={isTransitioning}>
+        {isTransitioning ? "Checking..." : "Next"}
+      </button>
+    );
+  }
+
+  it("should expose isTransitioning while a guard runs", async () => {
+    render(
+      <Flow flow={flow} initialContext={{ verified: true }}>
+        {({ renderStep }) =>
+          renderStep({
+            verification: <VerificationStep />,
+            complete: <div>Complete</div>,
+          })
+        }
+      </Flow>,
+    );
+
+    fireEvent.click(screen.getByText("Next"));
+    expect(screen.getByText("Checking...")).toBeDisabled();
+
+    await waitFor(() => {
+      expect(screen.getByText("Complete")).toBeInTheDocument();
+    });
+  });
+
+  it("should call onGuardReject when a guard blocks navigation", async () => {
+    const onGuardReject = vi.fn();
+    const onNext = vi.fn();
+
+    render(
+      <Flow
+        flow={flow}
+        initialContext={{ verified: false }}
+        onGuardReject={onGuardReject}
+        onNext={onNext}
+      >
+        {({ renderStep }) =>
+          renderStep({
+            verification: <VerificationStep />,
+            complete: <div>Complete</div>,
+          })
+        }
+      </Flow>,
+    );
+
+    fireEvent.click(screen.getByText("Next"));
+
+    await waitFor(() => {
+      expect(onGuardReject).toHaveBeenCalledWith({
+        from: "verification",
+        to: "complete",
+        action: "next",
+        stepId: "verification",
+        guard: "canLeave",
+        error: undefined,
+        context: { verified: false },
+      });
+    });
+    expect(screen.getByText("Next")).toBeEnabled();
+    expect(onNext).not.toHaveBeenCalled();
+  });
+});
+
+describe("async resolvers", () => {
+  it("should call onTransitionError when a resolver rejects", async () => {
+    const flow = defineFlow({
+      id: "async-resolver",
+      start: "company",
+      steps: {
+        company: { next: ["existing", "register"] },
+        existing: {},
+        register: {},
+      },
+    }).with(() => ({
+      resolvers: {
+        company: () => Promise.reject(new Error("Lookup failed")),
+      },
+    }));
+    const onTransitionError = vi.fn();
+
+    function CompanyStep() {
+      const { next, transitionError } = useFlowState();
+      return (
+        <div>
+          <button onClick={() => next()}>Next</button>
+          {transitionError && <p>{transitionError.message}</p>}
+        </div>
+      );
+    }
+
+    render(
+      <Flow flow={flow} onTransitionError={onTransitionError}>
+        {({ renderStep }) =>
+          renderStep({
+            company: <CompanyStep />,
+            existing: <div>Existing</div>,
+            register: <div>Register</div>,
+          })
+        }
+      </Flow>,
+    );
+
+    fireEvent.click(screen.getByText("Next"));
+
+    await waitFor(() => {
+      expect(screen.getByText("Lookup failed")).toBeInTheDocument();
+    });
+    expect(onTransitionError).toHaveBeenCalledWith(new Error("Lookup failed"));
+  });
+});
+
+describe("re-rendering", () => {
+  const definition = defineFlow({
+    id: "plans",
+    start: "plan",
+    steps: {
+      plan: { next: ["basic", "pro"] },
+      basic: {},
+      pro: {},
+    },
+  });
+
+  function PlanStep() {
+    const { next } = useFlowState();
+    return <button onClick={() => next()}>Next</button>;
+  }
+
+  it("should use the runtime config of the latest flow", () => {
+    function App({ plan }: { plan: "basic" | "pro" }) {
+      // Recreated on every render, like a flow built from props
+      const flow = definition.with(() => ({ resolvers: { plan: () => plan } }));
+      return (
+        <Flow flow={flow}>
+          {({ renderStep }) =>
+            renderStep({
+              plan: <PlanStep />,
+              basic: <div>Basic</div>,
+              pro: <div>Pro</div>,
+            })
+          }
+        </Flow>
+      );
+    }
+
+    const { rerender } = render(<App plan="basic" />);
+    rerender(<App plan="pro" />);
+    fireEvent.click(screen.getByText("Next"));
+
+    expect(screen.getByText("Pro")).toBeInTheDocument();
+  });
+
+  it("should keep the state when a new persister is passed", async () => {
+    const store = createMemoryStore();
+    function ChooseBasic() {
+      const { next } = useFlowState();
+      return <button onClick={() => next("basic")}>Basic plan</button>;
+    }
+
+    function App({ label }: { label: string }) {
+      return (
+        <Flow
+          flow={definition}
+          // A new persister on every render
+          persister={createMockPersister({ store })}
+        >
+          {({ renderStep }) => (
+            <>
+              <p>{label}</p>
+              {renderStep({
+                plan: <ChooseBasic />,
+                basic: <div>Basic</div>,
+                pro: <div>Pro</div>,
+              })}
+            </>
+          )}
+        </Flow>
+      );
+    }
+
+    const { rerender } = render(<App label="first" />);
+    await waitFor(() => {
+      expect(screen.getByText("Basic plan")).toBeInTheDocument();
+    });
+    fireEvent.click(screen.getByText("Basic plan"));
+    rerender(<App label="second" />);
+
+    expect(screen.getByText("second")).toBeInTheDocument();
+    expect(screen.getByText("Basic")).toBeInTheDocument();
+  });
+});
+
+describe("sub-flows", () => {
+  const addressFlow = defineFlow({
+    id: "address",
+    start: "street",
+    steps: {
+      street: { next: "city" },
+      city: {},
+    },
+  });
+
+  const checkoutFlow = defineFlow({
+    id: "checkout",
+    start: "cart",
+    steps: {
+      cart: { next: "shipping" },
+      shipping: { flow: "address", next: "payment" },
+      payment: {},
+    },
+  }).with<{ city?: string }>(() => ({
+    subFlows: { address: { flow: addressFlow } },
+  }));
+
+  function NavStep({ label }: { label: string }) {
+    const { next, back, canGoBack } = useFlowState();
+    return (
+      <div>
+        <span>{label}</span>
+        <button onClick={() => next({ city: label })}>Next</button>
+        {canGoBack && <button onClick={back}>Back</button>}
+      </div>
+    );
+  }
+
+  const renderCheckout = (props: { persister?: FlowPersister } = {}) =>
+    render(
+      <Flow flow={checkoutFlow} initialContext={{}} {...props}>
+        {({ renderStep, context }) => (
+          <div>
+            {renderStep({
+              cart: <NavStep label="Cart" />,
+              shipping: {
+                street: <NavStep label="Street" />,
+                city: <NavStep label="City" />,
+              },
+              payment: <div>Payment to {context.city}</div>,
+            })}
+          </div>
+        )}
+      </Flow>,
+    );
+
+  it("should render the active step of the sub-flow", () => {
+    renderCheckout();
+
+    fireEvent.click(screen.getByText("Next"));
+    expect(screen.getByText("Street")).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText("Next"));
+    expect(screen.getByText("City")).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText("Next"));
+    expect(screen.getByText("Payment to City")).toBeInTheDocument();
+  });
+
+  it("should navigate back out of the sub-flow", () => {
+    renderCheckout();
+
+    fireEvent.click(screen.getByText("Next"));
+    fireEvent.click(screen.getByText("Next"));
+    fireEvent.click(screen.getByText("Back"));
+    expect(screen.getByText("Street")).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText("Back"));
+    expect(screen.getByText("Cart")).toBeInTheDocument();
+  });
+
+  it("should persist and restore the child state", async () => {
+    const save = vi.fn();
+    renderCheckout({
+      persister: createMockPersister({ save, restore: vi.fn() }),
+    });
+
+    await waitFor(() => {
+      expect(screen.getByText("Cart")).toBeInTheDocument();
+    });
+    fireEvent.click(screen.getByText("Next"));
+    fireEvent.click(screen.getByText("Next"));
+
+    await waitFor(() => {
+      expect(save).toHaveBeenLastCalledWith(
+        "checkout",
+        expect.objectContaining({
+          stepId: "shipping",
+          child: expect.objectContaining({ stepId: "city" }),
+        }),
+        expect.anything(),
+      );
+    });
+    const [, savedState] = save.mock.lastCall ?? [];
+    cleanup();
+
+    renderCheckout({
+      persister: createMockPersister({
+        restore: vi.fn().mockResolvedValue(savedState),
+      }),
+    });
+
+    await waitFor(() => {
+      expect(screen.getByText("City")).toBeInTheDocument();
+    });
+  });
+});
+
+describe("parallel steps", () => {
+  const track = (id: string) =>
+    defineFlow({
+      id,
+      start: "form",
+      steps: { form: { next: "review" }, review: {} },
+    });
+
+  const onboardingFlow = defineFlow({
+    id: "onboarding",
+    start: "setup",
+    steps: {
+      setup: {
+        parallel: { branches: ["profile", "billing"] },
+        next: "finish",
+      },
+      finish: {},
+    },
+  }).with(() => ({
+    subFlows: {
+      profile: { flow: track("profile") },
+      billing: { flow: track("billing") },
+    },
+  }));
+
+  function BranchStep({ label }: { label: string }) {
+    const { next, selectBranch, parallel } = useFlowState();
+    return (
+      <div>
+        <span>{label}</span>
+        <span>Done: {parallel?.done.join(",")}</span>
+        <button onClick={() => next()}>Next</button>
+        <button onClick={() => selectBranch("billing")}>Billing</button>
+      </div>
+    );
+  }
+
+  const renderOnboarding = () =>
+    render(
+      <Flow flow={onboardingFlow}>
+        {({ renderStep }) =>
+          renderStep({
+            setup: {
+              profile: {
+                form: <BranchStep label="Profile form" />,
+                review: <BranchStep label="Profile review" />,
+              },
+              billing: <BranchStep label="Billing form" />,
+            },
+            finish: <div>Finished</div>,
+          })
+        }
+      </Flow>,
+    );
+
+  it("should render the active branch", () => {
+    renderOnboarding();
+    expect(screen.getByText("Profile form")).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText("Next"));
+    expect(screen.getByText("Profile review")).toBeInTheDocument();
+  });
+
+  it("should switch branches with selectBranch", () => {
+    renderOnboarding();
+
+    fireEvent.click(screen.getByRole("button", { name: "Billing" }));
+
+    expect(screen.getByText("Billing form")).toBeInTheDocument();
+  });
+
+  it("should join once every branch is finished", () => {
+    const onComplete = vi.fn();
+    render(
+      <Flow flow={onboardingFlow} onComplete={onComplete}>
+        {({ renderStep }) =>
+          renderStep({
+            setup: <BranchStep label="Setup" />,
+            finish: <div>Finished</div>,
+          })
+        }
+      </Flow>,
+    );
+
+    fireEvent.click(screen.getByText("Next"));
+    fireEvent.click(screen.getByText("Next"));
+    expect(screen.getByText("Done: profile")).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText("Next"));
+    fireEvent.click(screen.getByText("Next"));
+
+    expect(screen.getByText("Finished")).toBeInTheDocument();
+    expect(onComplete).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("looping steps", () => {
+  it("should repeat a step and notify context updates", () => {
+    const flow = defineFlow({
+      id: "household",
+      start: "dependent",
+      steps: {
+        dependent: { next: "review", loop: { items: "dependents", max: 5 } },
+        review: {},
+      },
+    }).with<{ dependents: { name?: string }[] }>(() => ({}));
+
+    const onContextUpdate = vi.fn();
+
+    function Dependent() {
+      const { iteration, repeat, next } = useFlowState();
+      return (
+        <div>
+          <div data-testid="iteration">Dependent {(iteration ?? 0) + 1}</div>
+          <button onClick={() => repeat({ name: `Person ${iteration}` })}>
+            Add another
+          </button>
+          <button onClick={() => next()}>Done</button>
+        </div>
+      );
+    }
+
+    function Review() {
+      const { context } = useFlowState();
+      return <div data-testid="count">{context.dependents.length} added</div>;
+    }
+
+    render(
+      <Flow
+        flow={flow}
+        initialContext={{ dependents: [] }}
+        onContextUpdate={onContextUpdate}
+      >
+        {({ renderStep }) =>
+          renderStep({ dependent: <Dependent />, review: <Review /> })
+        }
+      </Flow>,
+    );
+
+    expect(screen.getByTestId("iteration")).toHaveTextContent("Dependent 1");
+
+    fireEvent.click(screen.getByText("Add another"));
+
+    expect(screen.getByTestId("iteration")).toHaveTextContent("Dependent 2");
+    expect(onContextUpdate).toHaveBeenLastCalledWith({
+      oldContext: { dependents: [{}] },
+      newContext: { dependents: [{ name: "Person 0" }, {}] },
+    });
+
+    fireEvent.click(screen.getByText("Done"));
+
+    expect(screen.getByTestId("count")).toHaveTextContent("2 added");
+  });
+});
+
+describe("undo", () => {
+  it("should undo and redo context edits on the current step", () => {
+    const flow = defineFlow({
+      id: "test",
+      start: "form",
+      steps: {
+        form: {},
+      },
+    });
+
+    function Form() {
+      const { context, setContext, undo, redo, canUndo, canRedo } =
+        useFlowState<{ name: string }>();
+      return (
+        <div>
+          <div data-testid="name">{context.name}</div>
+          <div data-testid="canUndo">{String(canUndo)}</div>
+          <div data-testid="canRedo">{String(canRedo)}</div>
+          <button onClick={() => setContext({ name: "Ada" })}>Edit</button>
+          <button onClick={() => undo()}>Undo</button>
+          <button onClick={() => redo()}>Redo</button>
+        </div>
+      );
+    }
+
+    render(
+      <Flow flow={flow} initialContext={{ name: "" }} undo>
+        {({ renderStep }) => renderStep({ form: <Form /> })}
+      </Flow>,
+    );
+
+    expect(screen.getByTestId("canUndo")).toHaveTextContent("false");
+
+    fireEvent.click(screen.getByText("Edit"));
+    expect(screen.getByTestId("canUndo")).toHaveTextContent("true");
+
+    fireEvent.click(screen.getByText("Undo"));
+    expect(screen.getByTestId("name")).toHaveTextContent("");
+    expect(screen.getByTestId("canRedo")).toHaveTextContent("true");
+
+    fireEvent.click(screen.getByText("Redo"));
+    expect(screen.getByTestId("name")).toHaveTextContent("Ada");
+    expect(screen.getByTestId("canRedo")).toHaveTextContent("false");
+  });
+});
+
+describe("step validators", () => {
+  it("should expose errors and stay on the step until it is valid", () => {
+    const flow = defineFlow({
+      id: "test",
+      start: "profile",
+      steps: {
+        profile: { next: "done" },
+        done: {},
+      },
+    }).with<{ email: string }>(() => ({
+      validators: {
+        profile: (ctx) => (ctx.email ? null : { email: "Email is required" }),
+      },
+    }));
+
+    function Profile() {
+      const { next, errors } = useFlowState<{ email: string }>();
+      return (
+        <div>
+          <div data-testid="error">{errors?.email}</div>
+          <button onClick={() => next()}>Next</button>
+          <button onClick={() => next({ email: "ada@example.com" })}>
+            Next with email
+          </button>
+        </div>
+      );
+    }
+
+    render(
+      <Flow flow={flow} initialContext={{ email: "" }}>
+        {({ renderStep }) =>
+          renderStep({ profile: <Profile />, done: <div>Done</div> })
+        }
+      </Flow>,
+    );
+
+    fireEvent.click(screen.getByText("Next"));
+    expect(screen.getByTestId("error")).toHaveTextContent("Email is required");
+
+    fireEvent.click(screen.getByText("Next with email"));
+    expect(screen.getByText("Done")).toBeInTheDocument();
+  });
+});
@@ -1,20 +1,34 @@
 import type {
-  ContextUpdate,
+  ContextValidationEvent,
   FlowContext,
+  FlowMiddleware,
   FlowPersister,
-  MigrateFunction,
+  FlowRuntimeOptions,
+  GuardRejection,
   PersistedFlowState,
+  UndoOptions,
+} from "@useflow/core";
+import {
+  canGoForward,
+  canNavigateBack,
+  canNavigateNext,
+  canRedo,
+  canUndo,
+  createFlowRuntime,
+  getNextStepsInfo,
+  getStepsInfo,
+  selectStepEntry,
 } from "@useflow/core";
-import { validatePersistedState } from "@useflow/core";
 import {
   createContext,
+  isValidElement,
   type ReactElement,
   type ReactNode,
   useCallback,
   useContext,
   useEffect,
+  useLayoutEffect,
   useMemo,
-  useRef,
   useState,
 } from "react";
 import type { RuntimeFlowDefinition } from "./define-flow";
@@ -24,10 +38,13 @@ import type {
   ExtractFlowContext,
   FlowDefinition,
   StepElements,
-  StepInfo,
   UseFlowReturn,
 } from "./types";
-import { useFlowReducer } from "./use-flow-reducer";
+import { useFlowRuntime } from "./use-flow-reducer";
+
+// useLayoutEffect warns during server rendering, where effects don't run anyway
+const useIsomorphicLayoutEffect =
+  typeof window !== "undefined" ? useLayoutEffect : useEffect;
 
 // biome-ignore lint/suspicious/noExplicitAny: React Context requires concrete type at creation, type safety enforced at usage via generics
 const ReactFlowContext = createContext<UseFlowReturn<any> | null>(null);
@@ -113,23 +130,23 @@ type FlowProps<TFlow extends RuntimeFlowDefinition<FlowDefinition, any>> = {
     oldContext: ExtractFlowContext<TFlow>;
     newContext: ExtractFlowContext<TFlow>;
   }) => void;
+  onGuardReject?: (
+    event: GuardRejection & { context: ExtractFlowContext<TFlow> },
+  ) => void;
+  onValidationError?: (event: ContextValidationEvent) => void;
+  onTransitionError?: (error: Error) => void;
   persister?: FlowPersister;
   saveDebounce?: number;
   saveMode?: "always" | "navigation" | "manual";
   onPersistenceError?: (error: Error) => void;
   onSave?: (state: PersistedFlowState<ExtractFlowContext<TFlow>>) => void;
   onRestore?: (state: PersistedFlowState<ExtractFlowContext<TFlow>>) => void;
+  middleware?: FlowMiddleware<ExtractFlowContext<TFlow>>[];
+  journal?: boolean;
+  undo?: boolean | UndoOptions;
   loadingComponent?: ReactNode;
 };
 
-type LastActionType =
-  | "NEXT"
-  | "SKIP"
-  | "BACK"
-  | "SET_CONTEXT"
-  | "RESTORE"
-  | "RESET"
-  | null;
 /**
  * Flow - main component for running a flow using render props pattern
  *
@@ -141,7 +158,13 @@ type LastActionType =
  * @param initialContext - Initial context state for the flow (optional, defaults to {})
  * @param children - Render function that receives flow state
  * @param instanceId - Optional unique identifier for reusable flows with separate persistence
- * @param persister - Optional persister for saving/restoring flow state
+ * @param persister - Optional persister for saving/restoring flow state (restored from on mount, later ones are only saved to)
+ * @param onGuardReject - Optional callback when a guard blocks next/skip/back
+ * @param onTransitionError - Optional callback when an async resolver fails
+ * @param onValidationError - Optional callback when a context doesn't match the flow's schema
+ * @param middleware - Optional middleware around every action (after FlowProvider's)
+ * @param journal - Optional, records every committed action in state.journal (see replay())
+ * @param undo - Optional, keeps context snapshots for undo()/redo() (true, or scope and limit)
  * @param loadingComponent - Optional component to show while restoring state (default: null)
  *
  * @example
@@ -209,12 +232,18 @@ export function Flow<TFlow extends RuntimeFlowDefinition<FlowDefinition, any>>({
   onBack,
   onTransition,
   onContextUpdate,
+  onGuardReject,
+  onValidationError,
+  onTransitionError,
   persister: persisterProp,
   saveDebounce: saveDebounceProp,
   saveMode: saveModeProp,
   onPersistenceError: onPersistenceErrorProp,
   onSave,
   onRestore,
+  middleware,
+  journal,
+  undo,
   loadingComponent,
   children,
 }: FlowProps<TFlow>) {
@@ -223,432 +252,100 @@ export function Flow<TFlow extends RuntimeFlowDefinition<FlowDefinition, any>>({
 
   // Merge global and local config (local props override global)
   const persister = persisterProp ?? globalConfig?.persister;
-  const saveDebounce = saveDebounceProp ?? globalConfig?.saveDebounce ?? 300;
-  const saveMode = saveModeProp ?? globalConfig?.saveMode ?? "navigation";
   const onPersistenceError =
     onPersistenceErrorProp ?? globalConfig?.onPersistenceError;
   // Extract config from RuntimeFlowDefinition
   const { id, config } = flow;
 
-  const flowDefinitionWithoutComponents = useMemo(
-    () => ({
-      id,
-      start: config.start,
-      steps: config.steps,
-    }),
-    [id, config],
-  );
-
-  // Track if we're currently restoring state from persister
-  const [isRestoring, setIsRestoring] = useState(!!persister);
-
-  // Initialize flow state (restoration happens after mount)
-  const flowState = useFlowReducer<ExtractFlowContext<TFlow>>(
-    flowDefinitionWithoutComponents,
-    initialContext ?? ({} as ExtractFlowContext<TFlow>),
-    undefined, // initialState - restoration happens in useEffect
-    // Safe cast: ResolverMap is a stricter compile-time type, runtime shape matches RuntimeResolverMap
-    // biome-ignore lint/suspicious/noExplicitAny: Runtime resolver map is compatible
-    flow.runtimeConfig?.resolvers as any,
-  );
-
-  // Extract all steps (stripped down to only next property)
-  const steps = useMemo(() => {
-    return Object.fromEntries(
-      Object.entries(config.steps).map(([id, step]) => [
-        id,
-        { next: step.next },
-      ]),
-    ) as Record<string, StepInfo<string>>;
-  }, [config.steps]);
-
-  // Extract possible next steps from current step
-  const nextSteps = useMemo(() => {
-    const currentStep = config.steps[flowState.stepId];
-    if (!currentStep?.next) return undefined;
-    return typeof currentStep.next === "string"
-      ? [currentStep.next]
-      : currentStep.next;
-  }, [config.steps, flowState.stepId]);
-
-  // Track previous state for callbacks
-  const previousStateRef = useRef(flowState);
-
-  // Track what type of action caused the state change
-  const lastActionRef = useRef<LastActionType>(null);
-
-  // Track if flow has started (for global onFlowStart callback)
-  const hasStartedRef = useRef(false);
-
-  // Wrap next/skip/back/setContext to track action type
-  const next = useCallback(
-    (
-      targetOrUpdate?: string | ContextUpdate<ExtractFlowContext<TFlow>>,
-      update?: ContextUpdate<ExtractFlowContext<TFlow>>,
-    ) => {
-      lastActionRef.current = "NEXT";
-      if (typeof targetOrUpdate === "string") {
-        flowState.next(targetOrUpdate, update);
-      } else {
-        flowState.next(targetOrUpdate);
-      }
-    },
-    [flowState],
-  );
-
-  const skip = useCallback(
-    (
-      targetOrUpdate?: string | ContextUpdate<ExtractFlowContext<TFlow>>,
-      update?: ContextUpdate<ExtractFlowContext<TFlow>>,
-    ) => {
-      lastActionRef.current = "SKIP";
-      if (typeof targetOrUpdate === "string") {
-        flowState.skip(targetOrUpdate, update);
-      } else {
-        flowState.skip(targetOrUpdate);
-      }
-    },
-    [flowState.skip],
-  );
-
-  const back = useCallback(() => {
-    lastActionRef.current = "BACK";
-    flowState.back();
-  }, [flowState.back]);
-
-  const setContext = useCallback(
-    (update: ContextUpdate<ExtractFlowContext<TFlow>>) => {
-      lastActionRef.current = "SET_CONTEXT";
-      flowState.setContext(update);
-    },
-    [flowState.setContext],
-  );
-
-  const reset = useCallback(async () => {
-    lastActionRef.current = "RESET";
-    // Clear persisted state if persister is available
-    if (persister) {
-      try {
-        await persister.remove?.(flow.id, {
-          instanceId,
-          variantId: config.variantId,
-        });
-      } catch (error) {
-        if (process.env.NODE_ENV !== "production") {
-          console.error(
-            "[Flow] Failed to remove persisted state on reset:",
-            error,
-          );
-        }
-        onPersistenceError?.(error as Error);
-      }
-    }
-    flowState.reset();
-  }, [
-    flowState.reset,
-    persister,
-    flow.id,
-    instanceId,
-    config.variantId,
-    onPersistenceError,
-  ]);
-
-  const save = useCallback(async () => {
-    if (!persister) return;
-    try {
-      const version =
-        "version" in config
-          ? (config as { version?: string }).version
-          : undefined;
-
-      // Extract only the persistable state (no methods)
-      const stateToSave = {
-        stepId: flowState.stepId,
-        context: flowState.context,
-        path: flowState.path,
-        history: flowState.history,
-        status: flowState.status,
-        startedAt: flowState.startedAt,
-        completedAt: flowState.completedAt,
-      };
-
-      const persistedState = await persister.save(flow.id, stateToSave, {
-        version,
-        instanceId,
-        variantId: config.variantId,
-      });
-
-      if (persistedState) {
-        onSave?.(
-          persistedState as PersistedFlowState<ExtractFlowContext<TFlow>>,
-        );
-      }
-    } catch (error) {
-      if (process.env.NODE_ENV !== "production") {
-        console.error("[Flow] Failed to save state:", error);
-      }
-      onPersistenceError?.(error as Error);
-    }
-  }, [
-    flow.id,
-    flowState.stepId,
-    flowState.context,
-    flowState.path,
-    flowState.history,
-    flowState.status,
-    flowState.startedAt,
-    flowState.completedAt,
-    config,
+  // Latest props (and the latest flow definition) are read by the runtime
+  // when it dispatches actions and reports changes
+  const options: FlowRuntimeOptions<ExtractFlowContext<TFlow>> = {
+    flow,
+    initialContext,
     instanceId,
     persister,
-    onSave,
-    onPersistenceError,
-  ]);
-
-  // Fire global onFlowStart callback once on mount
-  useEffect(() => {
-    if (!hasStartedRef.current && !isRestoring) {
-      hasStartedRef.current = true;
-      globalConfig?.callbacks?.onFlowStart?.({
-        flowId: flow.id,
-        variantId: config.variantId,
-        instanceId,
-        context: flowState.context,
-      });
-    }
-  }, [
-    flow.id,
-    config.variantId,
-    instanceId,
-    flowState.context,
-    globalConfig,
-    isRestoring,
-  ]);
-
-  // Handle callbacks when state changes
-  useEffect(() => {
-    const action = lastActionRef.current;
-    if (!action) return;
-
-    const prevState = previousStateRef.current;
-
-    // Handle navigation callbacks
-    if (action === "NEXT" && prevState.stepId !== flowState.stepId) {
-      onNext?.({
-        from: prevState.stepId,
-        to: flowState.stepId,
-        oldContext: prevState.context,
-        newContext: flowState.context,
-      });
-      onTransition?.({
-        from: prevState.stepId,
-        to: flowState.stepId,
-        direction: "forward",
-        oldContext: prevState.context,
-        newContext: flowState.context,
-      });
-      // Global transition callback
-      globalConfig?.callbacks?.onStepTransition?.({
-        flowId: flow.id,
-        variantId: config.variantId,
-        instanceId,
-        from: prevState.stepId,
-        to: flowState.stepId,
-        direction: "forward",
-        oldContext: prevState.context,
-        newContext: flowState.context,
-      });
-    } else if (action === "SKIP" && prevState.stepId !== flowState.stepId) {
-      onSkip?.({
-        from: prevState.stepId,
-        to: flowState.stepId,
-        oldContext: prevState.context,
-        newContext: flowState.context,
-      });
-      onTransition?.({
-        from: prevState.stepId,
-        to: flowState.stepId,
-        direction: "forward",
-        oldContext: prevState.context,
-        newContext: flowState.context,
-      });
-      // Global transition callback
-      globalConfig?.callbacks?.onStepTransition?.({
-        flowId: flow.id,
-        variantId: config.variantId,
-        instanceId,
-        from: prevState.stepId,
-        to: flowState.stepId,
-        direction: "forward",
-        oldContext: prevState.context,
-        newContext: flowState.context,
-      });
-    } else if (action === "BACK" && prevState.stepId !== flowState.stepId) {
-      onBack?.({
-        from: prevState.stepId,
-        to: flowState.stepId,
-        oldContext: prevState.context,
-        newContext: flowState.context,
-      });
-      onTransition?.({
-        from: prevState.stepId,
-        to: flowState.stepId,
-        direction: "backward",
-        oldContext: prevState.context,
-        newContext: flowState.context,
-      });
-      // Global transition callback
-      globalConfig?.callbacks?.onStepTransition?.({
-        flowId: flow.id,
-        variantId: config.variantId,
-        instanceId,
-        from: prevState.stepId,
-        to: flowState.stepId,
-        direction: "backward",
-        oldContext: prevState.context,
-        newContext: flowState.context,
-      });
-    }
-
-    // Handle context updates
-    if (action === "SET_CONTEXT" || action === "NEXT" || action === "SKIP") {
-      if (prevState.context !== flowState.context) {
-        onContextUpdate?.({
-          oldContext: prevState.context,
-          newContext: flowState.context,
-        });
-      }
-    }
-
-    // Handle onComplete callback
-    if (flowState.status === "complete" && prevState.status !== "complete") {
-      onComplete?.({ context: flowState.context });
-      // Global complete callback
-      globalConfig?.callbacks?.onFlowComplete?.({
-        flowId: flow.id,
-        variantId: config.variantId,
-        instanceId,
-        context: flowState.context,
-      });
-    }
-
-    previousStateRef.current = flowState;
-  }, [
-    flowState,
+    saveDebounce: saveDebounceProp ?? globalConfig?.saveDebounce ?? 300,
+    saveMode: saveModeProp ?? globalConfig?.saveMode ?? "navigation",
+    onComplete,
     onNext,
     onSkip,
     onBack,
     onTransition,
     onContextUpdate,
-    onComplete,
-    globalConfig,
-    flow.id,
-    config.variantId,
-    instanceId,
-  ]);
-
-  // Handle async restoration from persister after mount
-  useEffect(() => {
-    if (!persister) {
-      setIsRestoring(false);
-      return;
-    }
-
-    const restoreFlowState = async () => {
-      try {
-        const state = await persister.restore(flow.id, {
-          version: config.version,
-          migrate: flow.runtimeConfig?.migration as MigrateFunction | undefined,
-          instanceId,
-          variantId: config.variantId,
-        });
-
-        if (state) {
-          // Validate state is compatible with this flow's definition
-          const validation = validatePersistedState(
-            state,
-            flowDefinitionWithoutComponents,
-          );
-          if (!validation.valid) {
-            if (process.env.NODE_ENV !== "production") {
-              console.warn(
-                "[Flow] Persisted state validation failed:",
-                validation.errors,
-              );
-            }
-            onPersistenceError?.(
-              new Error(
-                `Invalid persisted state: ${validation.errors?.join(", ")}`,
-              ),
-            );
-            return;
-          }
-
-          // Safe cast: persister returns base FlowContext, but we've validated
-          //  the structure matches this flow. Context shape is trusted based on:
-          // 1. FlowId matching (same flow that saved it)
-          // 2. Version checking + migration
-          // 3. Custom validate function in persister options
-          // TODO: add context shape validation from flow definition
-          const typedState = state as PersistedFlowState<
-            ExtractFlowContext<TFlow>
-          >;
-          flowState.restore(typedState);
-          onRestore?.(typedState);
-        }
-      } catch (error) {
-        if (process.env.NODE_ENV !== "production") {
-          console.error("[Flow] Failed to restore state:", error);
-        }
-        onPersistenceError?.(error as Error);
-      } finally {
-        setIsRestoring(false);
-      }
-    };
-
-    restoreFlowState();
-  }, [
-    persister,
-    flow.id,
-    flow.runtimeConfig?.migration,
-    instanceId,
-    config,
+    onGuardReject,
+    onValidationError,
+    onTransitionError,
     onPersistenceError,
+    onSave,
     onRestore,
-    flowState.restore,
-    flowDefinitionWithoutComponents,
-  ]);
+    callbacks: globalConfig?.callbacks,
+    // Global middleware wraps the flow's own (and works with any context)
+    middleware: [
+      // biome-ignore lint/suspicious/noExplicitAny: global middleware is typed for FlowContext, which isn't comparable to the flow's inferred context type
+      ...((globalConfig?.middleware ?? []) as FlowMiddleware<any>[]),
+      ...(middleware ?? []),
+    ],
+    journal,
+    undo,
+  };
+
+  // The runtime owns state, persistence and callbacks. A new one is created
+  // when the flow's identity (id, variant or instance) changes - a recreated
+  // flow object or persister is handed to the existing runtime instead
+  const runtimeKey = JSON.stringify([id, config.variantId, instanceId]);
+  const [current, setCurrent] = useState(() => ({
+    key: runtimeKey,
+    runtime: createFlowRuntime<FlowDefinition, ExtractFlowContext<TFlow>>(
+      flow,
+      options,
+    ),
+  }));
+  let runtime = current.runtime;
+  if (current.key !== runtimeKey) {
+    runtime = createFlowRuntime<FlowDefinition, ExtractFlowContext<TFlow>>(
+      flow,
+      options,
+    );
+    setCurrent({ key: runtimeKey, runtime });
+  }
+
+  // Hand the latest props to the runtime once the render is committed -
+  // renders React discards (StrictMode, concurrent rendering) must not
+  // change the shared runtime
+  useIsomorphicLayoutEffect(() => {
+    runtime.setOptions(options);
+  });
 
-  // Handle persistence
+  // Restore persisted state after mount and report the flow start
   useEffect(() => {
-    // Check if we should save based on saveMode
-    if (saveMode === "manual") return;
+    runtime.start();
+    return () => runtime.stop();
+  }, [runtime]);
 
-    const action = lastActionRef.current;
-    if (
-      saveMode === "navigation" &&
-      action !== "NEXT" &&
-      action !== "SKIP" &&
-      action !== "BACK"
-    )
-      return;
+  // Subscribes to the runtime (re-renders on every snapshot change)
+  const flowState = useFlowRuntime(runtime, config);
+  const { isRestoring, state } = runtime.getSnapshot();
 
-    if (saveDebounce && saveDebounce > 0) {
-      const timer = setTimeout(() => {
-        save();
-      }, saveDebounce);
-      return () => clearTimeout(timer);
-    }
+  // Extract all steps (stripped down to next and meta)
+  const steps = useMemo(() => getStepsInfo(config), [config]);
 
-    save();
-  }, [saveMode, saveDebounce, save]);
+  // Extract possible next steps from current step
+  const nextSteps = useMemo(
+    () => getNextStepsInfo(config, flowState.stepId),
+    [config, flowState.stepId],
+  );
 
   // Create renderStep helper function
+  const { path, child, parallel } = flowState;
   const renderStep = useCallback(
     (elements: StepElements<ExtractAllStepNames<TFlow>>): ReactElement => {
-      return elements[flowState.stepId as ExtractAllStepNames<TFlow>];
+      return selectStepEntry(
+        elements,
+        { stepId: flowState.stepId, path, child, parallel },
+        isValidElement,
+      ) as ReactElement;
     },
-    [flowState.stepId],
+    [flowState.stepId, path, child, parallel],
   );
 
   // Show loading component while restoring to prevent flash of wrong content
@@ -665,30 +362,22 @@ export function Flow<TFlow extends RuntimeFlowDefinition<FlowDefinition, any>>({
       elements: StepElements<ExtractAllStepNames<TFlow>>,
     ) => ReactElement;
   } = {
-    // From flowState
-    stepId: flowState.stepId,
-    step: flowState.step,
-    context: flowState.context,
-    path: flowState.path,
-    history: flowState.history,
-    status: flowState.status,
-    startedAt: flowState.startedAt,
-    completedAt: flowState.completedAt,
-    restore: flowState.restore,
-    // Methods (stable via useCallback)
-    next,
-    skip,
-    back,
-    setContext,
-    reset,
-    save,
+    ...flowState,
+    save: runtime.save,
     // Additional properties
     isRestoring,
     steps,
     nextSteps,
     // Computed navigation flags
-    canGoBack: flowState.path.length > 1,
-    canGoNext: nextSteps !== undefined,
+    canGoBack: canNavigateBack(flowState),
+    canGoForward: canGoForward(flowState),
+    canUndo: canUndo(state),
+    canRedo: canRedo(state),
+    // Only computed when read
+    get progress() {
+      return runtime.getProgress(state);
+    },
+    canGoNext: canNavigateNext(flowState, config),
     renderStep,
   };
 
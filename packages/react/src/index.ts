@@ -4,23 +4,52 @@
 export type {
   AsyncStorageOptions,
   BrowserStorageOptions,
+  Condition,
+  ConditionalTransition,
+  ContextSchema,
+  ContextValidationEvent,
+  FieldCondition,
   FlowContext,
+  FlowDefinitionIssue,
+  FlowDiagnostic,
+  FlowDispatch,
+  FlowMiddleware,
+  FlowMiddlewareApi,
   FlowPersister,
+  FlowProgress,
   FlowRuntimeConfig,
   FlowStore,
+  GuardEvent,
+  GuardFunction,
+  GuardMap,
+  GuardRejection,
+  GuardResult,
+  JournalEntry,
   KVFlowStore,
   KVStorageAdapterOptions,
   KVStore,
   MigrateFunction,
+  ParallelState,
+  ParseFlowDefinitionResult,
   PersistedFlowInstance,
   PersistedFlowState,
   PersisterOptions,
   ResolveFunction,
   ResolverMap,
   Serializer,
+  SkipCondition,
+  SkipConditionMap,
+  StepErrors,
+  StepGuards,
+  StepMeta,
   StepRefs,
+  StepValidator,
   StringSerializer,
+  SubFlowConfig,
+  SubFlowMap,
+  UndoOptions,
   ValidationResult,
+  ValidatorMap,
 } from "@useflow/core";
 export {
   createAsyncStorageStore,
@@ -28,8 +57,10 @@ export {
   createMemoryStore,
   createPersister,
   createSessionStorageStore,
+  FlowDefinitionError,
   JsonSerializer,
   kvStorageAdapter,
+  parseFlowDefinition,
   validatePersistedState,
 } from "@useflow/core";
 
@@ -45,6 +76,9 @@ export { FlowProvider, useFlowConfig } from "./provider";
 export type {
   ExtractAllStepNames,
   FlowDefinition,
+  NestedStepElements,
   StepElements,
+  StepNames,
   UseFlowReturn,
+  ValidNextSteps,
 } from "./types";
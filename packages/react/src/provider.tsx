@@ -1,21 +1,12 @@
-import type { FlowContext, FlowPersister } from "@useflow/core";
+import type {
+  FlowMiddleware,
+  FlowPersister,
+  GlobalFlowCallbacks,
+  SaveMode,
+} from "@useflow/core";
 import { createContext, type ReactNode, useContext } from "react";
 
-export type SaveMode = "always" | "navigation" | "manual";
-
-/**
- * Event passed to global transition callbacks
- */
-export interface TransitionEvent {
-  flowId: string;
-  variantId?: string;
-  instanceId?: string;
-  from: string;
-  to: string;
-  direction: "forward" | "backward";
-  oldContext: FlowContext;
-  newContext: FlowContext;
-}
+export type { SaveMode, TransitionEvent } from "@useflow/core";
 
 /**
  * Configuration for the FlowProvider
@@ -57,32 +48,13 @@ export interface FlowProviderConfig {
   /**
    * Global callbacks for flow lifecycle events
    */
-  callbacks?: {
-    /**
-     * Called when any flow starts (first render with initial state)
-     */
-    onFlowStart?: (event: {
-      flowId: string;
-      variantId?: string;
-      instanceId?: string;
-      context: FlowContext;
-    }) => void;
+  callbacks?: GlobalFlowCallbacks;
 
-    /**
-     * Called when any flow completes
-     */
-    onFlowComplete?: (event: {
-      flowId: string;
-      variantId?: string;
-      instanceId?: string;
-      context: FlowContext;
-    }) => void;
-
-    /**
-     * Called on every step transition in any flow
-     */
-    onStepTransition?: (event: TransitionEvent) => void;
-  };
+  /**
+   * Middleware for all flows
+   * Runs before (outside) the middleware passed to each Flow
+   */
+  middleware?: FlowMiddleware[];
 }
 
 const FlowConfigContext = createContext<FlowProviderConfig | null>(null);
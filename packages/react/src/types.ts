@@ -1,18 +1,9 @@
-import type { FlowContext } from "@useflow/core";
+import type { FlowContext, FlowProgress, StepInfo } from "@useflow/core";
 import type { ReactElement } from "react";
 import type { RuntimeFlowDefinition } from "./define-flow";
 import type { FlowDefinition, UseFlowReducerReturn } from "./use-flow-reducer";
 
-export type { FlowDefinition };
-
-/**
- * Stripped-down step info exposed to components
- * Only contains navigation metadata, no component references
- */
-export type StepInfo<TStepNames extends string = string> = {
-  /** Possible next step(s) from this step */
-  next?: TStepNames | readonly TStepNames[];
-};
+export type { FlowDefinition, StepInfo };
 
 /**
  * Step element - a ReactElement (JSX) to display for this step
@@ -26,13 +17,21 @@ export type StepInfo<TStepNames extends string = string> = {
  */
 export type StepElement = ReactElement;
 
+/**
+ * Elements for the steps of a sub-flow, keyed by the child flow's step names,
+ * or for a parallel step, keyed by branch id (nested flows can nest further)
+ */
+export type NestedStepElements = {
+  [stepId: string]: StepElement | NestedStepElements;
+};
+
 /**
  * Record mapping step names to React elements to display
+ * Sub-flow and parallel steps can map to a single element or to nested elements
  */
-export type StepElements<TStepNames extends string = string> = Record<
-  TStepNames,
-  StepElement
->;
+export type StepElements<TStepNames extends string = string> = {
+  [K in TStepNames]: StepElement | NestedStepElements;
+};
 
 /**
  * Return type for the public useFlowState() hook
@@ -67,12 +66,35 @@ export type UseFlowReturn<
   nextSteps: readonly TValidNextSteps[] | undefined;
 
   /**
-   * Whether the user can navigate back (true if path.length > 1)
+   * Whether the user can navigate back (true if path.length > 1 or the
+   * active sub-flow has a previous step)
    */
   canGoBack: boolean;
 
   /**
-   * Whether the user can navigate forward (true if not on a terminal step)
+   * Whether forward() would re-enter a step left with back()
+   */
+  canGoForward: boolean;
+
+  /**
+   * Whether undo() would revert a context change (in the innermost active flow)
+   */
+  canUndo: boolean;
+
+  /**
+   * Whether redo() would re-apply a context change reverted by undo()
+   */
+  canRedo: boolean;
+
+  /**
+   * Completed and remaining steps from the flow graph (branch-aware)
+   * See getProgress() in @useflow/core
+   */
+  progress: FlowProgress;
+
+  /**
+   * Whether the user can navigate forward (true if not on a terminal step
+   * or a sub-flow is active)
    */
   canGoNext: boolean;
 
@@ -104,6 +126,7 @@ export type StepNames<TDefinition> = TDefinition extends { steps: infer S }
 /**
  * Extract valid next step destinations for a specific step
  * - For arrays: extracts union of array element types (e.g., ["stepA", "stepB"] → "stepA" | "stepB")
+ * - For conditional transitions: extracts their `to` steps
  * - For strings: returns the string literal type (e.g., "stepA" → "stepA")
  * - For undefined: returns never (terminal step with no next)
  */
@@ -114,7 +137,9 @@ export type ValidNextSteps<
   ? TStep extends keyof S
     ? S[TStep] extends { next: infer N }
       ? N extends readonly (infer E)[]
-        ? E // Array: extract union of element types
+        ? E extends { to: infer T }
+          ? T // Conditional transitions: extract their destinations
+          : E // Array: extract union of element types
         : N extends string
           ? N // String: use as-is
           : never // No next or invalid type
@@ -1,5 +1,5 @@
-import { act, renderHook } from "@testing-library/react";
-import { describe, expect, it } from "vitest";
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { describe, expect, it, vi } from "vitest";
 import { useFlowReducer } from "./use-flow-reducer";
 
 describe("useFlowReducer", () => {
@@ -550,4 +550,527 @@ describe("useFlowReducer", () => {
       expect(result.current.reset).toBe(firstReset);
     });
   });
+
+  describe("goTo", () => {
+    const definition = {
+      id: "test",
+      start: "first",
+      steps: {
+        first: { next: "second" },
+        second: { next: "third" },
+        third: {},
+      },
+    };
+
+    it("should jump back to an earlier step on the path", () => {
+      const { result } = renderHook(() => useFlowReducer(definition, {}));
+
+      act(() => {
+        result.current.next();
+      });
+      act(() => {
+        result.current.next();
+      });
+      act(() => {
+        result.current.goTo("first");
+      });
+
+      expect(result.current.stepId).toBe("first");
+      expect(result.current.status).toBe("active");
+      expect(result.current.path).toHaveLength(1);
+      expect(result.current.history.at(-2)?.action).toBe("goto");
+    });
+
+    it("should run guards for goTo", () => {
+      const canLeave = vi.fn(() => false);
+      const { result } = renderHook(() =>
+        useFlowReducer(definition, {}, undefined, {
+          guards: {
+            second: { canLeave },
+          },
+        }),
+      );
+
+      act(() => {
+        result.current.next();
+      });
+      act(() => {
+        result.current.goTo("first");
+      });
+
+      expect(result.current.stepId).toBe("second");
+      expect(canLeave).toHaveBeenCalledWith(
+        expect.objectContaining({
+          from: "second",
+          to: "first",
+          action: "goto",
+        }),
+      );
+    });
+  });
+
+  describe("forward", () => {
+    const definition = {
+      id: "test",
+      start: "first",
+      steps: {
+        first: { next: "second" },
+        second: { next: "third" },
+        third: {},
+      },
+    };
+
+    it("should re-enter the step left with back", () => {
+      const { result } = renderHook(() => useFlowReducer(definition, {}));
+
+      act(() => {
+        result.current.next();
+      });
+      act(() => {
+        result.current.back();
+      });
+
+      expect(result.current.forwardStack).toEqual([
+        { stepId: "second", action: "next" },
+      ]);
+
+      act(() => {
+        result.current.forward();
+      });
+
+      expect(result.current.stepId).toBe("second");
+      expect(result.current.forwardStack).toBeUndefined();
+    });
+
+    it("should stay on the current step when there is nothing to redo", () => {
+      const { result } = renderHook(() => useFlowReducer(definition, {}));
+
+      act(() => {
+        result.current.forward();
+      });
+
+      expect(result.current.stepId).toBe("first");
+      expect(result.current.history).toHaveLength(1);
+    });
+
+    it("should follow a guard redirect and clear the forward stack", () => {
+      const branching = {
+        id: "test",
+        start: "first",
+        steps: {
+          first: { next: ["second", "third"] },
+          second: {},
+          third: {},
+        },
+      } as const;
+      let redirect = false;
+      const { result } = renderHook(() =>
+        useFlowReducer(branching, {}, undefined, {
+          guards: {
+            third: {
+              canEnter: () => (redirect ? { redirect: "second" } : true),
+            },
+          },
+        }),
+      );
+
+      act(() => {
+        result.current.next("third");
+      });
+      act(() => {
+        result.current.back();
+      });
+
+      redirect = true;
+      act(() => {
+        result.current.forward();
+      });
+
+      expect(result.current.stepId).toBe("second");
+      expect(result.current.forwardStack).toBeUndefined();
+    });
+  });
+
+  describe("looping steps", () => {
+    const definition = {
+      id: "test",
+      start: "dependent",
+      steps: {
+        dependent: { next: "review", loop: { items: "dependents" } },
+        review: {},
+      },
+    };
+
+    it("should report the current iteration", () => {
+      const { result } = renderHook(() =>
+        useFlowReducer<{ dependents?: { name?: string }[] }>(definition, {}),
+      );
+
+      expect(result.current.iteration).toBe(0);
+
+      act(() => {
+        result.current.repeat({ name: "Ada" });
+      });
+      act(() => {
+        result.current.setItem({ name: "Grace" });
+      });
+
+      expect(result.current.iteration).toBe(1);
+      expect(result.current.context.dependents).toEqual([
+        { name: "Ada" },
+        { name: "Grace" },
+      ]);
+
+      act(() => {
+        result.current.back();
+      });
+
+      expect(result.current.iteration).toBe(0);
+
+      act(() => {
+        result.current.next();
+      });
+
+      expect(result.current.stepId).toBe("review");
+      expect(result.current.iteration).toBeUndefined();
+      expect(result.current.context.dependents).toEqual([{ name: "Ada" }]);
+    });
+  });
+
+  describe("skip conditions", () => {
+    const definition = {
+      id: "test",
+      start: "account",
+      steps: {
+        account: { next: "company" },
+        company: { next: "address" },
+        address: {},
+      },
+    };
+
+    it("should pass over skipped steps and step over them when going back", () => {
+      const { result } = renderHook(() =>
+        useFlowReducer(definition, { accountType: "personal" }, undefined, {
+          skipConditions: {
+            company: (ctx) => ctx.accountType === "personal",
+          },
+        }),
+      );
+
+      act(() => {
+        result.current.next();
+      });
+
+      expect(result.current.stepId).toBe("address");
+      expect(result.current.history.at(-2)?.action).toBe("skip");
+
+      act(() => {
+        result.current.back();
+      });
+
+      expect(result.current.stepId).toBe("account");
+    });
+  });
+
+  describe("validators", () => {
+    it("should keep the step and expose errors until the step is valid", () => {
+      const definition = {
+        id: "test",
+        start: "email",
+        steps: { email: { next: "done" }, done: {} },
+      };
+      const { result } = renderHook(() =>
+        useFlowReducer<{ email?: string }>(definition, {}, undefined, {
+          validators: {
+            email: (ctx) => (ctx.email ? null : { email: "Email is required" }),
+          },
+        }),
+      );
+
+      act(() => {
+        result.current.next();
+      });
+
+      expect(result.current.stepId).toBe("email");
+      expect(result.current.errors).toEqual({ email: "Email is required" });
+
+      act(() => {
+        result.current.next({ email: "ada@example.com" });
+      });
+
+      expect(result.current.stepId).toBe("done");
+      expect(result.current.errors).toBeUndefined();
+    });
+  });
+
+  describe("guards", () => {
+    const definition = {
+      id: "test",
+      start: "verification",
+      steps: {
+        verification: { next: ["complete", "support"] },
+        complete: {},
+        support: {},
+      },
+    };
+
+    it("should navigate synchronously when guards are synchronous", () => {
+      const { result } = renderHook(() =>
+        useFlowReducer(definition, {}, undefined, {
+          guards: {
+            complete: { canEnter: () => true },
+          },
+        }),
+      );
+
+      act(() => {
+        result.current.next("complete");
+      });
+
+      expect(result.current.stepId).toBe("complete");
+      expect(result.current.isTransitioning).toBe(false);
+    });
+
+    it("should block navigation and expose the rejection", () => {
+      const { result } = renderHook(() =>
+        useFlowReducer(definition, { email: "" }, undefined, {
+          guards: {
+            verification: { canLeave: () => false },
+          },
+        }),
+      );
+
+      act(() => {
+        result.current.next("complete", { email: "ada@example.com" });
+      });
+
+      expect(result.current.stepId).toBe("verification");
+      // The update is kept even though navigation was blocked
+      expect(result.current.context).toEqual({ email: "ada@example.com" });
+      expect(result.current.rejection).toEqual(
+        expect.objectContaining({
+          from: "verification",
+          to: "complete",
+          stepId: "verification",
+          guard: "canLeave",
+        }),
+      );
+    });
+
+    it("should be transitioning while an async guard runs", async () => {
+      let resolveGuard: (allowed: boolean) => void = () => {};
+      const { result } = renderHook(() =>
+        useFlowReducer(definition, {}, undefined, {
+          guards: {
+            verification: {
+              canLeave: () =>
+                new Promise<boolean>((resolve) => {
+                  resolveGuard = resolve;
+                }),
+            },
+          },
+        }),
+      );
+
+      act(() => {
+        result.current.next("complete");
+      });
+
+      expect(result.current.isTransitioning).toBe(true);
+      expect(result.current.stepId).toBe("verification");
+
+      await act(async () => {
+        resolveGuard(true);
+      });
+
+      expect(result.current.isTransitioning).toBe(false);
+      expect(result.current.stepId).toBe("complete");
+      expect(result.current.rejection).toBeNull();
+    });
+
+    it("should follow redirects", async () => {
+      const { result } = renderHook(() =>
+        useFlowReducer(definition, {}, undefined, {
+          guards: {
+            complete: { canEnter: async () => ({ redirect: "support" }) },
+          },
+        }),
+      );
+
+      act(() => {
+        result.current.next("complete");
+      });
+
+      await waitFor(() => expect(result.current.stepId).toBe("support"));
+      expect(result.current.history.at(-2)?.action).toBe("next");
+    });
+
+    it("should ignore stale guard results when navigating again", async () => {
+      const { result } = renderHook(() =>
+        useFlowReducer(definition, {}, undefined, {
+          guards: {
+            complete: {
+              canEnter: () =>
+                new Promise<boolean>((resolve) =>
+                  setTimeout(resolve, 50, true),
+                ),
+            },
+          },
+        }),
+      );
+
+      act(() => {
+        result.current.next("complete");
+      });
+      act(() => {
+        result.current.next("support");
+      });
+
+      expect(result.current.stepId).toBe("support");
+      await new Promise((resolve) => setTimeout(resolve, 60));
+      expect(result.current.stepId).toBe("support");
+      expect(result.current.isTransitioning).toBe(false);
+    });
+
+    it("should cancel a pending guard on reset", async () => {
+      const { result } = renderHook(() =>
+        useFlowReducer(definition, {}, undefined, {
+          guards: {
+            complete: {
+              canEnter: () =>
+                new Promise<boolean>((resolve) =>
+                  setTimeout(resolve, 20, true),
+                ),
+            },
+          },
+        }),
+      );
+
+      act(() => {
+        result.current.next("complete");
+      });
+      act(() => {
+        result.current.reset();
+      });
+
+      expect(result.current.isTransitioning).toBe(false);
+      await new Promise((resolve) => setTimeout(resolve, 30));
+      expect(result.current.stepId).toBe("verification");
+    });
+  });
+
+  describe("async resolvers", () => {
+    const definition = {
+      id: "test",
+      start: "company",
+      steps: {
+        company: { next: ["existing", "register"] },
+        existing: {},
+        register: {},
+      },
+    };
+
+    it("should navigate once the resolver settles", async () => {
+      let resolveLookup: (step: string) => void = () => {};
+      const { result } = renderHook(() =>
+        useFlowReducer(definition, { name: "" }, undefined, {
+          resolvers: {
+            company: () =>
+              new Promise<string>((resolve) => {
+                resolveLookup = resolve;
+              }),
+          },
+        }),
+      );
+
+      act(() => {
+        result.current.next({ name: "Acme" });
+      });
+
+      expect(result.current.isTransitioning).toBe(true);
+      expect(result.current.stepId).toBe("company");
+
+      await act(async () => {
+        resolveLookup("existing");
+      });
+
+      expect(result.current.isTransitioning).toBe(false);
+      expect(result.current.stepId).toBe("existing");
+      expect(result.current.context).toEqual({ name: "Acme" });
+    });
+
+    it("should cancel a pending resolver when navigating again", async () => {
+      const { result } = renderHook(() =>
+        useFlowReducer(definition, {}, undefined, {
+          resolvers: {
+            company: () =>
+              new Promise<string>((resolve) =>
+                setTimeout(resolve, 20, "existing"),
+              ),
+          },
+        }),
+      );
+
+      act(() => {
+        result.current.next();
+      });
+      act(() => {
+        result.current.next("register");
+      });
+
+      expect(result.current.stepId).toBe("register");
+      expect(result.current.isTransitioning).toBe(false);
+
+      await new Promise((resolve) => setTimeout(resolve, 30));
+      expect(result.current.stepId).toBe("register");
+    });
+
+    it("should report a step that isn't in the next array", async () => {
+      const { result } = renderHook(() =>
+        useFlowReducer(definition, {}, undefined, {
+          resolvers: {
+            company: async () => "unknown",
+          },
+        }),
+      );
+
+      act(() => {
+        result.current.next();
+      });
+
+      await waitFor(() => expect(result.current.isTransitioning).toBe(false));
+      expect(result.current.stepId).toBe("company");
+      expect(result.current.transitionError?.message).toContain(
+        'resolver() returned "unknown" which is not in next array',
+      );
+    });
+
+    it("should report rejected resolvers and keep the update", async () => {
+      const { result } = renderHook(() =>
+        useFlowReducer(definition, { name: "" }, undefined, {
+          resolvers: {
+            company: () => Promise.reject(new Error("Lookup failed")),
+          },
+        }),
+      );
+
+      act(() => {
+        result.current.next({ name: "Acme" });
+      });
+
+      await waitFor(() =>
+        expect(result.current.transitionError).toEqual(
+          new Error("Lookup failed"),
+        ),
+      );
+      expect(result.current.context).toEqual({ name: "Acme" });
+
+      // A committed transition clears the error
+      act(() => {
+        result.current.next("register");
+      });
+      expect(result.current.stepId).toBe("register");
+      expect(result.current.transitionError).toBeNull();
+    });
+  });
 });
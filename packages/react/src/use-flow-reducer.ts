@@ -1,18 +1,22 @@
 import {
   type ContextUpdate,
   type FlowDefinition as CoreFlowDefinition,
-  createInitialState,
-  type FlowAction,
+  createFlowRuntime,
   type FlowContext,
+  type FlowRuntime,
   type FlowState,
-  flowReducer,
+  type ForwardEntry,
+  type GuardRejection,
+  getStepErrors,
   type HistoryEntry,
+  type ParallelState,
   type PathEntry,
-  type RuntimeResolverMap,
+  type RuntimeFlowDefinition,
   type StepDefinition,
+  type StepErrors,
   type StepTransition,
 } from "@useflow/core";
-import { useCallback, useReducer, useRef } from "react";
+import { useState, useSyncExternalStore } from "react";
 
 /**
  * FlowDefinition is an alias for core's FlowDefinition
@@ -46,6 +50,28 @@ export type UseFlowReducerReturn<
   startedAt: number;
   /** When the flow was completed (undefined if still active) */
   completedAt?: number;
+  /** State of the active sub-flow (when the current step runs one) */
+  child?: FlowState;
+  /** Branch states of the active parallel step */
+  parallel?: ParallelState;
+  /** Steps that forward() can re-enter (most recent back() last) */
+  forwardStack?: ForwardEntry[];
+  /** Iteration index of the current looping step (undefined for other steps) */
+  iteration?: number;
+  /**
+   * Field errors from the current step's validator (innermost active flow)
+   * Set when next() or skip() was rejected, cleared once the step is valid
+   */
+  errors?: StepErrors;
+  /** Whether a navigation is waiting on an async resolver or guard */
+  isTransitioning: boolean;
+  /** Last transition blocked by a guard (cleared when a transition is allowed) */
+  rejection: GuardRejection | null;
+  /**
+   * Last async navigation error - the resolver rejected or resolved to a step
+   * that isn't in the next array (cleared when a transition is committed)
+   */
+  transitionError: Error | null;
   // Overloaded next function signatures
   next: {
     (target: TValidNextSteps, update?: ContextUpdate<TContext>): void;
@@ -57,84 +83,47 @@ export type UseFlowReducerReturn<
     (update?: ContextUpdate<TContext>): void;
   };
   back: () => void;
+  /** Jump back to an earlier step on the path (e.g. from a stepper) */
+  goTo: (stepId: string) => void;
+  /** Re-enter the step most recently left with back() */
+  forward: () => void;
+  /**
+   * Finish the current iteration of a looping step and start the next one
+   * The update is applied to the current iteration's item
+   */
+  repeat: (update?: ContextUpdate<FlowContext>) => void;
+  /** Update the current iteration's item of a looping step */
+  setItem: (update: ContextUpdate<FlowContext>) => void;
+  /** Switch the active branch of a parallel step */
+  selectBranch: (branch: string) => void;
   setContext: (update: ContextUpdate<TContext>) => void;
+  /** Revert the last context change (when the Flow's undo option is set) */
+  undo: () => void;
+  /** Re-apply a context change reverted by undo() */
+  redo: () => void;
   restore: (state: FlowState<TContext>) => void;
   reset: () => void;
 };
 
 /**
- * Internal hook for managing flow state
- * Wraps the core reducer with React's useReducer
- *
- * This hook handles ONLY state management - no side effects.
+ * Internal hook exposing a flow runtime's state to React
+ * Subscribes to the runtime with useSyncExternalStore
  *
  * @internal
- * @param definition - Flow definition
- * @param initialContext - Initial context values
- * @param initialState - Optional initial state to restore
- * @param resolvers - Optional resolver map for context-driven navigation
- * @returns Flow state and control functions
+ * @param runtime - Runtime created with createFlowRuntime()
+ * @param definition - Flow definition the runtime runs
+ * @returns Flow state and control functions (stable, owned by the runtime)
  */
-export function useFlowReducer<TContext extends FlowContext>(
+export function useFlowRuntime<TContext extends FlowContext>(
+  runtime: FlowRuntime<TContext>,
   definition: CoreFlowDefinition,
-  initialContext: TContext,
-  initialState?: FlowState<TContext>,
-  resolvers?: RuntimeResolverMap<TContext>,
 ): UseFlowReducerReturn<TContext> {
-  // Store initial context in a ref so it's stable across re-renders
-  const initialContextRef = useRef(initialContext);
-
-  const [state, dispatch] = useReducer(
-    (state: FlowState<TContext>, action: FlowAction<TContext>) =>
-      flowReducer(state, action, definition, { resolvers }),
-    initialState ?? createInitialState(definition, initialContext),
-  );
-
-  const next = useCallback(
-    (
-      targetOrUpdate?: string | ContextUpdate<TContext>,
-      update?: ContextUpdate<TContext>,
-    ) => {
-      // Determine if first arg is target (string) or update (object/function)
-      if (typeof targetOrUpdate === "string") {
-        dispatch({ type: "NEXT", target: targetOrUpdate, update });
-      } else {
-        dispatch({ type: "NEXT", update: targetOrUpdate });
-      }
-    },
-    [],
-  );
-
-  const skip = useCallback(
-    (
-      targetOrUpdate?: string | ContextUpdate<TContext>,
-      update?: ContextUpdate<TContext>,
-    ) => {
-      // Determine if first arg is target (string) or update (object/function)
-      if (typeof targetOrUpdate === "string") {
-        dispatch({ type: "SKIP", target: targetOrUpdate, update });
-      } else {
-        dispatch({ type: "SKIP", update: targetOrUpdate });
-      }
-    },
-    [],
-  );
-
-  const back = useCallback(() => {
-    dispatch({ type: "BACK" });
-  }, []);
-
-  const setContext = useCallback((update: ContextUpdate<TContext>) => {
-    dispatch({ type: "SET_CONTEXT", update });
-  }, []);
-
-  const restore = useCallback((restoredState: FlowState<TContext>) => {
-    dispatch({ type: "RESTORE", state: restoredState });
-  }, []);
-
-  const reset = useCallback(() => {
-    dispatch({ type: "RESET", initialContext: initialContextRef.current });
-  }, []);
+  const { state, isTransitioning, rejection, transitionError } =
+    useSyncExternalStore(
+      runtime.subscribe,
+      runtime.getSnapshot,
+      runtime.getSnapshot,
+    );
 
   return {
     stepId: state.stepId,
@@ -145,11 +134,60 @@ export function useFlowReducer<TContext extends FlowContext>(
     history: state.history,
     startedAt: state.startedAt,
     completedAt: state.completedAt,
-    next,
-    skip,
-    back,
-    setContext,
-    restore,
-    reset,
+    child: state.child,
+    parallel: state.parallel,
+    forwardStack: state.forwardStack,
+    iteration: state.path[state.path.length - 1]?.iteration,
+    errors: getStepErrors(state),
+    isTransitioning,
+    rejection,
+    transitionError,
+    next: runtime.next,
+    skip: runtime.skip,
+    back: runtime.back,
+    goTo: runtime.goTo,
+    forward: runtime.forward,
+    repeat: runtime.repeat,
+    selectBranch: runtime.selectBranch,
+    setContext: runtime.setContext,
+    setItem: runtime.setItem,
+    undo: runtime.undo,
+    redo: runtime.redo,
+    restore: runtime.restore,
+    reset: runtime.reset,
   };
 }
+
+/**
+ * Internal hook for managing flow state
+ * Runs the definition in a flow runtime without persistence or callbacks
+ *
+ * This hook handles ONLY state management - no side effects.
+ *
+ * @internal
+ * @param definition - Flow definition
+ * @param initialContext - Initial context values
+ * @param initialState - Optional initial state to restore
+ * @param runtimeConfig - Optional runtime config (resolvers, guards, sub-flows,
+ *   skip conditions, validators, schema) - see defineFlow().with()
+ * @returns Flow state and control functions
+ */
+export function useFlowReducer<
+  TContext extends FlowContext,
+  TDefinition extends CoreFlowDefinition = CoreFlowDefinition,
+>(
+  definition: TDefinition,
+  initialContext: TContext,
+  initialState?: FlowState<TContext>,
+  runtimeConfig?: RuntimeFlowDefinition<TDefinition, TContext>["runtimeConfig"],
+): UseFlowReducerReturn<TContext> {
+  // Created once - like useReducer, later arguments are ignored
+  const [runtime] = useState(() =>
+    createFlowRuntime<TDefinition, TContext>(
+      { id: definition.id, config: definition, runtimeConfig },
+      { initialContext, initialState },
+    ),
+  );
+
+  return useFlowRuntime(runtime, definition);
+}
@@ -0,0 +1,47 @@
+import { fireEvent, render, screen } from "@solidjs/testing-library";
+import { describe, expect, it } from "vitest";
+import { defineFlow, RuntimeFlowDefinition } from "./define-flow";
+import { Flow } from "./flow";
+
+describe("defineFlow", () => {
+  const flow = defineFlow({
+    id: "test",
+    start: "first",
+    steps: {
+      first: { next: ["a", "b"] },
+      a: {},
+      b: {},
+    },
+  });
+
+  it("should return a Solid RuntimeFlowDefinition", () => {
+    expect(flow).toBeInstanceOf(RuntimeFlowDefinition);
+    expect(flow.id).toBe("test");
+    expect(typeof flow.useFlowState).toBe("function");
+  });
+
+  it("should keep the useFlowState accessor after with()", () => {
+    const typed = flow.with<{ choice: string }>((steps) => ({
+      resolvers: {
+        first: (ctx) => (ctx.choice === "a" ? steps.a : steps.b),
+      },
+    }));
+
+    expect(typed).toBeInstanceOf(RuntimeFlowDefinition);
+    expect(typeof typed.useFlowState).toBe("function");
+  });
+
+  it("should provide typed step state inside a Flow", () => {
+    function First() {
+      const state = flow.useFlowState({ step: "first" });
+      return <button onClick={() => state.next("b")}>Go</button>;
+    }
+
+    render(() => (
+      <Flow flow={flow} steps={{ first: First, b: () => <div>B</div> }} />
+    ));
+
+    fireEvent.click(screen.getByText("Go"));
+    expect(screen.getByText("B")).toBeInTheDocument();
+  });
+});
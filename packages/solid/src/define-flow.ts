@@ -0,0 +1,89 @@
+import {
+  type RuntimeFlowDefinition as CoreRuntimeFlowDefinition,
+  extendRuntimeFlowDefinition,
+  type FlowContext,
+  type FlowRuntimeConfig,
+} from "@useflow/core";
+import { useFlowState } from "./flow";
+import type {
+  FlowDefinition,
+  StepNames,
+  UseFlowReturn,
+  ValidNextSteps,
+} from "./types";
+
+/**
+ * Solid-specific runtime flow definition
+ * Adds the useFlowState accessor for type-safe step navigation.
+ */
+export interface RuntimeFlowDefinition<
+  TDefinition extends FlowDefinition = FlowDefinition,
+  TContext extends FlowContext = FlowContext,
+> extends CoreRuntimeFlowDefinition<TDefinition, TContext> {
+  /** useFlowState() typed for the flow's context and the step's next steps */
+  useFlowState<TStep extends StepNames<TDefinition>>(options: {
+    step: TStep;
+  }): UseFlowReturn<
+    TContext,
+    ValidNextSteps<TDefinition, TStep>,
+    StepNames<TDefinition>
+  >;
+
+  with<NewContext extends FlowContext = FlowContext>(
+    runtimeConfig?: FlowRuntimeConfig<TDefinition, NewContext>,
+  ): RuntimeFlowDefinition<TDefinition, NewContext>;
+}
+
+// Safe cast: the context and step types of useFlowState() are compile-time only
+export const RuntimeFlowDefinition = extendRuntimeFlowDefinition(
+  useFlowState,
+) as new <
+  TDefinition extends FlowDefinition = FlowDefinition,
+  TContext extends FlowContext = FlowContext,
+>(
+  config: TDefinition,
+  runtimeConfig?: CoreRuntimeFlowDefinition<
+    TDefinition,
+    TContext
+  >["runtimeConfig"],
+) => RuntimeFlowDefinition<TDefinition, TContext>;
+
+/**
+ * Define a Solid flow with type-safe navigation
+ *
+ * Returns a RuntimeFlowDefinition instance that can be used directly
+ * or chained with .with<TContext>() for typed runtime configuration
+ *
+ * @param config - Flow configuration (serializable)
+ * @returns RuntimeFlowDefinition instance with useFlowState accessor
+ *
+ * @example
+ * ```ts
+ * type MyContext = { userType: "business" | "personal" };
+ *
+ * const myFlow = defineFlow({
+ *   id: "my-flow",
+ *   start: "welcome",
+ *   steps: {
+ *     welcome: { next: ["business", "personal"] },
+ *     business: { next: "complete" },
+ *     personal: { next: "complete" },
+ *     complete: {}
+ *   }
+ * }).with<MyContext>((steps) => ({
+ *   resolvers: {
+ *     welcome: (ctx) =>
+ *       ctx.userType === "business" ? steps.business : steps.personal
+ *   }
+ * }));
+ *
+ * // In a step component:
+ * const flow = myFlow.useFlowState({ step: "welcome" });
+ * flow.next({ userType: "business" }); // Flow decides based on context
+ * ```
+ */
+export function defineFlow<const TDefinition extends FlowDefinition>(
+  config: TDefinition,
+): RuntimeFlowDefinition<TDefinition, FlowContext> {
+  return new RuntimeFlowDefinition(config);
+}
@@ -0,0 +1,267 @@
+import { fireEvent, render, screen } from "@solidjs/testing-library";
+import { createMemoryStore, createPersister } from "@useflow/core";
+import { createEffect } from "solid-js";
+import { describe, expect, it, vi } from "vitest";
+import { defineFlow } from "./define-flow";
+import { Flow, useFlowState } from "./flow";
+import type { UseFlowReturn } from "./types";
+
+type SignupContext = { name?: string; count?: number };
+
+const flow = defineFlow({
+  id: "signup",
+  start: "welcome",
+  steps: {
+    welcome: { next: "profile" },
+    profile: { next: "done" },
+    done: {},
+  },
+});
+
+function NextButton(props: UseFlowReturn<SignupContext>) {
+  return (
+    <button onClick={() => props.next({ name: "Ada" })}>{props.stepId}</button>
+  );
+}
+
+describe("Flow", () => {
+  it("should render the component for the current step", async () => {
+    render(() => (
+      <Flow
+        flow={flow}
+        steps={{
+          welcome: NextButton,
+          profile: (props) => <p>Profile {props.context.name}</p>,
+        }}
+      />
+    ));
+
+    fireEvent.click(screen.getByText("welcome"));
+
+    expect(await screen.findByText("Profile Ada")).toBeInTheDocument();
+  });
+
+  it("should fall back to children with a reactive flow state", () => {
+    function Probe() {
+      const state = useFlowState<SignupContext>();
+      return (
+        <>
+          <p>
+            {state.stepId}:{state.context.name ?? ""}:{String(state.canGoBack)}
+          </p>
+          <button onClick={() => state.next({ name: "Ada" })}>Next</button>
+        </>
+      );
+    }
+
+    render(() => <Flow flow={flow}>{() => <Probe />}</Flow>);
+
+    expect(screen.getByText("welcome::false")).toBeInTheDocument();
+    fireEvent.click(screen.getByText("Next"));
+    expect(screen.getByText("profile:Ada:true")).toBeInTheDocument();
+  });
+
+  it("should keep the step component when only the context changes", () => {
+    const mounted = vi.fn();
+    const stepIdReads = vi.fn();
+    function Counter(props: UseFlowReturn<SignupContext>) {
+      mounted();
+      const stepId = () => {
+        stepIdReads();
+        return props.stepId;
+      };
+      return (
+        <>
+          <p>{stepId()}</p>
+          <button
+            onClick={() =>
+              props.setContext((ctx) => ({ count: (ctx.count ?? 0) + 1 }))
+            }
+          >
+            Count {props.context.count ?? 0}
+          </button>
+        </>
+      );
+    }
+
+    render(() => <Flow flow={flow} steps={{ welcome: Counter }} />);
+    fireEvent.click(screen.getByText("Count 0"));
+    fireEvent.click(screen.getByText("Count 1"));
+
+    expect(screen.getByText("Count 2")).toBeInTheDocument();
+    expect(mounted).toHaveBeenCalledOnce();
+    expect(stepIdReads).toHaveBeenCalledOnce();
+  });
+
+  it("should track each context field separately", () => {
+    const nameReads = vi.fn();
+    function Counter(props: UseFlowReturn<SignupContext>) {
+      createEffect(() => nameReads(props.context.name));
+      return (
+        <>
+          <button
+            onClick={() =>
+              props.setContext((ctx) => ({ count: (ctx.count ?? 0) + 1 }))
+            }
+          >
+            Count {props.context.count ?? 0}
+          </button>
+          <button onClick={() => props.setContext({ name: "Ada" })}>
+            Rename
+          </button>
+        </>
+      );
+    }
+
+    render(() => <Flow flow={flow} steps={{ welcome: Counter }} />);
+    fireEvent.click(screen.getByText("Count 0"));
+    fireEvent.click(screen.getByText("Count 1"));
+
+    expect(screen.getByText("Count 2")).toBeInTheDocument();
+    expect(nameReads).toHaveBeenCalledOnce();
+
+    fireEvent.click(screen.getByText("Rename"));
+
+    expect(nameReads).toHaveBeenCalledTimes(2);
+    expect(nameReads).toHaveBeenLastCalledWith("Ada");
+  });
+
+  it("should keep function and class instance fields of the context", () => {
+    class Member {
+      constructor(readonly name: string) {}
+      greet() {
+        return `Hi ${this.name}`;
+      }
+    }
+    type MemberContext = {
+      member?: Member;
+      format?: (count: number) => string;
+      count?: number;
+    };
+    const member = new Member("Ada");
+    const format = (count: number) => `${count} seats`;
+    const seen: MemberContext[] = [];
+
+    function Seats(props: UseFlowReturn<MemberContext>) {
+      createEffect(() => seen.push({ ...props.context }));
+      return (
+        <button
+          onClick={() =>
+            props.setContext((ctx) => ({ ...ctx, count: (ctx.count ?? 0) + 1 }))
+          }
+        >
+          {props.context.member?.greet()}:{" "}
+          {props.context.format?.(props.context.count ?? 0)}
+        </button>
+      );
+    }
+
+    render(() => (
+      <Flow
+        flow={flow}
+        initialContext={{ member, format, count: 1 }}
+        steps={{ welcome: Seats }}
+      />
+    ));
+    fireEvent.click(screen.getByText("Hi Ada: 1 seats"));
+
+    expect(screen.getByText("Hi Ada: 2 seats")).toBeInTheDocument();
+    expect(seen.at(-1)?.member).toBe(member);
+    expect(seen.at(-1)?.member).toBeInstanceOf(Member);
+    expect(seen.at(-1)?.format).toBe(format);
+  });
+
+  it("should render nested components for sub-flow steps", () => {
+    const payment = defineFlow({
+      id: "payment",
+      start: "card",
+      steps: { card: { next: "confirm" }, confirm: {} },
+    });
+    const checkout = defineFlow({
+      id: "checkout",
+      start: "pay",
+      steps: { pay: { flow: "payment", next: "done" }, done: {} },
+    }).with(() => ({ subFlows: { payment: { flow: payment } } }));
+
+    render(() => (
+      <Flow
+        flow={checkout}
+        steps={{
+          pay: {
+            card: (props) => <button onClick={() => props.next()}>Card</button>,
+            confirm: () => <p>Confirm</p>,
+          },
+        }}
+      />
+    ));
+
+    fireEvent.click(screen.getByText("Card"));
+    expect(screen.getByText("Confirm")).toBeInTheDocument();
+  });
+
+  it("should call callback props", () => {
+    const onNext = vi.fn();
+    const onComplete = vi.fn();
+    render(() => (
+      <Flow
+        flow={flow}
+        onNext={onNext}
+        onComplete={onComplete}
+        steps={{ welcome: NextButton, profile: NextButton }}
+      />
+    ));
+
+    fireEvent.click(screen.getByText("welcome"));
+    fireEvent.click(screen.getByText("profile"));
+
+    expect(onNext).toHaveBeenCalledTimes(2);
+    expect(onNext).toHaveBeenCalledWith(
+      expect.objectContaining({ from: "welcome", to: "profile" }),
+    );
+    expect(onComplete).toHaveBeenCalledWith({ context: { name: "Ada" } });
+  });
+
+  it("should show the loading element while restoring", async () => {
+    const persister = createPersister({ store: createMemoryStore() });
+    await persister.save("signup", {
+      stepId: "profile",
+      context: { name: "Ada" },
+      path: [
+        { stepId: "welcome", startedAt: 1, completedAt: 2, action: "next" },
+        { stepId: "profile", startedAt: 2 },
+      ],
+      history: [
+        { stepId: "welcome", startedAt: 1, completedAt: 2, action: "next" },
+        { stepId: "profile", startedAt: 2 },
+      ],
+      status: "active",
+      startedAt: 1,
+    });
+
+    render(() => (
+      <Flow
+        flow={flow}
+        persister={persister}
+        loading={<p>Loading...</p>}
+        steps={{
+          welcome: () => <p>Welcome</p>,
+          profile: () => <p>Profile</p>,
+        }}
+      />
+    ));
+
+    expect(screen.getByText("Loading...")).toBeInTheDocument();
+    expect(await screen.findByText("Profile")).toBeInTheDocument();
+  });
+
+  it("should throw when useFlowState is used outside a Flow", () => {
+    function Outside() {
+      useFlowState();
+      return null;
+    }
+
+    expect(() => render(() => <Outside />)).toThrow(
+      "useFlowState must be used within a Flow component",
+    );
+  });
+});
@@ -0,0 +1,375 @@
+import {
+  canGoForward,
+  canNavigateBack,
+  canNavigateNext,
+  canRedo,
+  canUndo,
+  createFlowRuntime,
+  type FlowContext,
+  type FlowMiddleware,
+  type FlowRuntime,
+  type FlowRuntimeSnapshot,
+  getNextStepsInfo,
+  getStepErrors,
+  getStepsInfo,
+  selectStepEntry,
+} from "@useflow/core";
+import {
+  type Accessor,
+  createComponent,
+  createComputed,
+  createContext,
+  createMemo,
+  createSignal,
+  type JSX,
+  onCleanup,
+  onMount,
+  type Signal,
+  untrack,
+  useContext,
+} from "solid-js";
+import { useFlowConfig } from "./provider";
+import type {
+  FlowDefinition,
+  FlowProps,
+  NestedStepComponents,
+  StepComponent,
+  UseFlowReturn,
+} from "./types";
+
+// biome-ignore lint/suspicious/noExplicitAny: Context requires a concrete type, type safety enforced at usage via generics
+const FlowStateContext = createContext<UseFlowReturn<any>>();
+
+/**
+ * Get the current flow state from the nearest Flow component
+ *
+ * Use this directly in components when you don't need type-safe navigation,
+ * or use the accessor from defineFlow for full type safety.
+ *
+ * @example
+ * ```tsx
+ * function NameStep() {
+ *   const flow = useFlowState<MyContext>();
+ *   return <p>{flow.context.name}</p>;
+ * }
+ *
+ * // Type-safe usage (recommended):
+ * const flow = myFlow.useFlowState({ step: "profile" });
+ * flow.next("option1"); // ✅ Type-safe!
+ * ```
+ */
+export function useFlowState<
+  TContext extends FlowContext = FlowContext,
+>(_options?: { step?: string }): UseFlowReturn<TContext> {
+  const state = useContext(FlowStateContext);
+  if (!state) {
+    throw new Error("useFlowState must be used within a Flow component");
+  }
+
+  return state;
+}
+
+const isStepComponent = (
+  entry: StepComponent | NestedStepComponents,
+): entry is StepComponent => typeof entry === "function";
+
+/**
+ * Reads a context field by field
+ * Each field read goes through its own signal (created on first read), so
+ * dependents only re-run when that field changes. Values are kept as they
+ * are - the runtime's context objects are never copied or written to.
+ * Listing the keys (spreading, Object.keys, ...) tracks the whole context.
+ */
+function createContextFields<TContext extends FlowContext>(
+  read: Accessor<TContext>,
+): TContext {
+  const fields = new Map<string | symbol, Signal<unknown>>();
+  createComputed(() => {
+    const context = read();
+    for (const [key, [, setField]] of fields) {
+      // Wrapped so function values are stored rather than called
+      setField(() => Reflect.get(context, key));
+    }
+  });
+
+  const field = (key: string | symbol) => {
+    let signal = fields.get(key);
+    if (!signal) {
+      signal = createSignal<unknown>(Reflect.get(untrack(read), key));
+      fields.set(key, signal);
+    }
+    return signal[0]();
+  };
+
+  return new Proxy({} as TContext, {
+    get: (_, key) => field(key),
+    has: (_, key) => key in read(),
+    ownKeys: () => Reflect.ownKeys(read()),
+    getOwnPropertyDescriptor: (_, key) => {
+      const descriptor = Reflect.getOwnPropertyDescriptor(read(), key);
+      return descriptor && { ...descriptor, configurable: true };
+    },
+  });
+}
+
+/**
+ * Creates the flow state exposed to step components and useFlowState()
+ * Each property is a memo over the runtime snapshot, so dependents only
+ * re-run when the value they read changes. Reading one context field only
+ * tracks that field. Must be called under an owner (e.g. in a component),
+ * which unsubscribes from the runtime on cleanup.
+ *
+ * @param runtime - Runtime created with createFlowRuntime()
+ * @param definition - Flow definition the runtime runs
+ * @returns Flow state with reactive getters and the runtime's methods
+ */
+export function createFlowState<TContext extends FlowContext>(
+  runtime: FlowRuntime<TContext>,
+  definition: FlowDefinition,
+): UseFlowReturn<TContext> {
+  const [snapshot, setSnapshot] = createSignal<FlowRuntimeSnapshot<TContext>>(
+    runtime.getSnapshot(),
+  );
+  onCleanup(runtime.subscribe(() => setSnapshot(runtime.getSnapshot())));
+
+  const select = <T>(
+    read: (snapshot: FlowRuntimeSnapshot<TContext>) => T,
+  ): Accessor<T> => createMemo(() => read(snapshot()));
+
+  const state = select((s) => s.state);
+  const stepId = select((s) => s.state.stepId);
+  const contextState = select((s) => s.state.context);
+  const status = select((s) => s.state.status);
+  const path = select((s) => s.state.path);
+  const history = select((s) => s.state.history);
+  const startedAt = select((s) => s.state.startedAt);
+  const completedAt = select((s) => s.state.completedAt);
+  const child = select((s) => s.state.child);
+  const parallel = select((s) => s.state.parallel);
+  const forwardStack = select((s) => s.state.forwardStack);
+  const isRestoring = select((s) => s.isRestoring);
+  const isTransitioning = select((s) => s.isTransitioning);
+  const rejection = select((s) => s.rejection);
+  const transitionError = select((s) => s.transitionError);
+  const context = createContextFields(contextState);
+  const iteration = createMemo(() => path()[path().length - 1]?.iteration);
+  const canGoBack = createMemo(() => canNavigateBack(state()));
+  const canGoForwardMemo = createMemo(() => canGoForward(state()));
+  const canUndoMemo = createMemo(() => canUndo(state()));
+  const canRedoMemo = createMemo(() => canRedo(state()));
+  const errors = createMemo(() => getStepErrors(state()));
+
+  const steps = getStepsInfo(definition);
+  const nextSteps = createMemo(() => getNextStepsInfo(definition, stepId()));
+  const canGoNext = createMemo(() => canNavigateNext(state(), definition));
+
+  return {
+    get stepId() {
+      return stepId();
+    },
+    get step() {
+      return definition.steps[stepId()] ?? {};
+    },
+    get context() {
+      return context;
+    },
+    get status() {
+      return status();
+    },
+    get path() {
+      return path();
+    },
+    get history() {
+      return history();
+    },
+    get startedAt() {
+      return startedAt();
+    },
+    get completedAt() {
+      return completedAt();
+    },
+    get child() {
+      return child();
+    },
+    get parallel() {
+      return parallel();
+    },
+    get forwardStack() {
+      return forwardStack();
+    },
+    get iteration() {
+      return iteration();
+    },
+    get errors() {
+      return errors();
+    },
+    get isRestoring() {
+      return isRestoring();
+    },
+    get isTransitioning() {
+      return isTransitioning();
+    },
+    get rejection() {
+      return rejection();
+    },
+    get transitionError() {
+      return transitionError();
+    },
+    steps,
+    get nextSteps() {
+      return nextSteps();
+    },
+    get canGoBack() {
+      return canGoBack();
+    },
+    get canGoForward() {
+      return canGoForwardMemo();
+    },
+    get canUndo() {
+      return canUndoMemo();
+    },
+    get canRedo() {
+      return canRedoMemo();
+    },
+    get progress() {
+      // Only computed when read (the runtime caches it per state)
+      return runtime.getProgress(state());
+    },
+    get canGoNext() {
+      return canGoNext();
+    },
+    next: runtime.next,
+    skip: runtime.skip,
+    back: runtime.back,
+    goTo: runtime.goTo,
+    forward: runtime.forward,
+    repeat: runtime.repeat,
+    setItem: runtime.setItem,
+    selectBranch: runtime.selectBranch,
+    setContext: runtime.setContext,
+    undo: runtime.undo,
+    redo: runtime.redo,
+    restore: runtime.restore,
+    reset: runtime.reset,
+    save: runtime.save,
+  };
+}
+
+/**
+ * Flow - main component for running a flow
+ *
+ * Renders the component in `steps` for the current step with the flow state
+ * as props, or calls `children` when there is none. Sub-flow and parallel
+ * steps can map to nested records. The `loading` element is shown while
+ * persisted state is restored.
+ *
+ * The step component is only recreated when the step changes - its content
+ * updates through the flow state's fine-grained getters. The runtime is
+ * created once, so re-mount the component (e.g. with a keyed <Show>) to start
+ * a different flow or instance.
+ *
+ * @example
+ * ```tsx
+ * <Flow
+ *   flow={onboardingFlow}
+ *   initialContext={{ name: "" }}
+ *   persister={persister}
+ *   loading={<Spinner />}
+ *   onComplete={done}
+ *   steps={{
+ *     welcome: WelcomeStep,
+ *     profile: (flow) => <ProfileStep name={flow.context.name} />,
+ *     checkout: { payment: PaymentStep, review: ReviewStep },
+ *   }}
+ * />
+ * ```
+ */
+export function Flow<TContext extends FlowContext = FlowContext>(
+  props: FlowProps<TContext>,
+): JSX.Element {
+  // Get global config from provider (if available)
+  const globalConfig = useFlowConfig();
+
+  const runtime = createFlowRuntime<FlowDefinition, TContext>(props.flow, {
+    initialContext: props.initialContext,
+    persister: props.persister ?? globalConfig()?.persister,
+  });
+
+  // Merge global and local config (local props override global)
+  createComputed(() => {
+    const config = globalConfig();
+    runtime.setOptions({
+      initialContext: props.initialContext,
+      instanceId: props.instanceId,
+      persister: props.persister ?? config?.persister,
+      saveDebounce: props.saveDebounce ?? config?.saveDebounce ?? 300,
+      saveMode: props.saveMode ?? config?.saveMode ?? "navigation",
+      onComplete: props.onComplete,
+      onNext: props.onNext,
+      onSkip: props.onSkip,
+      onBack: props.onBack,
+      onTransition: props.onTransition,
+      onContextUpdate: props.onContextUpdate,
+      onGuardReject: props.onGuardReject,
+      onValidationError: props.onValidationError,
+      onTransitionError: props.onTransitionError,
+      onPersistenceError:
+        props.onPersistenceError ?? config?.onPersistenceError,
+      onSave: props.onSave,
+      onRestore: props.onRestore,
+      callbacks: config?.callbacks,
+      // Global middleware wraps the flow's own (and works with any context)
+      middleware: [
+        ...((config?.middleware ?? []) as FlowMiddleware<TContext>[]),
+        ...(props.middleware ?? []),
+      ],
+      journal: props.journal,
+      undo: props.undo,
+    });
+  });
+
+  const flowState = createFlowState(runtime, props.flow.config);
+
+  // Restore persisted state after mount and report the flow start
+  onMount(() => {
+    runtime.start();
+  });
+  onCleanup(() => runtime.stop());
+
+  const stepComponent = createMemo(() =>
+    props.steps
+      ? selectStepEntry(
+          props.steps as NestedStepComponents,
+          {
+            stepId: flowState.stepId,
+            path: flowState.path,
+            child: flowState.child,
+            parallel: flowState.parallel,
+          },
+          isStepComponent,
+        )
+      : undefined,
+  );
+
+  return createComponent(FlowStateContext.Provider, {
+    value: flowState,
+    get children() {
+      // Solid renders the memo and re-renders when it changes
+      return createMemo(() => {
+        // Show loading element while restoring to prevent flash of wrong content
+        if (flowState.isRestoring) return props.loading;
+
+        const Step = stepComponent();
+        const { children } = props;
+        return untrack(() => {
+          if (Step)
+            return createComponent(
+              Step,
+              flowState as UseFlowReturn<FlowContext>,
+            );
+          return children?.(flowState);
+        });
+      }) as unknown as JSX.Element;
+    },
+  });
+}
@@ -0,0 +1,19 @@
+import { describe, expect, it } from "vitest";
+import * as api from "./index";
+
+describe("Public API", () => {
+  it("should export defineFlow function", () => {
+    expect(api.defineFlow).toBeDefined();
+    expect(typeof api.defineFlow).toBe("function");
+  });
+
+  it("should export Flow and FlowProvider components", () => {
+    expect(typeof api.Flow).toBe("function");
+    expect(typeof api.FlowProvider).toBe("function");
+  });
+
+  it("should export useFlowState", () => {
+    expect(api.useFlowState).toBeDefined();
+    expect(typeof api.useFlowState).toBe("function");
+  });
+});
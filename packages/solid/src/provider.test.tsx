@@ -0,0 +1,86 @@
+import { fireEvent, render, screen } from "@solidjs/testing-library";
+import { createMemoryStore, createPersister } from "@useflow/core";
+import { describe, expect, it, vi } from "vitest";
+import { defineFlow } from "./define-flow";
+import { Flow } from "./flow";
+import { FlowProvider, useFlowConfig } from "./provider";
+
+const flow = defineFlow({
+  id: "test",
+  start: "step1",
+  steps: {
+    step1: { next: "step2" },
+    step2: {},
+  },
+});
+
+describe("FlowProvider", () => {
+  it("should provide config to useFlowConfig", () => {
+    const config = { saveMode: "manual" as const };
+    let provided: unknown;
+    function Child() {
+      provided = useFlowConfig()();
+      return null;
+    }
+
+    render(() => (
+      <FlowProvider config={config}>
+        <Child />
+      </FlowProvider>
+    ));
+
+    expect(provided).toEqual(config);
+  });
+
+  it("should return null without a provider", () => {
+    let provided: unknown;
+    function Child() {
+      provided = useFlowConfig()();
+      return null;
+    }
+
+    render(() => <Child />);
+
+    expect(provided).toBeNull();
+  });
+
+  it("should apply the persister and global callbacks to flows", async () => {
+    const persister = createPersister({ store: createMemoryStore() });
+    const save = vi.spyOn(persister, "save");
+    const onFlowStart = vi.fn();
+    const onStepTransition = vi.fn();
+
+    render(() => (
+      <FlowProvider
+        config={{
+          persister,
+          saveDebounce: 0,
+          callbacks: { onFlowStart, onStepTransition },
+        }}
+      >
+        <Flow flow={flow} instanceId="a">
+          {({ next }) => <button onClick={() => next()}>Next</button>}
+        </Flow>
+      </FlowProvider>
+    ));
+
+    await vi.waitFor(() => {
+      expect(onFlowStart).toHaveBeenCalledWith(
+        expect.objectContaining({ flowId: "test", instanceId: "a" }),
+      );
+    });
+
+    fireEvent.click(screen.getByText("Next"));
+
+    expect(onStepTransition).toHaveBeenCalledWith(
+      expect.objectContaining({ from: "step1", to: "step2" }),
+    );
+    await vi.waitFor(() => {
+      expect(save).toHaveBeenCalledWith(
+        "test",
+        expect.objectContaining({ stepId: "step2" }),
+        expect.objectContaining({ instanceId: "a" }),
+      );
+    });
+  });
+});
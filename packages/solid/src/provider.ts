@@ -0,0 +1,107 @@
+import type {
+  FlowMiddleware,
+  FlowPersister,
+  GlobalFlowCallbacks,
+  SaveMode,
+} from "@useflow/core";
+import {
+  type Accessor,
+  createComponent,
+  createContext,
+  type JSX,
+  useContext,
+} from "solid-js";
+
+export type { SaveMode, TransitionEvent } from "@useflow/core";
+
+/**
+ * Configuration for the FlowProvider
+ *
+ * Provides default settings for all flows in your application.
+ * Individual Flow components can override these defaults by passing props directly.
+ */
+export interface FlowProviderConfig {
+  /**
+   * Default persister for all flows
+   * Can be overridden per-flow by passing persister prop to Flow component
+   */
+  persister?: FlowPersister;
+
+  /**
+   * Default save mode for all flows
+   * - "always": Save on every state change (context updates, navigation)
+   * - "navigation": Save only on navigation (next/skip/back)
+   * - "manual": Only save when calling save() explicitly
+   *
+   * @default "navigation"
+   */
+  saveMode?: SaveMode;
+
+  /**
+   * Default debounce delay (in ms) for save operations
+   *
+   * @default 300
+   */
+  saveDebounce?: number;
+
+  /**
+   * Global error handler for persistence failures
+   * Called when save/restore/remove operations fail
+   */
+  onPersistenceError?: (error: Error) => void;
+
+  /**
+   * Global callbacks for flow lifecycle events
+   */
+  callbacks?: GlobalFlowCallbacks;
+
+  /**
+   * Middleware for all flows
+   * Runs before (outside) the middleware passed to each Flow
+   */
+  middleware?: FlowMiddleware[];
+}
+
+const FlowConfigContext = createContext<Accessor<FlowProviderConfig>>();
+
+/**
+ * Provider component for global flow configuration
+ *
+ * Wrap your app with this component to provide default settings for all flows.
+ * Individual Flow components can override these defaults by passing props directly.
+ *
+ * @example
+ * ```tsx
+ * <FlowProvider config={{ persister, saveMode: "always" }}>
+ *   <App />
+ * </FlowProvider>
+ * ```
+ */
+export function FlowProvider(props: {
+  config: FlowProviderConfig;
+  children?: JSX.Element;
+}): JSX.Element {
+  return createComponent(FlowConfigContext.Provider, {
+    value: () => props.config,
+    get children() {
+      return props.children;
+    },
+  });
+}
+
+/**
+ * Access global flow configuration
+ *
+ * Use this in custom components or primitives to access the global flow config.
+ * The accessor returns null if no FlowProvider is present in the component tree.
+ *
+ * @example
+ * ```ts
+ * const globalConfig = useFlowConfig();
+ * const persister = () => globalConfig()?.persister;
+ * ```
+ */
+export function useFlowConfig(): Accessor<FlowProviderConfig | null> {
+  const config = useContext(FlowConfigContext);
+  return () => config?.() ?? null;
+}
@@ -0,0 +1,210 @@
+import type {
+  ContextUpdate,
+  FlowDefinition as CoreFlowDefinition,
+  FlowContext,
+  FlowProgress,
+  FlowRuntimeOptions,
+  FlowState,
+  ForwardEntry,
+  GuardRejection,
+  HistoryEntry,
+  ParallelState,
+  PathEntry,
+  RuntimeFlowDefinition,
+  StepDefinition,
+  StepErrors,
+  StepInfo,
+  StepTransition,
+} from "@useflow/core";
+import type { Component, JSX } from "solid-js";
+
+export type { StepInfo };
+
+/**
+ * FlowDefinition is an alias for core's FlowDefinition
+ * Used for type constraints in defineFlow
+ */
+export type FlowDefinition<
+  TSteps extends Record<string, StepDefinition<StepTransition>> = Record<
+    string,
+    StepDefinition<StepTransition>
+  >,
+> = CoreFlowDefinition<TSteps>;
+
+/**
+ * Return type of useFlowState() (and the props of step components)
+ *
+ * State properties are getters backed by one memo per property, so reading
+ * `stepId` only re-runs when the step changes, `context` when the context
+ * changes, and so on. Like Solid props, they stay reactive when read in JSX,
+ * createMemo() or createEffect() - but not when destructured
+ */
+export type UseFlowReturn<
+  TContext extends FlowContext,
+  TValidNextSteps extends string = string,
+  TStepNames extends string = string,
+> = {
+  readonly stepId: string;
+  readonly step: CoreFlowDefinition["steps"][string];
+  readonly context: TContext;
+  readonly status: "active" | "complete";
+  /** Path taken through the flow - used for back navigation */
+  readonly path: PathEntry[];
+  /** Complete navigation history with timestamps - tracks all movements */
+  readonly history: HistoryEntry[];
+  /** When the flow was started (first step entered) */
+  readonly startedAt: number;
+  /** When the flow was completed (undefined if still active) */
+  readonly completedAt?: number;
+  /** State of the active sub-flow (when the current step runs one) */
+  readonly child?: FlowState;
+  /** Branch states of the active parallel step */
+  readonly parallel?: ParallelState;
+  /** Steps that forward() can re-enter (most recent back() last) */
+  readonly forwardStack?: ForwardEntry[];
+  /** Iteration index of the current looping step (undefined for other steps) */
+  readonly iteration?: number;
+  /**
+   * Field errors from the current step's validator (innermost active flow)
+   * Set when next() or skip() was rejected, cleared once the step is valid
+   */
+  readonly errors?: StepErrors;
+  /** Whether persisted state is being restored */
+  readonly isRestoring: boolean;
+  /** Whether a navigation is waiting on an async resolver or guard */
+  readonly isTransitioning: boolean;
+  /** Last transition blocked by a guard (cleared when a transition is allowed) */
+  readonly rejection: GuardRejection | null;
+  /** Last async navigation error (cleared when a transition is committed) */
+  readonly transitionError: Error | null;
+
+  /**
+   * All steps in the flow as a record of step IDs to step info
+   * Each step only contains navigation metadata (next property)
+   */
+  readonly steps: Record<TStepNames, StepInfo<TStepNames>>;
+  /**
+   * Possible next steps from the current step
+   * undefined if current step is terminal (no next steps)
+   */
+  readonly nextSteps: readonly TValidNextSteps[] | undefined;
+  /** Whether the user can navigate back */
+  readonly canGoBack: boolean;
+  /** Whether forward() would re-enter a step left with back() */
+  readonly canGoForward: boolean;
+  /** Whether undo() would revert a context change (in the innermost active flow) */
+  readonly canUndo: boolean;
+  /** Whether redo() would re-apply a context change reverted by undo() */
+  readonly canRedo: boolean;
+  /** Completed and remaining steps from the flow graph - see getProgress() */
+  readonly progress: FlowProgress;
+  /** Whether the user can navigate forward */
+  readonly canGoNext: boolean;
+
+  next: {
+    (target: TValidNextSteps, update?: ContextUpdate<TContext>): void;
+    (update?: ContextUpdate<TContext>): void;
+  };
+  skip: {
+    (target: TValidNextSteps, update?: ContextUpdate<TContext>): void;
+    (update?: ContextUpdate<TContext>): void;
+  };
+  back: () => void;
+  /** Jump back to an earlier step on the path (e.g. from a stepper) */
+  goTo: (stepId: string) => void;
+  /** Re-enter the step most recently left with back() */
+  forward: () => void;
+  /** Finish the current iteration of a looping step and start the next one */
+  repeat: (update?: ContextUpdate<FlowContext>) => void;
+  /** Update the current iteration's item of a looping step */
+  setItem: (update: ContextUpdate<FlowContext>) => void;
+  /** Switch the active branch of a parallel step */
+  selectBranch: (branch: string) => void;
+  setContext: (update: ContextUpdate<TContext>) => void;
+  /** Revert the last context change (when the Flow's undo option is set) */
+  undo: () => void;
+  /** Re-apply a context change reverted by undo() */
+  redo: () => void;
+  restore: (state: FlowState<TContext>) => void;
+  /** Remove persisted state and go back to the initial state */
+  reset: () => Promise<void>;
+  /**
+   * Manually trigger a save when saveMode="manual"
+   * Does nothing if no persister is configured
+   */
+  save: () => Promise<void>;
+};
+
+/**
+ * Extract step names from a flow config
+ */
+export type StepNames<TDefinition> = TDefinition extends { steps: infer S }
+  ? keyof S
+  : never;
+
+/**
+ * Extract valid next step destinations for a specific step
+ * - For arrays: extracts union of array element types
+ * - For conditional transitions: extracts their `to` steps
+ * - For strings: returns the string literal type
+ * - For undefined: returns never (terminal step with no next)
+ */
+export type ValidNextSteps<
+  TDefinition,
+  TStep extends StepNames<TDefinition>,
+> = TDefinition extends { steps: infer S }
+  ? TStep extends keyof S
+    ? S[TStep] extends { next: infer N }
+      ? N extends readonly (infer E)[]
+        ? E extends { to: infer T }
+          ? T
+          : E
+        : N extends string
+          ? N
+          : never
+      : never
+    : never
+  : never;
+
+/**
+ * Component rendered for a step
+ * Receives the flow state as props
+ */
+export type StepComponent<TContext extends FlowContext = FlowContext> =
+  Component<UseFlowReturn<TContext>>;
+
+/**
+ * Step components for a sub-flow or parallel step
+ * Keyed by the child flow's step ids, or by branch id for parallel steps
+ */
+export type NestedStepComponents<TContext extends FlowContext = FlowContext> = {
+  [stepId: string]: StepComponent<TContext> | NestedStepComponents<TContext>;
+};
+
+/**
+ * Step components keyed by step id
+ */
+export type StepComponents<
+  TStepNames extends string = string,
+  TContext extends FlowContext = FlowContext,
+> = {
+  [K in TStepNames]?: StepComponent<TContext> | NestedStepComponents<TContext>;
+};
+
+/**
+ * Props of the Flow component
+ * Accepts the same options and callbacks as the React Flow component
+ */
+export type FlowProps<TContext extends FlowContext = FlowContext> = Omit<
+  FlowRuntimeOptions<TContext>,
+  "initialState" | "callbacks"
+> & {
+  // biome-ignore lint/suspicious/noExplicitAny: Flows can use any context type
+  flow: RuntimeFlowDefinition<FlowDefinition, any>;
+  /** Components rendered for each step */
+  steps?: StepComponents<string, TContext>;
+  /** Rendered while persisted state is restored */
+  loading?: JSX.Element;
+  /** Rendered for steps without a component in `steps` */
+  children?: (state: UseFlowReturn<TContext>) => JSX.Element;
+};
@@ -0,0 +1,30 @@
+import solid from "vite-plugin-solid";
+import tsconfigPaths from "vite-tsconfig-paths";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  plugins: [tsconfigPaths(), solid()],
+  test: {
+    globals: true,
+    environment: "jsdom",
+    setupFiles: ["./vitest.setup.ts"],
+    silent: true,
+    // Use solid-js' browser build instead of the server build in jsdom
+    server: {
+      deps: {
+        inline: [/solid-js/, /@solidjs\/testing-library/],
+      },
+    },
+    coverage: {
+      include: ["src/**/*.ts"],
+      exclude: [
+        "**/*.config.{ts,js}",
+        "**/tsconfig.json",
+        "**/dist/**",
+        "**/node_modules/**",
+        "**/*.test.{ts,tsx}",
+        "**/*.setup.{ts,tsx}",
+      ],
+    },
+  },
+});
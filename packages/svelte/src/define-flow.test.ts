@@ -0,0 +1,54 @@
+import { fireEvent, render, screen } from "@testing-library/svelte";
+import type { FlowContext } from "@useflow/core";
+import { createRawSnippet } from "svelte";
+import { describe, expect, it } from "vitest";
+import { defineFlow, RuntimeFlowDefinition } from "./define-flow";
+import Flow from "./Flow.svelte";
+import type { UseFlowReturn } from "./types";
+
+describe("defineFlow", () => {
+  const flow = defineFlow({
+    id: "test",
+    start: "first",
+    steps: {
+      first: { next: ["a", "b"] },
+      a: {},
+      b: {},
+    },
+  });
+
+  it("should return a Svelte RuntimeFlowDefinition", () => {
+    expect(flow).toBeInstanceOf(RuntimeFlowDefinition);
+    expect(flow.id).toBe("test");
+    expect(typeof flow.useFlowState).toBe("function");
+  });
+
+  it("should keep the useFlowState accessor after with()", () => {
+    const typed = flow.with<{ choice: string }>((steps) => ({
+      resolvers: {
+        first: (ctx) => (ctx.choice === "a" ? steps.a : steps.b),
+      },
+    }));
+
+    expect(typed).toBeInstanceOf(RuntimeFlowDefinition);
+    expect(typeof typed.useFlowState).toBe("function");
+  });
+
+  it("should navigate to the chosen branch", async () => {
+    render(Flow, {
+      props: {
+        flow,
+        first: createRawSnippet((state: () => UseFlowReturn<FlowContext>) => ({
+          render: () => "<button>Go</button>",
+          setup: (node) => {
+            node.addEventListener("click", () => state().next("b"));
+          },
+        })),
+        b: createRawSnippet(() => ({ render: () => "<div>B</div>" })),
+      },
+    });
+
+    await fireEvent.click(screen.getByText("Go"));
+    expect(screen.getByText("B")).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,67 @@
+import {
+  createFlowStateView,
+  type FlowContext,
+  type FlowRuntime,
+} from "@useflow/core";
+import { getContext, onDestroy, setContext } from "svelte";
+import type { FlowDefinition, UseFlowReturn } from "./types";
+
+const flowStateKey = Symbol("useflow-state");
+
+/**
+ * Creates the rune-based state of a running flow
+ * Subscribes to the runtime until the calling component is destroyed, so it
+ * must be called during component initialisation
+ *
+ * @param runtime - Runtime created with createFlowRuntime()
+ * @param definition - Flow definition the runtime runs
+ * @returns Flow state with reactive getters and the runtime's methods
+ */
+export function createFlowState<TContext extends FlowContext>(
+  runtime: FlowRuntime<TContext>,
+  definition: FlowDefinition,
+): UseFlowReturn<TContext> {
+  let snapshot = $state.raw(runtime.getSnapshot());
+  onDestroy(
+    runtime.subscribe(() => {
+      snapshot = runtime.getSnapshot();
+    }),
+  );
+
+  // Getters read the rune, so Svelte tracks them in templates and $derived
+  return createFlowStateView(runtime, definition, () => snapshot);
+}
+
+/**
+ * Makes the flow state available to step components (used by Flow)
+ */
+export function setFlowState(state: UseFlowReturn<FlowContext>): void {
+  setContext(flowStateKey, state);
+}
+
+/**
+ * Get the current flow state from the nearest Flow component
+ *
+ * Must be called during component initialisation. Use this directly when you
+ * don't need type-safe navigation, or use the accessor from defineFlow.
+ *
+ * @example
+ * ```svelte
+ * <script lang="ts">
+ *   const flow = useFlowState<MyContext>();
+ * </script>
+ *
+ * <p>{flow.context.name}</p>
+ * <button onclick={() => flow.next()}>Next</button>
+ * ```
+ */
+export function useFlowState<
+  TContext extends FlowContext = FlowContext,
+>(_options?: { step?: string }): UseFlowReturn<TContext> {
+  const state = getContext<UseFlowReturn<TContext> | undefined>(flowStateKey);
+  if (!state) {
+    throw new Error("useFlowState must be used within a Flow component");
+  }
+
+  return state;
+}
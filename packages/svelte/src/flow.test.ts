@@ -0,0 +1,139 @@
+import { fireEvent, render, screen } from "@testing-library/svelte";
+import { createMemoryStore, createPersister } from "@useflow/core";
+import { createRawSnippet } from "svelte";
+import { describe, expect, it, vi } from "vitest";
+import { defineFlow } from "./define-flow";
+import Flow from "./Flow.svelte";
+import FlowHarness from "./FlowHarness.test.svelte";
+import StepProbe from "./StepProbe.test.svelte";
+import type { UseFlowReturn } from "./types";
+
+const flow = defineFlow({
+  id: "signup",
+  start: "welcome",
+  steps: {
+    welcome: { next: "profile" },
+    profile: { next: "done" },
+    done: {},
+  },
+});
+
+// Snippet rendering a button that moves to the next step
+const nextButton = (label: string) =>
+  createRawSnippet((state: () => UseFlowReturn<{ name?: string }>) => ({
+    render: () => `<button>${label}</button>`,
+    setup: (node) => {
+      node.addEventListener("click", () => state().next({ name: "Ada" }));
+    },
+  }));
+
+const text = (label: string) =>
+  createRawSnippet(() => ({ render: () => `<p>${label}</p>` }));
+
+describe("Flow", () => {
+  it("should render the snippet for the current step", async () => {
+    render(Flow, {
+      props: {
+        flow,
+        welcome: nextButton("Welcome"),
+        profile: createRawSnippet(
+          (state: () => UseFlowReturn<{ name?: string }>) => ({
+            render: () => `<p>Profile ${state().context.name}</p>`,
+          }),
+        ),
+      },
+    });
+
+    await fireEvent.click(screen.getByText("Welcome"));
+
+    expect(screen.getByText("Profile Ada")).toBeInTheDocument();
+  });
+
+  it("should fall back to children with a reactive flow state", async () => {
+    render(FlowHarness, { props: { flow } });
+
+    expect(screen.getByText("welcome::false")).toBeInTheDocument();
+    await fireEvent.click(screen.getByText("Next"));
+    expect(screen.getByText("profile:Ada:true")).toBeInTheDocument();
+  });
+
+  it("should render dotted snippets for sub-flow steps", () => {
+    const payment = defineFlow({
+      id: "payment",
+      start: "card",
+      steps: { card: { next: "confirm" }, confirm: {} },
+    });
+    const checkout = defineFlow({
+      id: "checkout",
+      start: "pay",
+      steps: { pay: { flow: "payment", next: "done" }, done: {} },
+    }).with(() => ({ subFlows: { payment: { flow: payment } } }));
+
+    render(Flow, {
+      props: { flow: checkout, pay: text("Pay"), "pay.card": text("Card") },
+    });
+
+    expect(screen.getByText("Card")).toBeInTheDocument();
+    expect(screen.queryByText("Pay")).not.toBeInTheDocument();
+  });
+
+  it("should call callback props", async () => {
+    const onNext = vi.fn();
+    const onComplete = vi.fn();
+    render(Flow, {
+      props: {
+        flow,
+        onNext,
+        onComplete,
+        welcome: nextButton("Welcome"),
+        profile: nextButton("Profile"),
+      },
+    });
+
+    await fireEvent.click(screen.getByText("Welcome"));
+    await fireEvent.click(screen.getByText("Profile"));
+
+    expect(onNext).toHaveBeenCalledTimes(2);
+    expect(onNext).toHaveBeenCalledWith(
+      expect.objectContaining({ from: "welcome", to: "profile" }),
+    );
+    expect(onComplete).toHaveBeenCalledWith({ context: { name: "Ada" } });
+  });
+
+  it("should show the loading snippet while restoring", async () => {
+    const persister = createPersister({ store: createMemoryStore() });
+    await persister.save("signup", {
+      stepId: "profile",
+      context: { name: "Ada" },
+      path: [
+        { stepId: "welcome", startedAt: 1, completedAt: 2, action: "next" },
+        { stepId: "profile", startedAt: 2 },
+      ],
+      history: [
+        { stepId: "welcome", startedAt: 1, completedAt: 2, action: "next" },
+        { stepId: "profile", startedAt: 2 },
+      ],
+      status: "active",
+      startedAt: 1,
+    });
+
+    render(Flow, {
+      props: {
+        flow,
+        persister,
+        loading: text("Loading..."),
+        welcome: text("Welcome"),
+        profile: text("Profile"),
+      },
+    });
+
+    expect(screen.getByText("Loading...")).toBeInTheDocument();
+    expect(await screen.findByText("Profile")).toBeInTheDocument();
+  });
+
+  it("should throw when useFlowState is used outside a Flow", () => {
+    expect(() => render(StepProbe)).toThrow(
+      "useFlowState must be used within a Flow component",
+    );
+  });
+});
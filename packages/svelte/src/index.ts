@@ -0,0 +1,86 @@
+// Re-export core types and utilities
+// Re-export persister types and factory from core (framework-agnostic)
+// Re-export runtime types from core for convenience
+export type {
+  AsyncStorageOptions,
+  BrowserStorageOptions,
+  Condition,
+  ConditionalTransition,
+  ContextSchema,
+  ContextValidationEvent,
+  FieldCondition,
+  FlowContext,
+  FlowDefinitionIssue,
+  FlowDiagnostic,
+  FlowDispatch,
+  FlowMiddleware,
+  FlowMiddlewareApi,
+  FlowPersister,
+  FlowProgress,
+  FlowRuntimeConfig,
+  FlowStore,
+  GuardEvent,
+  GuardFunction,
+  GuardMap,
+  GuardRejection,
+  GuardResult,
+  JournalEntry,
+  KVFlowStore,
+  KVStorageAdapterOptions,
+  KVStore,
+  MigrateFunction,
+  ParallelState,
+  ParseFlowDefinitionResult,
+  PersistedFlowInstance,
+  PersistedFlowState,
+  PersisterOptions,
+  ResolveFunction,
+  ResolverMap,
+  Serializer,
+  SkipCondition,
+  SkipConditionMap,
+  StepErrors,
+  StepGuards,
+  StepMeta,
+  StepRefs,
+  StepValidator,
+  StringSerializer,
+  SubFlowConfig,
+  SubFlowMap,
+  UndoOptions,
+  ValidationResult,
+  ValidatorMap,
+} from "@useflow/core";
+export {
+  createAsyncStorageStore,
+  createLocalStorageStore,
+  createMemoryStore,
+  createPersister,
+  createSessionStorageStore,
+  FlowDefinitionError,
+  JsonSerializer,
+  kvStorageAdapter,
+  parseFlowDefinition,
+  validatePersistedState,
+} from "@useflow/core";
+
+// Svelte-specific exports
+export { defineFlow, RuntimeFlowDefinition } from "./define-flow";
+export { default as Flow } from "./Flow.svelte";
+export { default as FlowProvider } from "./FlowProvider.svelte";
+export { createFlowState, useFlowState } from "./flow-state.svelte";
+export type {
+  FlowConfigRef,
+  FlowProviderConfig,
+  SaveMode,
+  TransitionEvent,
+} from "./provider";
+export { useFlowConfig } from "./provider";
+export type {
+  FlowDefinition,
+  FlowProps,
+  StepInfo,
+  StepNames,
+  UseFlowReturn,
+  ValidNextSteps,
+} from "./types";
@@ -0,0 +1,54 @@
+import { fireEvent, render, screen } from "@testing-library/svelte";
+import { createMemoryStore, createPersister } from "@useflow/core";
+import { describe, expect, it, vi } from "vitest";
+import { defineFlow } from "./define-flow";
+import FlowHarness from "./FlowHarness.test.svelte";
+
+const flow = defineFlow({
+  id: "test",
+  start: "step1",
+  steps: {
+    step1: { next: "step2" },
+    step2: {},
+  },
+});
+
+describe("FlowProvider", () => {
+  it("should apply the persister and global callbacks to flows", async () => {
+    const persister = createPersister({ store: createMemoryStore() });
+    const save = vi.spyOn(persister, "save");
+    const onFlowStart = vi.fn();
+    const onStepTransition = vi.fn();
+
+    render(FlowHarness, {
+      props: {
+        flow,
+        instanceId: "a",
+        config: {
+          persister,
+          saveDebounce: 0,
+          callbacks: { onFlowStart, onStepTransition },
+        },
+      },
+    });
+
+    await vi.waitFor(() => {
+      expect(onFlowStart).toHaveBeenCalledWith(
+        expect.objectContaining({ flowId: "test", instanceId: "a" }),
+      );
+    });
+
+    await fireEvent.click(screen.getByText("Next"));
+
+    expect(onStepTransition).toHaveBeenCalledWith(
+      expect.objectContaining({ from: "step1", to: "step2" }),
+    );
+    await vi.waitFor(() => {
+      expect(save).toHaveBeenCalledWith(
+        "test",
+        expect.objectContaining({ stepId: "step2" }),
+        expect.objectContaining({ instanceId: "a" }),
+      );
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import type {
+  FlowMiddleware,
+  FlowPersister,
+  GlobalFlowCallbacks,
+  SaveMode,
+} from "@useflow/core";
+import { getContext, setContext } from "svelte";
+
+export type { SaveMode, TransitionEvent } from "@useflow/core";
+
+/**
+ * Configuration for the FlowProvider
+ *
+ * Provides default settings for all flows in your application.
+ * Individual Flow components can override these defaults by passing props directly.
+ */
+export interface FlowProviderConfig {
+  /**
+   * Default persister for all flows
+   * Can be overridden per-flow by passing persister prop to Flow component
+   */
+  persister?: FlowPersister;
+
+  /**
+   * Default save mode for all flows
+   * - "always": Save on every state change (context updates, navigation)
+   * - "navigation": Save only on navigation (next/skip/back)
+   * - "manual": Only save when calling save() explicitly
+   *
+   * @default "navigation"
+   */
+  saveMode?: SaveMode;
+
+  /**
+   * Default debounce delay (in ms) for save operations
+   *
+   * @default 300
+   */
+  saveDebounce?: number;
+
+  /**
+   * Global error handler for persistence failures
+   * Called when save/restore/remove operations fail
+   */
+  onPersistenceError?: (error: Error) => void;
+
+  /**
+   * Global callbacks for flow lifecycle events
+   */
+  callbacks?: GlobalFlowCallbacks;
+
+  /**
+   * Middleware for all flows
+   * Runs before (outside) the middleware passed to each Flow
+   */
+  middleware?: FlowMiddleware[];
+}
+
+/**
+ * Reactive reference to the provider config
+ */
+export type FlowConfigRef = {
+  readonly current: FlowProviderConfig | null;
+};
+
+const flowConfigKey = Symbol("useflow-config");
+
+/**
+ * Makes the config available to descendant components (used by FlowProvider)
+ * Must be called during component initialisation
+ *
+ * @param getConfig - Returns the latest config (e.g. from props)
+ */
+export function setFlowConfig(getConfig: () => FlowProviderConfig): void {
+  setContext<FlowConfigRef>(flowConfigKey, {
+    get current() {
+      return getConfig();
+    },
+  });
+}
+
+/**
+ * Access global flow configuration
+ *
+ * Must be called during component initialisation. `current` is null if no
+ * FlowProvider is present in the component tree.
+ *
+ * @example
+ * ```ts
+ * const globalConfig = useFlowConfig();
+ * const persister = $derived(globalConfig.current?.persister);
+ * ```
+ */
+export function useFlowConfig(): FlowConfigRef {
+  return (
+    getContext<FlowConfigRef | undefined>(flowConfigKey) ?? { current: null }
+  );
+}
@@ -0,0 +1,26 @@
+import { svelte } from "@sveltejs/vite-plugin-svelte";
+import { svelteTesting } from "@testing-library/svelte/vite";
+import tsconfigPaths from "vite-tsconfig-paths";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  // loose: resolve tsconfig paths from .svelte files too
+  plugins: [tsconfigPaths({ loose: true }), svelte(), svelteTesting()],
+  test: {
+    globals: true,
+    environment: "jsdom",
+    setupFiles: ["./vitest.setup.ts"],
+    silent: true,
+    coverage: {
+      include: ["src/**/*.{ts,svelte}"],
+      exclude: [
+        "**/*.config.{ts,js}",
+        "**/tsconfig.json",
+        "**/dist/**",
+        "**/node_modules/**",
+        "**/*.test.{ts,svelte}",
+        "**/*.setup.{ts,tsx}",
+      ],
+    },
+  },
+});
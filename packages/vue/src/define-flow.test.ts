@@ -0,0 +1,51 @@
+import { mount } from "@vue/test-utils";
+import { describe, expect, it } from "vitest";
+import { defineComponent, h } from "vue";
+import { defineFlow, RuntimeFlowDefinition } from "./define-flow";
+import { Flow } from "./flow";
+
+describe("defineFlow", () => {
+  const flow = defineFlow({
+    id: "test",
+    start: "first",
+    steps: {
+      first: { next: ["a", "b"] },
+      a: {},
+      b: {},
+    },
+  });
+
+  it("should return a Vue RuntimeFlowDefinition", () => {
+    expect(flow).toBeInstanceOf(RuntimeFlowDefinition);
+    expect(flow.id).toBe("test");
+    expect(typeof flow.useFlowState).toBe("function");
+  });
+
+  it("should keep the useFlowState composable after with()", () => {
+    const typed = flow.with<{ choice: string }>((steps) => ({
+      resolvers: {
+        first: (ctx) => (ctx.choice === "a" ? steps.a : steps.b),
+      },
+    }));
+
+    expect(typed).toBeInstanceOf(RuntimeFlowDefinition);
+    expect(typeof typed.useFlowState).toBe("function");
+  });
+
+  it("should provide typed step state inside a Flow", async () => {
+    const First = defineComponent({
+      setup() {
+        const state = flow.useFlowState({ step: "first" });
+        return () => h("button", { onClick: () => state.next("b") }, "Go");
+      },
+    });
+
+    const wrapper = mount(Flow, {
+      props: { flow },
+      slots: { first: () => h(First), b: () => h("div", "B") },
+    });
+
+    await wrapper.find("button").trigger("click");
+    expect(wrapper.text()).toBe("B");
+  });
+});
@@ -0,0 +1,174 @@
+import { createMemoryStore, createPersister } from "@useflow/core";
+import { flushPromises, mount } from "@vue/test-utils";
+import { describe, expect, it, vi } from "vitest";
+import { computed, defineComponent, h } from "vue";
+import { defineFlow } from "./define-flow";
+import { Flow, useFlowState } from "./flow";
+
+const flow = defineFlow({
+  id: "signup",
+  start: "welcome",
+  steps: {
+    welcome: { next: "profile" },
+    profile: { next: "done" },
+    done: {},
+  },
+});
+
+const NextButton = defineComponent({
+  setup() {
+    const state = useFlowState<{ name?: string }>();
+    return () =>
+      h("button", { onClick: () => state.next({ name: "Ada" }) }, "Next");
+  },
+});
+
+describe("Flow", () => {
+  it("should render the slot for the current step", async () => {
+    const wrapper = mount(Flow, {
+      props: { flow },
+      slots: {
+        welcome: () => h("div", ["Welcome", h(NextButton)]),
+        profile: ({ context }: { context: { name: string } }) =>
+          h("div", `Profile ${context.name}`),
+      },
+    });
+
+    expect(wrapper.text()).toContain("Welcome");
+
+    await wrapper.find("button").trigger("click");
+
+    expect(wrapper.text()).toBe("Profile Ada");
+  });
+
+  it("should fall back to the default slot with the flow state", async () => {
+    const wrapper = mount(Flow, {
+      props: { flow },
+      slots: {
+        default: ({ stepId, next }: { stepId: string; next: () => void }) =>
+          h("button", { onClick: () => next() }, stepId),
+      },
+    });
+
+    expect(wrapper.text()).toBe("welcome");
+    await wrapper.find("button").trigger("click");
+    expect(wrapper.text()).toBe("profile");
+  });
+
+  it("should render dotted slots for sub-flow steps", () => {
+    const payment = defineFlow({
+      id: "payment",
+      start: "card",
+      steps: { card: { next: "confirm" }, confirm: {} },
+    });
+    const checkout = defineFlow({
+      id: "checkout",
+      start: "pay",
+      steps: { pay: { flow: "payment", next: "done" }, done: {} },
+    }).with(() => ({ subFlows: { payment: { flow: payment } } }));
+
+    const wrapper = mount(Flow, {
+      props: { flow: checkout },
+      slots: {
+        pay: () => h("div", "Pay"),
+        "pay.card": () => h("div", "Card"),
+      },
+    });
+
+    expect(wrapper.text()).toBe("Card");
+  });
+
+  it("should keep useFlowState reactive in computed values", async () => {
+    const StepName = defineComponent({
+      setup() {
+        const state = useFlowState();
+        const label = computed(() => `${state.stepId}:${state.canGoBack}`);
+        return () => h("button", { onClick: () => state.next() }, label.value);
+      },
+    });
+
+    const wrapper = mount(Flow, {
+      props: { flow },
+      slots: { default: () => h(StepName) },
+    });
+
+    expect(wrapper.text()).toBe("welcome:false");
+    await wrapper.find("button").trigger("click");
+    expect(wrapper.text()).toBe("profile:true");
+  });
+
+  it("should call callback props and listeners", async () => {
+    const onNext = vi.fn();
+    const onComplete = vi.fn();
+    const wrapper = mount(Flow, {
+      props: { flow, onNext, onComplete },
+      slots: {
+        default: ({ next }: { next: () => void }) =>
+          h("button", { onClick: () => next() }, "Next"),
+      },
+    });
+
+    await wrapper.find("button").trigger("click");
+    await wrapper.find("button").trigger("click");
+
+    expect(onNext).toHaveBeenCalledTimes(2);
+    expect(onNext).toHaveBeenCalledWith(
+      expect.objectContaining({ from: "welcome", to: "profile" }),
+    );
+    expect(onComplete).toHaveBeenCalledWith({ context: {} });
+  });
+
+  it("should show the loading slot while restoring and save on navigation", async () => {
+    const persister = createPersister({ store: createMemoryStore() });
+    await persister.save("signup", {
+      stepId: "profile",
+      context: { name: "Ada" },
+      path: [
+        { stepId: "welcome", startedAt: 1, completedAt: 2, action: "next" },
+        { stepId: "profile", startedAt: 2 },
+      ],
+      history: [
+        { stepId: "welcome", startedAt: 1, completedAt: 2, action: "next" },
+        { stepId: "profile", startedAt: 2 },
+      ],
+      status: "active",
+      startedAt: 1,
+    });
+    const save = vi.spyOn(persister, "save");
+
+    const wrapper = mount(Flow, {
+      props: { flow, persister, saveDebounce: 0 },
+      slots: {
+        loading: () => h("div", "Loading..."),
+        default: ({ stepId, next }: { stepId: string; next: () => void }) =>
+          h("button", { onClick: () => next() }, stepId),
+      },
+    });
+
+    expect(wrapper.text()).toBe("Loading...");
+    await flushPromises();
+    expect(wrapper.text()).toBe("profile");
+
+    await wrapper.find("button").trigger("click");
+    expect(save).toHaveBeenCalledWith(
+      "signup",
+      expect.objectContaining({ stepId: "done" }),
+      expect.anything(),
+    );
+  });
+
+  it("should throw when useFlowState is used outside a Flow", () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const Orphan = defineComponent({
+      setup() {
+        useFlowState();
+        return () => null;
+      },
+    });
+
+    expect(() => mount(Orphan)).toThrow(
+      "useFlowState must be used within a Flow component",
+    );
+    vi.restoreAllMocks();
+  });
+});
@@ -0,0 +1,210 @@
+import {
+  type ContextValidationEvent,
+  createFlowRuntime,
+  createFlowStateView,
+  type FlowContext,
+  type FlowMiddleware,
+  type FlowPersister,
+  type FlowState,
+  type GuardRejection,
+  getStepKeys,
+  type PersistedFlowState,
+  type RuntimeFlowDefinition,
+  type SaveMode,
+  type StepChangeEvent,
+  type UndoOptions,
+} from "@useflow/core";
+import {
+  defineComponent,
+  type InjectionKey,
+  inject,
+  onBeforeUnmount,
+  onMounted,
+  type PropType,
+  provide,
+  type Slots,
+  shallowRef,
+  watchEffect,
+} from "vue";
+import { useFlowConfig } from "./provider";
+import type { FlowDefinition, UseFlowReturn } from "./types";
+
+// biome-ignore lint/suspicious/noExplicitAny: Injection key requires a concrete type, type safety enforced at usage via generics
+const flowStateKey: InjectionKey<UseFlowReturn<any>> = Symbol("useflow-state");
+
+/**
+ * Get the current flow state from the nearest Flow component
+ *
+ * Use this directly in components when you don't need type-safe navigation,
+ * or use the composable from defineFlow for full type safety.
+ *
+ * @example
+ * ```ts
+ * // In a step component's setup()
+ * const flow = useFlowState<MyContext>();
+ * const name = computed(() => flow.context.name);
+ *
+ * // Type-safe usage (recommended):
+ * const flow = myFlow.useFlowState({ step: "profile" });
+ * flow.next("option1"); // ✅ Type-safe!
+ * ```
+ */
+export function useFlowState<
+  TContext extends FlowContext = FlowContext,
+>(_options?: { step?: string }): UseFlowReturn<TContext> {
+  const state = inject(flowStateKey, null);
+  if (!state) {
+    throw new Error("useFlowState must be used within a Flow component");
+  }
+
+  return state;
+}
+
+/**
+ * Picks the slot for the current step (or the default slot)
+ * Sub-flow steps can use "step.childStep" slots and parallel steps
+ * "step.branch" (nested flows can nest further), falling back to "step"
+ */
+function selectStepSlot(slots: Slots, state: FlowState) {
+  for (const name of getStepKeys(state)) {
+    const slot = slots[name];
+    if (slot) return slot;
+  }
+  return slots.default;
+}
+
+/**
+ * Flow - main component for running a flow
+ *
+ * Renders the slot named after the current step with the flow state as slot
+ * props, or the default slot when there is none. Sub-flow and parallel steps
+ * can use dotted slot names ("checkout.payment"). The `loading` slot is shown
+ * while persisted state is restored.
+ *
+ * Callbacks can be passed as props or listeners (`@complete`, `@next`, ...).
+ * The runtime is created once - change the `key` to start a different flow
+ * or instance.
+ *
+ * @example
+ * ```vue
+ * <Flow :flow="onboardingFlow" :initial-context="{ name: '' }" @complete="done">
+ *   <template #welcome><WelcomeStep /></template>
+ *   <template #profile="{ context }"><ProfileStep :name="context.name" /></template>
+ *   <template #loading><Spinner /></template>
+ * </Flow>
+ * ```
+ */
+export const Flow = defineComponent({
+  name: "Flow",
+  props: {
+    flow: {
+      // biome-ignore lint/suspicious/noExplicitAny: Flows can use any context type
+      type: Object as PropType<RuntimeFlowDefinition<FlowDefinition, any>>,
+      required: true,
+    },
+    initialContext: Object as PropType<FlowContext>,
+    instanceId: String,
+    persister: Object as PropType<FlowPersister>,
+    saveDebounce: Number,
+    saveMode: String as PropType<SaveMode>,
+    onComplete: Function as PropType<(event: { context: FlowContext }) => void>,
+    onNext: Function as PropType<(event: StepChangeEvent) => void>,
+    onSkip: Function as PropType<(event: StepChangeEvent) => void>,
+    onBack: Function as PropType<(event: StepChangeEvent) => void>,
+    onTransition: Function as PropType<
+      (event: StepChangeEvent & { direction: "forward" | "backward" }) => void
+    >,
+    onContextUpdate: Function as PropType<
+      (event: { oldContext: FlowContext; newContext: FlowContext }) => void
+    >,
+    onGuardReject: Function as PropType<
+      (event: GuardRejection & { context: FlowContext }) => void
+    >,
+    onValidationError: Function as PropType<
+      (event: ContextValidationEvent) => void
+    >,
+    onTransitionError: Function as PropType<(error: Error) => void>,
+    onPersistenceError: Function as PropType<(error: Error) => void>,
+    onSave: Function as PropType<(state: PersistedFlowState) => void>,
+    onRestore: Function as PropType<(state: PersistedFlowState) => void>,
+    middleware: Array as PropType<FlowMiddleware[]>,
+    journal: Boolean,
+    undo: [Boolean, Object] as PropType<boolean | UndoOptions>,
+  },
+  setup(props, { slots }) {
+    // Get global config from provider (if available)
+    const globalConfig = useFlowConfig();
+
+    const runtime = createFlowRuntime<FlowDefinition, FlowContext>(props.flow, {
+      initialContext: props.initialContext,
+      persister: props.persister ?? globalConfig.value?.persister,
+    });
+
+    // Merge global and local config (local props override global)
+    watchEffect(
+      () => {
+        const config = globalConfig.value;
+        runtime.setOptions({
+          initialContext: props.initialContext,
+          instanceId: props.instanceId,
+          persister: props.persister ?? config?.persister,
+          saveDebounce: props.saveDebounce ?? config?.saveDebounce ?? 300,
+          saveMode: props.saveMode ?? config?.saveMode ?? "navigation",
+          onComplete: props.onComplete,
+          onNext: props.onNext,
+          onSkip: props.onSkip,
+          onBack: props.onBack,
+          onTransition: props.onTransition,
+          onContextUpdate: props.onContextUpdate,
+          onGuardReject: props.onGuardReject,
+          onValidationError: props.onValidationError,
+          onTransitionError: props.onTransitionError,
+          onPersistenceError:
+            props.onPersistenceError ?? config?.onPersistenceError,
+          onSave: props.onSave,
+          onRestore: props.onRestore,
+          callbacks: config?.callbacks,
+          // Global middleware wraps the flow's own
+          middleware: [
+            ...(config?.middleware ?? []),
+            ...(props.middleware ?? []),
+          ],
+          journal: props.journal,
+          undo: props.undo,
+        });
+      },
+      { flush: "sync" },
+    );
+
+    const snapshot = shallowRef(runtime.getSnapshot());
+    const unsubscribe = runtime.subscribe(() => {
+      snapshot.value = runtime.getSnapshot();
+    });
+
+    // Getters read the snapshot ref, so Vue tracks them in templates and computed()
+    const flowState: UseFlowReturn<FlowContext> = createFlowStateView(
+      runtime,
+      props.flow.config,
+      () => snapshot.value,
+    );
+    provide(flowStateKey, flowState);
+
+    // Restore persisted state after mount and report the flow start
+    onMounted(() => {
+      runtime.start();
+    });
+    onBeforeUnmount(() => {
+      unsubscribe();
+      runtime.stop();
+    });
+
+    return () => {
+      // Show the loading slot while restoring to prevent flash of wrong content
+      if (snapshot.value.isRestoring) {
+        return slots.loading?.();
+      }
+
+      return selectStepSlot(slots, snapshot.value.state)?.(flowState);
+    };
+  },
+});
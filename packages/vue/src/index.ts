@@ -0,0 +1,82 @@
+// Re-export core types and utilities
+// Re-export persister types and factory from core (framework-agnostic)
+// Re-export runtime types from core for convenience
+export type {
+  AsyncStorageOptions,
+  BrowserStorageOptions,
+  Condition,
+  ConditionalTransition,
+  ContextSchema,
+  ContextValidationEvent,
+  FieldCondition,
+  FlowContext,
+  FlowDefinitionIssue,
+  FlowDiagnostic,
+  FlowDispatch,
+  FlowMiddleware,
+  FlowMiddlewareApi,
+  FlowPersister,
+  FlowProgress,
+  FlowRuntimeConfig,
+  FlowStore,
+  GuardEvent,
+  GuardFunction,
+  GuardMap,
+  GuardRejection,
+  GuardResult,
+  JournalEntry,
+  KVFlowStore,
+  KVStorageAdapterOptions,
+  KVStore,
+  MigrateFunction,
+  ParallelState,
+  ParseFlowDefinitionResult,
+  PersistedFlowInstance,
+  PersistedFlowState,
+  PersisterOptions,
+  ResolveFunction,
+  ResolverMap,
+  Serializer,
+  SkipCondition,
+  SkipConditionMap,
+  StepErrors,
+  StepGuards,
+  StepMeta,
+  StepRefs,
+  StepValidator,
+  StringSerializer,
+  SubFlowConfig,
+  SubFlowMap,
+  UndoOptions,
+  ValidationResult,
+  ValidatorMap,
+} from "@useflow/core";
+export {
+  createAsyncStorageStore,
+  createLocalStorageStore,
+  createMemoryStore,
+  createPersister,
+  createSessionStorageStore,
+  FlowDefinitionError,
+  JsonSerializer,
+  kvStorageAdapter,
+  parseFlowDefinition,
+  validatePersistedState,
+} from "@useflow/core";
+
+// Vue-specific exports
+export { defineFlow, RuntimeFlowDefinition } from "./define-flow";
+export { Flow, useFlowState } from "./flow";
+export type {
+  FlowProviderConfig,
+  SaveMode,
+  TransitionEvent,
+} from "./provider";
+export { FlowProvider, useFlowConfig } from "./provider";
+export type {
+  FlowDefinition,
+  StepInfo,
+  StepNames,
+  UseFlowReturn,
+  ValidNextSteps,
+} from "./types";
@@ -0,0 +1,95 @@
+import { createMemoryStore, createPersister } from "@useflow/core";
+import { flushPromises, mount } from "@vue/test-utils";
+import { describe, expect, it, vi } from "vitest";
+import { defineComponent, h } from "vue";
+import { defineFlow } from "./define-flow";
+import { Flow } from "./flow";
+import { FlowProvider, useFlowConfig } from "./provider";
+
+const flow = defineFlow({
+  id: "test",
+  start: "step1",
+  steps: {
+    step1: { next: "step2" },
+    step2: {},
+  },
+});
+
+describe("FlowProvider", () => {
+  it("should provide config to useFlowConfig", () => {
+    const config = { saveMode: "manual" as const };
+    let provided: unknown;
+    const Child = defineComponent({
+      setup() {
+        const globalConfig = useFlowConfig();
+        provided = globalConfig.value;
+        return () => null;
+      },
+    });
+
+    mount(FlowProvider, {
+      props: { config },
+      slots: { default: () => h(Child) },
+    });
+
+    expect(provided).toEqual(config);
+  });
+
+  it("should return null without a provider", () => {
+    let provided: unknown;
+    const Child = defineComponent({
+      setup() {
+        provided = useFlowConfig().value;
+        return () => null;
+      },
+    });
+
+    mount(Child);
+
+    expect(provided).toBeNull();
+  });
+
+  it("should apply the persister and global callbacks to flows", async () => {
+    const persister = createPersister({ store: createMemoryStore() });
+    const save = vi.spyOn(persister, "save");
+    const onFlowStart = vi.fn();
+    const onStepTransition = vi.fn();
+
+    const wrapper = mount(FlowProvider, {
+      props: {
+        config: {
+          persister,
+          saveDebounce: 0,
+          callbacks: { onFlowStart, onStepTransition },
+        },
+      },
+      slots: {
+        default: () =>
+          h(
+            Flow,
+            { flow, instanceId: "a" },
+            {
+              default: ({ next }: { next: () => void }) =>
+                h("button", { onClick: () => next() }, "Next"),
+            },
+          ),
+      },
+    });
+
+    await flushPromises();
+    expect(onFlowStart).toHaveBeenCalledWith(
+      expect.objectContaining({ flowId: "test", instanceId: "a" }),
+    );
+
+    await wrapper.find("button").trigger("click");
+
+    expect(onStepTransition).toHaveBeenCalledWith(
+      expect.objectContaining({ from: "step1", to: "step2" }),
+    );
+    expect(save).toHaveBeenCalledWith(
+      "test",
+      expect.objectContaining({ stepId: "step2" }),
+      expect.objectContaining({ instanceId: "a" }),
+    );
+  });
+});
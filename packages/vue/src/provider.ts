@@ -0,0 +1,115 @@
+import type {
+  FlowMiddleware,
+  FlowPersister,
+  GlobalFlowCallbacks,
+  SaveMode,
+} from "@useflow/core";
+import {
+  type ComputedRef,
+  computed,
+  defineComponent,
+  type InjectionKey,
+  inject,
+  type PropType,
+  provide,
+} from "vue";
+
+export type { SaveMode, TransitionEvent } from "@useflow/core";
+
+/**
+ * Configuration for the FlowProvider
+ *
+ * Provides default settings for all flows in your application.
+ * Individual Flow components can override these defaults by passing props directly.
+ */
+export interface FlowProviderConfig {
+  /**
+   * Default persister for all flows
+   * Can be overridden per-flow by passing persister prop to Flow component
+   */
+  persister?: FlowPersister;
+
+  /**
+   * Default save mode for all flows
+   * - "always": Save on every state change (context updates, navigation)
+   * - "navigation": Save only on navigation (next/skip/back)
+   * - "manual": Only save when calling save() explicitly
+   *
+   * @default "navigation"
+   */
+  saveMode?: SaveMode;
+
+  /**
+   * Default debounce delay (in ms) for save operations
+   *
+   * @default 300
+   */
+  saveDebounce?: number;
+
+  /**
+   * Global error handler for persistence failures
+   * Called when save/restore/remove operations fail
+   */
+  onPersistenceError?: (error: Error) => void;
+
+  /**
+   * Global callbacks for flow lifecycle events
+   */
+  callbacks?: GlobalFlowCallbacks;
+
+  /**
+   * Middleware for all flows
+   * Runs before (outside) the middleware passed to each Flow
+   */
+  middleware?: FlowMiddleware[];
+}
+
+const flowConfigKey: InjectionKey<ComputedRef<FlowProviderConfig>> =
+  Symbol("useflow-config");
+
+/**
+ * Provider component for global flow configuration
+ *
+ * Wrap your app with this component to provide default settings for all flows.
+ * Individual Flow components can override these defaults by passing props directly.
+ *
+ * @example
+ * ```vue
+ * <FlowProvider :config="{ persister, saveMode: 'always' }">
+ *   <App />
+ * </FlowProvider>
+ * ```
+ */
+export const FlowProvider = defineComponent({
+  name: "FlowProvider",
+  props: {
+    config: {
+      type: Object as PropType<FlowProviderConfig>,
+      required: true,
+    },
+  },
+  setup(props, { slots }) {
+    provide(
+      flowConfigKey,
+      computed(() => props.config),
+    );
+    return () => slots.default?.();
+  },
+});
+
+/**
+ * Composable to access global flow configuration
+ *
+ * Use this in custom components or composables to access the global flow config.
+ * The value is null if no FlowProvider is present in the component tree.
+ *
+ * @example
+ * ```ts
+ * const globalConfig = useFlowConfig();
+ * const persister = computed(() => globalConfig.value?.persister);
+ * ```
+ */
+export function useFlowConfig(): ComputedRef<FlowProviderConfig | null> {
+  const config = inject(flowConfigKey, null);
+  return computed(() => config?.value ?? null);
+}
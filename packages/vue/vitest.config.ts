@@ -0,0 +1,21 @@
+import tsconfigPaths from "vite-tsconfig-paths";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  plugins: [tsconfigPaths()],
+  test: {
+    globals: true,
+    environment: "jsdom",
+    silent: true,
+    coverage: {
+      include: ["src/**/*.ts"],
+      exclude: [
+        "**/*.config.{ts,js}",
+        "**/tsconfig.json",
+        "**/dist/**",
+        "**/node_modules/**",
+        "**/*.test.ts",
+      ],
+    },
+  },
+});